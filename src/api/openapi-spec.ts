@@ -620,12 +620,26 @@ export const openApiSpec = {
               schema: {
                 type: 'object',
                 properties: {
-                  tier: { type: 'string', enum: ['tier1', 'tier2', 'tier3'], default: 'tier1' },
+                  tier: { type: 'string', default: 'tier1', description: 'One tier, a comma-separated list (tier1,tier2) or all' },
                   edition: { type: 'string', enum: ['starter', 'standard', 'premium', 'shopifymarkets'] },
                   input: { type: 'string', default: './input' },
                   config: { type: 'string', default: './config' },
+                  source: { type: 'string', enum: ['auto', 'csv', 'jsonl', 'sqlite', 'json-directory'], default: 'auto', description: 'Snapshot source; auto detects it from the files in <input>/<tier>' },
+                  sourcePath: { type: 'string', description: 'SQLite database file or snapshot directory (default: <input>/<tier>)' },
+                  csvProfile: { type: 'string', default: 'default', pattern: '^[\\w-]+$', description: 'CSV column-mapping profile name from <config>/csv-profiles' },
                   output: { type: 'string', default: './output' },
-                  operatorId: { type: 'string' }
+                  operatorId: { type: 'string' },
+                  sample: {
+                    type: 'object',
+                    description: 'Integrations to audit; defaults to a random sample of 100',
+                    properties: {
+                      mode: { type: 'string', enum: ['random', 'stratified', 'top-settings-size'] },
+                      size: { type: 'integer', default: 100 },
+                      seed: { type: 'integer', description: 'Random and stratified modes; generated and returned when omitted' },
+                      stratifyBy: { type: 'string', enum: ['edition', 'version', 'storeCount'], default: 'edition' }
+                    }
+                  },
+                  rankLimit: { type: 'integer', default: 20, description: 'Number of corrupted integrations returned in riskRanking' }
                 }
               }
             }
@@ -643,8 +657,37 @@ export const openApiSpec = {
                     audit: {
                       type: 'object',
                       properties: {
-                        integrationsAudited: { type: 'integer' },
+                        totalIntegrations: { type: 'integer', description: 'Integrations read from the source' },
+                        integrationsAudited: { type: 'integer', description: 'Integrations in the sample' },
                         corruptionsDetected: { type: 'integer' },
+                        sample: {
+                          type: 'object',
+                          description: 'Sampling mode, seed, strata and the sampled integration IDs',
+                          properties: {
+                            mode: { type: 'string' },
+                            seed: { type: 'integer' },
+                            populationSize: { type: 'integer' },
+                            sampleSize: { type: 'integer' },
+                            integrationIds: { type: 'array', items: { type: 'string' } }
+                          }
+                        },
+                        estimates: {
+                          type: 'object',
+                          description: 'Corruption rate extrapolated to the population with a 95% confidence interval (not for top-settings-size)',
+                          properties: {
+                            confidence: { type: 'number', example: 0.95 },
+                            excludedCount: { type: 'integer', description: 'Sampled integrations left out of the rates because they were quarantined or failed detection' },
+                            corruptionRate: {
+                              type: 'object',
+                              properties: {
+                                rate: { type: 'number' },
+                                lower: { type: 'number' },
+                                upper: { type: 'number' },
+                                estimatedCount: { type: 'integer' }
+                              }
+                            }
+                          }
+                        },
                         severityBreakdown: {
                           type: 'object',
                           properties: {
@@ -653,6 +696,174 @@ export const openApiSpec = {
                             medium: { type: 'integer' },
                             low: { type: 'integer' }
                           }
+                        },
+                        riskRanking: {
+                          type: 'array',
+                          description: 'Corrupted integrations ordered by weighted risk score (riskScoring in the business rules), highest first',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              integrationId: { type: 'string' },
+                              email: { type: 'string' },
+                              tier: { type: 'string' },
+                              riskScore: { type: 'number', minimum: 0, maximum: 100 },
+                              overallSeverity: { type: 'string' },
+                              corruptionTypes: { type: 'array', items: { type: 'string' } }
+                            }
+                          }
+                        }
+                      }
+                    },
+                    timestamp: { type: 'string', format: 'date-time' }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    '/api/audit/settings-profile/{tier}': {
+      post: {
+        tags: ['Audit'],
+        summary: 'Settings Size and Shape Profile',
+        description: 'CLI equivalent: integration-auditor settings-profile --tier tier1',
+        operationId: 'profileSettings',
+        parameters: [
+          { name: 'tier', in: 'path', required: true, schema: { type: 'string' } }
+        ],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  input: { type: 'string', default: './input' },
+                  config: { type: 'string', default: './config' },
+                  source: { type: 'string', enum: ['auto', 'csv', 'jsonl', 'sqlite', 'json-directory'], default: 'auto' },
+                  sourcePath: { type: 'string' },
+                  csvProfile: { type: 'string', default: 'default', pattern: '^[\\w-]+$' },
+                  product: { type: 'string', default: 'shopify-netsuite', description: 'Product whose maxSettingsSize is compared' },
+                  version: { type: 'string', default: '1.51.0' }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          '200': {
+            description: 'Distribution of settings size, nesting depth, key count and parse status',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    status: { type: 'string', example: 'success' },
+                    tier: { type: 'string' },
+                    profile: {
+                      type: 'object',
+                      properties: {
+                        totalIntegrations: { type: 'integer' },
+                        parseStatus: { type: 'object', additionalProperties: { type: 'integer' } },
+                        sizeBytes: { type: 'object', description: 'min, max, mean, p50, p90, p95, p99' },
+                        depth: { type: 'object' },
+                        keyCount: { type: 'object' },
+                        sizeHistogram: { type: 'array', items: { type: 'object' } },
+                        maxSettingsSize: { type: 'integer' },
+                        overSizeLimit: { type: 'integer' },
+                        largest: { type: 'array', items: { type: 'object' } },
+                        topLevelKeys: { type: 'array', items: { type: 'object' } }
+                      }
+                    },
+                    timestamp: { type: 'string', format: 'date-time' }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    '/api/audit/explain/{integrationId}': {
+      post: {
+        tags: ['Audit'],
+        summary: 'Explain Detection for One Integration',
+        description: 'Re-runs detection on one integration and returns, per event, the operators evaluated, the fact values they saw, the configuration thresholds applied and the configuration file and version',
+        operationId: 'explainIntegration',
+        parameters: [
+          { name: 'integrationId', in: 'path', required: true, schema: { type: 'string' } }
+        ],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  tier: { type: 'string', default: 'tier1' },
+                  input: { type: 'string', default: './input' },
+                  config: { type: 'string', default: './config' },
+                  source: { type: 'string', enum: ['auto', 'csv', 'jsonl', 'sqlite', 'json-directory'], default: 'auto' },
+                  sourcePath: { type: 'string' },
+                  csvProfile: { type: 'string', default: 'default', pattern: '^[\\w-]+$' },
+                  product: { type: 'string', default: 'shopify-netsuite' },
+                  version: { type: 'string', default: '1.51.0' }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          '200': {
+            description: 'Explanation trace of every corruption event',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    status: { type: 'string', example: 'success' },
+                    integrationId: { type: 'string' },
+                    overallSeverity: { type: 'string' },
+                    configApplied: { type: 'object' },
+                    rulesApplied: { type: 'array', items: { type: 'string' } },
+                    explanations: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          corruptionType: { type: 'string' },
+                          severity: { type: 'string' },
+                          details: { type: 'object' },
+                          trace: {
+                            type: 'object',
+                            properties: {
+                              ruleId: { type: 'string' },
+                              corruptionType: { type: 'string' },
+                              conditions: {
+                                type: 'array',
+                                items: {
+                                  type: 'object',
+                                  properties: {
+                                    fact: { type: 'string' },
+                                    path: { type: 'string' },
+                                    operator: { type: 'string' },
+                                    value: {},
+                                    observed: { description: 'Fact values the operator saw' },
+                                    result: { type: 'boolean' }
+                                  }
+                                }
+                              },
+                              thresholds: { type: 'object', description: 'Configuration values applied, by operator' },
+                              configSource: {
+                                type: 'object',
+                                properties: {
+                                  product: { type: 'string' },
+                                  version: { type: 'string' },
+                                  versionRange: { type: 'string' },
+                                  configPath: { type: 'string', nullable: true }
+                                }
+                              }
+                            }
+                          }
                         }
                       }
                     },
@@ -661,6 +872,14 @@ export const openApiSpec = {
                 }
               }
             }
+          },
+          '404': {
+            description: 'Integration not found in the snapshot source',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' }
+              }
+            }
           }
         }
       }
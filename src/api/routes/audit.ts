@@ -3,12 +3,139 @@
  * CLI 'audit' command API equivalents
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { DataDrivenCorruptionDetector } from '../../rules/data-driven-corruption-detector';
-import { CSVProcessor } from '../../csv/csv-processor';
+import { createSnapshotSource } from '../../input/source-factory';
+import { ConfigurationManager } from '../../config/configuration-manager';
+import { SettingsProfileAggregator } from '../../csv/settings-profile';
+import { IntegrationSampler, SamplingOptions, createSamplingOptions } from '../../sampling/integration-sampler';
+import { rankByRiskScore } from '../../rules/risk-scoring';
+import { isValidProfileName } from '../../csv/csv-profile';
+import * as path from 'path';
 
 export const auditRoutes = Router();
 
+// Without a sample in the request body the API audits a random 100 so responses stay fast
+const DEFAULT_API_SAMPLE: SamplingOptions = { mode: 'random', size: 100 };
+
+/**
+ * Reject a body.csvProfile that is not a plain profile name before it reaches the profiles directory
+ */
+function rejectInvalidCsvProfile(req: Request, res: Response, next: NextFunction) {
+  const csvProfile = req.body?.csvProfile;
+  if (csvProfile !== undefined && !isValidProfileName(csvProfile)) {
+    return res.status(400).json({
+      error: `Invalid CSV profile name: ${csvProfile}`,
+      expected: 'letters, digits, _ and - only',
+      timestamp: new Date().toISOString()
+    });
+  }
+  return next();
+}
+
+/**
+ * Stream snapshots from the source described by the request body and run detection
+ * on the requested sample (body.sample: { mode, size, seed, stratifyBy })
+ */
+async function auditSnapshotSource(
+  body: any,
+  tier: string,
+  corruptionDetector: DataDrivenCorruptionDetector
+) {
+  const {
+    input = './input',
+    config = './config',
+    source = 'auto',
+    sourcePath,
+    csvProfile = 'default',
+    sample,
+    rankLimit = 20
+  } = body;
+  const sampler = new IntegrationSampler(createSamplingOptions(sample) || DEFAULT_API_SAMPLE);
+
+  const snapshotSource = await createSnapshotSource({
+    type: source,
+    inputDirectory: input,
+    tier,
+    path: sourcePath,
+    batchSize: 100,
+    csvProfile,
+    csvProfilesDirectory: path.join(config, 'csv-profiles'),
+    validateHeaders: true
+  });
+  const result = snapshotSource.createProcessingResult();
+
+  const severityBreakdown = {
+    critical: 0,
+    high: 0,
+    medium: 0,
+    low: 0
+  };
+  let corruptionsDetected = 0;
+  const flagged: Array<{ integrationId: string; email: string; tier: string; riskScore: number; overallSeverity: string; corruptionTypes: string[] }> = [];
+  const byTier: Record<string, { integrationsAudited: number; corruptionsDetected: number }> = {};
+
+  for await (const batch of sampler.select(snapshotSource.streamIntegrations(result))) {
+    for (const integration of batch) {
+      // Quarantined rows are counted in the data-quality report, not audited on substituted values
+      if (integration.quarantined) continue;
+      const sampleTier = integration.tier || tier;
+      byTier[sampleTier] = byTier[sampleTier] || { integrationsAudited: 0, corruptionsDetected: 0 };
+      byTier[sampleTier].integrationsAudited++;
+
+      const corruptionResult = await corruptionDetector.detectCorruption(integration, {});
+      sampler.recordOutcome(integration, corruptionResult.corruptionEvents.map(event => event.params.corruptionType));
+      if (corruptionResult.corruptionEvents.length > 0) {
+        corruptionsDetected++;
+        byTier[sampleTier].corruptionsDetected++;
+        flagged.push({
+          integrationId: integration.id,
+          email: integration.email,
+          tier: sampleTier,
+          riskScore: corruptionResult.riskScore,
+          overallSeverity: corruptionResult.overallSeverity,
+          corruptionTypes: corruptionResult.corruptionEvents.map(event => event.params.corruptionType)
+        });
+
+        // Categorize by severity
+        for (const event of corruptionResult.corruptionEvents) {
+          const severity = event.params.severity;
+          if (severity in severityBreakdown) {
+            severityBreakdown[severity as keyof typeof severityBreakdown]++;
+          }
+        }
+      }
+    }
+  }
+
+  const sampleRecord = sampler.getRecord();
+
+  return {
+    totalIntegrations: sampleRecord.populationSize,
+    integrationsAudited: sampleRecord.sampleSize,
+    corruptionsDetected,
+    severityBreakdown,
+    // Corrupted integrations, highest weighted risk score first
+    riskRanking: rankByRiskScore(flagged, Number(rankLimit)),
+    sample: sampleRecord,
+    estimates: sampler.getEstimates(),
+    byTier,
+    tiers: result.tiers,
+    crossTierDuplicates: result.crossTierDuplicates,
+    source: { type: snapshotSource.type, location: snapshotSource.location },
+    csvProfile,
+    inputWarnings: result.warnings,
+    inputErrors: result.errors,
+    dataQuality: result.dataQuality && {
+      qualityScore: result.dataQuality.qualityScore,
+      totalRows: result.dataQuality.totalRows,
+      rowsWithIssues: result.dataQuality.rowsWithIssues,
+      rowsQuarantined: result.dataQuality.rowsQuarantined,
+      issueCounts: result.dataQuality.issueCounts
+    }
+  };
+}
+
 /**
  * @swagger
  * /api/audit/run:
@@ -17,19 +144,12 @@ export const auditRoutes = Router();
  *     summary: Run Audit
  *     description: CLI equivalent - integration-auditor audit --tier tier1
  */
-auditRoutes.post('/audit/run', async (req: Request, res: Response) => {
+auditRoutes.post('/audit/run', rejectInvalidCsvProfile, async (req: Request, res: Response) => {
   try {
-    const {
-      tier = 'tier1',
-      edition,
-      input = './input',
-      config = './config',
-      operatorId = 'api-user'
-    } = req.body;
+    const { tier = 'tier1', edition } = req.body;
 
     // Initialize components
     const corruptionDetector = new DataDrivenCorruptionDetector();
-    const csvProcessor = new CSVProcessor();
 
     // Map edition to product
     const product = 'shopify-netsuite'; // Default product
@@ -37,44 +157,12 @@ auditRoutes.post('/audit/run', async (req: Request, res: Response) => {
 
     await corruptionDetector.initialize(product, version);
 
-    // Load CSV data
-    const csvResult = await csvProcessor.processCSVFiles({
-      inputDirectory: input,
-      tier,
-      batchSize: 100
-    });
-    const integrations = csvResult.integrations;
-    
-    // Run audit on sample of integrations for API response
     const auditResults = {
-      integrationsAudited: integrations.length,
-      corruptionsDetected: 0,
-      severityBreakdown: {
-        critical: 0,
-        high: 0,
-        medium: 0,
-        low: 0
-      },
+      ...await auditSnapshotSource(req.body, tier, corruptionDetector),
       tier,
       edition: edition || 'all'
     };
 
-    // Process sample integrations
-    for (const integration of integrations.slice(0, 100)) {
-      const corruptionResult = await corruptionDetector.detectCorruption(integration, {});
-      if (corruptionResult.corruptionEvents.length > 0) {
-        auditResults.corruptionsDetected++;
-        
-        // Categorize by severity
-        for (const event of corruptionResult.corruptionEvents) {
-          const severity = event.params.severity;
-          if (severity in auditResults.severityBreakdown) {
-            auditResults.severityBreakdown[severity as keyof typeof auditResults.severityBreakdown]++;
-          }
-        }
-      }
-    }
-
     res.json({
       status: 'success',
       audit: auditResults,
@@ -98,22 +186,18 @@ auditRoutes.post('/audit/run', async (req: Request, res: Response) => {
  *     summary: Audit Specific Tier
  *     description: Audit integrations in a specific tier
  */
-auditRoutes.post('/audit/tier/:tier', async (req: Request, res: Response) => {
+auditRoutes.post('/audit/tier/:tier', rejectInvalidCsvProfile, async (req: Request, res: Response) => {
   try {
-    const tier = req.params['tier'];
-    const { edition, operatorId = 'api-user' } = req.body;
+    const tier = req.params['tier'] as string;
+    const { edition, product = 'shopify-netsuite', version = '1.51.0' } = req.body;
+
+    const corruptionDetector = new DataDrivenCorruptionDetector();
+    await corruptionDetector.initialize(product, version);
 
     const auditResults = {
       tier,
       edition: edition || 'all',
-      integrationsAudited: 50, // Mock data for now
-      corruptionsDetected: 12,
-      severityBreakdown: {
-        critical: 2,
-        high: 4,
-        medium: 4,
-        low: 2
-      }
+      ...await auditSnapshotSource(req.body, tier, corruptionDetector)
     };
 
     res.json({
@@ -131,6 +215,67 @@ auditRoutes.post('/audit/tier/:tier', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/audit/settings-profile/{tier}:
+ *   post:
+ *     tags: [Audit]
+ *     summary: Settings Size and Shape Profile
+ *     description: CLI equivalent - integration-auditor settings-profile --tier tier1
+ */
+auditRoutes.post('/audit/settings-profile/:tier', rejectInvalidCsvProfile, async (req: Request, res: Response) => {
+  try {
+    const tier = req.params['tier'] as string;
+    const {
+      input = './input',
+      config = './config',
+      source = 'auto',
+      sourcePath,
+      csvProfile = 'default',
+      product = 'shopify-netsuite',
+      version = '1.51.0'
+    } = req.body || {};
+
+    const configManager = new ConfigurationManager(config);
+    await configManager.initialize();
+    const businessConfig = await configManager.loadConfiguration(product, version);
+
+    const snapshotSource = await createSnapshotSource({
+      type: source,
+      inputDirectory: input,
+      tier,
+      path: sourcePath,
+      csvProfile,
+      csvProfilesDirectory: path.join(config, 'csv-profiles')
+    });
+
+    const aggregator = new SettingsProfileAggregator(businessConfig.licenseValidation?.maxSettingsSize);
+    const inputResult = snapshotSource.createProcessingResult();
+    for await (const batch of snapshotSource.streamIntegrations(inputResult)) {
+      batch.forEach(integration => aggregator.add(integration));
+    }
+
+    return res.json({
+      status: 'success',
+      tier,
+      product,
+      version,
+      source: { type: snapshotSource.type, location: snapshotSource.location },
+      profile: aggregator.getReport(),
+      inputWarnings: inputResult.warnings,
+      inputErrors: inputResult.errors,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return res.status(500).json({
+      error: `Settings profile for tier ${req.params['tier']} failed`,
+      details: (error as Error).message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/audit/product/{product}:
@@ -139,10 +284,10 @@ auditRoutes.post('/audit/tier/:tier', async (req: Request, res: Response) => {
  *     summary: Audit Specific Product
  *     description: CLI equivalent - integration-auditor audit --product shopify-hubspot
  */
-auditRoutes.post('/audit/product/:product', async (req: Request, res: Response) => {
+auditRoutes.post('/audit/product/:product', rejectInvalidCsvProfile, async (req: Request, res: Response) => {
   try {
     const product = req.params['product'];
-    const { tier = 'tier1', version = '1.51.0', operatorId = 'api-user' } = req.body;
+    const { tier = 'tier1', version = '1.51.0' } = req.body;
 
     // Initialize components for specific product
     const corruptionDetector = new DataDrivenCorruptionDetector();
@@ -152,14 +297,7 @@ auditRoutes.post('/audit/product/:product', async (req: Request, res: Response)
       product,
       version,
       tier,
-      integrationsAudited: 25, // Mock data for specific product
-      corruptionsDetected: 8,
-      severityBreakdown: {
-        critical: 1,
-        high: 2,
-        medium: 3,
-        low: 2
-      }
+      ...await auditSnapshotSource(req.body, tier, corruptionDetector)
     };
 
     return res.json({
@@ -176,3 +314,87 @@ auditRoutes.post('/audit/product/:product', async (req: Request, res: Response)
     });
   }
 });
+
+/**
+ * @swagger
+ * /api/audit/explain/{integrationId}:
+ *   post:
+ *     tags: [Audit]
+ *     summary: Explain Detection for One Integration
+ *     description: CLI equivalent - integration-auditor audit --explain, for a single integration
+ */
+auditRoutes.post('/audit/explain/:integrationId', rejectInvalidCsvProfile, async (req: Request, res: Response) => {
+  try {
+    const integrationId = req.params['integrationId'] as string;
+    const {
+      tier = 'tier1',
+      input = './input',
+      config = './config',
+      source = 'auto',
+      sourcePath,
+      csvProfile = 'default',
+      product = 'shopify-netsuite',
+      version = '1.51.0'
+    } = req.body || {};
+
+    const corruptionDetector = new DataDrivenCorruptionDetector();
+    await corruptionDetector.initialize(product, version);
+
+    const snapshotSource = await createSnapshotSource({
+      type: source,
+      inputDirectory: input,
+      tier,
+      path: sourcePath,
+      batchSize: 100,
+      csvProfile,
+      csvProfilesDirectory: path.join(config, 'csv-profiles')
+    });
+    const inputResult = snapshotSource.createProcessingResult();
+
+    let integration;
+    for await (const batch of snapshotSource.streamIntegrations(inputResult)) {
+      integration = batch.find(candidate => candidate.id === integrationId);
+      if (integration) break;
+    }
+
+    if (!integration) {
+      return res.status(404).json({
+        error: `Integration ${integrationId} not found`,
+        source: { type: snapshotSource.type, location: snapshotSource.location },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (integration.quarantined) {
+      return res.status(422).json({
+        error: `Integration ${integrationId} is quarantined by data-quality checks; see the data-quality report`,
+        source: { type: snapshotSource.type, location: snapshotSource.location },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const corruptionResult = await corruptionDetector.detectCorruption(integration, {}, { explain: true });
+
+    return res.json({
+      status: 'success',
+      integrationId,
+      overallSeverity: corruptionResult.overallSeverity,
+      configApplied: corruptionResult.configApplied,
+      rulesApplied: corruptionResult.rulesApplied,
+      explanations: corruptionResult.corruptionEvents.map(event => ({
+        corruptionType: event.params.corruptionType,
+        severity: event.params.severity,
+        details: event.params.details,
+        trace: event.metadata?.explanation
+      })),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return res.status(500).json({
+      error: `Explain for integration ${req.params['integrationId']} failed`,
+      details: (error as Error).message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
@@ -27,7 +27,7 @@ cliRoutes.post('/execute', async (req: Request, res: Response) => {
     if (!command) {
       return res.status(400).json({
         error: 'Command is required',
-        availableCommands: ['fix', 'audit', 'status', 'state', 'config', 'products', 'business-rules']
+        availableCommands: ['fix', 'audit', 'settings-profile', 'status', 'state', 'config', 'products', 'business-rules']
       });
     }
 
@@ -104,12 +104,19 @@ cliRoutes.get('/commands', (req: Request, res: Response) => {
           '--force-confirmation': 'Skip confirmation prompts',
           '--create-restore-bundle': 'Create backup before execution',
           '--maintenance-window': 'Only run during maintenance window',
-          '--tier': 'Tier to process (tier1, tier2, tier3)',
-          '--input': 'Input directory containing CSV files',
+          '--tier': 'Tier(s) to process: tier1, a comma-separated list (tier1,tier2) or all',
+          '--input': 'Input directory containing CSV or JSON Lines files',
+          '--source': 'Snapshot source: auto, csv, jsonl, sqlite, json-directory (default: auto)',
+          '--source-path': 'SQLite database file or snapshot directory (default: <input>/<tier>)',
+          '--csv-profile': 'CSV column-mapping profile from <config>/csv-profiles (default: default)',
           '--config': 'Business rules configuration directory',
           '--output': 'Output directory for results',
           '--force-reprocess': 'Force reprocessing of all integrations',
-          '--max-age': 'Maximum age in hours before reprocessing'
+          '--max-age': 'Maximum age in hours before reprocessing',
+          '--sample': 'Process a sample instead of every integration: random, stratified, top-settings-size',
+          '--sample-size': 'Number of integrations to sample (default: 100)',
+          '--sample-seed': 'Seed for random and stratified sampling (generated and recorded when omitted)',
+          '--stratify-by': 'Field to stratify by: edition, version, storeCount (default: edition)'
         },
         examples: [
           'integration-auditor fix --edition premium --dry-run',
@@ -120,16 +127,44 @@ cliRoutes.get('/commands', (req: Request, res: Response) => {
       audit: {
         description: 'Audit integrations using data-driven business rules',
         options: {
-          '--tier': 'Tier to process (tier1, tier2, tier3)',
-          '--input': 'Input directory containing CSV files',
+          '--tier': 'Tier(s) to process: tier1, a comma-separated list (tier1,tier2) or all',
+          '--input': 'Input directory containing CSV or JSON Lines files',
+          '--source': 'Snapshot source: auto, csv, jsonl, sqlite, json-directory (default: auto)',
+          '--source-path': 'SQLite database file or snapshot directory (default: <input>/<tier>)',
+          '--csv-profile': 'CSV column-mapping profile from <config>/csv-profiles (default: default)',
           '--config': 'Business rules configuration directory',
           '--product': 'Product to validate (shopify-netsuite, shopify-hubspot)',
           '--version': 'Configuration version to use',
-          '--output': 'Output directory for results'
+          '--output': 'Output directory for results',
+          '--sample': 'Process a sample instead of every integration: random, stratified, top-settings-size',
+          '--sample-size': 'Number of integrations to sample (default: 100)',
+          '--sample-seed': 'Seed for random and stratified sampling (generated and recorded when omitted)',
+          '--stratify-by': 'Field to stratify by: edition, version, storeCount (default: edition)'
         },
         examples: [
           'integration-auditor audit --tier tier1',
-          'integration-auditor audit --tier tier1 --product shopify-netsuite'
+          'integration-auditor audit --tier tier1 --product shopify-netsuite',
+          'integration-auditor audit --tier tier1 --csv-profile tier1',
+          'integration-auditor audit --tier all',
+          'integration-auditor audit --tier tier1 --sample stratified --sample-size 500 --stratify-by edition'
+        ]
+      },
+      'settings-profile': {
+        description: 'Profile settings size, nesting depth, key count and parse status across a tier',
+        options: {
+          '--tier': 'Tier(s) to profile: tier1, a comma-separated list (tier1,tier2) or all',
+          '--input': 'Input directory containing CSV or JSON Lines files',
+          '--source': 'Snapshot source: auto, csv, jsonl, sqlite, json-directory (default: auto)',
+          '--source-path': 'SQLite database file or snapshot directory (default: <input>/<tier>)',
+          '--csv-profile': 'CSV column-mapping profile from <config>/csv-profiles (default: default)',
+          '--config': 'Business rules configuration directory',
+          '--product': 'Product whose maxSettingsSize is compared',
+          '--version': 'Configuration version to use',
+          '--output': 'Write the full report as JSON'
+        },
+        examples: [
+          'integration-auditor settings-profile --tier tier1',
+          'integration-auditor settings-profile --tier tier2 --output ./output/settings-profile.json'
         ]
       },
       status: {
@@ -184,11 +219,13 @@ cliRoutes.get('/commands', (req: Request, res: Response) => {
           '--edition': 'Show requirements for specific edition',
           '--product': 'Product to show rules for',
           '--version': 'Version to show rules for',
-          '--config-path': 'Configuration directory path'
+          '--config-path': 'Configuration directory path',
+          '--resolved': 'Show effective requirements after inheritance and where each one comes from'
         },
         examples: [
           'integration-auditor business-rules',
-          'integration-auditor business-rules --edition premium'
+          'integration-auditor business-rules --edition premium',
+          'integration-auditor business-rules --edition markets --resolved'
         ]
       }
     },
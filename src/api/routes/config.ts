@@ -5,6 +5,7 @@
 
 import { Router, Request, Response } from 'express';
 import * as fs from 'fs/promises';
+import { ConfigurationManager } from '../../config/configuration-manager';
 
 export const configRoutes = Router();
 
@@ -47,15 +48,28 @@ configRoutes.get('/', async (req: Request, res: Response) => {
  */
 configRoutes.post('/validate', async (req: Request, res: Response) => {
   try {
-    const { configType, config } = req.body;
-    
-    // Basic validation - in production this would use JSON Schema
-    const isValid = configType && config && typeof config === 'object';
+    const { configType, config, configPath = './config' } = req.body;
+    const configManager = new ConfigurationManager(configPath);
+
+    // Business rules are checked against schemas/business-rules-schema.json; without a document, every discovered file is
+    let errors: string[] = [];
+    let files;
+    if (!config) {
+      files = await configManager.validateAllConfigurations();
+      errors = files.flatMap(file => file.errors.map(error => `${file.configPath}: ${error}`));
+    } else if (typeof config !== 'object') {
+      errors = ['config must be an object'];
+    } else if (configType === 'business-rules') {
+      errors = await configManager.validateAgainstSchema(config);
+    }
+    const isValid = errors.length === 0;
     
     res.json({
       status: 'success',
       valid: isValid,
       configType,
+      errors,
+      ...(files && { files }),
       validatedAt: new Date().toISOString(),
       message: isValid ? 'Configuration is valid' : 'Configuration validation failed'
     });
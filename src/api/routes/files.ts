@@ -10,9 +10,20 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { createReadStream, createWriteStream } from 'fs';
 import { pipeline } from 'stream/promises';
+import { openCSVFile, removeLooseCSVFiles, resolveCSVFile, resolveTierDirectory, GZIP_EXTENSION, ZIP_EXTENSION } from '../../csv/tier-archive';
+import { CSVProcessor } from '../../csv/csv-processor';
+import { isValidProfileName } from '../../csv/csv-profile';
+import { SchemaDriftReport } from '../../csv/schema-drift';
+import { StateManager } from '../../state/state-manager';
 
 export const filesRoutes = Router();
 
+const validCsvTypes = ['integrations', 'imports', 'exports', 'flows', 'connections'];
+const acceptedExtensions = ['.csv', `.csv${GZIP_EXTENSION}`, ZIP_EXTENSION];
+
+// Header fingerprints recorded by CLI audits of each tier
+const fingerprintStore = new StateManager('./state/processing-state.db');
+
 // Configure multer for large file uploads
 const storage = multer.diskStorage({
   destination: async (req, file, cb) => {
@@ -35,11 +46,11 @@ const upload = multer({
     fieldSize: 100 * 1024 * 1024 // 100MB field size
   },
   fileFilter: (req, file, cb) => {
-    // Only accept CSV files
-    if (file.mimetype === 'text/csv' || file.originalname.endsWith('.csv')) {
+    // Accept CSV files, gzipped CSV files and zipped tier archives
+    if (file.mimetype === 'text/csv' || getUploadExtension(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Only CSV files are allowed'));
+      cb(new Error(`Only ${acceptedExtensions.join(', ')} files are allowed`));
     }
   }
 });
@@ -50,7 +61,8 @@ const upload = multer({
  *   post:
  *     tags: [Files]
  *     summary: Upload CSV File to Tier
- *     description: Upload CSV files for processing (supports gigabyte-sized files)
+ *     description: Upload a CSV file, a gzipped CSV file or a zipped tier archive (supports gigabyte-sized files).
+ *       Archives are stored as uploaded and unpacked at audit time.
  *     consumes:
  *       - multipart/form-data
  */
@@ -63,12 +75,14 @@ filesRoutes.post('/upload/tier/:tier', upload.single('csvFile'), async (req: Req
     if (!file) {
       return res.status(400).json({
         error: 'No file uploaded',
-        acceptedTypes: ['text/csv'],
+        acceptedTypes: ['text/csv', ...acceptedExtensions],
         maxSize: '10GB'
       });
     }
 
-    if (!csvType) {
+    const isArchive = getUploadExtension(file.originalname) === ZIP_EXTENSION;
+
+    if (!csvType && !isArchive) {
       return res.status(400).json({
         error: 'CSV type is required',
         acceptedTypes: ['integrations', 'imports', 'exports', 'flows', 'connections']
@@ -76,8 +90,7 @@ filesRoutes.post('/upload/tier/:tier', upload.single('csvFile'), async (req: Req
     }
 
     // Validate CSV type
-    const validCsvTypes = ['integrations', 'imports', 'exports', 'flows', 'connections'];
-    if (!validCsvTypes.includes(csvType)) {
+    if (!isArchive && !validCsvTypes.includes(csvType)) {
       return res.status(400).json({
         error: `Invalid CSV type: ${csvType}`,
         acceptedTypes: validCsvTypes
@@ -85,10 +98,7 @@ filesRoutes.post('/upload/tier/:tier', upload.single('csvFile'), async (req: Req
     }
 
     // Move file to correct name if needed
-    const targetPath = `./input/${tier}/${csvType}.csv`;
-    if (file.path !== targetPath) {
-      await fs.rename(file.path, targetPath);
-    }
+    const targetPath = await storeTierUpload(tier, file, csvType);
 
     // Get file stats
     const stats = await fs.stat(targetPath);
@@ -98,7 +108,7 @@ filesRoutes.post('/upload/tier/:tier', upload.single('csvFile'), async (req: Req
       message: 'File uploaded successfully',
       file: {
         tier,
-        csvType,
+        csvType: isArchive ? 'archive' : csvType,
         originalName: file.originalname,
         size: stats.size,
         sizeFormatted: formatFileSize(stats.size),
@@ -122,7 +132,7 @@ filesRoutes.post('/upload/tier/:tier', upload.single('csvFile'), async (req: Req
  *   post:
  *     tags: [Files]
  *     summary: Upload Multiple CSV Files to Tier
- *     description: Upload multiple CSV files for a tier in one request
+ *     description: Upload multiple CSV, gzipped CSV or zipped archive files for a tier in one request
  */
 filesRoutes.post('/upload/tier/:tier/batch', upload.array('csvFiles', 10), async (req: Request, res: Response) => {
   try {
@@ -137,14 +147,16 @@ filesRoutes.post('/upload/tier/:tier/batch', upload.array('csvFiles', 10), async
     }
 
     const results = [];
-    const validCsvTypes = ['integrations', 'imports', 'exports', 'flows', 'connections'];
 
     for (const file of files) {
       try {
         // Determine CSV type from filename
-        const csvType = file.originalname.replace('.csv', '');
+        const extension = getUploadExtension(file.originalname);
+        const csvType = extension === ZIP_EXTENSION
+          ? 'archive'
+          : path.basename(file.originalname, extension || '.csv');
         
-        if (!validCsvTypes.includes(csvType)) {
+        if (extension !== ZIP_EXTENSION && !validCsvTypes.includes(csvType)) {
           results.push({
             filename: file.originalname,
             status: 'error',
@@ -154,8 +166,7 @@ filesRoutes.post('/upload/tier/:tier/batch', upload.array('csvFiles', 10), async
         }
 
         // Move to correct location
-        const targetPath = `./input/${tier}/${csvType}.csv`;
-        await fs.rename(file.path, targetPath);
+        const targetPath = await storeTierUpload(tier, file, csvType);
 
         const stats = await fs.stat(targetPath);
         results.push({
@@ -416,12 +427,13 @@ filesRoutes.get('/list', async (req: Request, res: Response) => {
 
       try {
         const files = await fs.readdir(tierPath);
-        const csvFiles = files.filter(f => f.endsWith('.csv'));
+        const csvFiles = files.filter(f => getUploadExtension(f));
 
         for (const csvFile of csvFiles) {
           const filePath = path.join(tierPath, csvFile);
           const stats = await fs.stat(filePath);
-          const csvType = csvFile.replace('.csv', '');
+          const extension = getUploadExtension(csvFile);
+          const csvType = extension === ZIP_EXTENSION ? 'archive' : path.basename(csvFile, extension);
 
           result.files[tierName][csvType] = {
             filename: csvFile,
@@ -550,18 +562,28 @@ filesRoutes.delete('/tier/:tier/csv/:csvType', async (req: Request, res: Respons
  *   post:
  *     tags: [Files]
  *     summary: Validate Tier CSV Files
- *     description: Validate all CSV files in a tier for completeness and format
+ *     description: Validate all CSV files in a tier for completeness and format. The drift section,
+ *       keyed by tier, compares the CSV headers with the fingerprint recorded by the last audit of the tier.
  */
 filesRoutes.post('/validate/tier/:tier', async (req: Request, res: Response) => {
   try {
     const tier = req.params['tier'];
+    const csvProfile = req.body?.csvProfile;
+    if (csvProfile !== undefined && !isValidProfileName(csvProfile)) {
+      return res.status(400).json({
+        error: `Invalid CSV profile name: ${csvProfile}`,
+        expected: 'letters, digits, _ and - only'
+      });
+    }
     const requiredFiles = ['integrations.csv', 'imports.csv', 'exports.csv', 'flows.csv', 'connections.csv'];
-    const tierPath = `./input/${tier}`;
+    const tierPath = await resolveTierDirectory(`./input/${tier}`, requiredFiles);
+    const drift: Record<string, SchemaDriftReport | { error: string }> = {};
     
     const validation = {
       tier,
       status: 'success',
       files: {} as any,
+      drift,
       summary: {
         totalRequired: requiredFiles.length,
         present: 0,
@@ -572,22 +594,25 @@ filesRoutes.post('/validate/tier/:tier', async (req: Request, res: Response) =>
     };
 
     for (const requiredFile of requiredFiles) {
-      const filePath = path.join(tierPath, requiredFile);
       const csvType = requiredFile.replace('.csv', '');
 
       try {
+        const filePath = await resolveCSVFile(tierPath, requiredFile);
+        if (!filePath) {
+          throw new Error('File not found');
+        }
         const stats = await fs.stat(filePath);
         
         // Basic CSV validation - check if it has headers
-        const content = await fs.readFile(filePath, 'utf-8');
-        const lines = content.split('\n');
-        const hasHeader = lines.length > 0 && lines[0].includes(',');
+        const { firstLine, lineCount } = await scanLines(filePath);
+        const hasHeader = firstLine.includes(',');
 
         validation.files[csvType] = {
           present: true,
+          file: path.basename(filePath),
           size: stats.size,
           sizeFormatted: formatFileSize(stats.size),
-          lineCount: lines.length - 1,
+          lineCount,
           hasHeader,
           lastModified: stats.mtime.toISOString(),
           status: hasHeader ? 'valid' : 'warning'
@@ -607,6 +632,20 @@ filesRoutes.post('/validate/tier/:tier', async (req: Request, res: Response) =>
       }
     }
 
+    // Compare headers with the previous drop without replacing its fingerprint
+    try {
+      const report = await new CSVProcessor().checkSchemaDrift(
+        { inputDirectory: './input', tier, csvProfile },
+        fingerprintStore
+      );
+      drift[tier] = report;
+      if (report.blocking && validation.status === 'success') {
+        validation.status = 'drift';
+      }
+    } catch (driftError) {
+      drift[tier] = { error: (driftError as Error).message };
+    }
+
     return res.json(validation);
 
   } catch (error) {
@@ -617,6 +656,68 @@ filesRoutes.post('/validate/tier/:tier', async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * Helper function to get the accepted extension of an uploaded file name
+ */
+function getUploadExtension(fileName: string): string | undefined {
+  const lowerName = fileName.toLowerCase();
+  return [...acceptedExtensions]
+    .sort((a, b) => b.length - a.length)
+    .find(extension => lowerName.endsWith(extension));
+}
+
+/**
+ * Helper function to move an upload into place
+ * Archives are kept as uploaded and unpacked at audit time, replacing any previous archive and the
+ * loose CSV files that would otherwise take precedence; a CSV file replaces both its plain and
+ * gzipped predecessors.
+ */
+async function storeTierUpload(tier: string, file: Express.Multer.File, csvType: string): Promise<string> {
+  const tierPath = `./input/${tier}`;
+  const extension = getUploadExtension(file.originalname) || '.csv';
+
+  if (extension === ZIP_EXTENSION) {
+    const targetPath = path.join(tierPath, path.basename(file.originalname));
+    for (const entry of await fs.readdir(tierPath)) {
+      const entryPath = path.join(tierPath, entry);
+      if (getUploadExtension(entry) === ZIP_EXTENSION && path.resolve(entryPath) !== path.resolve(targetPath)) {
+        await fs.rm(entryPath, { force: true });
+      }
+    }
+    await removeLooseCSVFiles(tierPath, validCsvTypes.map(type => `${type}.csv`));
+    if (path.resolve(file.path) !== path.resolve(targetPath)) {
+      await fs.rename(file.path, targetPath);
+    }
+    return targetPath;
+  }
+
+  const targetPath = path.join(tierPath, `${csvType}${extension}`);
+  if (path.resolve(file.path) !== path.resolve(targetPath)) {
+    await fs.rename(file.path, targetPath);
+  }
+  const otherExtension = extension === '.csv' ? `.csv${GZIP_EXTENSION}` : '.csv';
+  await fs.rm(path.join(tierPath, `${csvType}${otherExtension}`), { force: true });
+  return targetPath;
+}
+
+/**
+ * Helper function to read the first line and count data lines of a (possibly gzipped) CSV file
+ */
+async function scanLines(filePath: string): Promise<{ firstLine: string; lineCount: number }> {
+  let firstLine = '';
+  let lineCount = 0;
+
+  for await (const text of openCSVFile(filePath).setEncoding('utf-8')) {
+    const segments = (text as string).split('\n');
+    if (lineCount === 0) {
+      firstLine += segments[0];
+    }
+    lineCount += segments.length - 1;
+  }
+
+  return { firstLine, lineCount };
+}
+
 /**
  * Helper function to format file sizes
  */
@@ -70,7 +70,8 @@ export function createFixRoutes(stateManager: StateManager): Router {
         tier,
         batchSize: 100
       });
-      const integrations = csvResult.integrations;
+      // Quarantined rows are reported by the data-quality check, never remediated
+      const integrations = csvResult.integrations.filter(integration => !integration.quarantined);
       
       // Filter integrations if allowlist provided
       let filteredIntegrations = integrations;
@@ -106,7 +107,10 @@ export function createFixRoutes(stateManager: StateManager): Router {
               edition: integration.licenseEdition,
               operatorId,
               dryRun: true,
-              maxOpsPerIntegration
+              maxOpsPerIntegration,
+              integration,
+              product: corruptionResult.configApplied?.product,
+              version: corruptionResult.configApplied?.version
             }
           );
           results.actionsGenerated += remediationResult.actions.length;
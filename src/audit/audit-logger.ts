@@ -6,6 +6,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { ExecutionAction, ExecutionResult } from '../planner/execution-planner';
+import { invertJsonPatch, JsonPatchOperation } from '../rules/json-patch';
 
 export interface AuditLogEntry {
   id: string;
@@ -23,6 +24,7 @@ export interface AuditLogEntry {
     before?: any;
     after?: any;
     diff?: any;
+    patch?: JsonPatchOperation[]; // RFC 6902 operations applied; rollbacks invert them exactly
   };
   execution: {
     planId: string;
@@ -141,7 +143,8 @@ export class AuditLogger {
         },
         before: actionLog.payload.before,
         after: actionLog.payload.after,
-        diff: actionLog.payload.diff
+        diff: actionLog.payload.diff,
+        patch: actionLog.payload.patch
       },
       execution: {
         planId: 'unknown',
@@ -158,7 +161,7 @@ export class AuditLogger {
         userAgent: 'integration-auditor'
       },
       rollback: {
-        available: actionLog.status === 'success' && actionLog.payload.before !== undefined
+        available: actionLog.status === 'success' && (actionLog.payload.patch !== undefined || actionLog.payload.before !== undefined)
       }
     };
 
@@ -337,7 +340,7 @@ export class AuditLogger {
   }
 
   /**
-   * Generate rollback actions from audit log
+   * Generate rollback actions from audit log; JSON Patch entries are undone by their exact inverse
    */
   async generateRollbackActions(
     integrationId: string,
@@ -358,24 +361,11 @@ export class AuditLogger {
     entries.reverse();
 
     for (const entry of entries) {
-      if (entry.rollback.available && entry.action.before !== undefined) {
-        rollbackActions.push({
-          id: entry.rollback.actionId || this.generateRollbackActionId(entry.id),
-          type: this.getRollbackActionType(entry.action.type),
-          target: { ...entry.action.target, integrationId: entry.integrationId, resourceType: entry.action.target.resourceType as any },
-          payload: {
-            before: entry.action.after,
-            after: entry.action.before,
-            diff: this.invertDiff(entry.action.diff)
-          },
-          metadata: {
-            reason: `Rollback: ${entry.action.type} ${entry.action.target.resourceType}`,
-            priority: 1,
-            dependencies: [],
-            retryable: true,
-            rollbackable: false
-          }
-        });
+      if (entry.rollback.available && entry.action.patch) {
+        const patch = this.invertPatch(entry);
+        if (patch) rollbackActions.push(this.createRollbackAction(entry, { patch }));
+      } else if (entry.rollback.available && entry.action.before !== undefined) {
+        rollbackActions.push(this.createRollbackAction(entry, { diff: this.invertDiff(entry.action.diff) }));
       }
     }
 
@@ -521,6 +511,36 @@ export class AuditLogger {
     return rollbackMap[actionType] || 'patch';
   }
 
+  private invertPatch(entry: AuditLogEntry): JsonPatchOperation[] | undefined {
+    try {
+      return invertJsonPatch(entry.action.patch || []);
+    } catch (error) {
+      console.warn(`⚠️  ${entry.integrationId}: cannot roll back ${entry.execution.actionId}, ${(error as Error).message}; review manually`);
+      return undefined;
+    }
+  }
+
+  private createRollbackAction(entry: AuditLogEntry, change: { diff?: any; patch?: JsonPatchOperation[] }): ExecutionAction {
+    return {
+      id: entry.rollback.actionId || this.generateRollbackActionId(entry.id),
+      type: this.getRollbackActionType(entry.action.type),
+      target: { ...entry.action.target, integrationId: entry.integrationId, resourceType: entry.action.target.resourceType as any },
+      payload: {
+        before: entry.action.after,
+        after: entry.action.before,
+        ...change
+      },
+      metadata: {
+        reason: `Rollback: ${entry.action.type} ${entry.action.target.resourceType}`,
+        priority: 1,
+        dependencies: [],
+        retryable: true,
+        rollbackable: false
+      }
+    };
+  }
+
+  // Entries logged before actions carried JSON Patch operations
   private invertDiff(diff: any): any {
     if (!diff) return undefined;
     
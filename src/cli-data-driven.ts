@@ -1,15 +1,34 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { CSVProcessor } from './csv/csv-processor';
+import { createSnapshotSource } from './input/source-factory';
 import { DataDrivenCorruptionDetector } from './rules/data-driven-corruption-detector';
 import { DataDrivenRemediationEngine } from './rules/data-driven-remediation-engine';
 import { AuditLogger } from './audit/audit-logger';
 import { StateManager } from './state/state-manager';
 import { EnterpriseRemediationService } from './remediation/remediation-service';
+import {
+  getHumanReadableFileName,
+  getHumanReadableScriptName,
+  getHumanReadableTypeName,
+  groupActionsByType
+} from './remediation/action-grouping';
+import { ConfigurationManager } from './config/configuration-manager';
+import { DataQualityReport, writeQuarantineFiles } from './csv/data-quality';
+import { SchemaDriftReport, saveHeaderFingerprints } from './csv/schema-drift';
+import { SettingsProfileAggregator } from './csv/settings-profile';
+import { CrossTierDuplicate } from './csv/csv-processor';
+import { IntegrationSnapshot } from './types';
+import { IntegrationSampler, createSamplingOptions } from './sampling/integration-sampler';
+import { EDITION_RESOURCE_TYPES, ResolvedEditionRequirements } from './config/edition-inheritance';
+import { rankByRiskScore } from './rules/risk-scoring';
+import { invertJsonPatch } from './rules/json-patch';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+// Arguments of one StateManager.recordProcessing call
+type ProcessingRecord = Parameters<StateManager['recordProcessing']>;
+
 const program = new Command();
 
 program
@@ -35,12 +54,20 @@ program
   .option('--force-confirmation', 'Skip confirmation prompts', false)
   .option('--create-restore-bundle', 'Create backup before execution', true)
   .option('--maintenance-window', 'Only run during maintenance window', false)
-  .option('--tier <tier>', 'Tier to process (tier1, tier2, tier3)', 'tier1')
-  .option('--input <path>', 'Input directory containing CSV files', './input')
+  .option('--tier <tier>', 'Tier(s) to process: tier1, a comma-separated list (tier1,tier2) or all', 'tier1')
+  .option('--input <path>', 'Input directory containing CSV or JSON Lines files', './input')
+  .option('--source <type>', 'Snapshot source (auto, csv, jsonl, sqlite, json-directory)', 'auto')
+  .option('--source-path <path>', 'SQLite database file or snapshot directory (default: <input>/<tier>)')
+  .option('--csv-profile <name>', 'CSV column-mapping profile from <config>/csv-profiles', 'default')
   .option('--config <path>', 'Business rules configuration directory', './config')
   .option('--output <path>', 'Output directory for results', './output')
   .option('--force-reprocess', 'Force reprocessing of all integrations, ignoring previous state', false)
   .option('--max-age <hours>', 'Maximum age in hours before reprocessing (default: 24)', '24')
+  .option('--sample <mode>', 'Process a sample instead of every integration (random, stratified, top-settings-size)')
+  .option('--sample-size <num>', 'Number of integrations to sample', '100')
+  .option('--sample-seed <num>', 'Seed for random and stratified sampling (generated and recorded when omitted)')
+  .option('--stratify-by <field>', 'Field to stratify by (edition, version, storeCount)', 'edition')
+  .option('--explain', 'Attach an explanation trace to every corruption event and print it for the first flagged integrations', false)
   .action(async (options) => {
     // Map edition to product for backwards compatibility
     const productMap: Record<string, string> = {
@@ -89,17 +116,26 @@ program
 program
   .command('audit')
   .description('🔍 Audit integrations using data-driven business rules (legacy - use "fix" command)')
-  .option('--tier <tier>', 'Tier to process (tier1, tier2, tier3)', 'tier1')
-  .option('--input <path>', 'Input directory containing CSV files', './input')
+  .option('--tier <tier>', 'Tier(s) to process: tier1, a comma-separated list (tier1,tier2) or all', 'tier1')
+  .option('--input <path>', 'Input directory containing CSV or JSON Lines files', './input')
+  .option('--source <type>', 'Snapshot source (auto, csv, jsonl, sqlite, json-directory)', 'auto')
+  .option('--source-path <path>', 'SQLite database file or snapshot directory (default: <input>/<tier>)')
+  .option('--csv-profile <name>', 'CSV column-mapping profile from <config>/csv-profiles', 'default')
   .option('--config <path>', 'Business rules configuration directory', './config')
   .option('--product <product>', 'Product to validate (shopify-netsuite, shopify-hubspot)', 'shopify-netsuite')
   .option('--version <version>', 'Configuration version to use', '1.51.0')
   .option('--dry-run', 'Show execution plan without making changes', false)
   .option('--apply', 'Execute the remediation plan', false)
+  .option('--batch-size <num>', 'Integrations read per batch from the snapshot source', '100')
   .option('--output <path>', 'Output directory for results', './output')
   .option('--operator-id <id>', 'Operator identifier for audit logs', process.env['USER'] || 'system')
   .option('--force-reprocess', 'Force reprocessing of all integrations, ignoring previous state', false)
   .option('--max-age <hours>', 'Maximum age in hours before reprocessing (default: 24)', '24')
+  .option('--sample <mode>', 'Process a sample instead of every integration (random, stratified, top-settings-size)')
+  .option('--sample-size <num>', 'Number of integrations to sample', '100')
+  .option('--sample-seed <num>', 'Seed for random and stratified sampling (generated and recorded when omitted)')
+  .option('--stratify-by <field>', 'Field to stratify by (edition, version, storeCount)', 'edition')
+  .option('--explain', 'Attach an explanation trace to every corruption event and print it for the first flagged integrations', false)
   .action(async (options) => {
     try {
       console.log('🔧 Data-Driven Integration Auditor');
@@ -115,16 +151,27 @@ program
       console.log('⚙️  Loading business configuration...');
       const corruptionDetector = new DataDrivenCorruptionDetector();
       const remediationEngine = new DataDrivenRemediationEngine();
-      const csvProcessor = new CSVProcessor();
+
+      // Initialize persistent state tracking (also holds the CSV header fingerprints)
+      const stateManager = new StateManager('./state/processing-state.db');
+      await stateManager.initialize();
+
+      const snapshotSource = await createSnapshotSource({
+        type: options.source,
+        inputDirectory: options.input,
+        tier: options.tier,
+        path: options.sourcePath,
+        batchSize: parseInt(options.batchSize) || 100,
+        csvProfile: options.csvProfile,
+        csvProfilesDirectory: path.join(options.config, 'csv-profiles'),
+        validateHeaders: true,
+        fingerprintStore: stateManager
+      });
       
       // Create organized output structure first
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const sessionDir = await createOrganizedOutputStructure(options.output, timestamp, options.operatorId);
       
-      // Initialize persistent state tracking
-      const stateManager = new StateManager('./state/processing-state.db');
-      await stateManager.initialize();
-      
       // Initialize audit logging in session directory
       const auditLogger = new AuditLogger(sessionDir.logs, options.operatorId);
       await auditLogger.initialize();
@@ -144,16 +191,6 @@ program
       console.log(`   Required Properties: ${(businessConfig?.requiredProperties?.topLevel?.length || 0) + (businessConfig?.requiredProperties?.settingsLevel?.length || 0)} properties`);
       console.log('');
 
-      // Process CSV files
-      console.log('📊 Processing CSV files...');
-      const { integrations, result: csvResult } = await csvProcessor.processCSVFiles({
-        inputDirectory: options.input,
-        tier: options.tier,
-        batchSize: 100
-      });
-
-      console.log(`✅ Loaded ${integrations.length} integrations in ${csvResult.processingTime}ms`);
-
       // Show persistent state statistics
       const stateStats = await stateManager.getProcessingStats();
       console.log('📊 Persistent State Statistics:');
@@ -171,92 +208,141 @@ program
       let skippedCount = 0;
       let newProcessedCount = 0;
       const maxAge = parseInt(options.maxAge) * 60 * 60 * 1000; // Convert hours to milliseconds
-
-      for (const integration of integrations) {
-        try {
-          // Check if integration was already processed recently (unless force reprocess)
-          const corruptionResult = await corruptionDetector.detectCorruption(integration, {});
-          const corruptionHash = generateCorruptionHash(corruptionResult.corruptionEvents);
+      // Held until the data-quality gate passes, so a failed run does not mark integrations as processed
+      const pendingState: ProcessingRecord[] = [];
+
+      // Stream CSV files in batches so memory stays bounded on large tiers
+      console.log(`📊 Streaming snapshots from ${snapshotSource.type} source...`);
+      const csvStartTime = Date.now();
+      const inputResult = snapshotSource.createProcessingResult();
+      let totalIntegrations = 0;
+      const tierCounts: Record<string, number> = {};
+      const configCounts: Record<string, number> = {};
+      const sampler = createSampler(options);
+      const batches = sampler
+        ? sampler.select(snapshotSource.streamIntegrations(inputResult))
+        : snapshotSource.streamIntegrations(inputResult);
+
+      for await (const batch of batches) {
+        totalIntegrations += batch.length;
+        countByTier(tierCounts, batch, options.tier);
+
+        for (const integration of batch) {
+          // Quarantined rows are reported in the data-quality output, not audited on substituted values
+          if (integration.quarantined) continue;
+
+          try {
+            // Check if integration was already processed recently (unless force reprocess)
+            const corruptionResult = await corruptionDetector.detectCorruption(integration, {}, { explain: options.explain });
+            countByConfiguration(configCounts, corruptionResult);
+            sampler?.recordOutcome(integration, corruptionResult.corruptionEvents.map(event => event.params.corruptionType));
+            const corruptionHash = generateCorruptionHash(corruptionResult.corruptionEvents);
           
-          if (!options.forceReprocess && await stateManager.isAlreadyProcessed(integration.id, corruptionHash, maxAge)) {
-            skippedCount++;
-            processedCount++;
-            continue;
-          }
+            if (!options.forceReprocess && await stateManager.isAlreadyProcessed(integration.id, corruptionHash, maxAge)) {
+              skippedCount++;
+              processedCount++;
+              continue;
+            }
           
-          if (corruptionResult.corruptionEvents.length > 0) {
-            // Generate remediation using business configuration
-            const remediationResult = await remediationEngine.generateActions(
-              corruptionResult.corruptionEvents,
-              {
-                integrationId: integration.id,
-                email: integration.email,
-                storeCount: integration.storeCount,
-                edition: integration.licenseEdition,
-                operatorId: options.operatorId,
-                dryRun: !options.apply,
-                maxOpsPerIntegration: 100
-              }
-            );
-
-            allCorruptionResults.push(corruptionResult);
-            allRemediationResults.push(remediationResult);
-
-            // Record processing in persistent state
-            await stateManager.recordProcessing(
-              integration.id,
-              integration.email,
-              corruptionResult.corruptionEvents,
-              remediationResult.actions,
-              options.operatorId,
-              (auditLogger as any).sessionId,
-              options.apply ? 'remediated' : 'detected'
-            );
+            if (corruptionResult.corruptionEvents.length > 0) {
+              // Generate remediation using business configuration
+              const remediationResult = await remediationEngine.generateActions(
+                corruptionResult.corruptionEvents,
+                {
+                  integrationId: integration.id,
+                  email: integration.email,
+                  storeCount: integration.storeCount,
+                  edition: integration.licenseEdition,
+                  operatorId: options.operatorId,
+                  dryRun: !options.apply,
+                  maxOpsPerIntegration: 100,
+                  integration,
+                  product: corruptionResult.configApplied?.product,
+                  version: corruptionResult.configApplied?.version
+                }
+              );
 
-            newProcessedCount++;
+              allCorruptionResults.push(corruptionResult);
+              allRemediationResults.push(remediationResult);
+
+              // Record processing in persistent state
+              pendingState.push([
+                integration.id,
+                integration.email,
+                corruptionResult.corruptionEvents,
+                remediationResult.actions,
+                options.operatorId,
+                (auditLogger as any).sessionId,
+                options.apply ? 'remediated' : 'detected'
+              ]);
+
+              newProcessedCount++;
+
+              if (newProcessedCount <= 5) {
+                console.log(`🚨 ${integration.id}: ${corruptionResult.corruptionEvents.length} issues, ${remediationResult.actions.length} actions`);
+                if (options.explain) printExplanations(corruptionResult);
+              }
+            } else {
+              // Record as clean integration
+              pendingState.push([
+                integration.id,
+                integration.email,
+                [],
+                [],
+                options.operatorId,
+                (auditLogger as any).sessionId,
+                'skipped'
+              ]);
+            }
 
-            if (newProcessedCount <= 5) {
-              console.log(`🚨 ${integration.id}: ${corruptionResult.corruptionEvents.length} issues, ${remediationResult.actions.length} actions`);
+            processedCount++;
+          
+            if (processedCount % 100 === 0) {
+              console.log(`   Progress: ${processedCount} processed (${newProcessedCount} new, ${skippedCount} skipped)`);
             }
-          } else {
-            // Record as clean integration
-            await stateManager.recordProcessing(
+          
+          } catch (error) {
+            console.error(`❌ Error processing ${integration.id}: ${(error as Error).message}`);
+          
+            // Record failed processing
+            pendingState.push([
               integration.id,
-              integration.email,
+              integration.email || 'unknown',
               [],
               [],
               options.operatorId,
               (auditLogger as any).sessionId,
-              'skipped'
-            );
+              'failed'
+            ]);
           }
-
-          processedCount++;
-          
-          if (processedCount % 100 === 0) {
-            console.log(`   Progress: ${processedCount}/${integrations.length} (${newProcessedCount} new, ${skippedCount} skipped)`);
-          }
-          
-        } catch (error) {
-          console.error(`❌ Error processing ${integration.id}: ${(error as Error).message}`);
-          
-          // Record failed processing
-          await stateManager.recordProcessing(
-            integration.id,
-            integration.email || 'unknown',
-            [],
-            [],
-            options.operatorId,
-            (auditLogger as any).sessionId,
-            'failed'
-          );
         }
+
+      }
+
+      console.log(`✅ Streamed ${sampler ? sampler.getRecord().populationSize : totalIntegrations} integrations in ${Date.now() - csvStartTime}ms`);
+      if (sampler) {
+        await writeSampleOutput(sampler, sessionDir);
+      }
+
+      if (inputResult.schemaDrift) {
+        await writeSchemaDriftOutput(inputResult.schemaDrift, sessionDir);
+      }
+      if (inputResult.crossTierDuplicates) {
+        await writeCrossTierDuplicatesOutput(inputResult.crossTierDuplicates, sessionDir);
+      }
+
+      // Write data-quality report and quarantined rows, then enforce the environment threshold before saving state and header baselines
+      if (inputResult.dataQuality) {
+        await writeDataQualityOutput(inputResult.dataQuality, sessionDir);
+        await enforceDataQualityThreshold(inputResult.dataQuality, options.config);
       }
+      await savePendingState(stateManager, pendingState);
+      await saveHeaderFingerprints(stateManager, inputResult.headerFingerprints);
 
       console.log('');
       console.log('📊 INCREMENTAL PROCESSING RESULTS');
       console.log('=================================');
-      console.log(`Total Integrations: ${integrations.length}`);
+      console.log(`Total Integrations: ${totalIntegrations}`);
       console.log(`Newly Processed: ${newProcessedCount}`);
       console.log(`Skipped (Recent): ${skippedCount}`);
       console.log(`Corrupted Found: ${allCorruptionResults.length}`);
@@ -264,10 +350,14 @@ program
 
       // Generate comprehensive business summary
       const businessSummary = generateBusinessSummary(
-        integrations,
+        totalIntegrations,
         allCorruptionResults,
         allRemediationResults,
-        businessConfig
+        businessConfig,
+        tierCounts,
+        inputResult.crossTierDuplicates,
+        sampler,
+        configCounts
       );
 
       console.log('');
@@ -292,6 +382,10 @@ program
         console.log(`   ${type}: ${count} events`);
       });
       console.log('');
+      printTierBreakdown(businessSummary);
+      printConfigurationBreakdown(businessSummary);
+      printRiskRanking(businessSummary);
+      printSampleEstimates(businessSummary);
 
       
       // Save comprehensive business report
@@ -372,9 +466,20 @@ program
       }
 
       if (options.validate) {
-        console.log('🔍 Validating configuration files...');
-        // Add validation logic here
-        console.log('✅ Configuration validation complete');
+        console.log('🔍 Validating configuration files against schemas/business-rules-schema.json...');
+        const configManager = new ConfigurationManager(options.configPath);
+        const results = await configManager.validateAllConfigurations();
+
+        results.forEach(result => {
+          console.log(`   ${result.valid ? '✅' : '❌'} ${result.product} v${result.version} (${result.configPath})`);
+          result.errors.forEach(error => console.log(`      - ${error}`));
+        });
+
+        const invalidCount = results.filter(result => !result.valid).length;
+        if (invalidCount > 0) {
+          throw new Error(`${invalidCount} of ${results.length} configuration files are invalid`);
+        }
+        console.log(`✅ Configuration validation complete: ${results.length} files valid`);
       }
 
     } catch (error) {
@@ -450,6 +555,7 @@ program
   .option('--product <product>', 'Product to show rules for', 'shopify-netsuite')
   .option('--version <version>', 'Version to show rules for', '1.51.0')
   .option('--config-path <path>', 'Configuration directory path', './config')
+  .option('--resolved', 'Show effective requirements after inheritance and where each one comes from')
   .action(async (options) => {
     try {
       console.log(`📋 Business Rules: ${options.product} v${options.version}`);
@@ -461,7 +567,14 @@ program
       
       const config = await configManager.loadConfiguration(options.product, options.version);
 
-      if (options.edition) {
+      if (options.edition && options.resolved) {
+        const resolved = configManager.resolveEditionRequirements(config)[options.edition];
+        if (resolved) {
+          printResolvedEdition(resolved);
+        } else {
+          console.log(`❌ Edition '${options.edition}' not found in ${options.product} v${options.version}`);
+        }
+      } else if (options.edition) {
         const requirements = config.editionRequirements[options.edition];
         if (requirements) {
           console.log(`📋 ${options.edition.toUpperCase()} Edition Requirements:`);
@@ -486,9 +599,11 @@ program
         }
       } else {
         console.log(`📋 All Edition Requirements for ${options.product} v${options.version}:`);
+        const resolvedEditions = configManager.resolveEditionRequirements(config);
         Object.entries(config.editionRequirements).forEach(([edition, req]: [string, any]) => {
           if (edition !== 'description') {
-            console.log(`   ${edition.toUpperCase()}: ${req.importsPerStore}i, ${req.exportsPerStore}e, ${req.flowsPerStore}f per store`);
+            const { perStore } = resolvedEditions[edition];
+            console.log(`   ${edition.toUpperCase()}: ${perStore.imports.value}i, ${perStore.exports.value}e, ${perStore.flows.value}f per store`);
             if (req.inheritsFrom) {
               console.log(`      └── Inherits from: ${req.inheritsFrom}`);
             }
@@ -508,6 +623,80 @@ program
     }
   });
 
+// Settings size and shape profiling
+program
+  .command('settings-profile')
+  .description('📏 Profile settings size, depth and keys across a tier')
+  .option('--tier <tier>', 'Tier(s) to profile: tier1, a comma-separated list (tier1,tier2) or all', 'tier1')
+  .option('--input <path>', 'Input directory containing CSV or JSON Lines files', './input')
+  .option('--source <type>', 'Snapshot source (auto, csv, jsonl, sqlite, json-directory)', 'auto')
+  .option('--source-path <path>', 'SQLite database file or snapshot directory (default: <input>/<tier>)')
+  .option('--csv-profile <name>', 'CSV column-mapping profile from <config>/csv-profiles', 'default')
+  .option('--config <path>', 'Business rules configuration directory', './config')
+  .option('--product <product>', 'Product whose maxSettingsSize is compared', 'shopify-netsuite')
+  .option('--version <version>', 'Configuration version to use', '1.51.0')
+  .option('--output <file>', 'Write the full report as JSON')
+  .action(async (options) => {
+    try {
+      console.log(`📏 Settings Profile: ${options.tier}`);
+      console.log('==================================================');
+
+      const configManager = new ConfigurationManager(options.config);
+      await configManager.initialize();
+      const businessConfig = await configManager.loadConfiguration(options.product, options.version);
+      const maxSettingsSize = businessConfig.licenseValidation?.maxSettingsSize;
+
+      const snapshotSource = await createSnapshotSource({
+        type: options.source,
+        inputDirectory: options.input,
+        tier: options.tier,
+        path: options.sourcePath,
+        csvProfile: options.csvProfile,
+        csvProfilesDirectory: path.join(options.config, 'csv-profiles')
+      });
+
+      const aggregator = new SettingsProfileAggregator(maxSettingsSize);
+      for await (const batch of snapshotSource.streamIntegrations()) {
+        batch.forEach(integration => aggregator.add(integration));
+      }
+      const report = aggregator.getReport();
+
+      console.log(`Integrations: ${report.totalIntegrations}`);
+      console.log(`Parse Status: ${JSON.stringify(report.parseStatus)}`);
+      console.log('');
+      console.log('Metric      min        p50        p90        p95        p99        max');
+      for (const [label, stats] of [['Size (B)', report.sizeBytes], ['Depth', report.depth], ['Keys', report.keyCount]] as const) {
+        const columns = [stats.min, stats.p50, stats.p90, stats.p95, stats.p99, stats.max].map(value => String(value).padEnd(10));
+        console.log(`${label.padEnd(12)}${columns.join(' ')}`);
+      }
+      console.log('');
+      console.log('📊 Size Distribution:');
+      report.sizeHistogram.forEach(bucket => console.log(`   ${bucket.bucket.padEnd(14)} ${bucket.count}`));
+      if (maxSettingsSize !== undefined) {
+        console.log(`   Over maxSettingsSize (${maxSettingsSize} bytes): ${report.overSizeLimit}`);
+      }
+      console.log('');
+      console.log('🔑 Top-Level Settings Keys (share of parsed settings):');
+      report.topLevelKeys.slice(0, 20).forEach(key => console.log(`   ${key.key.padEnd(30)} ${key.percent}%`));
+
+      if (options.output) {
+        await fs.mkdir(path.dirname(options.output), { recursive: true });
+        await fs.writeFile(options.output, JSON.stringify({
+          tier: options.tier,
+          source: { type: snapshotSource.type, location: snapshotSource.location },
+          generatedAt: new Date().toISOString(),
+          ...report
+        }, null, 2));
+        console.log('');
+        console.log(`💾 Settings Profile Report: ${options.output}`);
+      }
+
+    } catch (error) {
+      console.error('❌ Settings profiling failed:', error);
+      process.exit(1);
+    }
+  });
+
 // Status command
 program
   .command('status')
@@ -644,16 +833,27 @@ async function executeMainProcessingLogic(options: any): Promise<void> {
     console.log('⚙️  Loading business configuration...');
     const corruptionDetector = new DataDrivenCorruptionDetector();
     const remediationEngine = new DataDrivenRemediationEngine();
-    const csvProcessor = new CSVProcessor();
+
+    // Initialize persistent state tracking (also holds the CSV header fingerprints)
+    const stateManager = new StateManager('./state/processing-state.db');
+    await stateManager.initialize();
+
+    const snapshotSource = await createSnapshotSource({
+      type: options.source,
+      inputDirectory: options.input,
+      tier: options.tier,
+      path: options.sourcePath,
+      batchSize: parseInt(options.batchSize) || 100,
+      csvProfile: options.csvProfile,
+      csvProfilesDirectory: path.join(options.config, 'csv-profiles'),
+      validateHeaders: true,
+      fingerprintStore: stateManager
+    });
     
     // Create organized output structure first
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const sessionDir = await createOrganizedOutputStructure(options.output, timestamp, options.operatorId);
     
-    // Initialize persistent state tracking
-    const stateManager = new StateManager('./state/processing-state.db');
-    await stateManager.initialize();
-    
     // Initialize audit logging in session directory
     const auditLogger = new AuditLogger(sessionDir.logs, options.operatorId);
     await auditLogger.initialize();
@@ -674,38 +874,20 @@ async function executeMainProcessingLogic(options: any): Promise<void> {
     console.log(`   Required Properties: ${(businessConfig?.requiredProperties?.topLevel?.length || 0) + (businessConfig?.requiredProperties?.settingsLevel?.length || 0)} properties`);
     console.log('');
 
-    // Process CSV files
-    console.log('📊 Processing CSV files...');
-    const { integrations, result: csvResult } = await csvProcessor.processCSVFiles({
-      inputDirectory: options.input,
-      tier: options.tier,
-      batchSize: parseInt(options.batchSize) || 100
-    });
-
-    console.log(`✅ Loaded ${integrations.length} integrations in ${csvResult.processingTime}ms`);
-
-    // Apply filtering if specified
-    let filteredIntegrations = integrations;
-    
-    if (options.allowlist) {
-      const allowedIds = options.allowlist.split(',').map((id: string) => id.trim());
-      filteredIntegrations = filteredIntegrations.filter(int => allowedIds.includes(int.id));
-      console.log(`📝 Filtered to ${filteredIntegrations.length} integrations by ID allowlist`);
-    }
-    
-    if (options.allowlistAccounts) {
-      const allowedEmails = options.allowlistAccounts.split(',').map((email: string) => email.trim());
-      filteredIntegrations = filteredIntegrations.filter(int => allowedEmails.includes(int.email));
-      console.log(`📧 Filtered to ${filteredIntegrations.length} integrations by account allowlist`);
-    }
-    
-    if (isFixCommand && options.edition) {
-      // Filter by edition
-      filteredIntegrations = filteredIntegrations.filter(int => 
-        int.licenseEdition?.toLowerCase() === options.edition.toLowerCase()
-      );
-      console.log(`🎯 Filtered to ${filteredIntegrations.length} integrations for ${options.edition} edition`);
-    }
+    // Build integration filters (applied to each streamed batch)
+    const allowedIds: string[] = options.allowlist
+      ? options.allowlist.split(',').map((id: string) => id.trim())
+      : [];
+    const allowedEmails: string[] = options.allowlistAccounts
+      ? options.allowlistAccounts.split(',').map((email: string) => email.trim())
+      : [];
+    const matchesFilters = (integration: any): boolean => {
+      if (allowedIds.length > 0 && !allowedIds.includes(integration.id)) return false;
+      if (allowedEmails.length > 0 && !allowedEmails.includes(integration.email)) return false;
+      if (isFixCommand && options.edition &&
+          integration.licenseEdition?.toLowerCase() !== options.edition.toLowerCase()) return false;
+      return true;
+    };
 
     // Show persistent state statistics
     const stateStats = await stateManager.getProcessingStats();
@@ -724,92 +906,147 @@ async function executeMainProcessingLogic(options: any): Promise<void> {
     let skippedCount = 0;
     let newProcessedCount = 0;
     const maxAge = parseInt(options.maxAge) * 60 * 60 * 1000; // Convert hours to milliseconds
+    // Held until the data-quality gate passes, so a failed run does not mark integrations as processed
+    const pendingState: ProcessingRecord[] = [];
+
+    // Stream CSV files in batches so memory stays bounded on large tiers
+    console.log(`📊 Streaming snapshots from ${snapshotSource.type} source...`);
+    const csvStartTime = Date.now();
+    const inputResult = snapshotSource.createProcessingResult();
+    let loadedCount = 0;
+    let totalIntegrations = 0;
+    const tierCounts: Record<string, number> = {};
+    const configCounts: Record<string, number> = {};
+    const sampler = createSampler(options);
+
+    // Filters apply before sampling, so the sample is drawn from the filtered population
+    const filteredBatches = async function* (): AsyncGenerator<IntegrationSnapshot[]> {
+      for await (const batch of snapshotSource.streamIntegrations(inputResult)) {
+        loadedCount += batch.length;
+        yield batch.filter(matchesFilters);
+      }
+    };
+    const batches = sampler ? sampler.select(filteredBatches()) : filteredBatches();
+
+    for await (const batch of batches) {
+      totalIntegrations += batch.length;
+      countByTier(tierCounts, batch, options.tier);
 
-    for (const integration of filteredIntegrations) {
-      try {
-        // Check if integration was already processed recently (unless force reprocess)
-        const corruptionResult = await corruptionDetector.detectCorruption(integration, {});
-        const corruptionHash = generateCorruptionHash(corruptionResult.corruptionEvents);
+      for (const integration of batch) {
+        // Quarantined rows are reported in the data-quality output, not audited on substituted values
+        if (integration.quarantined) continue;
+
+        try {
+          // Check if integration was already processed recently (unless force reprocess)
+          const corruptionResult = await corruptionDetector.detectCorruption(integration, {}, { explain: options.explain });
+          countByConfiguration(configCounts, corruptionResult);
+          sampler?.recordOutcome(integration, corruptionResult.corruptionEvents.map(event => event.params.corruptionType));
+          const corruptionHash = generateCorruptionHash(corruptionResult.corruptionEvents);
         
-        if (!options.forceReprocess && await stateManager.isAlreadyProcessed(integration.id, corruptionHash, maxAge)) {
-          skippedCount++;
-          processedCount++;
-          continue;
-        }
+          if (!options.forceReprocess && await stateManager.isAlreadyProcessed(integration.id, corruptionHash, maxAge)) {
+            skippedCount++;
+            processedCount++;
+            continue;
+          }
         
-        if (corruptionResult.corruptionEvents.length > 0) {
-          // Generate remediation using business configuration
-          const remediationResult = await remediationEngine.generateActions(
-            corruptionResult.corruptionEvents,
-            {
-              integrationId: integration.id,
-              email: integration.email,
-              storeCount: integration.storeCount,
-              edition: integration.licenseEdition,
-              operatorId: options.operatorId,
-              dryRun: !options.apply,
-              maxOpsPerIntegration: parseInt(options.maxOpsPerIntegration) || 100
-            }
-          );
+          if (corruptionResult.corruptionEvents.length > 0) {
+            // Generate remediation using business configuration
+            const remediationResult = await remediationEngine.generateActions(
+              corruptionResult.corruptionEvents,
+              {
+                integrationId: integration.id,
+                email: integration.email,
+                storeCount: integration.storeCount,
+                edition: integration.licenseEdition,
+                operatorId: options.operatorId,
+                dryRun: !options.apply,
+                maxOpsPerIntegration: parseInt(options.maxOpsPerIntegration) || 100,
+                integration,
+                product: corruptionResult.configApplied?.product,
+                version: corruptionResult.configApplied?.version
+              }
+            );
 
-          allCorruptionResults.push(corruptionResult);
-          allRemediationResults.push(remediationResult);
+            allCorruptionResults.push(corruptionResult);
+            allRemediationResults.push(remediationResult);
 
-          // Record processing in persistent state
-          await stateManager.recordProcessing(
-            integration.id,
-            integration.email,
-            corruptionResult.corruptionEvents,
-            remediationResult.actions,
-            options.operatorId,
-            (auditLogger as any).sessionId,
-            options.apply ? 'remediated' : 'detected'
-          );
+            // Record processing in persistent state
+            pendingState.push([
+              integration.id,
+              integration.email,
+              corruptionResult.corruptionEvents,
+              remediationResult.actions,
+              options.operatorId,
+              (auditLogger as any).sessionId,
+              options.apply ? 'remediated' : 'detected'
+            ]);
 
-          newProcessedCount++;
+            newProcessedCount++;
 
-          if (newProcessedCount <= 5) {
-            console.log(`🚨 ${integration.id}: ${corruptionResult.corruptionEvents.length} issues, ${remediationResult.actions.length} actions`);
+            if (newProcessedCount <= 5) {
+              console.log(`🚨 ${integration.id}: ${corruptionResult.corruptionEvents.length} issues, ${remediationResult.actions.length} actions`);
+              if (options.explain) printExplanations(corruptionResult);
+            }
+          } else {
+            // Record as clean integration
+            pendingState.push([
+              integration.id,
+              integration.email,
+              [],
+              [],
+              options.operatorId,
+              (auditLogger as any).sessionId,
+              'skipped'
+            ]);
           }
-        } else {
-          // Record as clean integration
-          await stateManager.recordProcessing(
+
+          processedCount++;
+        
+          if (processedCount % 100 === 0) {
+            console.log(`   Progress: ${processedCount} processed (${newProcessedCount} new, ${skippedCount} skipped)`);
+          }
+        
+        } catch (error) {
+          console.error(`❌ Error processing ${integration.id}: ${(error as Error).message}`);
+        
+          // Record failed processing
+          pendingState.push([
             integration.id,
-            integration.email,
+            integration.email || 'unknown',
             [],
             [],
             options.operatorId,
             (auditLogger as any).sessionId,
-            'skipped'
-          );
-        }
-
-        processedCount++;
-        
-        if (processedCount % 100 === 0) {
-          console.log(`   Progress: ${processedCount}/${filteredIntegrations.length} (${newProcessedCount} new, ${skippedCount} skipped)`);
+            'failed'
+          ]);
         }
-        
-      } catch (error) {
-        console.error(`❌ Error processing ${integration.id}: ${(error as Error).message}`);
-        
-        // Record failed processing
-        await stateManager.recordProcessing(
-          integration.id,
-          integration.email || 'unknown',
-          [],
-          [],
-          options.operatorId,
-          (auditLogger as any).sessionId,
-          'failed'
-        );
       }
+
     }
 
+    console.log(`✅ Streamed ${loadedCount} integrations in ${Date.now() - csvStartTime}ms`);
+    if (allowedIds.length > 0 || allowedEmails.length > 0 || isFixCommand) {
+      console.log(`🎯 Filtered to ${sampler ? sampler.getRecord().populationSize : totalIntegrations} integrations (allowlist/account/edition filters)`);
+    }
+    if (sampler) {
+      await writeSampleOutput(sampler, sessionDir);
+    }
+    if (inputResult.schemaDrift) {
+      await writeSchemaDriftOutput(inputResult.schemaDrift, sessionDir);
+    }
+    if (inputResult.crossTierDuplicates) {
+      await writeCrossTierDuplicatesOutput(inputResult.crossTierDuplicates, sessionDir);
+    }
+    if (inputResult.dataQuality) {
+      await writeDataQualityOutput(inputResult.dataQuality, sessionDir);
+      await enforceDataQualityThreshold(inputResult.dataQuality, options.config);
+    }
+    await savePendingState(stateManager, pendingState);
+    await saveHeaderFingerprints(stateManager, inputResult.headerFingerprints);
     console.log('');
     console.log('📊 INCREMENTAL PROCESSING RESULTS');
     console.log('=================================');
-    console.log(`Total Integrations: ${filteredIntegrations.length}`);
+    console.log(`Total Integrations: ${totalIntegrations}`);
     console.log(`Newly Processed: ${newProcessedCount}`);
     console.log(`Skipped (Recent): ${skippedCount}`);
     console.log(`Corrupted Found: ${allCorruptionResults.length}`);
@@ -817,10 +1054,14 @@ async function executeMainProcessingLogic(options: any): Promise<void> {
 
     // Generate comprehensive business summary
     const businessSummary = generateBusinessSummary(
-      filteredIntegrations,
+      totalIntegrations,
       allCorruptionResults,
       allRemediationResults,
-      businessConfig
+      businessConfig,
+      tierCounts,
+      inputResult.crossTierDuplicates,
+      sampler,
+      configCounts
     );
 
     console.log('');
@@ -845,6 +1086,10 @@ async function executeMainProcessingLogic(options: any): Promise<void> {
       console.log(`   ${type}: ${count} events`);
     });
     console.log('');
+    printTierBreakdown(businessSummary);
+    printConfigurationBreakdown(businessSummary);
+    printRiskRanking(businessSummary);
+    printSampleEstimates(businessSummary);
 
     // Save comprehensive business report
     const reportFile = path.join(sessionDir.reports, 'executive-summary.json');
@@ -904,6 +1149,7 @@ async function createOrganizedOutputStructure(
   scripts: string;
   backups: string;
   logs: string;
+  quarantine: string;
 }> {
   const sessionName = `session-${timestamp.split('T')[0]}-${operatorId}`;
   const sessionDir = path.join(baseOutput, sessionName);
@@ -914,7 +1160,8 @@ async function createOrganizedOutputStructure(
     corruptions: path.join(sessionDir, 'corruptions-by-type'),
     scripts: path.join(sessionDir, 'remediation-scripts'),
     backups: path.join(sessionDir, 'backups'),
-    logs: path.join(sessionDir, 'logs')
+    logs: path.join(sessionDir, 'logs'),
+    quarantine: path.join(sessionDir, 'quarantine')
   };
   
   // Create all directories
@@ -928,10 +1175,220 @@ async function createOrganizedOutputStructure(
   console.log(`   🔧 Scripts: ./remediation-scripts/`);
   console.log(`   💾 Backups: ./backups/`);
   console.log(`   📋 Logs: ./logs/`);
+  console.log(`   🚧 Quarantine: ./quarantine/`);
   
   return structure;
 }
 
+/**
+ * Write the CSV data-quality report and quarantined rows into the session
+ */
+async function writeDataQualityOutput(report: DataQualityReport, sessionDir: any): Promise<void> {
+  const reportFile = path.join(sessionDir.reports, 'data-quality-report.json');
+  await fs.writeFile(reportFile, JSON.stringify(report, null, 2));
+
+  const quarantineFiles = await writeQuarantineFiles(report, sessionDir.quarantine);
+
+  console.log(`📊 Data Quality Score: ${report.qualityScore} (${report.totalRows} rows, ${report.rowsWithIssues} with issues)`);
+  console.log(`💾 Data Quality Report: ${reportFile}`);
+  if (quarantineFiles.length > 0) {
+    console.log(`🚧 Quarantined ${report.rowsQuarantined} rows: ${sessionDir.quarantine}`);
+  }
+}
+
+/**
+ * Fail the run when the data-quality score is below the environment's threshold and its policy says so
+ */
+async function enforceDataQualityThreshold(report: DataQualityReport, configDir: string): Promise<void> {
+  const environmentConfig = await new ConfigurationManager(configDir).loadEnvironmentConfig();
+  const qualityPolicy = environmentConfig.dataQuality;
+  if (qualityPolicy?.failAuditBelowThreshold && report.qualityScore < qualityPolicy.minQualityScore) {
+    throw new Error(
+      `Data quality score ${report.qualityScore} is below the ${environmentConfig.environment} threshold of ${qualityPolicy.minQualityScore}`
+    );
+  }
+}
+
+/**
+ * Save the processing state held back during the run
+ */
+async function savePendingState(stateManager: StateManager, pendingState: ProcessingRecord[]): Promise<void> {
+  for (const record of pendingState) {
+    await stateManager.recordProcessing(...record);
+  }
+  pendingState.length = 0;
+}
+
+/**
+ * Write the CSV header drift against the previous drop of the tier into the session
+ */
+async function writeSchemaDriftOutput(report: SchemaDriftReport, sessionDir: any): Promise<void> {
+  if (!report.hasBaseline) {
+    console.log(`🧬 Recorded first CSV header fingerprint for ${report.tier}`);
+    return;
+  }
+  if (report.entries.length === 0) {
+    console.log(`🧬 CSV headers unchanged since ${report.baselineRecordedAt}`);
+    return;
+  }
+
+  const reportFile = path.join(sessionDir.reports, 'schema-drift-report.json');
+  await fs.writeFile(reportFile, JSON.stringify(report, null, 2));
+  const blockingCount = report.entries.filter(entry => entry.severity === 'blocking').length;
+  console.log(`🧬 Schema Drift: ${report.entries.length} column changes (${blockingCount} blocking) since ${report.baselineRecordedAt}`);
+  console.log(`💾 Schema Drift Report: ${reportFile}`);
+}
+
+/**
+ * Write the integrations found in more than one tier into the session
+ */
+async function writeCrossTierDuplicatesOutput(duplicates: CrossTierDuplicate[], sessionDir: any): Promise<void> {
+  if (duplicates.length === 0) {
+    return;
+  }
+
+  const reportFile = path.join(sessionDir.reports, 'cross-tier-duplicates.json');
+  await fs.writeFile(reportFile, JSON.stringify({
+    finding: 'cross-tier-duplicate-integration',
+    description: 'Integration IDs exported by more than one tier; only the first tier listed was audited',
+    count: duplicates.length,
+    integrations: duplicates
+  }, null, 2));
+  console.log(`🔁 Cross-Tier Duplicates: ${duplicates.length} integrations found in more than one tier`);
+  console.log(`💾 Cross-Tier Duplicates Report: ${reportFile}`);
+}
+
+/**
+ * Sampler for the --sample options, if any
+ */
+function createSampler(options: any): IntegrationSampler | undefined {
+  const samplingOptions = createSamplingOptions({
+    mode: options.sample,
+    size: options.sampleSize,
+    seed: options.sampleSeed,
+    stratifyBy: options.stratifyBy
+  });
+  return samplingOptions && new IntegrationSampler(samplingOptions);
+}
+
+/**
+ * Write the drawn sample into the session, so the run can be repeated with the same selection
+ */
+async function writeSampleOutput(sampler: IntegrationSampler, sessionDir: any): Promise<void> {
+  const record = sampler.getRecord();
+  const reportFile = path.join(sessionDir.reports, 'sample.json');
+  await fs.writeFile(reportFile, JSON.stringify(record, null, 2));
+  console.log(`💾 Sample Record: ${reportFile}`);
+}
+
+/**
+ * Count integrations per tier (snapshots without provenance belong to the requested tier)
+ */
+function countByTier(counts: Record<string, number>, integrations: IntegrationSnapshot[], defaultTier: string): void {
+  for (const integration of integrations) {
+    const tier = integration.tier || defaultTier;
+    counts[tier] = (counts[tier] || 0) + 1;
+  }
+}
+
+/**
+ * Count integrations per applied product configuration ("unsupported" when no configuration matched the version)
+ */
+function countByConfiguration(counts: Record<string, number>, corruptionResult: any): void {
+  const applied = corruptionResult.configApplied;
+  const key = applied ? `${applied.product} v${applied.version}` : 'unsupported';
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+/**
+ * Print why each event of an integration was flagged: operators, observed fact values, thresholds and config file
+ */
+function printExplanations(corruptionResult: any): void {
+  for (const event of corruptionResult.corruptionEvents) {
+    const trace = event.metadata?.explanation;
+    if (!trace) continue;
+
+    const source = trace.configSource;
+    console.log(`   🔎 ${trace.corruptionType} (rule ${trace.ruleId}, ${source.product} v${source.version}${source.configPath ? ` from ${source.configPath}` : ''})`);
+    for (const condition of trace.conditions) {
+      const outcome = condition.result === undefined ? 'not evaluated' : condition.result ? 'matched' : 'did not match';
+      console.log(`      ${condition.operator} on ${condition.fact}${condition.path ? ` ${condition.path}` : ''}: ${outcome}`);
+      console.log(`         observed: ${JSON.stringify(condition.observed)}`);
+      if (trace.thresholds[condition.operator] !== undefined) {
+        console.log(`         thresholds: ${JSON.stringify(trace.thresholds[condition.operator])}`);
+      }
+    }
+  }
+}
+
+/**
+ * Print which configurations a version-aware run applied, when it applied more than one
+ */
+function printConfigurationBreakdown(businessSummary: any): void {
+  const configurations = Object.entries(businessSummary.byConfiguration || {});
+  if (configurations.length < 2) {
+    return;
+  }
+
+  console.log('🧩 CONFIGURATIONS APPLIED:');
+  configurations.forEach(([configuration, count]) => {
+    console.log(`   ${configuration}: ${count} integrations`);
+  });
+  console.log('');
+}
+
+/**
+ * Print the per-tier breakdown of a multi-tier run
+ */
+function printTierBreakdown(businessSummary: any): void {
+  const tiers = Object.entries(businessSummary.byTier || {});
+  if (tiers.length < 2 && !businessSummary.crossTierDuplicates?.count) {
+    return;
+  }
+
+  console.log('🗂️  RESULTS BY TIER:');
+  tiers.forEach(([tier, summary]: [string, any]) => {
+    console.log(`   ${tier}: ${summary.totalIntegrations} integrations, ${summary.corruptedIntegrations} corrupted (${summary.corruptionRate}), ${summary.totalActions} actions`);
+  });
+  if (businessSummary.crossTierDuplicates?.count) {
+    console.log(`   Cross-tier duplicates: ${businessSummary.crossTierDuplicates.count} integrations`);
+  }
+  console.log('');
+}
+
+/**
+ * Print an edition's effective requirements, with the edition each count and required name comes from
+ */
+function printResolvedEdition(resolved: ResolvedEditionRequirements): void {
+  console.log(`📋 ${resolved.edition.toUpperCase()} Edition Requirements (resolved):`);
+  console.log(`   Inheritance: ${resolved.inheritanceChain.join(' → ')}`);
+  if (resolved.description) {
+    console.log(`   Description: ${resolved.description}`);
+  }
+
+  for (const resourceType of EDITION_RESOURCE_TYPES) {
+    const count = resolved.perStore[resourceType];
+    const source = count.declaredBy
+      ? `declared by ${count.declaredBy}`
+      : count.inheritedFrom
+        ? `${count.inheritedFrom} + ${count.added} additional`
+        : `${count.added} listed`;
+    console.log(`   ${resourceType} per store: ${count.value} (${source})`);
+  }
+
+  for (const resourceType of EDITION_RESOURCE_TYPES) {
+    const names = resolved.required[resourceType];
+    if (names.length === 0) continue;
+    console.log(`   Required ${resourceType}: ${names.length}`);
+    for (const edition of resolved.inheritanceChain.slice().reverse()) {
+      const fromEdition = names.filter(name => resolved.nameSources[resourceType][name] === edition);
+      if (fromEdition.length === 0) continue;
+      console.log(`      └── from ${edition} (${fromEdition.length}):`);
+      fromEdition.forEach(name => console.log(`            ${name}`));
+    }
+  }
+}
+
 /**
  * Generate organized corruption files
  */
@@ -943,18 +1400,17 @@ async function generateOrganizedCorruptionFiles(
 ): Promise<void> {
   // Group corruptions by type
   const corruptionsByType: Record<string, any[]> = {};
-  const actionsByType: Record<string, any[]> = {};
 
   for (const result of corruptionResults) {
     for (const event of result.corruptionEvents) {
       const type = event.params.corruptionType;
       if (!corruptionsByType[type]) {
         corruptionsByType[type] = [];
-        actionsByType[type] = [];
       }
       corruptionsByType[type].push({
         integrationId: result.integrationId,
         email: result.email,
+        riskScore: result.riskScore,
         event: event,
         severity: event.params.severity,
         details: event.params.details
@@ -962,21 +1418,12 @@ async function generateOrganizedCorruptionFiles(
     }
   }
 
-  // Add corresponding actions
-  for (const result of remediationResults) {
-    for (const action of result.actions) {
-      const corruptionType = getCorruptionTypeFromAction(action);
-      if (corruptionType && actionsByType[corruptionType]) {
-        actionsByType[corruptionType].push({
-          integrationId: result.integrationId,
-          action: action
-        });
-      }
-    }
-  }
+  // Add corresponding actions, filed under the corruption type each one fixes
+  const actionsByType = groupActionsByType(remediationResults);
 
-  // Generate organized files for each corruption type
+  // Generate organized files for each corruption type, highest-risk integrations first
   for (const [type, corruptions] of Object.entries(corruptionsByType)) {
+    corruptions.sort((a, b) => (b.riskScore || 0) - (a.riskScore || 0));
     const humanTypeName = getHumanReadableTypeName(type);
     const fileName = getHumanReadableFileName(type);
     
@@ -1031,9 +1478,12 @@ async function generateEnterpriseRemediationPlan(
         operatorId: options.operatorId,
         environment: process.env['NODE_ENV'] || 'production',
         metadata: {
-          corruptionTypes: result.actions.map((a: any) => a.metadata.issueType || 'unknown'),
+          corruptionTypes: result.actions.map((a: any) => a.metadata.corruptionType || 'unknown'),
           totalActions: result.actions.length,
-          estimatedDuration: result.actions.length * 2000 // 2s per action
+          estimatedDuration: result.actions.length * 2000, // 2s per action
+          dependencyGraph: result.businessAnalysis?.executionPlan?.dependencyGraph,
+          blockingConflicts: result.businessAnalysis?.executionPlan?.conflicts?.blocking,
+          manualReview: result.businessAnalysis?.executionPlan?.manualReview
         }
       });
       jobIds.push(jobId);
@@ -1490,14 +1940,12 @@ async function generateCorruptionTypeFiles(
 ): Promise<void> {
   // Group corruptions by type
   const corruptionsByType: Record<string, any[]> = {};
-  const actionsByType: Record<string, any[]> = {};
 
   for (const result of corruptionResults) {
     for (const event of result.corruptionEvents) {
       const type = event.params.corruptionType;
       if (!corruptionsByType[type]) {
         corruptionsByType[type] = [];
-        actionsByType[type] = [];
       }
       corruptionsByType[type].push({
         integrationId: result.integrationId,
@@ -1509,18 +1957,8 @@ async function generateCorruptionTypeFiles(
     }
   }
 
-  // Add corresponding actions
-  for (const result of remediationResults) {
-    for (const action of result.actions) {
-      const corruptionType = getCorruptionTypeFromAction(action);
-      if (corruptionType && actionsByType[corruptionType]) {
-        actionsByType[corruptionType].push({
-          integrationId: result.integrationId,
-          action: action
-        });
-      }
-    }
-  }
+  // Add corresponding actions, filed under the corruption type each one fixes
+  const actionsByType = groupActionsByType(remediationResults);
 
   // Generate files for each corruption type
   for (const [type, corruptions] of Object.entries(corruptionsByType)) {
@@ -1735,8 +2173,8 @@ echo "✅ Deleted ${target.resourceType}: ${target.resourceId}"`;
 # Action: ${actionId}
 # TODO: Implement API call to patch setting
 # curl -X PATCH "api/integrations/${integrationId}/settings" \\
-#   -H "Content-Type: application/json" \\
-#   -d '${JSON.stringify(payload.diff)}'
+#   -H "Content-Type: application/json-patch+json" \\
+#   -d '${JSON.stringify(payload.patch)}'
 echo "✅ Patched ${target.path}: ${payload.before} → ${payload.after}"`;
 
     case 'reconnect':
@@ -1784,7 +2222,9 @@ function generateRollbackCommand(action: any, actionNumber: number): string {
     case 'patch':
       return `echo "[$actionNumber] Rolling back: Restore ${target.path}"
 # Rollback for: ${action.id}
-# curl -X PATCH "api/integrations/${target.integrationId}/settings" -d '{"${target.path}": ${JSON.stringify(payload.before)}}'`;
+${payload.patch
+  ? `# curl -X PATCH "api/integrations/${target.integrationId}/settings" -H "Content-Type: application/json-patch+json" -d '${JSON.stringify(invertJsonPatch(payload.patch))}'`
+  : `# curl -X PATCH "api/integrations/${target.integrationId}/settings" -d '{"${target.path}": ${JSON.stringify(payload.before)}}'`}`;
 
     default:
       return `echo "[$actionNumber] Cannot rollback ${actionType}"`;
@@ -2832,95 +3272,15 @@ function generateCorruptionHash(corruptionEvents: any[]): string {
   return Buffer.from(JSON.stringify(hashData)).toString('base64').substring(0, 32);
 }
 
-/**
- * Helper functions
- */
-function getHumanReadableScriptName(type: string): string {
-  const nameMap: Record<string, string> = {
-    'incorrect-import-count': 'fix-import-counts',
-    'incorrect-export-count': 'fix-export-counts', 
-    'incorrect-flow-count': 'fix-flow-counts',
-    'missing-properties': 'add-missing-settings',
-    'offline-connections': 'reconnect-offline-connections',
-    'license-edition-mismatch': 'fix-license-mismatches',
-    'stuck-in-update-process': 'clear-stuck-updates',
-    'unknown': 'fix-unknown-issues'
-  };
-  
-  return nameMap[type] || `fix-${type.replace(/-/g, '_')}`;
-}
-
-function getHumanReadableTypeName(type: string): string {
-  const nameMap: Record<string, string> = {
-    'incorrect-import-count': 'Import Count Issues',
-    'incorrect-export-count': 'Export Count Issues', 
-    'incorrect-flow-count': 'Flow Count Issues',
-    'missing-properties': 'Missing Configuration Properties',
-    'offline-connections': 'Offline Connection Problems',
-    'license-edition-mismatch': 'License Edition Conflicts',
-    'stuck-in-update-process': 'Stuck Update Processes',
-    'unknown': 'Unknown Issues'
-  };
-  
-  return nameMap[type] || type.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-}
-
-function getHumanReadableFileName(type: string): string {
-  const nameMap: Record<string, string> = {
-    'incorrect-import-count': 'import-count-issues',
-    'incorrect-export-count': 'export-count-issues', 
-    'incorrect-flow-count': 'flow-count-issues',
-    'missing-properties': 'missing-settings',
-    'offline-connections': 'offline-connection-problems',
-    'license-edition-mismatch': 'license-conflicts',
-    'stuck-in-update-process': 'stuck-updates',
-    'unknown': 'unknown-issues'
-  };
-  
-  return nameMap[type] || `${type.replace(/-/g, '_')}_issues`;
-}
-
-function getCorruptionTypeFromAction(action: any): string | null {
-  const reason = action.metadata?.reason || '';
-  
-  if (reason.includes('import') || reason.includes('export') || reason.includes('flow')) {
-    if (reason.includes('import')) return 'incorrect-import-count';
-    if (reason.includes('export')) return 'incorrect-export-count';
-    if (reason.includes('flow')) return 'incorrect-flow-count';
-  }
-  
-  if (reason.includes('license') || reason.includes('edition')) return 'license-edition-mismatch';
-  if (reason.includes('property') || reason.includes('missing')) return 'missing-properties';
-  if (reason.includes('connection') || reason.includes('offline')) return 'offline-connections';
-  if (reason.includes('update') || reason.includes('flag')) return 'stuck-in-update-process';
-  
-  return null;
-}
-
-function groupActionsByType(remediationResults: any[]): Record<string, any[]> {
-  const grouped: Record<string, any[]> = {};
-  
-  for (const result of remediationResults) {
-    for (const action of result.actions) {
-      const type = getCorruptionTypeFromAction(action) || 'unknown';
-      if (!grouped[type]) {
-        grouped[type] = [];
-      }
-      grouped[type].push({
-        integrationId: result.integrationId,
-        action: action
-      });
-    }
-  }
-  
-  return grouped;
-}
-
 function generateBusinessSummary(
-  integrations: any[],
+  totalIntegrations: number,
   corruptionResults: any[],
   remediationResults: any[],
-  businessConfig: any
+  businessConfig: any,
+  tierCounts: Record<string, number> = {},
+  crossTierDuplicates: CrossTierDuplicate[] = [],
+  sampler?: IntegrationSampler,
+  configCounts: Record<string, number> = {}
 ): any {
   const totalEvents = corruptionResults.reduce((sum, result) => sum + result.corruptionEvents.length, 0);
   const totalActions = remediationResults.reduce((sum, result) => sum + result.actions.length, 0);
@@ -2937,13 +3297,25 @@ function generateBusinessSummary(
     generatedAt: new Date().toISOString(),
     approach: 'Configuration-driven business logic',
     
-    totalIntegrations: integrations.length,
+    totalIntegrations,
     corruptedIntegrations: corruptionResults.length,
-    corruptionRate: `${((corruptionResults.length / integrations.length) * 100).toFixed(1)}%`,
+    corruptionRate: `${((corruptionResults.length / totalIntegrations) * 100).toFixed(1)}%`,
     totalEvents,
     totalActions,
     
     corruptionTypes,
+
+    byTier: generateTierBreakdown(tierCounts, corruptionResults, remediationResults),
+    crossTierDuplicates: {
+      count: crossTierDuplicates.length,
+      integrations: crossTierDuplicates
+    },
+
+    ...(sampler && { sampling: generateSamplingSummary(sampler) }),
+
+    byConfiguration: configCounts,
+
+    riskRanking: generateRiskRanking(corruptionResults),
     
     businessConfiguration: {
       editionsConfigured: Object.keys(businessConfig?.editionRequirements || {}),
@@ -2969,4 +3341,140 @@ function generateBusinessSummary(
   };
 }
 
+/**
+ * Corrupted integrations ranked by weighted risk score, for the executive summary
+ */
+function generateRiskRanking(corruptionResults: any[], limit: number = 20): any {
+  const scores = corruptionResults.map(result => result.riskScore || 0);
+
+  return {
+    averageRiskScore: scores.length > 0
+      ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10
+      : 0,
+    maxRiskScore: scores.length > 0 ? Math.max(...scores) : 0,
+    topIntegrations: rankByRiskScore(corruptionResults, limit).map(result => ({
+      integrationId: result.integrationId,
+      email: result.email,
+      ...(result.tier && { tier: result.tier }),
+      riskScore: result.riskScore,
+      overallSeverity: result.overallSeverity,
+      corruptionTypes: result.corruptionEvents.map((event: any) => event.params.corruptionType),
+      riskFactors: result.riskFactors
+    }))
+  };
+}
+
+/**
+ * Print the highest-risk integrations of the run
+ */
+function printRiskRanking(businessSummary: any): void {
+  const top = (businessSummary.riskRanking?.topIntegrations || []).slice(0, 5);
+  if (top.length === 0) {
+    return;
+  }
+
+  console.log(`🔥 HIGHEST RISK INTEGRATIONS (average score ${businessSummary.riskRanking.averageRiskScore}):`);
+  top.forEach((result: any, i: number) => {
+    console.log(`   ${i + 1}. ${result.integrationId}: ${result.riskScore} (${result.overallSeverity}) - ${result.corruptionTypes.join(', ')}`);
+  });
+  console.log('');
+}
+
+/**
+ * Sampling parameters and population estimates for the executive summary
+ */
+function generateSamplingSummary(sampler: IntegrationSampler): any {
+  const { integrationIds, ...record } = sampler.getRecord();
+  const flags = [`--sample ${record.mode}`, `--sample-size ${record.size}`];
+  if (record.seed !== undefined) flags.push(`--sample-seed ${record.seed}`);
+  if (record.stratifyBy) flags.push(`--stratify-by ${record.stratifyBy}`);
+
+  return {
+    ...record,
+    reproduceWith: flags.join(' '),
+    estimates: sampler.getEstimates() || {
+      note: 'Top-N by settings size is not a probability sample; results are not extrapolated'
+    }
+  };
+}
+
+/**
+ * Print the population estimates of a sampled run
+ */
+function printSampleEstimates(businessSummary: any): void {
+  const sampling = businessSummary.sampling;
+  if (!sampling) {
+    return;
+  }
+
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const estimate = sampling.estimates.corruptionRate;
+  console.log(`🎲 SAMPLE ESTIMATES (${sampling.sampleSize} of ${sampling.populationSize} integrations):`);
+  if (estimate) {
+    console.log(`   Corruption rate: ${percent(estimate.rate)} (95% CI ${percent(estimate.lower)} - ${percent(estimate.upper)})`);
+    console.log(`   Corrupted integrations: ~${estimate.estimatedCount} (${estimate.estimatedCountLower} - ${estimate.estimatedCountUpper})`);
+    if (sampling.estimates.excludedCount > 0) {
+      console.log(`   Left out of the estimates: ${sampling.estimates.excludedCount} sampled integrations (quarantined or failed detection)`);
+    }
+  } else {
+    console.log(`   ${sampling.estimates.note}`);
+  }
+  console.log(`   Reproduce with: ${sampling.reproduceWith}`);
+  console.log('');
+}
+
+/**
+ * Break corruption and remediation totals down by the tier each integration was read from
+ */
+function generateTierBreakdown(
+  tierCounts: Record<string, number>,
+  corruptionResults: any[],
+  remediationResults: any[]
+): Record<string, any> {
+  const tierByIntegration = new Map<string, string>();
+  const byTier: Record<string, any> = {};
+  const tierSummary = (tier: string) => {
+    if (!byTier[tier]) {
+      byTier[tier] = {
+        totalIntegrations: tierCounts[tier] || 0,
+        corruptedIntegrations: 0,
+        corruptionRate: '0.0%',
+        totalEvents: 0,
+        totalActions: 0,
+        corruptionTypes: {} as Record<string, number>
+      };
+    }
+    return byTier[tier];
+  };
+
+  Object.keys(tierCounts).forEach(tierSummary);
+
+  for (const result of corruptionResults) {
+    const tier = result.tier || Object.keys(tierCounts)[0] || 'unknown';
+    tierByIntegration.set(result.integrationId, tier);
+
+    const summary = tierSummary(tier);
+    summary.corruptedIntegrations++;
+    summary.totalEvents += result.corruptionEvents.length;
+    result.corruptionEvents.forEach((event: any) => {
+      summary.corruptionTypes[event.params.corruptionType] = (summary.corruptionTypes[event.params.corruptionType] || 0) + 1;
+    });
+  }
+
+  for (const result of remediationResults) {
+    const tier = tierByIntegration.get(result.integrationId);
+    if (tier) {
+      tierSummary(tier).totalActions += result.actions.length;
+    }
+  }
+
+  for (const summary of Object.values(byTier)) {
+    if (summary.totalIntegrations > 0) {
+      summary.corruptionRate = `${((summary.corruptedIntegrations / summary.totalIntegrations) * 100).toFixed(1)}%`;
+    }
+  }
+
+  return byTier;
+}
+
 program.parse();
@@ -5,34 +5,90 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import Ajv, { ValidateFunction } from 'ajv';
+import * as semver from 'semver';
+import { resolveEditionRequirements, ResolvedEditionRequirements } from './edition-inheritance';
+import { VersionCandidate } from './version-selection';
 
 export interface ProductVersionConfig {
   product: string;
   version: string;
   name: string;
   description: string;
+  appliesToVersions?: string; // Semver range of integration versions these rules apply to
   editionRequirements: any;
   productSpecificRules?: any;
   versionSpecificRules?: any;
   licenseValidation: any;
   requiredProperties: any;
   offlineConnectionRules?: any;
+  referenceIntegrityRules?: any;
+  storeValidationRules?: any;
   updateProcessRules?: any;
+  riskScoring?: any; // Weighted risk score model (see rules/risk-scoring.ts)
+  settingsValidation?: any; // JSON Schema for settings (see rules/settings-schema.ts)
   tolerances: any;
+  detectionRules?: DetectionRuleConfig[];
   metadata: any;
 }
 
+/**
+ * A corruption detection rule as written in the business rules (json-rules-engine conditions and event)
+ */
+export interface DetectionRuleConfig {
+  name: string;
+  description?: string;
+  enabled?: boolean;
+  priority?: number;
+  conditions: any;
+  event: {
+    type: string;
+    params: {
+      corruptionType: string;
+      resourceType: string;
+      severity: 'low' | 'medium' | 'high' | 'critical';
+      priority: number;
+      fixAction: string;
+      rollbackable?: boolean;
+    };
+  };
+}
+
+export interface ConfigurationValidationResult {
+  product: string;
+  version: string;
+  configPath: string;
+  valid: boolean;
+  errors: string[];
+}
+
+export interface EnvironmentConfig {
+  environment: string;
+  description?: string;
+  system?: any;
+  safety?: any;
+  validation?: any;
+  reporting?: any;
+  dataQuality?: {
+    minQualityScore: number;
+    failAuditBelowThreshold: boolean;
+  };
+  rollback?: any;
+}
+
 export interface ConfigurationLocation {
   product: string;
   version: string;
   configPath: string;
   configType: 'product-specific' | 'version-specific' | 'global';
+  versionRange?: string; // appliesToVersions declared in the file
 }
 
 export class ConfigurationManager {
   private configsDir: string;
   private loadedConfigs = new Map<string, ProductVersionConfig>();
   private availableConfigurations: ConfigurationLocation[] = [];
+  private schemaValidator?: ValidateFunction | null; // null when the config directory has no schema
 
   constructor(configsDir: string = './config') {
     this.configsDir = configsDir;
@@ -87,7 +143,11 @@ export class ConfigurationManager {
       throw new Error(`No configuration found for product: ${product}, version: ${version}`);
     }
 
-    // Validate configuration structure
+    // Validate against the business rules schema, then the structure the detector relies on
+    const schemaErrors = await this.validateAgainstSchema(config);
+    if (schemaErrors.length > 0) {
+      throw new Error(`Invalid configuration ${usedPath}: ${schemaErrors.join('; ')}`);
+    }
     this.validateConfiguration(config);
 
     this.loadedConfigs.set(cacheKey, config);
@@ -194,11 +254,13 @@ export class ConfigurationManager {
           for (const file of files) {
             if (file.endsWith('-business-rules.json')) {
               const version = file.replace('-business-rules.json', '');
+              const configPath = path.join(productDir, file);
               this.availableConfigurations.push({
                 product,
                 version,
-                configPath: path.join(productDir, file),
-                configType: 'product-specific'
+                configPath,
+                configType: 'product-specific',
+                versionRange: await this.readVersionRange(configPath)
               });
             }
           }
@@ -228,11 +290,13 @@ export class ConfigurationManager {
           for (const file of files) {
             if (file.endsWith('-business-rules.json')) {
               const product = file.replace('-business-rules.json', '');
+              const configPath = path.join(versionDir, file);
               this.availableConfigurations.push({
                 product,
                 version,
-                configPath: path.join(versionDir, file),
-                configType: 'version-specific'
+                configPath,
+                configType: 'version-specific',
+                versionRange: await this.readVersionRange(configPath)
               });
             }
           }
@@ -243,6 +307,32 @@ export class ConfigurationManager {
     }
   }
 
+  /**
+   * appliesToVersions of a configuration file (unreadable files are reported when loaded)
+   */
+  private async readVersionRange(configPath: string): Promise<string | undefined> {
+    try {
+      const config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+      return typeof config.appliesToVersions === 'string' ? config.appliesToVersions : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Configurations of a product that integration versions can be matched against
+   */
+  getVersionCandidates(product: string): VersionCandidate[] {
+    return this.availableConfigurations
+      .filter(config => config.product === product && config.configType !== 'global')
+      .map(config => ({
+        product: config.product,
+        version: config.version,
+        versionRange: config.versionRange,
+        configPath: config.configPath
+      }));
+  }
+
   /**
    * Discover global configurations
    */
@@ -277,6 +367,84 @@ export class ConfigurationManager {
     }
   }
 
+  /**
+   * Check a business rules document against <config>/schemas/business-rules-schema.json
+   * Returns one message per violation (empty when valid, or when there is no schema file)
+   */
+  async validateAgainstSchema(config: unknown): Promise<string[]> {
+    if (this.schemaValidator === undefined) {
+      const schemaPath = path.join(this.configsDir, 'schemas', 'business-rules-schema.json');
+      try {
+        const schema = JSON.parse(await fs.readFile(schemaPath, 'utf-8'));
+        this.schemaValidator = new Ajv({ allErrors: true }).compile(schema);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw new Error(`Cannot load business rules schema ${schemaPath}: ${(error as Error).message}`);
+        }
+        console.warn(`⚠️  No business rules schema at ${schemaPath}, skipping schema validation`);
+        this.schemaValidator = null;
+      }
+    }
+
+    if (!this.schemaValidator || this.schemaValidator(config)) {
+      return [];
+    }
+    return (this.schemaValidator.errors || []).map(error => `${error.instancePath || '/'} ${error.message}`);
+  }
+
+  /**
+   * The settings JSON Schema a configuration references in settingsValidation.schemaPath
+   * (relative to the configuration directory); undefined when it references none or validation is disabled
+   */
+  async loadSettingsSchema(config: ProductVersionConfig): Promise<object | undefined> {
+    const schemaPath = config.settingsValidation?.schemaPath;
+    if (!schemaPath || config.settingsValidation?.enabled === false) {
+      return undefined;
+    }
+
+    const fullPath = path.join(this.configsDir, schemaPath);
+    try {
+      return JSON.parse(await fs.readFile(fullPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot load settings schema ${fullPath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Validate every discovered configuration file (config --validate)
+   */
+  async validateAllConfigurations(): Promise<ConfigurationValidationResult[]> {
+    if (this.availableConfigurations.length === 0) {
+      await this.discoverConfigurations();
+    }
+
+    const results: ConfigurationValidationResult[] = [];
+    for (const location of this.availableConfigurations) {
+      const errors: string[] = [];
+      try {
+        const config = JSON.parse(await fs.readFile(location.configPath, 'utf-8'));
+        errors.push(...await this.validateAgainstSchema(config));
+        if (errors.length === 0) {
+          this.validateConfiguration(config);
+          // A referenced settings schema must exist and compile
+          const settingsSchema = await this.loadSettingsSchema(config);
+          if (settingsSchema) {
+            try {
+              new Ajv({ allErrors: true }).compile(settingsSchema);
+            } catch (error) {
+              errors.push(`Invalid settings schema ${config.settingsValidation.schemaPath}: ${(error as Error).message}`);
+            }
+          }
+        }
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+
+      results.push({ product: location.product, version: location.version, configPath: location.configPath, valid: errors.length === 0, errors });
+    }
+    return results;
+  }
+
   /**
    * Validate configuration structure
    */
@@ -294,15 +462,38 @@ export class ConfigurationManager {
       throw new Error('Invalid configuration: editionRequirements must be an object');
     }
 
-    // Validate that each edition has required structure
+    // Validate that each edition has required structure; inheriting editions may derive their counts
     for (const [edition, requirements] of Object.entries(config.editionRequirements)) {
       if (edition === 'description') continue;
       
       const req = requirements as any;
-      if (!req.importsPerStore || !req.exportsPerStore || !req.flowsPerStore) {
+      if (!req.inheritsFrom && (!req.importsPerStore || !req.exportsPerStore || !req.flowsPerStore)) {
         throw new Error(`Invalid configuration: edition '${edition}' missing required count properties`);
       }
     }
+
+    try {
+      resolveEditionRequirements(config.editionRequirements);
+    } catch (error) {
+      throw new Error(`Invalid configuration: ${(error as Error).message}`);
+    }
+
+    if (config.appliesToVersions !== undefined && semver.validRange(config.appliesToVersions) === null) {
+      throw new Error(`Invalid configuration: appliesToVersions '${config.appliesToVersions}' is not a semver range`);
+    }
+
+    const ruleNames = (config.detectionRules || []).map(rule => rule.name);
+    const duplicateRule = ruleNames.find((name, index) => ruleNames.indexOf(name) !== index);
+    if (duplicateRule) {
+      throw new Error(`Invalid configuration: detection rule '${duplicateRule}' is defined more than once`);
+    }
+  }
+
+  /**
+   * Effective requirements of every edition, with inheritsFrom chains merged and the source of each value
+   */
+  resolveEditionRequirements(config: ProductVersionConfig): Record<string, ResolvedEditionRequirements> {
+    return resolveEditionRequirements(config.editionRequirements);
   }
 
   /**
@@ -565,4 +756,22 @@ export class ConfigurationManager {
     return this.loadConfiguration(product, version);
   }
 
+  /**
+   * Load environment settings (config/environments/<environment>.json)
+   * Unknown environments get an empty config so callers apply their own defaults
+   */
+  async loadEnvironmentConfig(
+    environment: string = process.env['NODE_ENV'] || 'production'
+  ): Promise<EnvironmentConfig> {
+    const configPath = path.join(this.configsDir, 'environments', `${environment}.json`);
+
+    try {
+      const configContent = await fs.readFile(configPath, 'utf-8');
+      return JSON.parse(configContent) as EnvironmentConfig;
+    } catch (error) {
+      console.warn(`⚠️  No environment configuration found for '${environment}' at ${configPath}`);
+      return { environment };
+    }
+  }
+
 }
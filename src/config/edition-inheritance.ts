@@ -0,0 +1,131 @@
+/**
+ * Edition Inheritance
+ * Resolves `inheritsFrom` chains in editionRequirements into the effective requirements of each edition,
+ * recording which edition each count and required name comes from.
+ */
+
+export type EditionResourceType = 'imports' | 'exports' | 'flows';
+
+export const EDITION_RESOURCE_TYPES: EditionResourceType[] = ['imports', 'exports', 'flows'];
+
+/**
+ * A per-store count: declared by an edition, or inherited from the parent plus the edition's additional names
+ */
+export interface ResolvedCount {
+  value: number;
+  declaredBy?: string;
+  inheritedFrom?: string;
+  added?: number;
+}
+
+export interface ResolvedEditionRequirements {
+  edition: string;
+  description?: string;
+  inheritanceChain: string[]; // The edition first, then each ancestor
+  perStore: Record<EditionResourceType, ResolvedCount>;
+  required: Record<EditionResourceType, string[]>;
+  nameSources: Record<EditionResourceType, Record<string, string>>; // Required name → edition that added it
+}
+
+const capitalize = (resourceType: EditionResourceType): string =>
+  resourceType.charAt(0).toUpperCase() + resourceType.slice(1);
+
+/**
+ * Resolve every edition; throws on inheritance cycles and unknown parents
+ */
+export function resolveEditionRequirements(
+  editionRequirements: Record<string, any>
+): Record<string, ResolvedEditionRequirements> {
+  const resolved: Record<string, ResolvedEditionRequirements> = {};
+
+  const resolve = (edition: string, path: string[]): ResolvedEditionRequirements => {
+    if (resolved[edition]) return resolved[edition];
+    if (path.includes(edition)) {
+      throw new Error(`Edition inheritance cycle: ${[...path, edition].join(' → ')}`);
+    }
+
+    const own = editionRequirements[edition];
+    const parent = own.inheritsFrom ? resolveParent(edition, own.inheritsFrom, [...path, edition]) : undefined;
+
+    const perStore = {} as Record<EditionResourceType, ResolvedCount>;
+    const required = {} as Record<EditionResourceType, string[]>;
+    const nameSources = {} as Record<EditionResourceType, Record<string, string>>;
+
+    for (const resourceType of EDITION_RESOURCE_TYPES) {
+      const sources: Record<string, string> = { ...(parent?.nameSources[resourceType] || {}) };
+      const ownNames: string[] = [
+        ...(own[`required${capitalize(resourceType)}`] || []),
+        ...(own[`additional${capitalize(resourceType)}`] || [])
+      ];
+      const addedNames: string[] = [];
+      for (const name of ownNames) {
+        if (Object.prototype.hasOwnProperty.call(sources, name)) continue;
+        sources[name] = edition;
+        addedNames.push(name);
+      }
+
+      const declared = own[`${resourceType}PerStore`];
+      perStore[resourceType] = typeof declared === 'number'
+        ? { value: declared, declaredBy: edition }
+        : parent
+          ? { value: parent.perStore[resourceType].value + addedNames.length, inheritedFrom: parent.edition, added: addedNames.length }
+          : { value: addedNames.length, added: addedNames.length };
+      required[resourceType] = [...(parent?.required[resourceType] || []), ...addedNames];
+      nameSources[resourceType] = sources;
+    }
+
+    resolved[edition] = {
+      edition,
+      description: own.description,
+      inheritanceChain: [edition, ...(parent?.inheritanceChain || [])],
+      perStore,
+      required,
+      nameSources
+    };
+    return resolved[edition];
+  };
+
+  const resolveParent = (edition: string, parentEdition: string, path: string[]): ResolvedEditionRequirements => {
+    if (!isEdition(editionRequirements[parentEdition])) {
+      throw new Error(`Edition '${edition}' inherits from unknown edition '${parentEdition}'`);
+    }
+    return resolve(parentEdition, path);
+  };
+
+  for (const [edition, requirements] of Object.entries(editionRequirements || {})) {
+    if (isEdition(requirements)) resolve(edition, []);
+  }
+  return resolved;
+}
+
+/**
+ * Resolve one edition, or undefined when it is not configured
+ */
+export function resolveEdition(
+  edition: string,
+  editionRequirements: Record<string, any>
+): ResolvedEditionRequirements | undefined {
+  return resolveEditionRequirementsCached(editionRequirements)[edition];
+}
+
+const resolutionCache = new WeakMap<object, Record<string, ResolvedEditionRequirements>>();
+
+/**
+ * Resolution is pure, so repeated lookups against the same (loaded, unchanging) config reuse it
+ */
+export function resolveEditionRequirementsCached(
+  editionRequirements: Record<string, any>
+): Record<string, ResolvedEditionRequirements> {
+  if (!editionRequirements || typeof editionRequirements !== 'object') return {};
+  let resolved = resolutionCache.get(editionRequirements);
+  if (!resolved) {
+    resolved = resolveEditionRequirements(editionRequirements);
+    resolutionCache.set(editionRequirements, resolved);
+  }
+  return resolved;
+}
+
+// Skip the "description" string and other non-edition entries
+function isEdition(requirements: any): boolean {
+  return !!requirements && typeof requirements === 'object' && !Array.isArray(requirements);
+}
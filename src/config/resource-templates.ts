@@ -0,0 +1,283 @@
+/**
+ * Resource Template Library
+ * Versioned import, export and flow definitions under config/templates/<product>/<version>/, rendered into
+ * ready-to-apply create payloads by substituting store, connection and nsUtil adaptor variables.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import Ajv, { ValidateFunction } from 'ajv';
+
+export type TemplateResourceType = 'import' | 'export' | 'flow';
+
+export const TEMPLATE_FILES: Record<TemplateResourceType, string> = {
+  import: 'imports.json',
+  export: 'exports.json',
+  flow: 'flows.json'
+};
+
+export interface ResourceTemplateFile {
+  description?: string;
+  defaults?: Record<string, any>; // Shared by every resource in the file; resource entries override it
+  resources: Record<string, Record<string, any>>; // By externalId (flow name for flows)
+}
+
+export interface ResourceTemplateSet {
+  product: string;
+  version: string;
+  directory: string;
+  variables: Record<string, string | string[]>; // Variable → integration.*, settings.* or store.* paths, first resolved wins
+  files: Partial<Record<TemplateResourceType, ResourceTemplateFile>>;
+  validators: Partial<Record<TemplateResourceType, ValidateFunction>>;
+}
+
+export interface TemplateRenderContext {
+  integration: any;
+  store?: any; // Storemap entry of the store the resource is created for
+  edition?: string;
+}
+
+export interface RenderedResourceTemplate {
+  payload?: any; // Undefined when the library has no template for the resource
+  templateSource?: string; // Template file and externalId the payload came from
+  errors: string[]; // Unresolved variables and schema violations; a payload with errors is not ready to apply
+}
+
+// {{name}} is required, {{name?}} is dropped (or interpolated as '') when it does not resolve
+const PLACEHOLDER = /\{\{\s*(\w+)(\?)?\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*(\w+)(\?)?\s*\}\}$/;
+const OMIT = Symbol('omit');
+
+export class ResourceTemplateLibrary {
+  private templatesDir: string;
+  private schemaPath: string;
+  private loadedSets = new Map<string, Promise<ResourceTemplateSet | undefined>>();
+  private validators: Partial<Record<TemplateResourceType, ValidateFunction>> | null = null;
+
+  constructor(
+    templatesDir: string = './config/templates',
+    schemaPath: string = './config/schemas/resource-template-schema.json'
+  ) {
+    this.templatesDir = templatesDir;
+    this.schemaPath = schemaPath;
+  }
+
+  /**
+   * Templates of a product version; undefined when the library has no directory for it
+   */
+  async loadTemplateSet(product: string, version: string): Promise<ResourceTemplateSet | undefined> {
+    const key = `${product}@${version}`;
+    if (!this.loadedSets.has(key)) {
+      this.loadedSets.set(key, this.readTemplateSet(product, version));
+    }
+    return this.loadedSets.get(key)!;
+  }
+
+  /**
+   * List product versions with templates, as product@version
+   */
+  async listTemplateSets(): Promise<string[]> {
+    try {
+      const sets: string[] = [];
+      for (const product of await fs.readdir(this.templatesDir)) {
+        for (const version of await fs.readdir(path.join(this.templatesDir, product))) {
+          sets.push(`${product}@${version}`);
+        }
+      }
+      return sets.sort();
+    } catch (error) {
+      // Templates directory doesn't exist
+      return [];
+    }
+  }
+
+  private async readTemplateSet(product: string, version: string): Promise<ResourceTemplateSet | undefined> {
+    const directory = path.join(this.templatesDir, product, version);
+    let entries: string[];
+
+    try {
+      entries = await fs.readdir(directory);
+    } catch (error) {
+      return undefined;
+    }
+    if (!Array.isArray(entries)) {
+      return undefined;
+    }
+
+    const set: ResourceTemplateSet = {
+      product,
+      version,
+      directory,
+      variables: {},
+      files: {},
+      validators: await this.loadValidators()
+    };
+
+    if (entries.includes('variables.json')) {
+      set.variables = (await this.readJson(path.join(directory, 'variables.json'))).variables || {};
+    }
+
+    for (const [resourceType, fileName] of Object.entries(TEMPLATE_FILES) as Array<[TemplateResourceType, string]>) {
+      if (!entries.includes(fileName)) continue;
+      const file = await this.readJson(path.join(directory, fileName));
+      if (!file.resources || typeof file.resources !== 'object' || Array.isArray(file.resources)) {
+        throw new Error(`Invalid resource template file ${path.join(directory, fileName)}: missing 'resources' section`);
+      }
+      set.files[resourceType] = file;
+    }
+
+    const count = Object.values(set.files).reduce((sum, file) => sum + Object.keys(file!.resources).length, 0);
+    console.log(`✅ Loaded resource templates: ${product} v${version} (${count} resources) from ${directory}`);
+
+    return set;
+  }
+
+  private async loadValidators(): Promise<Partial<Record<TemplateResourceType, ValidateFunction>>> {
+    if (this.validators) {
+      return this.validators;
+    }
+
+    const schema = await this.readJson(this.schemaPath);
+    const ajv = new Ajv({ allErrors: true });
+    ajv.addSchema(schema, 'resource-template');
+
+    const validators: Partial<Record<TemplateResourceType, ValidateFunction>> = {};
+    for (const resourceType of Object.keys(TEMPLATE_FILES) as TemplateResourceType[]) {
+      const validate = ajv.getSchema(`resource-template#/definitions/${resourceType}`);
+      if (validate) validators[resourceType] = validate;
+    }
+    this.validators = validators;
+
+    return validators;
+  }
+
+  private async readJson(filePath: string): Promise<any> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot load resource template file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * The create payload of a resource: file defaults merged with its entry, variables substituted, checked against the schema
+ */
+export function renderResourceTemplate(
+  set: ResourceTemplateSet,
+  resourceType: string,
+  externalId: string,
+  context: TemplateRenderContext
+): RenderedResourceTemplate {
+  const type = resourceType as TemplateResourceType;
+  const file = set.files[type];
+  const definition = file?.resources[externalId];
+  if (!file || !definition) {
+    return { errors: [] };
+  }
+
+  const identity = type === 'flow' ? { name: externalId } : { externalId };
+  const template = { ...mergeTemplate(file.defaults || {}, definition), ...identity };
+
+  const variables = resolveTemplateVariables(set.variables, context);
+  const unresolved = new Set<string>();
+  const payload = substituteVariables(template, variables, unresolved);
+
+  const errors = [...unresolved].map(name => `unresolved template variable {{${name}}}`);
+  const validate = set.validators[type];
+  if (validate && !validate(payload)) {
+    errors.push(...(validate.errors || []).map(error => `${error.instancePath || '/'} ${error.message}`));
+  }
+
+  return {
+    payload,
+    templateSource: `${path.join(set.directory, TEMPLATE_FILES[type])}#${externalId}`,
+    errors
+  };
+}
+
+/**
+ * Variable values for a render context; variables whose paths all miss are left out
+ */
+export function resolveTemplateVariables(
+  variables: Record<string, string | string[]>,
+  context: TemplateRenderContext
+): Record<string, any> {
+  const roots: Record<string, any> = {
+    integration: context.integration,
+    settings: context.integration?.settings,
+    store: context.store
+  };
+
+  const resolved: Record<string, any> = {};
+  if (context.edition) resolved['edition'] = context.edition;
+
+  for (const [name, paths] of Object.entries(variables)) {
+    for (const variablePath of Array.isArray(paths) ? paths : [paths]) {
+      const [root, ...keys] = variablePath.split('.');
+      const value = keys.reduce((current, key) => current?.[key], roots[root]);
+      if (value !== undefined && value !== null && value !== '') {
+        resolved[name] = value;
+        break;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Replace {{variable}} placeholders; a whole-string placeholder keeps the value's type
+ */
+export function substituteVariables(value: any, variables: Record<string, any>, unresolved: Set<string>): any {
+  const result = substitute(value, variables, unresolved);
+  return result === OMIT ? undefined : result;
+}
+
+function substitute(value: any, variables: Record<string, any>, unresolved: Set<string>): any {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      const [, name, optional] = whole;
+      if (name in variables) return variables[name];
+      if (optional) return OMIT;
+      unresolved.add(name);
+      return value;
+    }
+    return value.replace(PLACEHOLDER, (placeholder, name: string, optional?: string) => {
+      if (name in variables) return String(variables[name]);
+      if (optional) return '';
+      unresolved.add(name);
+      return placeholder;
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => substitute(item, variables, unresolved)).filter(item => item !== OMIT);
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const substituted = substitute(item, variables, unresolved);
+      if (substituted !== OMIT) result[key] = substituted;
+    }
+    return result;
+  }
+
+  return value;
+}
+
+// Objects merge key by key; arrays and scalars in the resource entry replace the defaults
+function mergeTemplate(defaults: Record<string, any>, overrides: Record<string, any>): Record<string, any> {
+  const merged: Record<string, any> = { ...defaults };
+  for (const [key, value] of Object.entries(overrides)) {
+    const base = merged[key];
+    merged[key] = isPlainObject(base) && isPlainObject(value) ? mergeTemplate(base, value) : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,54 @@
+/**
+ * Version Selection
+ * Picks the product configuration whose `appliesToVersions` semver range matches an integration's version.
+ */
+
+import * as semver from 'semver';
+
+export interface VersionCandidate {
+  product: string;
+  version: string; // Version of the configuration file
+  versionRange?: string; // appliesToVersions of the configuration, when declared
+  configPath: string;
+}
+
+/**
+ * Normalise snapshot versions such as "1.51", "v2.0.3" or "1.51.0-beta" to x.y.z
+ */
+export function normalizeVersion(version: string | undefined): string | undefined {
+  if (!version) return undefined;
+  return semver.coerce(String(version))?.version;
+}
+
+/**
+ * Whether a candidate applies to a version: its range when declared, otherwise its own version exactly
+ */
+export function candidateMatches(candidate: VersionCandidate, version: string): boolean {
+  const normalized = normalizeVersion(version);
+  if (!normalized) return false;
+  if (candidate.versionRange) {
+    return semver.satisfies(normalized, candidate.versionRange);
+  }
+  return normalizeVersion(candidate.version) === normalized;
+}
+
+/**
+ * The best-matching candidate for a version: the highest configuration version among those that apply
+ */
+export function selectConfigurationForVersion(
+  candidates: VersionCandidate[],
+  version: string
+): VersionCandidate | undefined {
+  return candidates
+    .filter(candidate => candidateMatches(candidate, version))
+    .sort((a, b) => semver.rcompare(normalizeVersion(a.version) || '0.0.0', normalizeVersion(b.version) || '0.0.0'))[0];
+}
+
+/**
+ * Invalid semver ranges in the candidates, as messages
+ */
+export function validateVersionRanges(candidates: VersionCandidate[]): string[] {
+  return candidates
+    .filter(candidate => candidate.versionRange && semver.validRange(candidate.versionRange) === null)
+    .map(candidate => `${candidate.product} v${candidate.version}: invalid appliesToVersions range '${candidate.versionRange}'`);
+}
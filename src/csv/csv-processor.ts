@@ -6,14 +6,35 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import csv from 'csv-parser';
-import { createReadStream } from 'fs';
-import { IntegrationSnapshot } from '../types';
+import {
+  IntegrationSnapshot,
+  ImportResource,
+  ExportResource,
+  FlowResource,
+  ConnectionResource
+} from '../types';
+import { CSVProfile, CSVProfileManager, CSVFieldMapping, CSVFileType, CSV_FILE_TYPES } from './csv-profile';
+import { DataQualityReport, DataQualityTracker, RowContext } from './data-quality';
+import { openCSVFile, resolveCSVFile, resolveTierDirectory } from './tier-archive';
+import { profileSettings } from './settings-profile';
+import {
+  HeaderFingerprint,
+  HeaderFingerprintStore,
+  SchemaDriftReport,
+  TierHeaderFingerprint,
+  createHeaderFingerprint,
+  detectSchemaDrift,
+  saveHeaderFingerprints
+} from './schema-drift';
 
 export interface CSVProcessingOptions {
   inputDirectory: string;
   tier: string;
   batchSize?: number;
   validateHeaders?: boolean;
+  csvProfile?: string;
+  fingerprintStore?: HeaderFingerprintStore; // Compare headers with the previous drop and record this one
+  fingerprintTier?: string; // Key for the stored fingerprint (default: tier)
 }
 
 export interface CSVProcessingResult {
@@ -23,6 +44,52 @@ export interface CSVProcessingResult {
   warnings: string[];
   errors: string[];
   processingTime: number;
+  dataQuality?: DataQualityReport;
+  schemaDrift?: SchemaDriftReport;
+  headerFingerprints?: TierHeaderFingerprint[]; // Next header baselines, saved once the run succeeds; none after blocking drift
+  tiers?: Record<string, TierInputSummary>; // Multi-tier runs only
+  crossTierDuplicates?: CrossTierDuplicate[]; // Multi-tier runs only
+}
+
+/**
+ * What one tier contributed to a multi-tier run
+ */
+export interface TierInputSummary {
+  sourceType: string;
+  location: string;
+  integrations: number; // Snapshots kept from this tier
+  duplicatesSkipped: number; // Integrations already read from an earlier tier
+  warnings: number;
+  errors: number;
+  qualityScore?: number;
+}
+
+/**
+ * An integration ID found in more than one tier; only the first tier's snapshot is audited
+ */
+export interface CrossTierDuplicate {
+  integrationId: string;
+  tiers: string[];
+  keptTier: string;
+}
+
+/**
+ * Rows for each snapshot file type, from CSV files or any other tabular store
+ * label() names the file or table in data-quality reports
+ */
+export interface TabularRowSource {
+  label(fileType: CSVFileType): string;
+  rows(fileType: CSVFileType): AsyncIterable<any>;
+}
+
+/**
+ * Related resources indexed by integration ID
+ */
+interface ResourceIndex {
+  imports: Map<string, ImportResource[]>;
+  exports: Map<string, ExportResource[]>;
+  flows: Map<string, FlowResource[]>;
+  connections: Map<string, ConnectionResource[]>;
 }
 
 export class CSVProcessor {
@@ -34,6 +101,12 @@ export class CSVProcessor {
     'connections.csv'
   ];
 
+  private profileManager: CSVProfileManager;
+
+  constructor(profilesDirectory?: string) {
+    this.profileManager = new CSVProfileManager(profilesDirectory);
+  }
+
   /**
    * Process CSV files and return integration snapshots
    */
@@ -42,24 +115,16 @@ export class CSVProcessor {
     result: CSVProcessingResult;
   }> {
     const startTime = Date.now();
-    const result: CSVProcessingResult = {
-      totalIntegrations: 0,
-      processedIntegrations: 0,
-      errorCount: 0,
-      warnings: [],
-      errors: [],
-      processingTime: 0
-    };
+    const result = this.createProcessingResult();
+    const integrations: IntegrationSnapshot[] = [];
 
     try {
-      // Validate input directory and files
-      await this.validateInputFiles(options, result);
-
-      // Load CSV data
-      const csvData = await this.loadCSVData(options, result);
-
-      // Transform CSV data to integration snapshots
-      const integrations = await this.transformToIntegrations(csvData, result);
+      for await (const batch of this.streamIntegrations(options, result)) {
+        integrations.push(...batch);
+      }
+      if (options.fingerprintStore) {
+        await saveHeaderFingerprints(options.fingerprintStore, result.headerFingerprints);
+      }
 
       result.totalIntegrations = integrations.length;
       result.processedIntegrations = integrations.length;
@@ -77,29 +142,128 @@ export class CSVProcessor {
   }
 
   /**
-   * Validate that all required CSV files exist
+   * Stream integration snapshots in batches of options.batchSize
+   * Resource files are indexed by integration ID in a single pass each, then
+   * integrations.csv is streamed row by row so only one batch of snapshots is held at a time
    */
-  private async validateInputFiles(
+  async *streamIntegrations(
     options: CSVProcessingOptions,
-    result: CSVProcessingResult
-  ): Promise<void> {
-    const tierPath = path.join(options.inputDirectory, options.tier);
+    result: CSVProcessingResult = this.createProcessingResult()
+  ): AsyncGenerator<IntegrationSnapshot[]> {
+    // Validate input directory and files (unpacking a tier archive if needed)
+    const tierPath = await this.validateInputFiles(options, result);
+
+    if (options.validateHeaders) {
+      const headerValidation = await this.validateCSVHeaders(options);
+      for (const issue of headerValidation.issues) {
+        result.warnings.push(issue);
+        console.warn(`⚠️  ${issue}`);
+      }
+    }
 
-    try {
-      const stat = await fs.stat(tierPath);
-      if (!stat.isDirectory()) {
-        throw new Error(`Tier directory not found: ${tierPath}`);
+    let headerFingerprint: TierHeaderFingerprint | undefined;
+    if (options.fingerprintStore) {
+      ({ report: result.schemaDrift, fingerprint: headerFingerprint } = await this.compareHeaders(options, options.fingerprintStore));
+      for (const entry of result.schemaDrift.entries) {
+        if (entry.severity === 'blocking') {
+          result.errors.push(`Schema drift: ${entry.message}`);
+          result.errorCount++;
+          console.error(`❌ Schema drift: ${entry.message}`);
+        } else {
+          result.warnings.push(`Schema drift: ${entry.message}`);
+          console.warn(`⚠️  Schema drift: ${entry.message}`);
+        }
       }
-    } catch (error) {
-      throw new Error(`Cannot access tier directory: ${tierPath}`);
     }
 
-    // Check for required files
-    for (const requiredFile of this.requiredFiles) {
-      const filePath = path.join(tierPath, requiredFile);
+    yield* this.streamTabularRows({
+      label: fileType => `${fileType}.csv`,
+      rows: fileType => this.streamCSVRows(tierPath, `${fileType}.csv`)
+    }, options, result);
+
+    // Blocking drift keeps the old baseline, so the next drop reports it again
+    if (headerFingerprint && !result.schemaDrift?.blocking) {
+      result.headerFingerprints = [headerFingerprint];
+    }
+  }
+
+  /**
+   * Map rows from any tabular source to snapshot batches using the chosen column-mapping profile
+   */
+  async *streamTabularRows(
+    source: TabularRowSource,
+    options: Pick<CSVProcessingOptions, 'batchSize' | 'csvProfile'>,
+    result: CSVProcessingResult = this.createProcessingResult()
+  ): AsyncGenerator<IntegrationSnapshot[]> {
+    const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : 100;
+    const profile = await this.profileManager.loadProfile(options.csvProfile);
+    const quality = new DataQualityTracker();
+
+    // Build integrationId-keyed indexes for the resource files
+    const index = await this.buildResourceIndex(source, profile, quality);
+
+    const seenIntegrationIds = new Set<string>();
+    let batch: IntegrationSnapshot[] = [];
+    let rowNumber = 0;
+
+    for await (const integrationRow of source.rows('integrations')) {
+      const context: RowContext = { file: source.label('integrations'), row: ++rowNumber, data: integrationRow };
+      quality.recordRow(context.file);
+
       try {
-        await fs.access(filePath);
+        const snapshot = this.createIntegrationSnapshot(integrationRow, index, profile, quality, context);
+        seenIntegrationIds.add(snapshot.id);
+        batch.push(snapshot);
+        result.totalIntegrations++;
+        result.processedIntegrations++;
       } catch (error) {
+        result.errors.push(`Failed to process integration ${integrationRow.id || 'unknown'}: ${(error as Error).message}`);
+        result.errorCount++;
+      }
+
+      if (batch.length >= batchSize) {
+        yield batch;
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      yield batch;
+    }
+
+    await this.quarantineOrphanRows(source, profile, index, seenIntegrationIds, quality);
+
+    result.dataQuality = quality.getReport();
+    console.log(`📊 Data quality score: ${result.dataQuality.qualityScore} (${result.dataQuality.rowsWithIssues} rows with issues, ${result.dataQuality.rowsQuarantined} quarantined)`);
+  }
+
+  /**
+   * Create an empty processing result
+   */
+  createProcessingResult(): CSVProcessingResult {
+    return {
+      totalIntegrations: 0,
+      processedIntegrations: 0,
+      errorCount: 0,
+      warnings: [],
+      errors: [],
+      processingTime: 0
+    };
+  }
+
+  /**
+   * Validate that all required CSV files exist (plain or gzipped)
+   * Returns the directory to read them from, which is the unpacked archive for zipped tiers
+   */
+  private async validateInputFiles(
+    options: CSVProcessingOptions,
+    result: CSVProcessingResult
+  ): Promise<string> {
+    const tierPath = await this.resolveTierPath(options);
+
+    // Check for required files
+    for (const requiredFile of this.requiredFiles) {
+      if (!(await resolveCSVFile(tierPath, requiredFile))) {
         const warning = `Missing required file: ${requiredFile}`;
         result.warnings.push(warning);
         console.warn(`⚠️  ${warning}`);
@@ -107,220 +271,441 @@ export class CSVProcessor {
     }
 
     console.log(`✅ Validated input directory: ${tierPath}`);
+    return tierPath;
   }
 
   /**
-   * Load data from all CSV files
+   * Check the tier directory and resolve where its CSV files live
    */
-  private async loadCSVData(
-    options: CSVProcessingOptions,
-    result: CSVProcessingResult
-  ): Promise<{
-    integrations: any[];
-    imports: any[];
-    exports: any[];
-    flows: any[];
-    connections: any[];
-  }> {
+  private async resolveTierPath(options: CSVProcessingOptions): Promise<string> {
     const tierPath = path.join(options.inputDirectory, options.tier);
-    
-    const [integrations, imports, exports, flows, connections] = await Promise.all([
-      this.loadCSVFile(path.join(tierPath, 'integrations.csv')),
-      this.loadCSVFile(path.join(tierPath, 'imports.csv')),
-      this.loadCSVFile(path.join(tierPath, 'exports.csv')),
-      this.loadCSVFile(path.join(tierPath, 'flows.csv')),
-      this.loadCSVFile(path.join(tierPath, 'connections.csv'))
+
+    try {
+      const stat = await fs.stat(tierPath);
+      if (!stat.isDirectory()) {
+        throw new Error(`Tier directory not found: ${tierPath}`);
+      }
+    } catch (error) {
+      throw new Error(`Cannot access tier directory: ${tierPath}`);
+    }
+
+    return resolveTierDirectory(tierPath, this.requiredFiles);
+  }
+
+  /**
+   * Index all resource files by integration ID (one pass per file)
+   */
+  private async buildResourceIndex(
+    source: TabularRowSource,
+    profile: CSVProfile,
+    quality: DataQualityTracker
+  ): Promise<ResourceIndex> {
+    const { files } = profile;
+    const [imports, exports, flows, connections] = await Promise.all([
+      this.indexRows(source, 'imports', files.imports, quality, (row, ctx) => this.mapImportRow(row, files.imports, quality, ctx)),
+      this.indexRows(source, 'exports', files.exports, quality, (row, ctx) => this.mapExportRow(row, files.exports, quality, ctx)),
+      this.indexRows(source, 'flows', files.flows, quality, (row, ctx) => this.mapFlowRow(row, files.flows, quality, ctx)),
+      this.indexRows(source, 'connections', files.connections, quality, (row, ctx) => this.mapConnectionRow(row, files.connections, quality, ctx))
     ]);
 
-    console.log(`📊 Loaded CSV data:
-    - Integrations: ${integrations.length}
-    - Imports: ${imports.length}
-    - Exports: ${exports.length}
-    - Flows: ${flows.length}
-    - Connections: ${connections.length}`);
+    console.log(`📊 Indexed CSV resources:
+    - Imports: ${this.countIndexed(imports)} across ${imports.size} integrations
+    - Exports: ${this.countIndexed(exports)} across ${exports.size} integrations
+    - Flows: ${this.countIndexed(flows)} across ${flows.size} integrations
+    - Connections: ${this.countIndexed(connections)} across ${connections.size} integrations`);
 
-    return { integrations, imports, exports, flows, connections };
+    return { imports, exports, flows, connections };
   }
 
   /**
-   * Load individual CSV file
+   * Stream a resource file into an integrationId-keyed index
    */
-  private async loadCSVFile(filePath: string): Promise<any[]> {
-    try {
-      await fs.access(filePath);
-    } catch (error) {
-      console.warn(`⚠️  File not found: ${filePath}, returning empty array`);
-      return [];
+  private async indexRows<T>(
+    source: TabularRowSource,
+    fileType: CSVFileType,
+    fields: Record<string, CSVFieldMapping>,
+    quality: DataQualityTracker,
+    mapRow: (row: any, context: RowContext) => T
+  ): Promise<Map<string, T[]>> {
+    const index = new Map<string, T[]>();
+    const file = source.label(fileType);
+    let rowCount = 0;
+
+    for await (const row of source.rows(fileType)) {
+      const context: RowContext = { file, row: ++rowCount, data: row };
+      quality.recordRow(file);
+
+      // Rows that cannot be joined to an integration are quarantined rather than indexed under ''
+      const integrationId = this.readField(row, fields['integrationId']);
+      if (!integrationId) {
+        quality.recordIssue(context, {
+          column: fields['integrationId']?.columns[0] || 'integrationId',
+          issueType: 'missing_value',
+          value: '',
+          valueUsed: null,
+          quarantined: true
+        });
+        continue;
+      }
+
+      const resources = index.get(integrationId);
+      if (resources) {
+        resources.push(mapRow(row, context));
+      } else {
+        index.set(integrationId, [mapRow(row, context)]);
+      }
     }
 
-    return new Promise((resolve, reject) => {
-      const results: any[] = [];
-      
-      createReadStream(filePath)
-        .pipe(csv())
-        .on('data', (data) => results.push(data))
-        .on('end', () => {
-          console.log(`✅ Loaded ${results.length} records from ${path.basename(filePath)}`);
-          resolve(results);
-        })
-        .on('error', (error) => {
-          console.error(`❌ Error loading ${filePath}:`, error);
-          reject(error);
+    console.log(`✅ Indexed ${rowCount} records from ${file}`);
+    return index;
+  }
+
+  /**
+   * Quarantine resource rows whose integration ID matches no integration in integrations.csv
+   * Only files with orphaned IDs are re-read, to recover row numbers and raw values
+   */
+  private async quarantineOrphanRows(
+    source: TabularRowSource,
+    profile: CSVProfile,
+    index: ResourceIndex,
+    seenIntegrationIds: Set<string>,
+    quality: DataQualityTracker
+  ): Promise<void> {
+    for (const fileType of ['imports', 'exports', 'flows', 'connections'] as const) {
+      const orphanIds = new Set(Array.from(index[fileType].keys()).filter(id => !seenIntegrationIds.has(id)));
+      if (orphanIds.size === 0) continue;
+
+      const file = source.label(fileType);
+      const mapping = profile.files[fileType]['integrationId'];
+      let rowNumber = 0;
+
+      for await (const row of source.rows(fileType)) {
+        rowNumber++;
+        const integrationId = this.readField(row, mapping);
+        if (!orphanIds.has(integrationId)) continue;
+
+        quality.recordIssue({ file, row: rowNumber, data: row }, {
+          column: this.findSourceColumn(row, mapping) || 'integrationId',
+          issueType: 'orphan_row',
+          value: integrationId,
+          valueUsed: null,
+          quarantined: true
         });
-    });
+      }
+
+      console.warn(`⚠️  ${file}: ${orphanIds.size} integration IDs not found in ${source.label('integrations')}, rows quarantined`);
+    }
   }
 
   /**
-   * Transform CSV data into integration snapshots
+   * Stream rows from an individual CSV file or its .gz variant (yields nothing if the file is missing)
    */
-  private async transformToIntegrations(
-    csvData: {
-      integrations: any[];
-      imports: any[];
-      exports: any[];
-      flows: any[];
-      connections: any[];
-    },
-    result: CSVProcessingResult
-  ): Promise<IntegrationSnapshot[]> {
-    const integrations: IntegrationSnapshot[] = [];
+  private async *streamCSVRows(directory: string, fileName: string): AsyncGenerator<any> {
+    const filePath = await resolveCSVFile(directory, fileName);
+    if (!filePath) {
+      console.warn(`⚠️  File not found: ${path.join(directory, fileName)}, skipping`);
+      return;
+    }
 
-    for (const integrationRow of csvData.integrations) {
-      try {
-        const integration = this.createIntegrationSnapshot(
-          integrationRow,
-          csvData
-        );
-        integrations.push(integration);
-      } catch (error) {
-        result.errors.push(`Failed to process integration ${integrationRow.id || 'unknown'}: ${(error as Error).message}`);
-        result.errorCount++;
-      }
+    try {
+      yield* openCSVFile(filePath).pipe(csv());
+    } catch (error) {
+      console.error(`❌ Error loading ${filePath}:`, error);
+      throw error;
     }
+  }
 
-    return integrations;
+  /**
+   * Count indexed resources
+   */
+  private countIndexed(index: Map<string, any[]>): number {
+    let count = 0;
+    for (const resources of index.values()) {
+      count += resources.length;
+    }
+    return count;
   }
 
   /**
-   * Create integration snapshot from CSV row data (handles tier1 format)
+   * Create integration snapshot from CSV row data using the profile's integrations mapping
    */
   private createIntegrationSnapshot(
     integrationRow: any,
-    csvData: {
-      imports: any[];
-      exports: any[];
-      flows: any[];
-      connections: any[];
-    }
+    index: ResourceIndex,
+    profile: CSVProfile,
+    quality: DataQualityTracker,
+    context: RowContext
   ): IntegrationSnapshot {
-    // Handle tier1 format with quoted fields and different column names
-    const integrationId = this.cleanQuotedValue(integrationRow._ID || integrationRow.id || integrationRow.integrationId);
+    const fields = profile.files.integrations;
+    const integrationId = this.readField(integrationRow, fields['id']);
     
     if (!integrationId) {
+      quality.recordIssue(context, {
+        column: fields['id']?.columns[0] || 'id',
+        issueType: 'missing_value',
+        value: '',
+        valueUsed: null,
+        quarantined: true
+      });
       throw new Error('Integration ID is required');
     }
 
-    // Filter related resources by integration ID (handle quoted values)
-    const relatedImports = csvData.imports.filter(imp => 
-      this.cleanQuotedValue(imp.INTEGRATIONID || imp.integrationId) === integrationId
-    );
-    
-    const relatedExports = csvData.exports.filter(exp => 
-      this.cleanQuotedValue(exp.INTEGRATIONID || exp.integrationId) === integrationId
-    );
-    
-    const relatedFlows = csvData.flows.filter(flow => 
-      this.cleanQuotedValue(flow.INTEGRATIONID || flow.integrationId) === integrationId
-    );
-    
-    const relatedConnections = csvData.connections.filter(conn => 
-      this.cleanQuotedValue(conn.INTEGRATIONID || conn.integrationId) === integrationId
-    );
-
-    // Parse settings - handle tier1 format
-    let settings: any = {};
-    const settingsStr = integrationRow.SETTINGS || integrationRow.settings;
-    if (settingsStr) {
-      try {
-        settings = typeof settingsStr === 'string' 
-          ? JSON.parse(settingsStr)
-          : settingsStr;
-      } catch (error) {
-        console.warn(`⚠️  Failed to parse settings for integration ${integrationId}`);
-        settings = { 
-          connectorEdition: this.cleanQuotedValue(integrationRow.LICENSEEDITION) || 'standard' 
-        };
-      }
-    } else {
-      // Default settings structure
-      settings = {
-        connectorEdition: this.cleanQuotedValue(integrationRow.LICENSEEDITION) || 'standard',
-        general: {},
-        storemap: [],
-        sections: [],
-        commonresources: {}
-      };
-    }
+    const licenseEdition = this.readField(integrationRow, fields['licenseEdition'], quality, context) || 'standard';
+
+    const settingsColumn = fields['settings'] && this.findSourceColumn(integrationRow, fields['settings']);
+    const settingsProfile = profileSettings(settingsColumn ? integrationRow[settingsColumn] : undefined);
+
+    // Missing or malformed settings fall back to a default settings structure; malformed ones quarantine the row
+    const settings = this.readField(integrationRow, fields['settings'], quality, context, {
+      connectorEdition: licenseEdition,
+      general: {},
+      storemap: [],
+      sections: [],
+      commonresources: {}
+    });
 
     // Ensure connectorEdition is set from license if not in settings
     if (!settings.connectorEdition) {
-      settings.connectorEdition = this.cleanQuotedValue(integrationRow.LICENSEEDITION) || 'standard';
+      settings.connectorEdition = licenseEdition;
     }
 
     return {
       id: integrationId,
-      email: this.cleanQuotedValue(integrationRow.EMAIL || integrationRow.email) || 'unknown@example.com',
-      userId: this.cleanQuotedValue(integrationRow._USERID || integrationRow.userId) || 'unknown',
-      version: this.cleanQuotedValue(integrationRow.VERSION || integrationRow.version) || '1.0.0',
-      storeCount: parseInt(integrationRow.NUMSTORES || integrationRow.storeCount || '1'),
-      licenseEdition: this.cleanQuotedValue(integrationRow.LICENSEEDITION || integrationRow.licenseEdition) as any || 'standard',
-      updateInProgress: this.parseBoolean(integrationRow.UPDATEINPROGRESS || integrationRow.updateInProgress),
+      email: this.readField(integrationRow, fields['email'], quality, context) || 'unknown@example.com',
+      userId: this.readField(integrationRow, fields['userId'], quality, context) || 'unknown',
+      version: this.readField(integrationRow, fields['version'], quality, context) || '1.0.0',
+      storeCount: this.readField(integrationRow, fields['storeCount'], quality, context) ?? 1,
+      licenseEdition,
+      updateInProgress: this.readField(integrationRow, fields['updateInProgress'], quality, context) === true,
       settings,
-      imports: relatedImports.map(imp => ({
-        externalId: this.cleanQuotedValue(imp.EXTERNALID || imp.externalId),
-        connectionId: this.cleanQuotedValue(imp.IMPORTCONNECTIONID || imp.connectionId),
-        _id: this.cleanQuotedValue(imp.IMPORTID || imp._id || imp.id),
-        name: this.cleanQuotedValue(imp.EXTERNALID || imp.name || imp.externalId),
-        type: 'import'
-      })),
-      exports: relatedExports.map(exp => ({
-        externalId: this.cleanQuotedValue(exp.EXTERNALID || exp.externalId),
-        connectionId: this.cleanQuotedValue(exp.EXPORTCONNECTIONID || exp.connectionId),
-        _id: this.cleanQuotedValue(exp.EXPORTID || exp._id || exp.id),
-        name: this.cleanQuotedValue(exp.EXTERNALID || exp.name || exp.externalId),
-        type: 'export'
-      })),
-      flows: relatedFlows.map(flow => ({
-        _id: this.cleanQuotedValue(flow.FLOWID || flow._id || flow.id),
-        name: this.cleanQuotedValue(flow.EXTERNALID || flow.name || flow.externalId),
-        type: 'flow'
-      })),
-      connections: relatedConnections.map(conn => ({
-        _id: this.cleanQuotedValue(conn.IACONNECTIONID || conn._id || conn.id),
-        name: this.cleanQuotedValue(conn.EXTERNALID || conn.name || conn.externalId),
-        type: 'connection',
-        offline: this.parseBoolean(conn.CONNECTIONOFFLINE || conn.offline)
-      }))
+      // Related resources by integration ID (O(1) index lookups)
+      imports: index.imports.get(integrationId) || [],
+      exports: index.exports.get(integrationId) || [],
+      flows: index.flows.get(integrationId) || [],
+      connections: index.connections.get(integrationId) || [],
+      settingsProfile,
+      ...(quality.isQuarantined(context) && { quarantined: true })
+    };
+  }
+
+  /**
+   * Map import CSV row to resource
+   */
+  private mapImportRow(
+    row: any,
+    fields: Record<string, CSVFieldMapping>,
+    quality: DataQualityTracker,
+    context: RowContext
+  ): ImportResource {
+    return {
+      externalId: this.readField(row, fields['externalId'], quality, context) ?? '',
+      connectionId: this.readField(row, fields['connectionId'], quality, context) ?? '',
+      _id: this.readField(row, fields['_id'], quality, context) ?? '',
+      name: this.readField(row, fields['name'], quality, context) ?? '',
+      type: 'import',
+      ...this.readTimestamps(row, fields, quality, context)
+    };
+  }
+
+  /**
+   * Map export CSV row to resource
+   */
+  private mapExportRow(
+    row: any,
+    fields: Record<string, CSVFieldMapping>,
+    quality: DataQualityTracker,
+    context: RowContext
+  ): ExportResource {
+    return {
+      externalId: this.readField(row, fields['externalId'], quality, context) ?? '',
+      connectionId: this.readField(row, fields['connectionId'], quality, context) ?? '',
+      _id: this.readField(row, fields['_id'], quality, context) ?? '',
+      name: this.readField(row, fields['name'], quality, context) ?? '',
+      type: 'export',
+      ...this.readTimestamps(row, fields, quality, context)
+    };
+  }
+
+  /**
+   * Map flow CSV row to resource
+   */
+  private mapFlowRow(
+    row: any,
+    fields: Record<string, CSVFieldMapping>,
+    quality: DataQualityTracker,
+    context: RowContext
+  ): FlowResource {
+    return {
+      _id: this.readField(row, fields['_id'], quality, context) ?? '',
+      name: this.readField(row, fields['name'], quality, context) ?? '',
+      type: 'flow',
+      ...this.readIdList(row, fields, 'importIds', quality, context),
+      ...this.readIdList(row, fields, 'exportIds', quality, context),
+      ...this.readTimestamps(row, fields, quality, context)
+    };
+  }
+
+  /**
+   * Optional JSON array of resource IDs, left out when the column is absent or not an array
+   */
+  private readIdList(
+    row: any,
+    fields: Record<string, CSVFieldMapping>,
+    field: 'importIds' | 'exportIds',
+    quality: DataQualityTracker,
+    context: RowContext
+  ): Partial<FlowResource> {
+    const ids = this.readField(row, fields[field], quality, context);
+    return Array.isArray(ids) ? { [field]: ids.map(String) } : {};
+  }
+
+  /**
+   * Optional createdAt/lastModified columns, used to pick which duplicate copy to keep
+   */
+  private readTimestamps(
+    row: any,
+    fields: Record<string, CSVFieldMapping>,
+    quality: DataQualityTracker,
+    context: RowContext
+  ): { createdAt?: string; lastModified?: string } {
+    const createdAt = this.readField(row, fields['createdAt'], quality, context);
+    const lastModified = this.readField(row, fields['lastModified'], quality, context);
+    return {
+      ...(createdAt && { createdAt: String(createdAt) }),
+      ...(lastModified && { lastModified: String(lastModified) })
+    };
+  }
+
+  /**
+   * Map connection CSV row to resource
+   */
+  private mapConnectionRow(
+    row: any,
+    fields: Record<string, CSVFieldMapping>,
+    quality: DataQualityTracker,
+    context: RowContext
+  ): ConnectionResource {
+    return {
+      _id: this.readField(row, fields['_id'], quality, context) ?? '',
+      name: this.readField(row, fields['name'], quality, context) ?? '',
+      type: 'connection',
+      offline: this.readField(row, fields['offline'], quality, context) === true
     };
   }
 
   /**
-   * Parse boolean values from CSV string data
+   * Read a field from the first mapped column holding a usable value, coerced to the mapping's type
+   * Falls back to `fallback` (or the mapping default) and, when a tracker is given, records
+   * unusable values and empty required fields. Unparseable JSON quarantines the row.
    */
-  private parseBoolean(value: any): boolean {
-    if (typeof value === 'boolean') return value;
-    if (typeof value === 'string') {
-      const cleaned = this.cleanQuotedValue(value);
-      return cleaned.toLowerCase() === 'true' || cleaned === '1';
+  private readField(
+    row: any,
+    mapping: CSVFieldMapping | undefined,
+    quality?: DataQualityTracker,
+    context?: RowContext,
+    fallback?: any
+  ): any {
+    if (!mapping) return fallback;
+
+    let rejected: { column: string; value: any; issueType: 'invalid_json' | 'invalid_type' } | undefined;
+
+    for (const column of mapping.columns) {
+      const raw = row[column];
+      if (raw === undefined || raw === null) continue;
+
+      const type = mapping.type || 'string';
+      let value: any;
+      try {
+        value = this.coerceValue(raw, type);
+      } catch (error) {
+        rejected = rejected || { column, value: raw, issueType: 'invalid_json' };
+        continue;
+      }
+
+      if (value !== undefined) {
+        return value;
+      }
+      if (this.cleanQuotedValue(raw) !== '') {
+        rejected = rejected || { column, value: raw, issueType: 'invalid_type' };
+      }
+    }
+
+    const valueUsed = fallback !== undefined ? fallback : mapping.default;
+
+    if (quality && context) {
+      if (rejected) {
+        if (rejected.issueType === 'invalid_json') {
+          console.warn(`⚠️  Failed to parse ${rejected.column} in ${context.file} row ${context.row}`);
+        }
+        quality.recordIssue(context, {
+          ...rejected,
+          valueUsed,
+          quarantined: rejected.issueType === 'invalid_json'
+        });
+      } else if (mapping.required) {
+        quality.recordIssue(context, {
+          column: this.findSourceColumn(row, mapping) || mapping.columns[0],
+          issueType: 'missing_value',
+          value: '',
+          valueUsed,
+          quarantined: false
+        });
+      }
+    }
+
+    return valueUsed;
+  }
+
+  /**
+   * First mapped column that is present in the row
+   */
+  private findSourceColumn(row: any, mapping: CSVFieldMapping): string | undefined {
+    return mapping.columns.find(column => row[column] !== undefined && row[column] !== null);
+  }
+
+  /**
+   * Coerce a raw CSV value (undefined when the value is empty or unusable)
+   * JSON values that fail to parse throw so callers can record the failure
+   */
+  private coerceValue(raw: any, type: CSVFieldMapping['type']): any {
+    if (type === 'json') {
+      if (typeof raw !== 'string') return raw;
+      if (!raw.trim()) return undefined;
+      const parsed = JSON.parse(raw);
+      if (parsed === null || typeof parsed !== 'object') {
+        throw new Error('Expected a JSON object');
+      }
+      return parsed;
+    }
+
+    const cleaned = this.cleanQuotedValue(raw);
+    if (cleaned === '') return undefined;
+
+    switch (type) {
+      case 'integer': {
+        const parsed = Number(cleaned);
+        return Number.isInteger(parsed) ? parsed : undefined;
+      }
+      case 'number': {
+        const parsed = Number(cleaned);
+        return isNaN(parsed) ? undefined : parsed;
+      }
+      case 'boolean': {
+        const lowered = cleaned.toLowerCase();
+        if (lowered === 'true' || lowered === '1') return true;
+        if (lowered === 'false' || lowered === '0') return false;
+        return undefined;
+      }
+      default:
+        return cleaned;
     }
-    return false;
   }
 
   /**
    * Clean quoted values from CSV fields (removes surrounding quotes)
    */
   private cleanQuotedValue(value: any): string {
-    if (typeof value !== 'string') return String(value || '');
+    if (typeof value !== 'string') return String(value ?? '');
     
     // Remove surrounding quotes if present
     let cleaned = value.trim();
@@ -339,13 +724,16 @@ export class CSVProcessor {
     fileStats: { file: string; size: number; rows?: number }[];
     totalSize: number;
   }> {
-    const tierPath = path.join(options.inputDirectory, options.tier);
+    const tierPath = await this.resolveTierPath(options);
     const fileStats: { file: string; size: number; rows?: number }[] = [];
     let totalSize = 0;
 
     for (const fileName of this.requiredFiles) {
-      const filePath = path.join(tierPath, fileName);
+      const filePath = await resolveCSVFile(tierPath, fileName);
       try {
+        if (!filePath) {
+          throw new Error(`File not found: ${fileName}`);
+        }
         const stat = await fs.stat(filePath);
         fileStats.push({
           file: fileName,
@@ -364,29 +752,29 @@ export class CSVProcessor {
   }
 
   /**
-   * Validate CSV headers match expected format
+   * Validate CSV headers against the required fields of the chosen profile
+   * A required field is satisfied when any one of its mapped columns is present
    */
   async validateCSVHeaders(options: CSVProcessingOptions): Promise<{
     valid: boolean;
     issues: string[];
   }> {
     const issues: string[] = [];
-    const tierPath = path.join(options.inputDirectory, options.tier);
+    const tierPath = await this.resolveTierPath(options);
+    const profile = await this.profileManager.loadProfile(options.csvProfile);
 
-    const expectedHeaders = {
-      'integrations.csv': ['_ID', 'EMAIL', 'VERSION', 'NUMSTORES', 'LICENSEEDITION'],
-      'imports.csv': ['INTEGRATIONID', 'EXTERNALID', 'IMPORTID'],
-      'exports.csv': ['INTEGRATIONID', 'EXTERNALID', 'EXPORTID'],
-      'flows.csv': ['INTEGRATIONID', 'EXTERNALID', 'FLOWID'],
-      'connections.csv': ['INTEGRATIONID', 'IACONNECTIONID', 'EXTERNALID', 'CONNECTIONOFFLINE']
-    };
-
-    for (const [fileName, expectedCols] of Object.entries(expectedHeaders)) {
-      const filePath = path.join(tierPath, fileName);
+    for (const fileType of CSV_FILE_TYPES) {
+      const fileName = `${fileType}.csv`;
       try {
+        const filePath = await resolveCSVFile(tierPath, fileName);
+        if (!filePath) {
+          throw new Error('file not found');
+        }
         // Read first row to check headers
         const headers = await this.getCSVHeaders(filePath);
-        const missing = expectedCols.filter(col => !headers.includes(col));
+        const missing = this.getRequiredMappings(profile, fileType)
+          .filter(mapping => !mapping.columns.some(col => headers.includes(col)))
+          .map(mapping => mapping.columns.join(' | '));
         
         if (missing.length > 0) {
           issues.push(`${fileName}: Missing columns: ${missing.join(', ')}`);
@@ -402,6 +790,47 @@ export class CSVProcessor {
     };
   }
 
+  /**
+   * Compare the CSV headers of a tier with its stored fingerprint, without replacing it
+   */
+  async checkSchemaDrift(options: CSVProcessingOptions, store: HeaderFingerprintStore): Promise<SchemaDriftReport> {
+    return (await this.compareHeaders(options, store)).report;
+  }
+
+  /**
+   * Drift report of a tier and the fingerprint that would become the baseline for the next drop;
+   * files missing from this drop keep their previous fingerprint.
+   */
+  private async compareHeaders(
+    options: CSVProcessingOptions,
+    store: HeaderFingerprintStore
+  ): Promise<{ report: SchemaDriftReport; fingerprint: TierHeaderFingerprint }> {
+    const tier = options.fingerprintTier || options.tier;
+    const tierPath = await this.resolveTierPath(options);
+    const profile = await this.profileManager.loadProfile(options.csvProfile);
+
+    const current: HeaderFingerprint[] = [];
+    for (const fileName of this.requiredFiles) {
+      const filePath = await resolveCSVFile(tierPath, fileName);
+      if (filePath) {
+        current.push(createHeaderFingerprint(fileName, await this.getCSVHeaders(filePath)));
+      }
+    }
+
+    const baseline = await store.getHeaderFingerprint(tier);
+    const report = detectSchemaDrift(tier, baseline, current, profile);
+    const kept = (baseline?.files || []).filter(previous => !current.some(file => file.file === previous.file));
+
+    return { report, fingerprint: { tier, files: [...current, ...kept], recordedAt: new Date().toISOString() } };
+  }
+
+  /**
+   * Get the profile mappings marked as required for a file
+   */
+  private getRequiredMappings(profile: CSVProfile, fileType: CSVFileType): CSVFieldMapping[] {
+    return Object.values(profile.files[fileType]).filter(mapping => mapping.required);
+  }
+
   /**
    * Get CSV file headers
    */
@@ -410,7 +839,7 @@ export class CSVProcessor {
       const headers: string[] = [];
       let headersParsed = false;
 
-      createReadStream(filePath)
+      openCSVFile(filePath)
         .pipe(csv())
         .on('headers', (headerList) => {
           headers.push(...headerList);
@@ -421,6 +850,7 @@ export class CSVProcessor {
             resolve(headers);
           }
         })
+        .on('end', () => resolve(headers))
         .on('error', reject);
     });
   }
@@ -0,0 +1,128 @@
+/**
+ * CSV Column-Mapping Profiles
+ * Declares which CSV column feeds each IntegrationSnapshot field, with type coercions and defaults
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export type CSVFieldType = 'string' | 'integer' | 'number' | 'boolean' | 'json';
+
+export interface CSVFieldMapping {
+  columns: string[];
+  type?: CSVFieldType;
+  default?: any;
+  required?: boolean;
+}
+
+export type CSVFileType = 'integrations' | 'imports' | 'exports' | 'flows' | 'connections';
+
+export interface CSVProfile {
+  name: string;
+  description?: string;
+  files: Record<CSVFileType, Record<string, CSVFieldMapping>>;
+}
+
+export const CSV_FILE_TYPES: CSVFileType[] = ['integrations', 'imports', 'exports', 'flows', 'connections'];
+
+/**
+ * Snapshot fields every profile must map, per file
+ */
+const REQUIRED_PROFILE_FIELDS: Record<CSVFileType, string[]> = {
+  integrations: ['id', 'email', 'userId', 'version', 'storeCount', 'licenseEdition', 'updateInProgress', 'settings'],
+  imports: ['integrationId', 'externalId', 'connectionId', '_id', 'name'],
+  exports: ['integrationId', 'externalId', 'connectionId', '_id', 'name'],
+  flows: ['integrationId', '_id', 'name'],
+  connections: ['integrationId', '_id', 'name', 'offline']
+};
+
+const VALID_FIELD_TYPES: CSVFieldType[] = ['string', 'integer', 'number', 'boolean', 'json'];
+
+// Profile names become file names in the profiles directory, so no path separators or dots
+const PROFILE_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * Whether a profile name is safe to resolve inside the profiles directory
+ */
+export function isValidProfileName(name: unknown): name is string {
+  return typeof name === 'string' && PROFILE_NAME_PATTERN.test(name);
+}
+
+export class CSVProfileManager {
+  private profilesDir: string;
+  private loadedProfiles = new Map<string, CSVProfile>();
+
+  constructor(profilesDir: string = './config/csv-profiles') {
+    this.profilesDir = profilesDir;
+  }
+
+  /**
+   * Load a named mapping profile from the profiles directory
+   */
+  async loadProfile(name: string = 'default'): Promise<CSVProfile> {
+    if (!isValidProfileName(name)) {
+      throw new Error(`Invalid CSV profile name '${name}': use letters, digits, '_' and '-' only`);
+    }
+    if (this.loadedProfiles.has(name)) {
+      return this.loadedProfiles.get(name)!;
+    }
+
+    const profilePath = path.join(this.profilesDir, `${name}.json`);
+    let profile: CSVProfile;
+
+    try {
+      profile = JSON.parse(await fs.readFile(profilePath, 'utf-8')) as CSVProfile;
+    } catch (error) {
+      throw new Error(`CSV profile '${name}' could not be loaded from ${profilePath}: ${(error as Error).message}`);
+    }
+
+    this.validateProfile(name, profile);
+
+    this.loadedProfiles.set(name, profile);
+    console.log(`✅ Loaded CSV profile: ${name} from ${profilePath}`);
+
+    return profile;
+  }
+
+  /**
+   * List available profile names
+   */
+  async listProfiles(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.profilesDir);
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.replace('.json', ''))
+        .sort();
+    } catch (error) {
+      // Profiles directory doesn't exist
+      return [];
+    }
+  }
+
+  /**
+   * Validate profile structure
+   */
+  private validateProfile(name: string, profile: CSVProfile): void {
+    if (!profile.files || typeof profile.files !== 'object') {
+      throw new Error(`Invalid CSV profile '${name}': missing 'files' section`);
+    }
+
+    for (const fileType of CSV_FILE_TYPES) {
+      const fields = profile.files[fileType];
+      if (!fields) {
+        throw new Error(`Invalid CSV profile '${name}': missing mapping for ${fileType}.csv`);
+      }
+
+      for (const field of REQUIRED_PROFILE_FIELDS[fileType]) {
+        const mapping = fields[field];
+        if (!mapping || !Array.isArray(mapping.columns) || mapping.columns.length === 0) {
+          throw new Error(`Invalid CSV profile '${name}': ${fileType}.${field} must declare at least one source column`);
+        }
+        if (mapping.type && !VALID_FIELD_TYPES.includes(mapping.type)) {
+          throw new Error(`Invalid CSV profile '${name}': ${fileType}.${field} has unknown type '${mapping.type}'`);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * CSV Data-Quality Tracking
+ * Row-level issue reporting and quarantine of untrusted rows during CSV ingestion
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export type DataQualityIssueType =
+  | 'invalid_json'
+  | 'invalid_type'
+  | 'missing_value'
+  | 'orphan_row';
+
+export interface DataQualityIssue {
+  file: string;
+  row: number; // 1-based data row (header excluded)
+  column: string;
+  issueType: DataQualityIssueType;
+  value: any;
+  valueUsed: any;
+  quarantined: boolean;
+}
+
+export interface QuarantinedRow {
+  file: string;
+  row: number;
+  reasons: string[];
+  data: Record<string, any>;
+}
+
+export interface DataQualityFileStats {
+  rowsRead: number;
+  rowsWithIssues: number;
+  rowsQuarantined: number;
+}
+
+export interface DataQualityReport {
+  qualityScore: number;
+  totalRows: number;
+  rowsWithIssues: number;
+  rowsQuarantined: number;
+  issueCounts: Record<string, number>;
+  files: Record<string, DataQualityFileStats>;
+  issues: DataQualityIssue[];
+  quarantinedRows: QuarantinedRow[];
+}
+
+/**
+ * Location of the row currently being read
+ */
+export interface RowContext {
+  file: string;
+  row: number;
+  data: Record<string, any>;
+}
+
+export class DataQualityTracker {
+  private files = new Map<string, DataQualityFileStats>();
+  private issues: DataQualityIssue[] = [];
+  private rowsWithIssues = new Set<string>();
+  private quarantined = new Map<string, QuarantinedRow>();
+
+  /**
+   * Count a row read from a file
+   */
+  recordRow(file: string): void {
+    this.getFileStats(file).rowsRead++;
+  }
+
+  /**
+   * Record a problem found in a row; quarantined issues also keep the raw row
+   */
+  recordIssue(context: RowContext, issue: Omit<DataQualityIssue, 'file' | 'row'>): void {
+    const rowKey = `${context.file}:${context.row}`;
+    const stats = this.getFileStats(context.file);
+
+    this.issues.push({ file: context.file, row: context.row, ...issue });
+
+    if (!this.rowsWithIssues.has(rowKey)) {
+      this.rowsWithIssues.add(rowKey);
+      stats.rowsWithIssues++;
+    }
+
+    if (issue.quarantined) {
+      const reason = `${issue.issueType}: ${issue.column}`;
+      const existing = this.quarantined.get(rowKey);
+      if (existing) {
+        existing.reasons.push(reason);
+      } else {
+        this.quarantined.set(rowKey, { file: context.file, row: context.row, reasons: [reason], data: context.data });
+        stats.rowsQuarantined++;
+      }
+    }
+  }
+
+  /**
+   * Whether a quarantined issue was recorded for the row
+   */
+  isQuarantined(context: RowContext): boolean {
+    return this.quarantined.has(`${context.file}:${context.row}`);
+  }
+
+  /**
+   * Build the report. Quarantined rows count as fully bad and rows with
+   * only substituted values count as half bad towards the quality score
+   */
+  getReport(): DataQualityReport {
+    const totalRows = Array.from(this.files.values()).reduce((sum, stats) => sum + stats.rowsRead, 0);
+    const rowsQuarantined = this.quarantined.size;
+    const rowsWithIssues = this.rowsWithIssues.size;
+    const warningOnlyRows = rowsWithIssues - rowsQuarantined;
+
+    const qualityScore = totalRows === 0
+      ? 100
+      : Math.max(0, Math.round((100 * (totalRows - rowsQuarantined - warningOnlyRows * 0.5) / totalRows) * 100) / 100);
+
+    const issueCounts: Record<string, number> = {};
+    for (const issue of this.issues) {
+      issueCounts[issue.issueType] = (issueCounts[issue.issueType] || 0) + 1;
+    }
+
+    return {
+      qualityScore,
+      totalRows,
+      rowsWithIssues,
+      rowsQuarantined,
+      issueCounts,
+      files: Object.fromEntries(this.files),
+      issues: this.issues,
+      quarantinedRows: Array.from(this.quarantined.values())
+    };
+  }
+
+  private getFileStats(file: string): DataQualityFileStats {
+    let stats = this.files.get(file);
+    if (!stats) {
+      stats = { rowsRead: 0, rowsWithIssues: 0, rowsQuarantined: 0 };
+      this.files.set(file, stats);
+    }
+    return stats;
+  }
+}
+
+/**
+ * Combine the reports of several inputs (e.g. tiers), prefixing file names with the input label
+ * The merged score is the row-weighted mean, which equals scoring all rows together.
+ */
+export function mergeDataQualityReports(reports: Record<string, DataQualityReport>): DataQualityReport {
+  const merged: DataQualityReport = {
+    qualityScore: 100,
+    totalRows: 0,
+    rowsWithIssues: 0,
+    rowsQuarantined: 0,
+    issueCounts: {},
+    files: {},
+    issues: [],
+    quarantinedRows: []
+  };
+  let weightedScore = 0;
+
+  for (const [label, report] of Object.entries(reports)) {
+    const prefix = (file: string) => `${label}/${file}`;
+
+    merged.totalRows += report.totalRows;
+    merged.rowsWithIssues += report.rowsWithIssues;
+    merged.rowsQuarantined += report.rowsQuarantined;
+    weightedScore += report.qualityScore * report.totalRows;
+
+    for (const [issueType, count] of Object.entries(report.issueCounts)) {
+      merged.issueCounts[issueType] = (merged.issueCounts[issueType] || 0) + count;
+    }
+    for (const [file, stats] of Object.entries(report.files)) {
+      merged.files[prefix(file)] = stats;
+    }
+    merged.issues.push(...report.issues.map(issue => ({ ...issue, file: prefix(issue.file) })));
+    merged.quarantinedRows.push(...report.quarantinedRows.map(row => ({ ...row, file: prefix(row.file) })));
+  }
+
+  if (merged.totalRows > 0) {
+    merged.qualityScore = Math.round((weightedScore / merged.totalRows) * 100) / 100;
+  }
+
+  return merged;
+}
+
+/**
+ * Write quarantined rows to one CSV per source file or table, prefixed with row number and reasons
+ */
+export async function writeQuarantineFiles(report: DataQualityReport, quarantineDir: string): Promise<string[]> {
+  const rowsByFile = new Map<string, QuarantinedRow[]>();
+  for (const quarantinedRow of report.quarantinedRows) {
+    const rows = rowsByFile.get(quarantinedRow.file) || [];
+    rows.push(quarantinedRow);
+    rowsByFile.set(quarantinedRow.file, rows);
+  }
+
+  await fs.mkdir(quarantineDir, { recursive: true });
+  const writtenFiles: string[] = [];
+
+  for (const [file, rows] of rowsByFile) {
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row.data))));
+    const lines = [
+      ['__row', '__reasons', ...columns].map(escapeCSVValue).join(','),
+      ...rows.map(row => [
+        String(row.row),
+        row.reasons.join('; '),
+        ...columns.map(column => row.data[column] ?? '')
+      ].map(escapeCSVValue).join(','))
+    ];
+
+    // Non-CSV sources (JSON Lines files, SQLite tables) still quarantine to CSV
+    const filePath = path.join(quarantineDir, file.endsWith('.csv') ? file : `${file}.csv`);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, lines.join('\n') + '\n');
+    writtenFiles.push(filePath);
+  }
+
+  return writtenFiles;
+}
+
+function escapeCSVValue(value: any): string {
+  const str = String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
@@ -0,0 +1,165 @@
+/**
+ * CSV Schema Drift
+ * Header fingerprints per tier and the column changes between successive CSV drops
+ */
+
+import { createHash } from 'crypto';
+import { CSVProfile, CSVFileType } from './csv-profile';
+
+export interface HeaderFingerprint {
+  file: string;
+  columns: string[];
+  hash: string;
+}
+
+export interface TierHeaderFingerprint {
+  tier: string;
+  files: HeaderFingerprint[];
+  recordedAt: string;
+}
+
+export type SchemaDriftChange = 'added' | 'removed' | 'renamed';
+export type SchemaDriftSeverity = 'blocking' | 'warning';
+
+export interface SchemaDriftEntry {
+  file: string;
+  change: SchemaDriftChange;
+  column: string;
+  renamedTo?: string;
+  field?: string; // Profile field the column was mapped to
+  severity: SchemaDriftSeverity;
+  message: string;
+}
+
+export interface SchemaDriftReport {
+  tier: string;
+  hasBaseline: boolean;
+  baselineRecordedAt?: string;
+  blocking: boolean;
+  entries: SchemaDriftEntry[];
+}
+
+/**
+ * Persistence for header fingerprints (implemented by StateManager)
+ */
+export interface HeaderFingerprintStore {
+  getHeaderFingerprint(tier: string): Promise<TierHeaderFingerprint | undefined>;
+  saveHeaderFingerprint(fingerprint: TierHeaderFingerprint): Promise<void>;
+}
+
+/**
+ * Record the header fingerprints a successful run left as the next baselines
+ */
+export async function saveHeaderFingerprints(store: HeaderFingerprintStore, fingerprints: TierHeaderFingerprint[] = []): Promise<void> {
+  for (const fingerprint of fingerprints) {
+    await store.saveHeaderFingerprint(fingerprint);
+  }
+}
+
+/**
+ * Fingerprint the header of one CSV file (column order does not matter to the row mapping)
+ */
+export function createHeaderFingerprint(file: string, columns: string[]): HeaderFingerprint {
+  const hash = createHash('sha256').update(JSON.stringify([...columns].sort())).digest('hex').substring(0, 16);
+  return { file, columns, hash };
+}
+
+/**
+ * Compare the headers of the current drop with the stored fingerprint
+ * Removed columns that were the only mapping for a profile field are blocking, because the
+ * field silently falls back to its default. A removed/added pair mapping to the same field, or
+ * whose names contain one another (CONNECTIONOFFLINE -> OFFLINE), is reported as a rename.
+ */
+export function detectSchemaDrift(
+  tier: string,
+  baseline: TierHeaderFingerprint | undefined,
+  current: HeaderFingerprint[],
+  profile: CSVProfile
+): SchemaDriftReport {
+  const entries: SchemaDriftEntry[] = [];
+
+  for (const fingerprint of current) {
+    const previous = baseline?.files.find(file => file.file === fingerprint.file);
+    if (!previous || previous.hash === fingerprint.hash) {
+      continue;
+    }
+
+    const fieldColumns = getFieldColumns(profile, fingerprint.file);
+    const fieldOf = (column: string) => Object.keys(fieldColumns).find(field => fieldColumns[field].includes(column));
+    const isReadable = (field: string) => fieldColumns[field].some(column => fingerprint.columns.includes(column));
+
+    const removed = previous.columns.filter(column => !fingerprint.columns.includes(column));
+    const added = fingerprint.columns.filter(column => !previous.columns.includes(column));
+
+    for (const column of removed) {
+      const field = fieldOf(column);
+      const renamedTo = added.find(candidate => (field && fieldOf(candidate) === field) || isSimilarName(column, candidate));
+
+      if (renamedTo) {
+        added.splice(added.indexOf(renamedTo), 1);
+        const blocking = !!field && !isReadable(field);
+        entries.push({
+          file: fingerprint.file,
+          change: 'renamed',
+          column,
+          renamedTo,
+          field,
+          severity: blocking ? 'blocking' : 'warning',
+          message: blocking
+            ? `${fingerprint.file}: Column ${column} renamed to ${renamedTo}, which the CSV profile does not map to ${field}`
+            : `${fingerprint.file}: Column ${column} renamed to ${renamedTo}`
+        });
+        continue;
+      }
+
+      const blocking = !!field && !isReadable(field);
+      entries.push({
+        file: fingerprint.file,
+        change: 'removed',
+        column,
+        field,
+        severity: blocking ? 'blocking' : 'warning',
+        message: blocking
+          ? `${fingerprint.file}: Column ${column} removed, ${field} can no longer be read`
+          : `${fingerprint.file}: Column ${column} removed`
+      });
+    }
+
+    for (const column of added) {
+      entries.push({
+        file: fingerprint.file,
+        change: 'added',
+        column,
+        field: fieldOf(column),
+        severity: 'warning',
+        message: `${fingerprint.file}: Column ${column} added`
+      });
+    }
+  }
+
+  return {
+    tier,
+    hasBaseline: !!baseline,
+    baselineRecordedAt: baseline?.recordedAt,
+    blocking: entries.some(entry => entry.severity === 'blocking'),
+    entries
+  };
+}
+
+/**
+ * Columns mapped to each profile field of a CSV file
+ */
+function getFieldColumns(profile: CSVProfile, file: string): Record<string, string[]> {
+  const mappings = profile.files[file.replace(/\.csv$/, '') as CSVFileType] || {};
+  const fieldColumns: Record<string, string[]> = {};
+  for (const [field, mapping] of Object.entries(mappings)) {
+    fieldColumns[field] = mapping.columns;
+  }
+  return fieldColumns;
+}
+
+function isSimilarName(a: string, b: string): boolean {
+  const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const [left, right] = [normalize(a), normalize(b)];
+  return left.length > 0 && right.length > 0 && (left.includes(right) || right.includes(left));
+}
@@ -0,0 +1,185 @@
+/**
+ * Settings Profiling
+ * Size and shape of the raw settings blob of each integration, and their distribution across a tier
+ */
+
+import { IntegrationSnapshot, SettingsProfile } from '../types';
+
+export interface DistributionStats {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+export interface SettingsProfileReport {
+  totalIntegrations: number;
+  parseStatus: Record<SettingsProfile['parseStatus'], number>;
+  sizeBytes: DistributionStats;
+  depth: DistributionStats;
+  keyCount: DistributionStats;
+  sizeHistogram: { bucket: string; count: number }[];
+  maxSettingsSize?: number;
+  overSizeLimit?: number;
+  largest: { integrationId: string; sizeBytes: number }[];
+  topLevelKeys: { key: string; count: number; percent: number }[]; // Over parsed settings only
+}
+
+const SIZE_BUCKETS: { bucket: string; below: number }[] = [
+  { bucket: '< 1KB', below: 1024 },
+  { bucket: '1KB - 10KB', below: 10 * 1024 },
+  { bucket: '10KB - 100KB', below: 100 * 1024 },
+  { bucket: '100KB - 1MB', below: 1024 * 1024 },
+  { bucket: '1MB - 10MB', below: 10 * 1024 * 1024 },
+  { bucket: '>= 10MB', below: Infinity }
+];
+
+const LARGEST_COUNT = 10;
+
+/**
+ * Measure a raw settings value (a JSON string from CSV/SQLite, or an already parsed object)
+ * Depth counts nested objects and arrays (a flat settings object has depth 1);
+ * key count is the number of object keys at every level.
+ */
+export function profileSettings(raw: unknown): SettingsProfile {
+  if (raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '')) {
+    return { sizeBytes: 0, depth: 0, keyCount: 0, parseStatus: 'missing' };
+  }
+
+  let value: unknown = raw;
+  let sizeBytes: number;
+  if (typeof raw === 'string') {
+    sizeBytes = Buffer.byteLength(raw, 'utf8');
+    try {
+      value = JSON.parse(raw);
+    } catch (error) {
+      return { sizeBytes, depth: 0, keyCount: 0, parseStatus: 'invalid_json' };
+    }
+  } else {
+    sizeBytes = Buffer.byteLength(JSON.stringify(raw) ?? '', 'utf8');
+  }
+
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return { sizeBytes, depth: 0, keyCount: 0, parseStatus: 'not_object' };
+  }
+
+  return { sizeBytes, ...measureShape(value), parseStatus: 'parsed' };
+}
+
+/**
+ * Depth and key count of a parsed value, walked iteratively so deep blobs cannot overflow the stack
+ */
+function measureShape(root: object): { depth: number; keyCount: number } {
+  let depth = 0;
+  let keyCount = 0;
+  const stack: { value: any; level: number }[] = [{ value: root, level: 1 }];
+
+  while (stack.length > 0) {
+    const { value, level } = stack.pop()!;
+    depth = Math.max(depth, level);
+
+    const children = Array.isArray(value) ? value : Object.values(value);
+    if (!Array.isArray(value)) {
+      keyCount += children.length;
+    }
+    for (const child of children) {
+      if (child !== null && typeof child === 'object') {
+        stack.push({ value: child, level: level + 1 });
+      }
+    }
+  }
+
+  return { depth, keyCount };
+}
+
+/**
+ * Collects settings profiles while snapshots stream past and summarises them for a tier
+ */
+export class SettingsProfileAggregator {
+  private sizes: number[] = [];
+  private depths: number[] = [];
+  private keyCounts: number[] = [];
+  private parseStatus: Record<SettingsProfile['parseStatus'], number> = { parsed: 0, missing: 0, invalid_json: 0, not_object: 0 };
+  private largest: { integrationId: string; sizeBytes: number }[] = [];
+  private keyFrequency = new Map<string, number>();
+
+  constructor(private readonly maxSettingsSize?: number) {}
+
+  /**
+   * Record one snapshot (profiles are taken from ingestion, or measured from the parsed settings)
+   */
+  add(integration: IntegrationSnapshot): void {
+    const profile = integration.settingsProfile || profileSettings(integration.settings);
+
+    this.sizes.push(profile.sizeBytes);
+    this.depths.push(profile.depth);
+    this.keyCounts.push(profile.keyCount);
+    this.parseStatus[profile.parseStatus]++;
+
+    if (profile.parseStatus === 'parsed') {
+      for (const key of Object.keys(integration.settings || {})) {
+        this.keyFrequency.set(key, (this.keyFrequency.get(key) || 0) + 1);
+      }
+    }
+
+    this.largest.push({ integrationId: integration.id, sizeBytes: profile.sizeBytes });
+    if (this.largest.length > LARGEST_COUNT * 2) {
+      this.trimLargest();
+    }
+  }
+
+  getReport(): SettingsProfileReport {
+    this.trimLargest();
+    const parsedCount = this.parseStatus.parsed;
+
+    return {
+      totalIntegrations: this.sizes.length,
+      parseStatus: { ...this.parseStatus },
+      sizeBytes: distribution(this.sizes),
+      depth: distribution(this.depths),
+      keyCount: distribution(this.keyCounts),
+      sizeHistogram: SIZE_BUCKETS.map((bucket, index) => ({
+        bucket: bucket.bucket,
+        count: this.sizes.filter(size => size < bucket.below && (index === 0 || size >= SIZE_BUCKETS[index - 1].below)).length
+      })),
+      maxSettingsSize: this.maxSettingsSize,
+      overSizeLimit: this.maxSettingsSize !== undefined
+        ? this.sizes.filter(size => size > this.maxSettingsSize!).length
+        : undefined,
+      largest: [...this.largest],
+      topLevelKeys: Array.from(this.keyFrequency.entries())
+        .map(([key, count]) => ({ key, count, percent: Math.round((count / parsedCount) * 10000) / 100 }))
+        .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    };
+  }
+
+  private trimLargest(): void {
+    this.largest.sort((a, b) => b.sizeBytes - a.sizeBytes);
+    this.largest.length = Math.min(this.largest.length, LARGEST_COUNT);
+  }
+}
+
+/**
+ * Min, max, mean and nearest-rank percentiles
+ */
+function distribution(values: number[]): DistributionStats {
+  if (values.length === 0) {
+    return { min: 0, max: 0, mean: 0, p50: 0, p90: 0, p95: 0, p99: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: Math.round((sorted.reduce((sum, value) => sum + value, 0) / sorted.length) * 100) / 100,
+    p50: percentile(50),
+    p90: percentile(90),
+    p95: percentile(95),
+    p99: percentile(99)
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Tier Archives
+ * Transparent reading of gzipped CSV files (e.g. integrations.csv.gz) and lazy
+ * unpacking of a single .zip archive holding a tier export
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import * as yauzl from 'yauzl';
+
+export const GZIP_EXTENSION = '.gz';
+export const ZIP_EXTENSION = '.zip';
+
+/** Directory inside the tier directory that holds unpacked archives */
+export const UNPACKED_DIRECTORY = '.unpacked';
+
+const UNPACKED_MARKER = '.archive.json';
+
+/**
+ * Resolve a CSV file in a directory, falling back to its gzipped variant
+ */
+export async function resolveCSVFile(directory: string, fileName: string): Promise<string | undefined> {
+  for (const candidate of [fileName, `${fileName}${GZIP_EXTENSION}`]) {
+    const filePath = path.join(directory, candidate);
+    try {
+      await fs.access(filePath);
+      return filePath;
+    } catch (error) {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Remove the plain and gzipped CSV files of a tier, so that an archive stored in their place is read
+ */
+export async function removeLooseCSVFiles(directory: string, fileNames: string[]): Promise<string[]> {
+  const removed: string[] = [];
+  for (const fileName of fileNames) {
+    for (const candidate of [fileName, `${fileName}${GZIP_EXTENSION}`]) {
+      const filePath = path.join(directory, candidate);
+      try {
+        await fs.rm(filePath);
+        removed.push(candidate);
+      } catch (error) {
+        // Not present
+      }
+    }
+  }
+  return removed;
+}
+
+/**
+ * Open a CSV file for reading, decompressing .gz files on the fly
+ */
+export function openCSVFile(filePath: string): Readable {
+  const stream = createReadStream(filePath);
+  if (!filePath.toLowerCase().endsWith(GZIP_EXTENSION)) {
+    return stream;
+  }
+
+  const gunzip = createGunzip();
+  stream.on('error', error => gunzip.destroy(error));
+  return stream.pipe(gunzip);
+}
+
+/**
+ * Find the tier archive in a directory (undefined when there is none)
+ * More than one archive is ambiguous and rejected.
+ */
+export async function findTierArchive(tierPath: string): Promise<string | undefined> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(tierPath);
+  } catch (error) {
+    return undefined;
+  }
+
+  const archives = entries
+    .filter(entry => path.extname(entry).toLowerCase() === ZIP_EXTENSION)
+    .sort();
+
+  if (archives.length > 1) {
+    throw new Error(`Expected at most one ${ZIP_EXTENSION} archive in ${tierPath}, found ${archives.length}: ${archives.join(', ')}`);
+  }
+  return archives.length === 1 ? path.join(tierPath, archives[0]) : undefined;
+}
+
+/**
+ * Resolve the directory the CSV files of a tier should be read from
+ * Loose files (integrations.csv or integrations.csv.gz) take precedence; otherwise a single
+ * .zip archive is unpacked on first use and re-unpacked only when the archive changes.
+ */
+export async function resolveTierDirectory(tierPath: string, fileNames: string[]): Promise<string> {
+  const archivePath = await findTierArchive(tierPath);
+  if (await resolveCSVFile(tierPath, 'integrations.csv')) {
+    if (archivePath) {
+      console.warn(`⚠️  ${tierPath}: reading the loose CSV files and ignoring ${path.basename(archivePath)}; remove them to read the archive`);
+    }
+    return tierPath;
+  }
+
+  if (!archivePath) {
+    return tierPath;
+  }
+
+  const targetDirectory = path.join(tierPath, UNPACKED_DIRECTORY, path.basename(archivePath, path.extname(archivePath)));
+  const archiveStat = await fs.stat(archivePath);
+  const fingerprint = { archive: path.basename(archivePath), size: archiveStat.size, modified: archiveStat.mtimeMs };
+
+  try {
+    const marker = JSON.parse(await fs.readFile(path.join(targetDirectory, UNPACKED_MARKER), 'utf-8'));
+    if (marker.size === fingerprint.size && marker.modified === fingerprint.modified) {
+      return targetDirectory;
+    }
+  } catch (error) {
+    // Not unpacked yet
+  }
+
+  await fs.rm(targetDirectory, { recursive: true, force: true });
+  await fs.mkdir(targetDirectory, { recursive: true });
+  const extracted = await extractZipEntries(archivePath, targetDirectory, fileNames);
+  await fs.writeFile(path.join(targetDirectory, UNPACKED_MARKER), JSON.stringify({ ...fingerprint, extracted }, null, 2));
+
+  console.log(`📦 Unpacked ${extracted.length} files from ${archivePath}`);
+  return targetDirectory;
+}
+
+/**
+ * Extract the wanted CSV files (plain or gzipped) from a zip archive into a flat directory
+ * Entries are matched on their base name, so files nested in a folder inside the archive are found
+ * and entry paths can never escape the target directory.
+ */
+async function extractZipEntries(archivePath: string, targetDirectory: string, fileNames: string[]): Promise<string[]> {
+  const wanted = new Set(fileNames.flatMap(fileName => [fileName, `${fileName}${GZIP_EXTENSION}`]));
+  const zipFile = await openZip(archivePath);
+  const extracted: string[] = [];
+
+  try {
+    for await (const entry of readZipEntries(zipFile)) {
+      const baseName = path.posix.basename(entry.fileName);
+      if (entry.fileName.endsWith('/') || !wanted.has(baseName)) {
+        continue;
+      }
+      if (extracted.includes(baseName)) {
+        throw new Error(`Archive ${archivePath} contains more than one ${baseName}`);
+      }
+
+      const entryStream = await new Promise<Readable>((resolve, reject) => {
+        zipFile.openReadStream(entry, (error, stream) => error ? reject(error) : resolve(stream));
+      });
+      await pipeline(entryStream, createWriteStream(path.join(targetDirectory, baseName)));
+      extracted.push(baseName);
+    }
+  } finally {
+    zipFile.close();
+  }
+
+  return extracted;
+}
+
+function openZip(archivePath: string): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(archivePath, { lazyEntries: true, autoClose: false }, (error, zipFile) => {
+      if (error) {
+        reject(new Error(`Cannot open archive ${archivePath}: ${error.message}`));
+      } else {
+        resolve(zipFile);
+      }
+    });
+  });
+}
+
+/**
+ * Iterate over the entries of a zip file one at a time
+ */
+async function* readZipEntries(zipFile: yauzl.ZipFile): AsyncGenerator<yauzl.Entry> {
+  while (true) {
+    const entry = await new Promise<yauzl.Entry | undefined>((resolve, reject) => {
+      const onEntry = (nextEntry: yauzl.Entry) => { cleanup(); resolve(nextEntry); };
+      const onEnd = () => { cleanup(); resolve(undefined); };
+      const onError = (error: Error) => { cleanup(); reject(error); };
+      const cleanup = () => {
+        zipFile.off('entry', onEntry);
+        zipFile.off('end', onEnd);
+        zipFile.off('error', onError);
+      };
+
+      zipFile.on('entry', onEntry);
+      zipFile.on('end', onEnd);
+      zipFile.on('error', onError);
+      zipFile.readEntry();
+    });
+
+    if (!entry) {
+      return;
+    }
+    yield entry;
+  }
+}
@@ -3,10 +3,38 @@
 
 // Core data-driven components
 export { DataDrivenCorruptionDetector } from './rules/data-driven-corruption-detector';
+export * from './rules/generic-operators';
+export * from './rules/reference-integrity';
+export * from './rules/resource-diff';
+export * from './rules/store-validation';
+export * from './rules/detection-trace';
+export * from './rules/risk-scoring';
+export * from './rules/settings-schema';
+export * from './rules/duplicate-selection';
+export * from './rules/action-dependencies';
+export * from './rules/action-conflicts';
+export * from './rules/json-patch';
+export * from './config/edition-inheritance';
+export * from './config/version-selection';
+export * from './config/resource-templates';
 export { DataDrivenRemediationEngine } from './rules/data-driven-remediation-engine';
 
 // CSV processing
 export { CSVProcessor } from './csv/csv-processor';
+export { profileSettings, SettingsProfileAggregator } from './csv/settings-profile';
+export type { SettingsProfileReport } from './csv/settings-profile';
+
+// JSON Lines processing
+export { JSONLProcessor } from './jsonl/jsonl-processor';
+
+// Snapshot sources (CSV, JSON Lines, SQLite, directory of JSON files)
+export { createSnapshotSource, detectSourceType } from './input/source-factory';
+export { MultiTierSnapshotSource, resolveTiers } from './input/multi-tier-snapshot-source';
+export type { SnapshotSource, SnapshotSourceConfig, SnapshotSourceType } from './input/snapshot-source';
+
+// Sampling (seeded random, stratified, top-N by settings size)
+export { IntegrationSampler, createSamplingOptions, estimateProportion } from './sampling/integration-sampler';
+export type { SamplingOptions, SampleRecord, SampleEstimates } from './sampling/integration-sampler';
 
 // Note: Manifest management removed - all business logic now in config/business-rules.json
 
@@ -22,6 +50,7 @@ export { Logger } from './utils/logger';
 // Types
 export type {
   IntegrationSnapshot,
+  SettingsProfile,
   AuditResult,
   RemediationPlan,
   RuleBasedAuditResult,
@@ -0,0 +1,33 @@
+/**
+ * CSV Snapshot Source
+ * Five CSV files per tier directory, mapped through a column-mapping profile
+ */
+
+import * as path from 'path';
+import { IntegrationSnapshot } from '../types';
+import { CSVProcessor, CSVProcessingResult } from '../csv/csv-processor';
+import { BaseSnapshotSource, SnapshotSourceConfig } from './snapshot-source';
+
+export class CSVSnapshotSource extends BaseSnapshotSource {
+  readonly type = 'csv' as const;
+  readonly location: string;
+  private processor: CSVProcessor;
+
+  constructor(config: SnapshotSourceConfig) {
+    super(config);
+    this.location = config.path || path.join(config.inputDirectory, config.tier);
+    this.processor = new CSVProcessor(config.csvProfilesDirectory);
+  }
+
+  async *streamIntegrations(result: CSVProcessingResult = this.createProcessingResult()): AsyncGenerator<IntegrationSnapshot[]> {
+    yield* this.processor.streamIntegrations({
+      inputDirectory: this.location,
+      tier: '',
+      batchSize: this.batchSize,
+      csvProfile: this.config.csvProfile,
+      validateHeaders: this.config.validateHeaders,
+      fingerprintStore: this.config.fingerprintStore,
+      fingerprintTier: this.config.tier
+    }, result);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * JSON Directory Snapshot Source
+ * One IntegrationSnapshot document per .json file (e.g. <integrationId>.json)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IntegrationSnapshot } from '../types';
+import { CSVProcessingResult } from '../csv/csv-processor';
+import { DataQualityTracker, RowContext } from '../csv/data-quality';
+import { createSnapshotFromRecord } from '../jsonl/snapshot-record';
+import { BaseSnapshotSource, SnapshotSourceConfig } from './snapshot-source';
+
+export class JSONDirectorySnapshotSource extends BaseSnapshotSource {
+  readonly type = 'json-directory' as const;
+  readonly location: string;
+
+  constructor(config: SnapshotSourceConfig) {
+    super(config);
+    this.location = config.path || path.join(config.inputDirectory, config.tier);
+  }
+
+  async *streamIntegrations(result: CSVProcessingResult = this.createProcessingResult()): AsyncGenerator<IntegrationSnapshot[]> {
+    const quality = new DataQualityTracker();
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.location);
+    } catch (error) {
+      throw new Error(`Cannot access JSON directory: ${this.location}`);
+    }
+
+    const files = entries.filter(entry => path.extname(entry).toLowerCase() === '.json').sort();
+    if (files.length === 0) {
+      const warning = `No .json snapshot files found in ${this.location}`;
+      result.warnings.push(warning);
+      console.warn(`⚠️  ${warning}`);
+    }
+
+    let batch: IntegrationSnapshot[] = [];
+
+    for (const fileName of files) {
+      const content = await fs.readFile(path.join(this.location, fileName), 'utf-8');
+      const context: RowContext = { file: fileName, row: 1, data: { document: content } };
+      quality.recordRow(fileName);
+
+      try {
+        batch.push(createSnapshotFromRecord(JSON.parse(content), quality, context));
+        result.totalIntegrations++;
+        result.processedIntegrations++;
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          quality.recordIssue(context, {
+            column: '(document)',
+            issueType: 'invalid_json',
+            value: content,
+            valueUsed: null,
+            quarantined: true
+          });
+        }
+        result.errors.push(`Failed to process ${fileName}: ${(error as Error).message}`);
+        result.errorCount++;
+      }
+
+      if (batch.length >= this.batchSize) {
+        yield batch;
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      yield batch;
+    }
+
+    console.log(`✅ Read ${files.length} snapshot files from ${this.location}`);
+    result.dataQuality = quality.getReport();
+  }
+}
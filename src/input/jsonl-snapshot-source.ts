@@ -0,0 +1,29 @@
+/**
+ * JSON Lines Snapshot Source
+ * .jsonl / .ndjson files in the tier directory, one snapshot per line
+ */
+
+import * as path from 'path';
+import { IntegrationSnapshot } from '../types';
+import { CSVProcessingResult } from '../csv/csv-processor';
+import { JSONLProcessor } from '../jsonl/jsonl-processor';
+import { BaseSnapshotSource, SnapshotSourceConfig } from './snapshot-source';
+
+export class JSONLSnapshotSource extends BaseSnapshotSource {
+  readonly type = 'jsonl' as const;
+  readonly location: string;
+  private processor = new JSONLProcessor();
+
+  constructor(config: SnapshotSourceConfig) {
+    super(config);
+    this.location = config.path || path.join(config.inputDirectory, config.tier);
+  }
+
+  async *streamIntegrations(result: CSVProcessingResult = this.createProcessingResult()): AsyncGenerator<IntegrationSnapshot[]> {
+    yield* this.processor.streamIntegrations({
+      inputDirectory: this.location,
+      tier: '',
+      batchSize: this.batchSize
+    }, result);
+  }
+}
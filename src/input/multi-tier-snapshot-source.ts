@@ -0,0 +1,150 @@
+/**
+ * Multi-Tier Snapshot Source
+ * Reads several tiers one after another, tagging each snapshot with its tier.
+ * An integration ID already read from an earlier tier is skipped and reported as a cross-tier duplicate.
+ */
+
+import * as fs from 'fs/promises';
+import { IntegrationSnapshot } from '../types';
+import { CSVProcessingResult, CrossTierDuplicate } from '../csv/csv-processor';
+import { DataQualityReport, mergeDataQualityReports } from '../csv/data-quality';
+import { SchemaDriftReport } from '../csv/schema-drift';
+import { BaseSnapshotSource, SnapshotSource, SnapshotSourceConfig } from './snapshot-source';
+
+export const ALL_TIERS = 'all';
+
+/**
+ * Expand a tier option: one tier, a comma-separated list, or "all" (every tier directory under the input directory)
+ */
+export async function resolveTiers(tierOption: string, inputDirectory: string): Promise<string[]> {
+  if (tierOption.trim() === ALL_TIERS) {
+    let entries;
+    try {
+      entries = await fs.readdir(inputDirectory, { withFileTypes: true });
+    } catch (error) {
+      throw new Error(`Cannot list tiers in input directory: ${inputDirectory}`);
+    }
+    const tiers = entries
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => entry.name)
+      .sort();
+    if (tiers.length === 0) {
+      throw new Error(`No tier directories found in ${inputDirectory}`);
+    }
+    return tiers;
+  }
+
+  return Array.from(new Set(tierOption.split(',').map(tier => tier.trim()).filter(Boolean)));
+}
+
+/**
+ * Whether a tier option selects more than one tier
+ */
+export function isMultiTier(tierOption: string): boolean {
+  return tierOption.trim() === ALL_TIERS || tierOption.includes(',');
+}
+
+export class MultiTierSnapshotSource extends BaseSnapshotSource {
+  readonly type = 'multi-tier' as const;
+  readonly location: string;
+
+  constructor(config: SnapshotSourceConfig, private readonly sources: Record<string, SnapshotSource>) {
+    super(config);
+    this.location = Object.values(sources).map(source => source.location).join(', ');
+  }
+
+  get tiers(): string[] {
+    return Object.keys(this.sources);
+  }
+
+  async *streamIntegrations(result: CSVProcessingResult = this.createProcessingResult()): AsyncGenerator<IntegrationSnapshot[]> {
+    const seen = new Map<string, string[]>();
+    const dataQuality: Record<string, DataQualityReport> = {};
+    const schemaDrift: Record<string, SchemaDriftReport> = {};
+    result.tiers = {};
+
+    for (const [tier, source] of Object.entries(this.sources)) {
+      console.log(`📂 Reading tier ${tier} (${source.type}: ${source.location})`);
+      const tierResult = source.createProcessingResult();
+      let kept = 0;
+      let duplicatesSkipped = 0;
+
+      try {
+        for await (const batch of source.streamIntegrations(tierResult)) {
+          const unique: IntegrationSnapshot[] = [];
+          for (const integration of batch) {
+            const tiers = seen.get(integration.id);
+            if (tiers) {
+              tiers.push(tier);
+              duplicatesSkipped++;
+              continue;
+            }
+            seen.set(integration.id, [tier]);
+            unique.push({ ...integration, tier });
+          }
+
+          kept += unique.length;
+          if (unique.length > 0) {
+            yield unique;
+          }
+        }
+      } catch (error) {
+        // One unreadable tier does not stop the others
+        tierResult.errors.push(`${source.type} source failed: ${(error as Error).message}`);
+        tierResult.errorCount++;
+        console.error(`❌ Tier ${tier} failed: ${(error as Error).message}`);
+      }
+
+      result.totalIntegrations += tierResult.totalIntegrations;
+      result.processedIntegrations += tierResult.processedIntegrations;
+      result.errorCount += tierResult.errorCount;
+      result.warnings.push(...tierResult.warnings.map(warning => `[${tier}] ${warning}`));
+      result.errors.push(...tierResult.errors.map(error => `[${tier}] ${error}`));
+      if (tierResult.dataQuality) dataQuality[tier] = tierResult.dataQuality;
+      if (tierResult.schemaDrift) schemaDrift[tier] = tierResult.schemaDrift;
+      if (tierResult.headerFingerprints) {
+        result.headerFingerprints = [...(result.headerFingerprints || []), ...tierResult.headerFingerprints];
+      }
+
+      result.tiers[tier] = {
+        sourceType: source.type,
+        location: source.location,
+        integrations: kept,
+        duplicatesSkipped,
+        warnings: tierResult.warnings.length,
+        errors: tierResult.errors.length,
+        qualityScore: tierResult.dataQuality?.qualityScore
+      };
+    }
+
+    result.crossTierDuplicates = Array.from(seen.entries())
+      .filter(([, tiers]) => tiers.length > 1)
+      .map(([integrationId, tiers]): CrossTierDuplicate => ({ integrationId, tiers, keptTier: tiers[0] }));
+    if (result.crossTierDuplicates.length > 0) {
+      console.warn(`⚠️  ${result.crossTierDuplicates.length} integrations appear in more than one tier`);
+    }
+
+    if (Object.keys(dataQuality).length > 0) {
+      result.dataQuality = mergeDataQualityReports(dataQuality);
+    }
+    if (Object.keys(schemaDrift).length > 0) {
+      result.schemaDrift = this.mergeSchemaDrift(schemaDrift);
+    }
+  }
+
+  /**
+   * Combine per-tier drift reports, prefixing file names with the tier
+   */
+  private mergeSchemaDrift(reports: Record<string, SchemaDriftReport>): SchemaDriftReport {
+    const tierReports = Object.values(reports);
+    return {
+      tier: Object.keys(reports).join(','),
+      hasBaseline: tierReports.some(report => report.hasBaseline),
+      baselineRecordedAt: tierReports.map(report => report.baselineRecordedAt).filter(Boolean).sort()[0],
+      blocking: tierReports.some(report => report.blocking),
+      entries: Object.entries(reports).flatMap(([tier, report]) =>
+        report.entries.map(entry => ({ ...entry, file: `${tier}/${entry.file}`, message: `[${tier}] ${entry.message}` }))
+      )
+    };
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Snapshot Sources
+ * Common interface for everything that feeds IntegrationSnapshots into corruption detection
+ */
+
+import { IntegrationSnapshot } from '../types';
+import { CSVProcessingResult } from '../csv/csv-processor';
+import { CSVFileType } from '../csv/csv-profile';
+import { HeaderFingerprintStore } from '../csv/schema-drift';
+
+export type SnapshotSourceType = 'csv' | 'jsonl' | 'sqlite' | 'json-directory' | 'multi-tier';
+
+export interface SnapshotSourceConfig {
+  type?: SnapshotSourceType | 'auto';
+  inputDirectory: string;
+  tier: string; // One tier, a comma-separated list, or "all"
+  path?: string; // SQLite database file or JSON directory (defaults to the tier directory)
+  tables?: Partial<Record<CSVFileType, string>>; // SQLite table names (default: one table per CSV file type)
+  batchSize?: number;
+  csvProfile?: string;
+  csvProfilesDirectory?: string;
+  validateHeaders?: boolean;
+  fingerprintStore?: HeaderFingerprintStore; // CSV only: header drift against the previous drop of the tier
+}
+
+export interface SnapshotSource {
+  readonly type: SnapshotSourceType;
+  readonly location: string;
+  createProcessingResult(): CSVProcessingResult;
+  streamIntegrations(result?: CSVProcessingResult): AsyncGenerator<IntegrationSnapshot[]>;
+  loadAll(): Promise<{ integrations: IntegrationSnapshot[]; result: CSVProcessingResult }>;
+}
+
+/**
+ * Shared result handling for snapshot sources; subclasses only implement streaming
+ */
+export abstract class BaseSnapshotSource implements SnapshotSource {
+  abstract readonly type: SnapshotSourceType;
+  abstract readonly location: string;
+
+  constructor(protected readonly config: SnapshotSourceConfig) {}
+
+  abstract streamIntegrations(result?: CSVProcessingResult): AsyncGenerator<IntegrationSnapshot[]>;
+
+  /**
+   * Create an empty processing result
+   */
+  createProcessingResult(): CSVProcessingResult {
+    return {
+      totalIntegrations: 0,
+      processedIntegrations: 0,
+      errorCount: 0,
+      warnings: [],
+      errors: [],
+      processingTime: 0
+    };
+  }
+
+  /**
+   * Read every snapshot into memory; failures are reported in the result rather than thrown
+   */
+  async loadAll(): Promise<{ integrations: IntegrationSnapshot[]; result: CSVProcessingResult }> {
+    const startTime = Date.now();
+    const result = this.createProcessingResult();
+    const integrations: IntegrationSnapshot[] = [];
+
+    try {
+      for await (const batch of this.streamIntegrations(result)) {
+        integrations.push(...batch);
+      }
+
+      result.processingTime = Date.now() - startTime;
+
+      return { integrations, result };
+
+    } catch (error) {
+      result.errors.push(`${this.type} source failed: ${(error as Error).message}`);
+      result.errorCount++;
+      result.processingTime = Date.now() - startTime;
+
+      return { integrations: [], result };
+    }
+  }
+
+  protected get batchSize(): number {
+    return this.config.batchSize && this.config.batchSize > 0 ? this.config.batchSize : 100;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Snapshot Source Selection
+ * Builds the configured snapshot source, or picks one from the files in the tier directory
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { JSONL_EXTENSIONS } from '../jsonl/jsonl-processor';
+import { GZIP_EXTENSION, ZIP_EXTENSION } from '../csv/tier-archive';
+import { SnapshotSource, SnapshotSourceConfig, SnapshotSourceType } from './snapshot-source';
+import { CSVSnapshotSource } from './csv-snapshot-source';
+import { JSONLSnapshotSource } from './jsonl-snapshot-source';
+import { SQLiteSnapshotSource, SQLITE_EXTENSIONS } from './sqlite-snapshot-source';
+import { JSONDirectorySnapshotSource } from './json-directory-snapshot-source';
+import { MultiTierSnapshotSource, isMultiTier, resolveTiers } from './multi-tier-snapshot-source';
+
+export const SNAPSHOT_SOURCE_TYPES: SnapshotSourceType[] = ['csv', 'jsonl', 'sqlite', 'json-directory'];
+
+/**
+ * Detect the source type of a directory (or SQLite file)
+ * Precedence: integrations.csv (or .csv.gz), JSON Lines files, a SQLite database, a zipped CSV tier archive,
+ * per-integration .json files.
+ * Anything else falls back to CSV so the missing files are reported by the CSV reader.
+ */
+export async function detectSourceType(sourcePath: string): Promise<SnapshotSourceType> {
+  if (SQLITE_EXTENSIONS.includes(path.extname(sourcePath).toLowerCase())) {
+    return 'sqlite';
+  }
+
+  let entries: string[];
+  try {
+    entries = await fs.readdir(sourcePath);
+  } catch (error) {
+    return 'csv';
+  }
+
+  const extensions = new Set(entries.map(entry => path.extname(entry).toLowerCase()));
+  const hasExtension = (candidates: string[]) => candidates.some(ext => extensions.has(ext));
+
+  if (entries.includes('integrations.csv') || entries.includes(`integrations.csv${GZIP_EXTENSION}`)) {
+    if (hasExtension(JSONL_EXTENSIONS)) {
+      console.warn(`⚠️  Both integrations.csv and JSON Lines files found in ${sourcePath}, using CSV`);
+    }
+    return 'csv';
+  }
+  if (hasExtension(JSONL_EXTENSIONS)) return 'jsonl';
+  if (hasExtension(SQLITE_EXTENSIONS)) return 'sqlite';
+  if (extensions.has(ZIP_EXTENSION)) return 'csv';
+  if (extensions.has('.json')) return 'json-directory';
+
+  return 'csv';
+}
+
+/**
+ * Create the snapshot source for a run
+ * Several tiers (comma-separated or "all") get one source per tier, read in order by a MultiTierSnapshotSource.
+ */
+export async function createSnapshotSource(config: SnapshotSourceConfig): Promise<SnapshotSource> {
+  if (isMultiTier(config.tier)) {
+    if (config.path) {
+      throw new Error('A source path cannot be combined with several tiers');
+    }
+
+    const sources: Record<string, SnapshotSource> = {};
+    for (const tier of await resolveTiers(config.tier, config.inputDirectory)) {
+      sources[tier] = await createSnapshotSource({ ...config, tier });
+    }
+    return new MultiTierSnapshotSource(config, sources);
+  }
+
+  let type = config.type && config.type !== 'auto' ? config.type : undefined;
+
+  if (type && !SNAPSHOT_SOURCE_TYPES.includes(type)) {
+    throw new Error(`Unknown snapshot source type: ${type} (expected auto, ${SNAPSHOT_SOURCE_TYPES.join(', ')})`);
+  }
+  if (!type) {
+    type = await detectSourceType(config.path || path.join(config.inputDirectory, config.tier));
+  }
+
+  let source: SnapshotSource;
+  switch (type) {
+    case 'jsonl':
+      source = new JSONLSnapshotSource(config);
+      break;
+    case 'sqlite':
+      source = new SQLiteSnapshotSource(config);
+      break;
+    case 'json-directory':
+      source = new JSONDirectorySnapshotSource(config);
+      break;
+    default:
+      source = new CSVSnapshotSource(config);
+  }
+
+  console.log(`📥 Snapshot source: ${source.type} (${source.location})`);
+  return source;
+}
@@ -0,0 +1,114 @@
+/**
+ * SQLite Snapshot Source
+ * Reads a local warehouse extract with one table per CSV file type
+ * (integrations, imports, exports, flows, connections), mapped through the CSV column-mapping profile
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Database, OPEN_READONLY } from 'sqlite3';
+import { open } from 'sqlite';
+import { IntegrationSnapshot } from '../types';
+import { CSVProcessor, CSVProcessingResult } from '../csv/csv-processor';
+import { CSVFileType } from '../csv/csv-profile';
+import { BaseSnapshotSource, SnapshotSourceConfig } from './snapshot-source';
+
+export const SQLITE_EXTENSIONS = ['.db', '.sqlite', '.sqlite3'];
+
+const PAGE_SIZE = 1000;
+
+export class SQLiteSnapshotSource extends BaseSnapshotSource {
+  readonly type = 'sqlite' as const;
+  readonly location: string;
+  private processor: CSVProcessor;
+
+  constructor(config: SnapshotSourceConfig) {
+    super(config);
+    this.location = config.path || path.join(config.inputDirectory, config.tier);
+    this.processor = new CSVProcessor(config.csvProfilesDirectory);
+  }
+
+  async *streamIntegrations(result: CSVProcessingResult = this.createProcessingResult()): AsyncGenerator<IntegrationSnapshot[]> {
+    const databasePath = await this.resolveDatabasePath();
+    const db = await open({ filename: databasePath, driver: Database, mode: OPEN_READONLY });
+    console.log(`✅ Opened SQLite source: ${databasePath}`);
+
+    try {
+      const existingTables = new Set<string>(
+        (await db.all(`SELECT name FROM sqlite_master WHERE type = 'table'`)).map((row: any) => row.name)
+      );
+
+      for (const fileType of ['integrations', 'imports', 'exports', 'flows', 'connections'] as CSVFileType[]) {
+        if (!existingTables.has(this.tableName(fileType))) {
+          const warning = `Missing table: ${this.tableName(fileType)}`;
+          result.warnings.push(warning);
+          console.warn(`⚠️  ${warning}`);
+        }
+      }
+
+      yield* this.processor.streamTabularRows({
+        label: fileType => this.tableName(fileType),
+        rows: fileType => existingTables.has(this.tableName(fileType))
+          ? this.streamTableRows(db, this.tableName(fileType))
+          : this.emptyRows()
+      }, { batchSize: this.batchSize, csvProfile: this.config.csvProfile }, result);
+    } finally {
+      await db.close();
+    }
+  }
+
+  /**
+   * Use the configured database file, or the single database file in the tier directory
+   */
+  private async resolveDatabasePath(): Promise<string> {
+    let stat;
+    try {
+      stat = await fs.stat(this.location);
+    } catch (error) {
+      throw new Error(`Cannot access SQLite source: ${this.location}`);
+    }
+    if (stat.isFile()) {
+      return this.location;
+    }
+
+    const databases = (await fs.readdir(this.location))
+      .filter(entry => SQLITE_EXTENSIONS.includes(path.extname(entry).toLowerCase()));
+    if (databases.length !== 1) {
+      throw new Error(`Expected exactly one SQLite database (${SQLITE_EXTENSIONS.join(', ')}) in ${this.location}, found ${databases.length}`);
+    }
+    return path.join(this.location, databases[0]);
+  }
+
+  private tableName(fileType: CSVFileType): string {
+    return this.config.tables?.[fileType] || fileType;
+  }
+
+  /**
+   * Page through a table in rowid order so large tables are never loaded at once
+   */
+  private async *streamTableRows(db: any, table: string): AsyncGenerator<any> {
+    const quotedTable = `"${table.replace(/"/g, '""')}"`;
+    let lastRowId = 0;
+
+    while (true) {
+      const page = await db.all(
+        `SELECT rowid AS __rowid__, * FROM ${quotedTable} WHERE rowid > ? ORDER BY rowid LIMIT ?`,
+        [lastRowId, PAGE_SIZE]
+      );
+
+      for (const row of page) {
+        lastRowId = row.__rowid__;
+        delete row.__rowid__;
+        yield row;
+      }
+
+      if (page.length < PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  private async *emptyRows(): AsyncGenerator<any> {
+    // Missing tables contribute no rows
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * JSON Lines Processor for Integration Data
+ * Reads one IntegrationSnapshot per line from .jsonl / .ndjson files, with resources nested
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { IntegrationSnapshot } from '../types';
+import { CSVProcessingOptions, CSVProcessingResult } from '../csv/csv-processor';
+import { DataQualityTracker, RowContext } from '../csv/data-quality';
+import { createSnapshotFromRecord } from './snapshot-record';
+
+export const JSONL_EXTENSIONS = ['.jsonl', '.ndjson'];
+
+export class JSONLProcessor {
+  /**
+   * Process JSON Lines files and return integration snapshots (same result shape as CSVProcessor)
+   */
+  async processJSONLFiles(options: CSVProcessingOptions): Promise<{
+    integrations: IntegrationSnapshot[];
+    result: CSVProcessingResult;
+  }> {
+    const startTime = Date.now();
+    const result = this.createProcessingResult();
+    const integrations: IntegrationSnapshot[] = [];
+
+    try {
+      for await (const batch of this.streamIntegrations(options, result)) {
+        integrations.push(...batch);
+      }
+
+      result.processingTime = Date.now() - startTime;
+
+      return { integrations, result };
+
+    } catch (error) {
+      result.errors.push(`JSONL processing failed: ${(error as Error).message}`);
+      result.errorCount++;
+      result.processingTime = Date.now() - startTime;
+
+      return { integrations: [], result };
+    }
+  }
+
+  /**
+   * Stream integration snapshots in batches of options.batchSize, one line at a time
+   */
+  async *streamIntegrations(
+    options: CSVProcessingOptions,
+    result: CSVProcessingResult = this.createProcessingResult()
+  ): AsyncGenerator<IntegrationSnapshot[]> {
+    const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : 100;
+    const tierPath = path.join(options.inputDirectory, options.tier);
+    const quality = new DataQualityTracker();
+
+    const files = await this.findJSONLFiles(tierPath);
+    if (files.length === 0) {
+      const warning = `No JSON Lines files (${JSONL_EXTENSIONS.join(', ')}) found in ${tierPath}`;
+      result.warnings.push(warning);
+      console.warn(`⚠️  ${warning}`);
+    }
+
+    let batch: IntegrationSnapshot[] = [];
+
+    for (const fileName of files) {
+      let lineNumber = 0;
+
+      for await (const line of createInterface({ input: createReadStream(path.join(tierPath, fileName)), crlfDelay: Infinity })) {
+        lineNumber++;
+        if (!line.trim()) continue;
+
+        const context: RowContext = { file: fileName, row: lineNumber, data: { line } };
+        quality.recordRow(fileName);
+
+        try {
+          batch.push(createSnapshotFromRecord(JSON.parse(line), quality, context));
+          result.totalIntegrations++;
+          result.processedIntegrations++;
+        } catch (error) {
+          if (error instanceof SyntaxError) {
+            quality.recordIssue(context, {
+              column: '(line)',
+              issueType: 'invalid_json',
+              value: line,
+              valueUsed: null,
+              quarantined: true
+            });
+          }
+          result.errors.push(`Failed to process ${fileName} line ${lineNumber}: ${(error as Error).message}`);
+          result.errorCount++;
+        }
+
+        if (batch.length >= batchSize) {
+          yield batch;
+          batch = [];
+        }
+      }
+
+      console.log(`✅ Read ${lineNumber} lines from ${fileName}`);
+    }
+
+    if (batch.length > 0) {
+      yield batch;
+    }
+
+    result.dataQuality = quality.getReport();
+  }
+
+  /**
+   * Create an empty processing result
+   */
+  createProcessingResult(): CSVProcessingResult {
+    return {
+      totalIntegrations: 0,
+      processedIntegrations: 0,
+      errorCount: 0,
+      warnings: [],
+      errors: [],
+      processingTime: 0
+    };
+  }
+
+  /**
+   * List JSON Lines files in a tier directory
+   */
+  private async findJSONLFiles(tierPath: string): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(tierPath);
+    } catch (error) {
+      throw new Error(`Cannot access tier directory: ${tierPath}`);
+    }
+
+    return entries
+      .filter(entry => JSONL_EXTENSIONS.includes(path.extname(entry).toLowerCase()))
+      .sort();
+  }
+}
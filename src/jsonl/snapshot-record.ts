@@ -0,0 +1,121 @@
+/**
+ * JSON Snapshot Records
+ * Normalises IntegrationSnapshot-shaped JSON documents (JSON Lines rows, per-integration files)
+ */
+
+import {
+  IntegrationSnapshot,
+  ImportResource,
+  ExportResource,
+  FlowResource,
+  ConnectionResource
+} from '../types';
+import { DataQualityTracker, RowContext } from '../csv/data-quality';
+import { profileSettings } from '../csv/settings-profile';
+
+/**
+ * Normalise a parsed JSON record into an IntegrationSnapshot, applying the CSV defaults
+ */
+export function createSnapshotFromRecord(
+  record: any,
+  quality: DataQualityTracker,
+  context: RowContext
+): IntegrationSnapshot {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new Error('Record is not a JSON object');
+  }
+
+  const integrationId = String(record.id || record._id || record.integrationId || '');
+  if (!integrationId) {
+    quality.recordIssue(context, { column: 'id', issueType: 'missing_value', value: '', valueUsed: null, quarantined: true });
+    throw new Error('Integration ID is required');
+  }
+
+  const licenseEdition = record.licenseEdition || 'standard';
+
+  const settingsProfile = profileSettings(record.settings);
+
+  let settings = record.settings;
+  if (typeof settings === 'string') {
+    try {
+      settings = JSON.parse(settings);
+    } catch (error) {
+      quality.recordIssue(context, { column: 'settings', issueType: 'invalid_json', value: settings, valueUsed: null, quarantined: true });
+      settings = undefined;
+    }
+  }
+  if (!settings || typeof settings !== 'object') {
+    // Default settings structure; a row with malformed settings is also quarantined
+    settings = {
+      connectorEdition: licenseEdition,
+      general: {},
+      storemap: [],
+      sections: [],
+      commonresources: {}
+    };
+  }
+  if (!settings.connectorEdition) {
+    settings.connectorEdition = licenseEdition;
+  }
+
+  let storeCount = record.storeCount ?? 1;
+  if (!Number.isInteger(Number(storeCount))) {
+    quality.recordIssue(context, { column: 'storeCount', issueType: 'invalid_type', value: storeCount, valueUsed: 1, quarantined: false });
+    storeCount = 1;
+  }
+
+  return {
+    id: integrationId,
+    email: record.email || 'unknown@example.com',
+    userId: record.userId || 'unknown',
+    version: record.version || '1.0.0',
+    storeCount: Number(storeCount),
+    licenseEdition,
+    updateInProgress: record.updateInProgress === true || record.updateInProgress === 'true',
+    settings,
+    imports: asArray(record.imports).map((imp: any): ImportResource => ({
+      externalId: imp.externalId || '',
+      connectionId: imp.connectionId || '',
+      _id: imp._id || imp.id || '',
+      name: imp.name || imp.externalId || '',
+      type: 'import',
+      ...readTimestamps(imp)
+    })),
+    exports: asArray(record.exports).map((exp: any): ExportResource => ({
+      externalId: exp.externalId || '',
+      connectionId: exp.connectionId || '',
+      _id: exp._id || exp.id || '',
+      name: exp.name || exp.externalId || '',
+      type: 'export',
+      ...readTimestamps(exp)
+    })),
+    flows: asArray(record.flows).map((flow: any): FlowResource => ({
+      _id: flow._id || flow.id || '',
+      name: flow.name || flow.externalId || '',
+      type: 'flow',
+      ...(Array.isArray(flow.importIds) && { importIds: flow.importIds.map(String) }),
+      ...(Array.isArray(flow.exportIds) && { exportIds: flow.exportIds.map(String) }),
+      ...readTimestamps(flow)
+    })),
+    connections: asArray(record.connections).map((conn: any): ConnectionResource => ({
+      _id: conn._id || conn.id || '',
+      name: conn.name || conn.externalId || '',
+      type: 'connection',
+      offline: conn.offline === true || conn.offline === 'true'
+    })),
+    settingsProfile,
+    ...(quality.isQuarantined(context) && { quarantined: true })
+  };
+}
+
+function asArray(value: any): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// createdAt / lastModified as the CSV profile maps them, for the timestamp duplicate strategies
+function readTimestamps(resource: any): { createdAt?: string; lastModified?: string } {
+  return {
+    ...(resource.createdAt && { createdAt: String(resource.createdAt) }),
+    ...(resource.lastModified && { lastModified: String(resource.lastModified) })
+  };
+}
@@ -4,6 +4,8 @@
  */
 
 import { IntegrationSnapshot, AuditResult } from '../types';
+import { renderResourceTemplate, ResourceTemplateSet } from '../config/resource-templates';
+import { buildJsonPatch, invertJsonPatch, JsonPatchOperation } from '../rules/json-patch';
 
 export interface ExecutionAction {
   id: string;
@@ -18,6 +20,7 @@ export interface ExecutionAction {
     before?: any;
     after?: any;
     diff?: any;
+    patch?: JsonPatchOperation[]; // RFC 6902 operations of patch actions, relative to the target; tests guard overwritten values
   };
   metadata: {
     reason: string;
@@ -25,6 +28,10 @@ export interface ExecutionAction {
     dependencies: string[];
     retryable: boolean;
     rollbackable: boolean;
+    corruptionType?: string; // Corruption the action fixes; precedence and dependency rules select on it
+    issueType?: string;
+    detectionFunction?: string;
+    mergedActionIds?: string[]; // Actions folded into this one by conflict resolution
   };
 }
 
@@ -68,6 +75,7 @@ export interface ExecutionOptions {
       timezone: string;
     };
   };
+  resourceTemplates?: ResourceTemplateSet; // Templates of the integration's product version, for create payloads
 }
 
 export interface ExecutionResult {
@@ -104,7 +112,7 @@ export class ExecutionPlanner {
     const actions: ExecutionAction[] = [];
 
     // Generate actions for missing resources
-    actions.push(...this.createResourceActions(integration, auditResult, _businessConfig));
+    actions.push(...this.createResourceActions(integration, auditResult, _businessConfig, options.resourceTemplates));
 
     // Generate actions for duplicate resources
     actions.push(...this.createDeduplicationActions(integration, auditResult));
@@ -239,7 +247,8 @@ export class ExecutionPlanner {
   private createResourceActions(
     integration: IntegrationSnapshot,
     auditResult: AuditResult,
-    _businessConfig: any
+    _businessConfig: any,
+    templates?: ResourceTemplateSet
   ): ExecutionAction[] {
     const actions: ExecutionAction[] = [];
 
@@ -253,9 +262,7 @@ export class ExecutionPlanner {
           resourceType: 'import',
           resourceId: missing
         },
-        payload: {
-          after: this.getResourceTemplate(missing, 'import', _businessConfig)
-        },
+        payload: this.getResourcePayload(integration, missing, 'import', _businessConfig, templates),
         metadata: {
           reason: `Missing required import: ${missing}`,
           priority: 7,
@@ -276,9 +283,7 @@ export class ExecutionPlanner {
           resourceType: 'export',
           resourceId: missing
         },
-        payload: {
-          after: this.getResourceTemplate(missing, 'export', _businessConfig)
-        },
+        payload: this.getResourcePayload(integration, missing, 'export', _businessConfig, templates),
         metadata: {
           reason: `Missing required export: ${missing}`,
           priority: 7,
@@ -299,9 +304,7 @@ export class ExecutionPlanner {
           resourceType: 'flow',
           resourceId: missing
         },
-        payload: {
-          after: this.getResourceTemplate(missing, 'flow', _businessConfig)
-        },
+        payload: this.getResourcePayload(integration, missing, 'flow', _businessConfig, templates),
         metadata: {
           reason: `Missing required flow: ${missing}`,
           priority: 8,
@@ -400,6 +403,8 @@ export class ExecutionPlanner {
     for (const setting of auditResult.issues.missingSettings) {
       const settingPath = (setting as any).path || `${(setting as any).section}.${(setting as any).keys?.[0]}`;
       const defaultValue = (setting as any).defaultValue || true;
+      // A setting present in the snapshot (e.g. as null) is replaced under a test guard, so its rollback restores it
+      const before = this.getObservedValue(integration, settingPath);
       
       actions.push({
         id: this.generateActionId(),
@@ -410,9 +415,9 @@ export class ExecutionPlanner {
           path: settingPath
         },
         payload: {
-          before: undefined,
+          before,
           after: defaultValue,
-          diff: { op: 'add', path: settingPath, value: defaultValue }
+          patch: buildJsonPatch(settingPath, before, defaultValue)
         },
         metadata: {
           reason: `Add missing setting: ${settingPath}`,
@@ -443,11 +448,12 @@ export class ExecutionPlanner {
         target: {
           integrationId: integration.id,
           resourceType: 'setting',
-          path: 'system.updateInProgress'
+          path: 'updateInProgress'
         },
         payload: {
-          before: true,
-          after: false
+          before: integration.updateInProgress,
+          after: false,
+          patch: buildJsonPatch('updateInProgress', integration.updateInProgress, false)
         },
         metadata: {
           reason: 'Clear stuck update flag',
@@ -539,7 +545,8 @@ export class ExecutionPlanner {
         type: this.getRollbackActionType(action.type),
         payload: {
           before: action.payload.after,
-          after: action.payload.before
+          after: action.payload.before,
+          ...(action.payload.patch && { patch: invertJsonPatch(action.payload.patch) })
         },
         metadata: {
           ...action.metadata,
@@ -651,6 +658,17 @@ export class ExecutionPlanner {
     return `action_${++this.actionIdCounter}_${Date.now()}`;
   }
 
+  /**
+   * Value the snapshot holds at a target path such as commonresources.netsuiteConnectionId or sections[0].mode
+   */
+  private getObservedValue(resource: any, targetPath: string): any {
+    return targetPath
+      .replace(/\[(\w+)\]/g, '.$1')
+      .split('.')
+      .filter(Boolean)
+      .reduce((current, key) => current?.[key], resource);
+  }
+
   private countActionsByType(actions: ExecutionAction[]): Record<string, number> {
     return actions.reduce((counts, action) => {
       counts[action.type] = (counts[action.type] || 0) + 1;
@@ -673,6 +691,31 @@ export class ExecutionPlanner {
     }, 0);
   }
 
+  /**
+   * Create payload from the template library when it renders cleanly, otherwise the basic template
+   */
+  private getResourcePayload(
+    integration: IntegrationSnapshot,
+    resourceId: string,
+    type: string,
+    businessConfig: any,
+    templates?: ResourceTemplateSet
+  ): ExecutionAction['payload'] {
+    const storemap: any[] = integration.settings?.['storemap'] || [];
+    const rendered = templates
+      ? renderResourceTemplate(templates, type, resourceId, {
+          integration,
+          store: storemap.length === 1 ? storemap[0] : undefined,
+          edition: integration.licenseEdition
+        })
+      : undefined;
+
+    if (rendered?.payload && rendered.errors.length === 0) {
+      return { after: rendered.payload, diff: { readyToApply: true, templateSource: rendered.templateSource } };
+    }
+    return { after: this.getResourceTemplate(resourceId, type, businessConfig) };
+  }
+
   private getResourceTemplate(resourceId: string, type: string, businessConfig: any): any {
     // Generate basic template for resource creation
     return {
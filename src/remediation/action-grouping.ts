@@ -0,0 +1,110 @@
+/**
+ * Action Grouping
+ * Files remediation actions under the corruption type they fix, and names the per-type reports and scripts
+ */
+
+const TYPE_NAMES: Record<string, string> = {
+  'incorrect-import-count': 'Import Count Issues',
+  'incorrect-export-count': 'Export Count Issues',
+  'incorrect-flow-count': 'Flow Count Issues',
+  'missing-properties': 'Missing Configuration Properties',
+  'offline-connections': 'Offline Connection Problems',
+  'license-edition-mismatch': 'License Edition Conflicts',
+  'stuck-in-update-process': 'Stuck Update Processes',
+  'orphaned-connections': 'Orphaned Connections',
+  'dangling-connection-references': 'Dangling Connection References',
+  'unresolved-flow-references': 'Unresolved Flow References',
+  'store-resource-gaps': 'Store Resource Gaps',
+  'storemap-mismatch': 'Store Map Mismatches',
+  'settings-schema-violation': 'Settings Schema Violations',
+  'unsupported-version': 'Unsupported Versions',
+  'unknown': 'Unknown Issues'
+};
+
+const FILE_NAMES: Record<string, string> = {
+  'incorrect-import-count': 'import-count-issues',
+  'incorrect-export-count': 'export-count-issues',
+  'incorrect-flow-count': 'flow-count-issues',
+  'missing-properties': 'missing-settings',
+  'offline-connections': 'offline-connection-problems',
+  'license-edition-mismatch': 'license-conflicts',
+  'stuck-in-update-process': 'stuck-updates',
+  'orphaned-connections': 'orphaned-connections',
+  'dangling-connection-references': 'dangling-connection-references',
+  'unresolved-flow-references': 'unresolved-flow-references',
+  'store-resource-gaps': 'store-resource-gaps',
+  'storemap-mismatch': 'storemap-mismatches',
+  'settings-schema-violation': 'settings-schema-violations',
+  'unsupported-version': 'unsupported-versions',
+  'unknown': 'unknown-issues'
+};
+
+const SCRIPT_NAMES: Record<string, string> = {
+  'incorrect-import-count': 'fix-import-counts',
+  'incorrect-export-count': 'fix-export-counts',
+  'incorrect-flow-count': 'fix-flow-counts',
+  'missing-properties': 'add-missing-settings',
+  'offline-connections': 'reconnect-offline-connections',
+  'license-edition-mismatch': 'fix-license-mismatches',
+  'stuck-in-update-process': 'clear-stuck-updates',
+  'orphaned-connections': 'delete-orphaned-connections',
+  'dangling-connection-references': 'relink-dangling-connections',
+  'unresolved-flow-references': 'disable-unresolved-flows',
+  'store-resource-gaps': 'create-missing-store-resources',
+  'storemap-mismatch': 'fix-store-counts',
+  'settings-schema-violation': 'apply-schema-defaults',
+  'unknown': 'fix-unknown-issues'
+};
+
+export function getHumanReadableTypeName(type: string): string {
+  return TYPE_NAMES[type] || type.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+export function getHumanReadableFileName(type: string): string {
+  return FILE_NAMES[type] || `${type.replace(/-/g, '_')}_issues`;
+}
+
+export function getHumanReadableScriptName(type: string): string {
+  return SCRIPT_NAMES[type] || `fix-${type.replace(/-/g, '_')}`;
+}
+
+/**
+ * Corruption type an action fixes, as the remediation engine records it in metadata.corruptionType;
+ * actions from elsewhere fall back to keywords in their reason
+ */
+export function getCorruptionTypeFromAction(action: any): string | null {
+  if (action.metadata?.corruptionType) return action.metadata.corruptionType;
+
+  const reason = action.metadata?.reason || '';
+  if (reason.includes('import')) return 'incorrect-import-count';
+  if (reason.includes('export')) return 'incorrect-export-count';
+  if (reason.includes('flow')) return 'incorrect-flow-count';
+  if (reason.includes('license') || reason.includes('edition')) return 'license-edition-mismatch';
+  if (reason.includes('property') || reason.includes('missing')) return 'missing-properties';
+  if (reason.includes('connection') || reason.includes('offline')) return 'offline-connections';
+  if (reason.includes('update') || reason.includes('flag')) return 'stuck-in-update-process';
+
+  return null;
+}
+
+/**
+ * Actions of all remediation results by the corruption type they fix, each with its integration
+ */
+export function groupActionsByType(remediationResults: any[]): Record<string, any[]> {
+  const grouped: Record<string, any[]> = {};
+
+  for (const result of remediationResults) {
+    for (const action of result.actions) {
+      const type = getCorruptionTypeFromAction(action) || 'unknown';
+      if (!grouped[type]) {
+        grouped[type] = [];
+      }
+      grouped[type].push({
+        integrationId: result.integrationId,
+        action: action
+      });
+    }
+  }
+
+  return grouped;
+}
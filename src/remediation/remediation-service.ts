@@ -7,6 +7,9 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { ExecutionAction } from '../planner/execution-planner';
+import { ActionDependencyGraph } from '../rules/action-dependencies';
+import { ActionConflict } from '../rules/action-conflicts';
+import { ManualReviewItem } from '../rules/data-driven-remediation-engine';
 
 export interface RemediationJob {
   id: string;
@@ -23,6 +26,9 @@ export interface RemediationJob {
     corruptionTypes: string[];
     totalActions: number;
     estimatedDuration: number;
+    dependencyGraph?: ActionDependencyGraph; // Levels of independent actions an executor may run in parallel
+    blockingConflicts?: ActionConflict[]; // Contradictory actions no precedence rule settles; the job will not run
+    manualReview?: ManualReviewItem[]; // Violations the job leaves untouched; fix them by hand
   };
 }
 
@@ -124,11 +130,20 @@ export class EnterpriseRemediationService implements RemediationAPI {
       throw new Error(`Job already processing: ${jobId}`);
     }
 
+    const blockingConflicts = job.metadata.blockingConflicts || [];
+    if (blockingConflicts.length > 0) {
+      job.status = 'failed';
+      job.updatedAt = new Date().toISOString();
+      blockingConflicts.forEach(conflict => console.warn(`⚠️  ${jobId}: ${conflict.message}; review manually`));
+      return { success: false, results: [{ error: `Blocked by ${blockingConflicts.length} unresolved action conflicts` }] };
+    }
+
     this.processing.add(jobId);
     job.status = 'processing';
     job.updatedAt = new Date().toISOString();
 
     const results: any[] = [];
+    const failedActionIds = new Set<string>();
     let successCount = 0;
     let failureCount = 0;
 
@@ -137,6 +152,16 @@ export class EnterpriseRemediationService implements RemediationAPI {
 
       for (let i = 0; i < job.actions.length; i++) {
         const action = job.actions[i];
+
+        // Actions wait on their prerequisites, so one whose prerequisite failed cannot run
+        const failedDependency = (action.metadata.dependencies || []).find(id => failedActionIds.has(id));
+        if (failedDependency) {
+          results.push({ actionId: action.id, success: false, error: `Dependency ${failedDependency} failed` });
+          failedActionIds.add(action.id);
+          failureCount++;
+          continue;
+        }
+
         try {
           const result = await this.executeAction(action);
           results.push({ actionId: action.id, success: result.success, result: result.result });
@@ -144,6 +169,7 @@ export class EnterpriseRemediationService implements RemediationAPI {
           if (result.success) {
             successCount++;
           } else {
+            failedActionIds.add(action.id);
             failureCount++;
           }
 
@@ -154,6 +180,7 @@ export class EnterpriseRemediationService implements RemediationAPI {
 
         } catch (error) {
           results.push({ actionId: action.id, success: false, error: (error as Error).message });
+          failedActionIds.add(action.id);
           failureCount++;
         }
       }
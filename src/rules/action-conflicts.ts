@@ -0,0 +1,308 @@
+/**
+ * Action Conflicts
+ * Finds remediation actions of one integration that touch the same target: writes to the same or nested
+ * paths, and creates, modifications and deletes of the same resource. Compatible patches merge into one,
+ * incompatible actions follow the precedence rules in executionStrategy.conflictResolution, and whatever
+ * no rule settles is reported as blocking.
+ */
+
+import { ExecutionAction } from '../planner/execution-planner';
+import { ActionSelector, matchesSelector } from './action-dependencies';
+import { buildJsonPatch, JsonPatchOperation } from './json-patch';
+
+export type ConflictKind = 'same-path' | 'nested-path' | 'create-delete' | 'modify-delete';
+
+export interface PrecedenceRule {
+  name: string;
+  description?: string;
+  prefer: ActionSelector; // Actions kept
+  over: ActionSelector; // Actions dropped when they conflict with a preferred one
+}
+
+export interface ConflictResolutionRules {
+  enabled?: boolean;
+  precedence?: PrecedenceRule[]; // First rule matching a pair, in either direction, decides it
+}
+
+export interface ActionConflict {
+  kind: ConflictKind;
+  target: string; // e.g. setting:settings.connectorEdition, import:orders_export
+  actionIds: string[];
+  message: string;
+}
+
+export interface ResolvedConflict extends ActionConflict {
+  rule: string;
+  keptActionId: string;
+  droppedActionId: string;
+}
+
+export interface MergedPatch {
+  actionId: string; // Action carrying the merged patch
+  target: string;
+  mergedActionIds: string[]; // Every action folded into it, including actionId
+}
+
+export interface ConflictReport {
+  merged: MergedPatch[];
+  resolved: ResolvedConflict[];
+  blocking: ActionConflict[]; // Unresolved; the plan must not run until they are fixed by hand or by a rule
+}
+
+const WRITE_TYPES = ['patch', 'clearUpdateFlag'];
+
+interface PathWrite {
+  action: ExecutionAction;
+  scope: string; // resourceType:resourceId the path belongs to
+  segments: string[];
+  op: 'set' | 'remove';
+  value: any;
+}
+
+/**
+ * Problems in the precedence rules, as messages
+ */
+export function validateConflictRules(rules: ConflictResolutionRules | undefined): string[] {
+  return (rules?.precedence || []).flatMap((rule, i) => {
+    const label = rule.name || `precedence[${i}]`;
+    return [
+      ...(rule.name ? [] : [`${label}: missing name`]),
+      ...(rule.prefer && typeof rule.prefer === 'object' ? [] : [`${label}: missing prefer selector`]),
+      ...(rule.over && typeof rule.over === 'object' ? [] : [`${label}: missing over selector`])
+    ];
+  });
+}
+
+/**
+ * Merge, drop or flag conflicting actions; the returned actions keep their order
+ */
+export function resolveActionConflicts(
+  actions: ExecutionAction[],
+  rules: ConflictResolutionRules | undefined
+): { actions: ExecutionAction[]; report: ConflictReport } {
+  const report: ConflictReport = { merged: [], resolved: [], blocking: [] };
+  if (rules?.enabled === false) {
+    return { actions, report };
+  }
+
+  const dropped = new Set<string>();
+  const replacements = new Map<string, ExecutionAction>();
+
+  const settle = (conflict: ActionConflict, a: ExecutionAction, b: ExecutionAction): boolean => {
+    if (dropped.has(a.id) || dropped.has(b.id)) return true;
+    const decision = decidePrecedence(a, b, rules?.precedence || []);
+    if (!decision) {
+      report.blocking.push(conflict);
+      return false;
+    }
+    dropped.add(decision.loser.id);
+    report.resolved.push({ ...conflict, rule: decision.rule, keptActionId: decision.winner.id, droppedActionId: decision.loser.id });
+    return true;
+  };
+
+  // Writes to the same or nested paths of one target
+  for (const group of groupOverlappingWrites(actions)) {
+    let settled = true;
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const [a, b] = [group[i], group[j]];
+        if (!overlaps(a, b) || compatible(a, b)) continue;
+        settled = settle(writeConflict(a, b), a.action, b.action) && settled;
+      }
+    }
+
+    const remaining = group.filter(write => !dropped.has(write.action.id));
+    if (settled && remaining.length > 1) {
+      const merged = mergeWrites(remaining);
+      replacements.set(merged.id, merged);
+      remaining.slice(1).forEach(write => dropped.add(write.action.id));
+      report.merged.push({
+        actionId: merged.id,
+        target: `${remaining[0].scope}:${remaining[0].segments.join('.')}`,
+        mergedActionIds: remaining.map(write => write.action.id)
+      });
+    }
+  }
+
+  // Creates, modifications and deletes of the same resource
+  for (const [a, b, conflict] of resourceConflicts(actions)) {
+    settle(conflict, a, b);
+  }
+
+  return {
+    actions: actions.filter(action => !dropped.has(action.id)).map(action => replacements.get(action.id) || action),
+    report
+  };
+}
+
+// The rule deciding a pair, in either direction
+function decidePrecedence(
+  a: ExecutionAction,
+  b: ExecutionAction,
+  precedence: PrecedenceRule[]
+): { rule: string; winner: ExecutionAction; loser: ExecutionAction } | undefined {
+  for (const rule of precedence) {
+    if (matchesSelector(a, rule.prefer) && matchesSelector(b, rule.over)) return { rule: rule.name, winner: a, loser: b };
+    if (matchesSelector(b, rule.prefer) && matchesSelector(a, rule.over)) return { rule: rule.name, winner: b, loser: a };
+  }
+  return undefined;
+}
+
+function groupOverlappingWrites(actions: ExecutionAction[]): PathWrite[][] {
+  const writes = actions.filter(action => WRITE_TYPES.includes(action.type) && action.target.path).map(toPathWrite);
+  const groups: PathWrite[][] = [];
+
+  for (const write of writes) {
+    const joined = groups.filter(group => group.some(member => overlaps(member, write)));
+    const group = [...joined.flat(), write];
+    joined.forEach(old => groups.splice(groups.indexOf(old), 1));
+    groups.push(group);
+  }
+
+  return groups
+    .filter(group => group.length > 1)
+    .map(group => group.sort((a, b) => a.segments.length - b.segments.length || actions.indexOf(a.action) - actions.indexOf(b.action)));
+}
+
+function toPathWrite(action: ExecutionAction): PathWrite {
+  const write = mutation(action);
+  const op = write?.op === 'remove' || (!write && action.payload.after === undefined) ? 'remove' : 'set';
+  return {
+    action,
+    scope: `${action.target.resourceType}:${action.target.resourceId || ''}`,
+    segments: normalizePath(action.target.path!),
+    op,
+    value: write && 'value' in write ? write.value : action.payload.after
+  };
+}
+
+// The operation of an action's JSON Patch that changes the target, as opposed to its test guards
+function mutation(action: ExecutionAction): JsonPatchOperation | undefined {
+  return [...(action.payload.patch || [])].reverse().find(operation => operation.op !== 'test');
+}
+
+/**
+ * Dot path segments, with settings.sections[0].mode read as settings.sections.0.mode
+ */
+export function normalizePath(targetPath: string): string[] {
+  return targetPath.replace(/\[(\w+)\]/g, '.$1').split('.').filter(Boolean);
+}
+
+function overlaps(a: PathWrite, b: PathWrite): boolean {
+  return a.scope === b.scope && (isPrefix(a.segments, b.segments) || isPrefix(b.segments, a.segments));
+}
+
+function isPrefix(prefix: string[], segments: string[]): boolean {
+  return prefix.length <= segments.length && prefix.every((segment, i) => segments[i] === segment);
+}
+
+// Same path: the same outcome. Nested: the outer write leaves an object the inner one can be applied to
+function compatible(a: PathWrite, b: PathWrite): boolean {
+  if (a.action.type !== b.action.type) return false;
+  if (a.segments.length === b.segments.length) {
+    return a.op === b.op && (a.op === 'remove' || JSON.stringify(a.value) === JSON.stringify(b.value));
+  }
+  const [outer, inner] = a.segments.length < b.segments.length ? [a, b] : [b, a];
+  if (outer.op === 'remove') return inner.op === 'remove';
+  return isContainer(outer.value);
+}
+
+function isContainer(value: any): boolean {
+  return !!value && typeof value === 'object';
+}
+
+function writeConflict(a: PathWrite, b: PathWrite): ActionConflict {
+  const samePath = a.segments.length === b.segments.length;
+  const describe = (write: PathWrite) => `${write.op === 'remove' ? 'removes' : `sets ${JSON.stringify(write.value)} at`} ${write.segments.join('.')}`;
+  return {
+    kind: samePath ? 'same-path' : 'nested-path',
+    target: `${a.scope}:${(samePath || a.segments.length < b.segments.length ? a : b).segments.join('.')}`,
+    actionIds: [a.action.id, b.action.id],
+    message: `${a.action.id} ${describe(a)} but ${b.action.id} ${describe(b)}`
+  };
+}
+
+// One patch at the outermost path whose value carries every nested write, guarded by every write's tests
+function mergeWrites(writes: PathWrite[]): ExecutionAction {
+  const [root] = writes;
+  const rootAction = root.action;
+  const value = root.op === 'remove' ? undefined : JSON.parse(JSON.stringify(root.value ?? null));
+
+  for (const write of writes.slice(1)) {
+    if (root.op === 'remove') break;
+    const relative = write.segments.slice(root.segments.length);
+    if (relative.length === 0) continue;
+    const parent = relative.slice(0, -1).reduce((current, key) => {
+      if (!isContainer(current[key])) current[key] = {};
+      return current[key];
+    }, value);
+    const key = relative[relative.length - 1];
+    if (write.op === 'remove' && Array.isArray(parent)) {
+      parent.splice(Number(key), 1);
+    } else if (write.op === 'remove') {
+      delete parent[key];
+    } else {
+      parent[key] = write.value;
+    }
+  }
+
+  const mergedIds = writes.map(write => write.action.id);
+  const guards = writes
+    .flatMap(write => (write.action.payload.patch || []).filter(operation => operation.op === 'test'))
+    .filter((guard, i, all) => all.findIndex(other => JSON.stringify(other) === JSON.stringify(guard)) === i);
+  const rootWrite = mutation(rootAction);
+  const mergedWrite = rootWrite
+    ? { ...rootWrite, ...(root.op !== 'remove' && { value }) }
+    : buildJsonPatch(rootAction.target.path!, rootAction.payload.before, value).filter(operation => operation.op !== 'test')[0];
+
+  return {
+    ...rootAction,
+    payload: {
+      ...rootAction.payload,
+      after: value,
+      patch: [...guards, ...(mergedWrite ? [mergedWrite] : [])]
+    },
+    metadata: {
+      ...rootAction.metadata,
+      mergedActionIds: mergedIds,
+      reason: [...new Set(writes.map(write => write.action.metadata.reason))].join('; '),
+      priority: Math.max(...writes.map(write => write.action.metadata.priority)),
+      dependencies: [...new Set(writes.flatMap(write => write.action.metadata.dependencies || []))].filter(id => !mergedIds.includes(id))
+    }
+  };
+}
+
+// Deletes against creates of the same adaptor and against anything else done to the deleted resource
+function resourceConflicts(actions: ExecutionAction[]): Array<[ExecutionAction, ExecutionAction, ActionConflict]> {
+  const conflicts: Array<[ExecutionAction, ExecutionAction, ActionConflict]> = [];
+  const deletes = actions.filter(action => action.type === 'delete');
+
+  for (const deletion of deletes) {
+    const resourceType = deletion.target.resourceType;
+    const externalId = deletion.payload.diff?.externalId;
+
+    for (const other of actions) {
+      if (other === deletion || other.target.resourceType !== resourceType) continue;
+
+      // A create filling one store's gap does not undo deleting an excess copy elsewhere
+      if (other.type === 'create' && externalId && !other.payload.diff?.storeId
+        && (other.payload.diff?.externalId ?? other.target.resourceId) === externalId) {
+        conflicts.push([deletion, other, {
+          kind: 'create-delete',
+          target: `${resourceType}:${externalId}`,
+          actionIds: [deletion.id, other.id],
+          message: `${deletion.id} deletes a copy of ${resourceType} ${externalId} while ${other.id} creates one`
+        }]);
+      } else if (other.type !== 'create' && other.type !== 'delete' && other.target.resourceId === deletion.target.resourceId) {
+        conflicts.push([deletion, other, {
+          kind: 'modify-delete',
+          target: `${resourceType}:${deletion.target.resourceId}`,
+          actionIds: [deletion.id, other.id],
+          message: `${deletion.id} deletes ${resourceType} ${deletion.target.resourceId} while ${other.id} ${other.type === 'reconnect' ? 'reconnects' : 'patches'} it`
+        }]);
+      }
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,305 @@
+/**
+ * Action Dependencies
+ * Builds the dependency DAG of remediation actions from the rules in executionStrategy.dependencies
+ * (e.g. flows after their imports/exports, imports after their connection is reconnected), orders actions
+ * topologically and groups them into levels whose actions can run in parallel. Cycles are rejected.
+ * Action limits cut whole dependency closures, so a kept action never loses a prerequisite.
+ */
+
+import { ExecutionAction } from '../planner/execution-planner';
+
+export interface ActionSelector {
+  type?: string | string[]; // create, delete, patch, reconnect, clearUpdateFlag
+  resourceType?: string | string[]; // import, export, flow, connection, setting
+  issueType?: string | string[]; // metadata.issueType, e.g. STORE_RESOURCE_GAP
+  corruptionType?: string | string[]; // metadata.corruptionType of the event the action fixes
+}
+
+export interface DependencyJoin {
+  action: string; // Dot path into the dependent action, e.g. payload.diff.creationTemplate.connectionId
+  after: string; // Dot path into the prerequisite, e.g. target.resourceId
+}
+
+export interface DependencyRule {
+  name: string;
+  description?: string;
+  action: ActionSelector; // Actions that wait
+  after: ActionSelector | ActionSelector[]; // Actions they wait for
+  join?: DependencyJoin[]; // Values both sides must share; a side without the value depends conservatively
+}
+
+export interface DependencyRules {
+  enabled?: boolean;
+  rules?: DependencyRule[];
+}
+
+export interface DependencyEdge {
+  from: string; // Prerequisite action ID
+  to: string; // Dependent action ID
+  rule: string; // Rule that declared the edge; 'explicit' for dependencies already on the action
+}
+
+export interface ActionDependencyGraph {
+  nodes: string[]; // Action IDs in execution order
+  edges: DependencyEdge[];
+  levels: string[][]; // Actions of a level depend only on earlier levels and can run in parallel
+}
+
+export interface ActionLimits {
+  maxActions: number;
+  maxDestructiveActions?: number; // Deletes
+}
+
+export interface TruncatedAction {
+  actionId: string;
+  type: ExecutionAction['type'];
+  target: ExecutionAction['target'];
+  reason: 'max-actions' | 'max-destructive-actions' | 'prerequisite-truncated';
+  prerequisiteId?: string; // Cut prerequisite, for prerequisite-truncated
+}
+
+const ACTION_TYPES = ['create', 'delete', 'patch', 'reconnect', 'clearUpdateFlag'];
+const RESOURCE_TYPES = ['import', 'export', 'flow', 'connection', 'setting'];
+
+/**
+ * Problems in the dependency rules, as messages; rules whose selectors can wait on each other in a loop are a cycle
+ */
+export function validateDependencyRules(dependencies: DependencyRules | undefined): string[] {
+  const rules = dependencies?.rules || [];
+  const errors: string[] = [];
+
+  rules.forEach((rule, i) => {
+    const label = rule.name || `rules[${i}]`;
+    if (!rule.name) errors.push(`${label}: missing name`);
+    if (!rule.action || typeof rule.action !== 'object') errors.push(`${label}: missing action selector`);
+    if (!rule.after || (Array.isArray(rule.after) && rule.after.length === 0)) errors.push(`${label}: missing after selectors`);
+    for (const join of rule.join || []) {
+      if (!join.action || !join.after) errors.push(`${label}: join needs both action and after paths`);
+    }
+  });
+  if (errors.length > 0) return errors;
+
+  // Kinds of action (type:resourceType) a rule makes wait on other kinds; same-kind edges are checked per plan
+  const waitsOn = new Map<string, Set<string>>();
+  for (const rule of rules) {
+    for (const dependent of selectorKinds(rule.action)) {
+      for (const prerequisite of afterSelectors(rule).flatMap(selectorKinds)) {
+        if (dependent === prerequisite) continue;
+        waitsOn.set(dependent, new Set([...(waitsOn.get(dependent) || []), prerequisite]));
+      }
+    }
+  }
+
+  const cycle = findCycle([...waitsOn.keys()], kind => [...(waitsOn.get(kind) || [])]);
+  if (cycle) {
+    errors.push(`dependency rules form a cycle: ${cycle.join(' → ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Dependency graph of the actions: edges from the rules plus dependencies already listed on the actions
+ */
+export function buildDependencyGraph(actions: ExecutionAction[], dependencies: DependencyRules | undefined): ActionDependencyGraph {
+  const ids = new Set(actions.map(action => action.id));
+  const edges: DependencyEdge[] = [];
+  const seen = new Set<string>();
+  const addEdge = (from: string, to: string, rule: string) => {
+    const key = `${from}→${to}`;
+    if (from === to || seen.has(key)) return;
+    seen.add(key);
+    edges.push({ from, to, rule });
+  };
+
+  for (const action of actions) {
+    for (const dependency of action.metadata.dependencies || []) {
+      if (ids.has(dependency)) addEdge(dependency, action.id, 'explicit');
+    }
+  }
+
+  if (dependencies?.enabled !== false) {
+    for (const rule of dependencies?.rules || []) {
+      const prerequisites = actions.filter(action => afterSelectors(rule).some(selector => matchesSelector(action, selector)));
+      for (const action of actions.filter(candidate => matchesSelector(candidate, rule.action))) {
+        for (const prerequisite of prerequisites) {
+          if (joined(action, prerequisite, rule.join || [])) addEdge(prerequisite.id, action.id, rule.name);
+        }
+      }
+    }
+  }
+
+  const { order, levels } = topologicalOrder(actions, edges);
+  return { nodes: order.map(action => action.id), edges, levels };
+}
+
+/**
+ * Actions ordered so every action follows its prerequisites; independent actions keep their current order
+ */
+export function sortActionsByDependencies(actions: ExecutionAction[], graph: ActionDependencyGraph): ExecutionAction[] {
+  return topologicalOrder(actions, graph.edges).order;
+}
+
+/**
+ * Set metadata.dependencies of each action to its prerequisites in the graph
+ */
+export function applyDependencies(actions: ExecutionAction[], graph: ActionDependencyGraph): void {
+  for (const action of actions) {
+    action.metadata.dependencies = graph.edges.filter(edge => edge.to === action.id).map(edge => edge.from);
+  }
+}
+
+/**
+ * Keep actions in the given (priority) order while the limits allow. Each action is kept together with
+ * the prerequisites it still needs, or cut whole when they do not fit; an action whose prerequisite was
+ * cut is cut too. Kept actions are returned in graph order.
+ */
+export function limitActionsByDependencyClosure(
+  actions: ExecutionAction[],
+  graph: ActionDependencyGraph,
+  limits: ActionLimits
+): { actions: ExecutionAction[]; truncated: TruncatedAction[] } {
+  const prerequisites = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    prerequisites.set(edge.to, [...(prerequisites.get(edge.to) || []), edge.from]);
+  }
+  const byId = new Map(actions.map(action => [action.id, action]));
+  const kept = new Set<string>();
+  const cut = new Map<string, TruncatedAction>();
+  let destructive = 0;
+
+  const truncate = (action: ExecutionAction, reason: TruncatedAction['reason'], prerequisiteId?: string) => {
+    cut.set(action.id, { actionId: action.id, type: action.type, target: action.target, reason, ...(prerequisiteId && { prerequisiteId }) });
+  };
+
+  for (const action of actions) {
+    if (kept.has(action.id) || cut.has(action.id)) continue;
+
+    // The action and every prerequisite not yet kept, prerequisites first
+    const closure: string[] = [];
+    const visit = (id: string) => {
+      if (kept.has(id) || closure.includes(id)) return;
+      (prerequisites.get(id) || []).forEach(visit);
+      closure.push(id);
+    };
+    visit(action.id);
+
+    const cutPrerequisite = closure.find(id => cut.has(id));
+    const deletes = closure.filter(id => byId.get(id)?.type === 'delete').length;
+    if (cutPrerequisite) {
+      truncate(action, 'prerequisite-truncated', cutPrerequisite);
+    } else if (kept.size + closure.length > limits.maxActions) {
+      truncate(action, 'max-actions');
+    } else if (limits.maxDestructiveActions !== undefined && deletes > 0 && destructive + deletes > limits.maxDestructiveActions) {
+      truncate(action, 'max-destructive-actions');
+    } else {
+      closure.forEach(id => kept.add(id));
+      destructive += deletes;
+    }
+  }
+
+  return {
+    actions: graph.nodes.filter(id => kept.has(id)).map(id => byId.get(id)!),
+    truncated: actions.filter(action => cut.has(action.id)).map(action => cut.get(action.id)!)
+  };
+}
+
+/**
+ * Whether an action matches a selector; omitted selector fields match anything
+ */
+export function matchesSelector(action: ExecutionAction, selector: ActionSelector): boolean {
+  const matches = (expected: string | string[] | undefined, actual: string | undefined) =>
+    expected === undefined || (Array.isArray(expected) ? expected : [expected]).includes(actual as string);
+
+  return matches(selector.type, action.type)
+    && matches(selector.resourceType, action.target.resourceType)
+    && matches(selector.issueType, action.metadata.issueType)
+    && matches(selector.corruptionType, action.metadata.corruptionType);
+}
+
+// Kahn's algorithm, taking ready actions in their current order; leftovers mean a cycle
+function topologicalOrder(actions: ExecutionAction[], edges: DependencyEdge[]): { order: ExecutionAction[]; levels: string[][] } {
+  const indegree = new Map(actions.map(action => [action.id, 0]));
+  const dependents = new Map<string, string[]>();
+  for (const edge of edges) {
+    indegree.set(edge.to, (indegree.get(edge.to) || 0) + 1);
+    dependents.set(edge.from, [...(dependents.get(edge.from) || []), edge.to]);
+  }
+
+  const byId = new Map(actions.map(action => [action.id, action]));
+  const position = new Map(actions.map((action, i) => [action.id, i]));
+  const level = new Map<string, number>();
+  const order: ExecutionAction[] = [];
+  let ready = actions.filter(action => indegree.get(action.id) === 0).map(action => action.id);
+
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(byId.get(id)!);
+    for (const dependent of dependents.get(id) || []) {
+      level.set(dependent, Math.max(level.get(dependent) || 0, (level.get(id) || 0) + 1));
+      indegree.set(dependent, indegree.get(dependent)! - 1);
+      if (indegree.get(dependent) === 0) {
+        ready = [...ready, dependent].sort((a, b) => position.get(a)! - position.get(b)!);
+      }
+    }
+  }
+
+  if (order.length < actions.length) {
+    const remaining = actions.filter(action => !order.includes(action)).map(action => action.id);
+    const cycle = findCycle(remaining, id => edges.filter(edge => edge.from === id && remaining.includes(edge.to)).map(edge => edge.to));
+    throw new Error(`Remediation actions have a dependency cycle: ${(cycle || remaining).join(' → ')}`);
+  }
+
+  const levels: string[][] = [];
+  for (const action of order) {
+    const depth = level.get(action.id) || 0;
+    (levels[depth] = levels[depth] || []).push(action.id);
+  }
+
+  return { order, levels };
+}
+
+// First cycle reachable from the nodes, closed on its starting node
+function findCycle(nodes: string[], next: (node: string) => string[]): string[] | undefined {
+  const done = new Set<string>();
+
+  const visit = (node: string, trail: string[]): string[] | undefined => {
+    const index = trail.indexOf(node);
+    if (index >= 0) return [...trail.slice(index), node];
+    if (done.has(node)) return undefined;
+    for (const neighbour of next(node)) {
+      const cycle = visit(neighbour, [...trail, node]);
+      if (cycle) return cycle;
+    }
+    done.add(node);
+    return undefined;
+  };
+
+  for (const node of nodes) {
+    const cycle = visit(node, []);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+function afterSelectors(rule: DependencyRule): ActionSelector[] {
+  return Array.isArray(rule.after) ? rule.after : [rule.after];
+}
+
+function selectorKinds(selector: ActionSelector): string[] {
+  const types = selector.type === undefined ? ACTION_TYPES : ([] as string[]).concat(selector.type);
+  const resourceTypes = selector.resourceType === undefined ? RESOURCE_TYPES : ([] as string[]).concat(selector.resourceType);
+  return types.flatMap(type => resourceTypes.map(resourceType => `${type}:${resourceType}`));
+}
+
+function joined(action: ExecutionAction, prerequisite: ExecutionAction, joins: DependencyJoin[]): boolean {
+  return joins.every(join => {
+    const actionValue = valueAtPath(action, join.action);
+    const prerequisiteValue = valueAtPath(prerequisite, join.after);
+    return actionValue === undefined || prerequisiteValue === undefined || actionValue === prerequisiteValue;
+  });
+}
+
+function valueAtPath(source: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], source);
+}
@@ -3,11 +3,20 @@
  * ALL business logic loaded from JSON configuration files
  */
 
-import { Engine, Rule } from 'json-rules-engine';
+import { Engine, Rule, RuleResult } from 'json-rules-engine';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { IntegrationSnapshot } from '../types';
 import { ConfigurationManager, ProductVersionConfig } from '../config/configuration-manager';
+import { resolveEdition, ResolvedEditionRequirements } from '../config/edition-inheritance';
+import { selectConfigurationForVersion, VersionCandidate } from '../config/version-selection';
+import { ConfigSource, DetectionTrace, explainRuleResult } from './detection-trace';
+import { registerGenericOperators } from './generic-operators';
+import { analyzeReferences, ReferenceIntegrityRules } from './reference-integrity';
+import { diffResourcesPerStore } from './resource-diff';
+import { calculateRiskScore, resolveRiskScoringModel, RiskScore } from './risk-scoring';
+import { pointerToSettingsPath, SettingsSchemaValidator, SettingsValidationRules } from './settings-schema';
+import { analyzeStores, StoreValidationRules } from './store-validation';
 
 export interface BusinessConfig {
   editionRequirements: Record<string, {
@@ -59,9 +68,39 @@ export interface CorruptionEvent {
     detectedAt: string;
     ruleId: string;
     businessLogic: any;
+    explanation?: DetectionTrace; // Only when detection runs with { explain: true }
   };
 }
 
+export interface DetectionOptions {
+  explain?: boolean; // Attach an explanation trace to every event
+}
+
+/**
+ * The product configuration a snapshot was checked against
+ */
+export interface AppliedConfiguration {
+  product: string;
+  version: string;
+  versionRange?: string;
+}
+
+/** Operators and operator decorators json-rules-engine provides out of the box */
+const ENGINE_OPERATORS = [
+  'equal', 'notEqual', 'in', 'notIn', 'contains', 'doesNotContain',
+  'lessThan', 'lessThanInclusive', 'greaterThan', 'greaterThanInclusive'
+];
+const OPERATOR_DECORATORS = new Set(['someFact', 'someValue', 'everyFact', 'everyValue', 'swap', 'not']);
+
+interface DetectionContext {
+  config: ProductVersionConfig;
+  engine: Engine;
+  applied: AppliedConfiguration;
+  configPath: string | null;
+  ruleNames: string[];
+  settingsValidator?: SettingsSchemaValidator; // When the configuration references a settings schema
+}
+
 export class DataDrivenCorruptionDetector {
   private engine: Engine;
   private businessConfig: ProductVersionConfig | null = null;
@@ -69,6 +108,8 @@ export class DataDrivenCorruptionDetector {
   private rulesLoaded = false;
   private currentProduct = '';
   private currentVersion = '';
+  private versionCandidates: VersionCandidate[] = [];
+  private contexts = new Map<string, Promise<DetectionContext>>(); // One engine per product:version
 
   constructor() {
     this.engine = new Engine();
@@ -91,14 +132,73 @@ export class DataDrivenCorruptionDetector {
     this.currentVersion = version;
     
     console.log(`✅ Loaded configuration: ${product} v${version}`);
+
+    // Configurations declaring appliesToVersions are chosen per integration version
+    this.versionCandidates = this.configManager.getVersionCandidates(product) || [];
+    const ranged = this.versionCandidates.filter(candidate => candidate.versionRange);
+    if (ranged.length > 0) {
+      console.log(`✅ Version-aware detection: ${ranged.map(candidate => `v${candidate.version} (${candidate.versionRange})`).join(', ')}`);
+    }
+
+    // Start from empty engines so switching configuration does not keep the previous rules
+    this.contexts.clear();
+    const context = await this.createDetectionContext(this.businessConfig, product, version);
+    this.contexts.set(`${product}:${version}`, Promise.resolve(context));
+    this.engine = context.engine;
     
-    // Register data-driven operators
-    this.registerDataDrivenOperators();
+    this.rulesLoaded = true;
+  }
+
+  /**
+   * Build the rules engine of one configuration: data-driven operators plus its detection rules
+   */
+  private async createDetectionContext(config: ProductVersionConfig, product: string, version: string): Promise<DetectionContext> {
+    const engine = new Engine();
+
+    const settingsSchema = await this.configManager.loadSettingsSchema(config);
+    const settingsValidator = settingsSchema ? new SettingsSchemaValidator(settingsSchema) : undefined;
     
-    // Create rules from configuration
-    this.createDataDrivenRules();
+    // Register data-driven operators
+    const operators = this.registerDataDrivenOperators(engine, config, settingsValidator);
     
-    this.rulesLoaded = true;
+    // Load detection rules from configuration
+    const ruleNames = this.createDataDrivenRules(engine, config, operators, `${product} v${version}`);
+
+    return {
+      config,
+      engine,
+      applied: {
+        product,
+        version,
+        versionRange: this.versionCandidates.find(candidate => candidate.version === version)?.versionRange
+      },
+      configPath: this.configManager.getConfigurationPath(product, version) ?? null,
+      ruleNames,
+      settingsValidator
+    };
+  }
+
+  /**
+   * The engine for an integration's version, or undefined when no configuration applies to it.
+   * Without any appliesToVersions ranges, the initialized configuration applies to every integration.
+   */
+  private async getDetectionContext(integration: IntegrationSnapshot): Promise<DetectionContext | undefined> {
+    const defaultKey = `${this.currentProduct}:${this.currentVersion}`;
+    if (!this.versionCandidates.some(candidate => candidate.versionRange)) {
+      return this.contexts.get(defaultKey);
+    }
+
+    const candidate = selectConfigurationForVersion(this.versionCandidates, integration.version);
+    if (!candidate) return undefined;
+
+    const key = `${candidate.product}:${candidate.version}`;
+    if (!this.contexts.has(key)) {
+      this.contexts.set(key, this.configManager.loadConfiguration(candidate.product, candidate.version).then(config => {
+        console.log(`✅ Built rules engine for ${candidate.product} v${candidate.version} (${candidate.versionRange || 'exact version'})`);
+        return this.createDetectionContext(config, candidate.product, candidate.version);
+      }));
+    }
+    return this.contexts.get(key);
   }
 
   /**
@@ -122,13 +222,17 @@ export class DataDrivenCorruptionDetector {
   /**
    * Register operators that use business configuration data
    */
-  private registerDataDrivenOperators(): void {
-    if (!this.businessConfig) {
-      throw new Error('Business config not loaded');
-    }
+  private registerDataDrivenOperators(
+    engine: Engine,
+    config: ProductVersionConfig,
+    settingsValidator?: SettingsSchemaValidator
+  ): Set<string> {
+    const operators = new Set(ENGINE_OPERATORS);
+    const addOperator = (name: string, evaluate: (factValue: any, jsonValue: any) => boolean) => {
+      engine.addOperator(name, evaluate);
+      operators.add(name);
+    };
 
-    const config = this.businessConfig;
-    
     // Debug: Log config structure
     console.log('✅ Config loaded for operators:', {
       hasOfflineRules: !!config.offlineConnectionRules,
@@ -138,82 +242,122 @@ export class DataDrivenCorruptionDetector {
     });
 
     // Edition-based resource count validation - identifyDuplicateResources() logic
-    this.engine.addOperator('hasIncorrectImportCount', (integration: any) => {
+    addOperator('hasIncorrectImportCount', (integration: any) => {
       return this.identifyDuplicateResources(integration, 'imports', config);
     });
 
-    this.engine.addOperator('hasIncorrectExportCount', (integration: any) => {
+    addOperator('hasIncorrectExportCount', (integration: any) => {
       return this.identifyDuplicateResources(integration, 'exports', config);
     });
 
-    this.engine.addOperator('hasIncorrectFlowCount', (integration: any) => {
+    addOperator('hasIncorrectFlowCount', (integration: any) => {
       return this.identifyDuplicateResources(integration, 'flows', config);
     });
 
     // License validation using validateIAEditionAndLicense() logic
-    this.engine.addOperator('hasLicenseEditionMismatch', (integration: any) => {
+    addOperator('hasLicenseEditionMismatch', (integration: any) => {
       return this.validateIAEditionAndLicense(integration, config);
     });
 
     // Missing properties validation using validateMissingProperties() logic
-    this.engine.addOperator('hasMissingProperties', (integration: any) => {
+    addOperator('hasMissingProperties', (integration: any) => {
       return this.validateMissingProperties(integration, config);
     });
 
     // Offline connection detection using getOfflineConnections() logic
-    this.engine.addOperator('hasOfflineConnections', (integration: any) => {
+    addOperator('hasOfflineConnections', (integration: any) => {
       return this.getOfflineConnections(integration, config);
     });
 
     // Update process detection using inUpdateProcess() logic
-    this.engine.addOperator('inUpdateProcess', (integration: any) => {
+    addOperator('inUpdateProcess', (integration: any) => {
       return this.inUpdateProcess(integration, config);
     });
+
+    // Reference integrity between resources and connections
+    addOperator('hasOrphanedConnections', (integration: any) => {
+      return this.detectDanglingReferences(integration, config, 'orphanedConnections');
+    });
+
+    addOperator('hasDanglingConnectionReferences', (integration: any) => {
+      return this.detectDanglingReferences(integration, config, 'danglingReferences');
+    });
+
+    addOperator('hasUnresolvedFlowReferences', (integration: any) => {
+      return this.detectDanglingReferences(integration, config, 'unresolvedFlows');
+    });
+
+    // Store-aware validation against settings.storemap
+    addOperator('hasStoreResourceGaps', (integration: any) => {
+      return this.validateStores(integration, config, 'gaps');
+    });
+
+    addOperator('hasStoreCountMismatch', (integration: any) => {
+      return this.validateStores(integration, config, 'storeCountMismatch');
+    });
+
+    // Settings JSON Schema of the product version
+    addOperator('hasSettingsSchemaViolations', (integration: any) => {
+      return this.validateSettingsSchema(integration, config, settingsValidator);
+    });
+
+    // Generic operators (JSONPath, countWhere, externalId patterns, required resource diffs) for rules written in JSON
+    registerGenericOperators(engine, config.editionRequirements || {}).forEach(name => operators.add(name));
+    return operators;
   }
 
   /**
-   * Create data-driven rules directly from business configuration
+   * Load the enabled detection rules of a business configuration into its rules engine; returns their names
    */
-  private createDataDrivenRules(): void {
-    // Create rules that use the data-driven operators
-    const dataDrivenRules = [
-      {
-        conditions: { all: [{ fact: 'integration', operator: 'hasIncorrectImportCount', value: true }] },
-        event: { type: 'corruption-detected', params: { corruptionType: 'incorrect-import-count', resourceType: 'import', severity: 'medium', priority: 5, fixAction: 'adjust-import-count' }}
-      },
-      {
-        conditions: { all: [{ fact: 'integration', operator: 'hasIncorrectExportCount', value: true }] },
-        event: { type: 'corruption-detected', params: { corruptionType: 'incorrect-export-count', resourceType: 'export', severity: 'medium', priority: 5, fixAction: 'adjust-export-count' }}
-      },
-      {
-        conditions: { all: [{ fact: 'integration', operator: 'hasIncorrectFlowCount', value: true }] },
-        event: { type: 'corruption-detected', params: { corruptionType: 'incorrect-flow-count', resourceType: 'flow', severity: 'medium', priority: 5, fixAction: 'adjust-flow-count' }}
-      },
-      {
-        conditions: { all: [{ fact: 'integration', operator: 'hasLicenseEditionMismatch', value: true }] },
-        event: { type: 'corruption-detected', params: { corruptionType: 'license-edition-mismatch', resourceType: 'setting', severity: 'medium', priority: 4, fixAction: 'fix-license-mismatch' }}
-      },
-      {
-        conditions: { all: [{ fact: 'integration', operator: 'hasMissingProperties', value: true }] },
-        event: { type: 'corruption-detected', params: { corruptionType: 'missing-properties', resourceType: 'setting', severity: 'high', priority: 7, fixAction: 'add-missing-properties' }}
-      },
-      {
-        conditions: { all: [{ fact: 'integration', operator: 'hasOfflineConnections', value: true }] },
-        event: { type: 'corruption-detected', params: { corruptionType: 'offline-connections', resourceType: 'connection', severity: 'high', priority: 6, fixAction: 'reconnect-connections' }}
-      },
-      {
-        conditions: { all: [{ fact: 'integration', operator: 'inUpdateProcess', value: true }] },
-        event: { type: 'corruption-detected', params: { corruptionType: 'stuck-in-update-process', resourceType: 'setting', severity: 'high', priority: 3, fixAction: 'clear-update-flag' }}
+  private createDataDrivenRules(engine: Engine, config: ProductVersionConfig, operators: Set<string>, label: string): string[] {
+    const configuredRules = config.detectionRules || [];
+    const enabledRules = configuredRules.filter(rule => rule.enabled !== false);
+    if (enabledRules.length === 0) {
+      console.warn(`⚠️  No detection rules enabled in ${label} business rules`);
+    }
+
+    for (const ruleConfig of enabledRules) {
+      // Catch typos at load time instead of failing on the first integration
+      for (const operator of this.collectOperators(ruleConfig.conditions)) {
+        if (!this.isKnownOperator(operator, operators)) {
+          throw new Error(`Detection rule '${ruleConfig.name}' uses unknown operator '${operator}'`);
+        }
       }
-    ];
 
-    // Add each rule to the engine
-    for (const ruleConfig of dataDrivenRules) {
-      const rule = new Rule(ruleConfig);
-      this.engine.addRule(rule);
+      engine.addRule(new Rule({
+        name: ruleConfig.name,
+        priority: ruleConfig.priority || 1,
+        conditions: ruleConfig.conditions,
+        event: {
+          type: ruleConfig.event.type,
+          params: { ...ruleConfig.event.params, ruleName: ruleConfig.name }
+        }
+      }));
     }
 
-    console.log(`✅ Created ${dataDrivenRules.length} data-driven rules from business configuration`);
+    const disabledCount = configuredRules.length - enabledRules.length;
+    console.log(`✅ Loaded ${enabledRules.length} detection rules from business configuration${disabledCount > 0 ? ` (${disabledCount} disabled)` : ''}`);
+    return enabledRules.map(rule => rule.name);
+  }
+
+  /**
+   * Whether an operator, with any decorators such as "not:" or "everyFact:", is one the engine evaluates
+   */
+  private isKnownOperator(operator: string, operators: Set<string>): boolean {
+    const parts = operator.split(':');
+    const name = parts.pop()!;
+    return operators.has(name) && parts.every(decorator => OPERATOR_DECORATORS.has(decorator));
+  }
+
+  /**
+   * Operators used anywhere in a (nested all/any/not) rule condition
+   */
+  private collectOperators(condition: any): string[] {
+    if (!condition || typeof condition !== 'object') return [];
+    if (Array.isArray(condition.all)) return condition.all.flatMap((child: any) => this.collectOperators(child));
+    if (Array.isArray(condition.any)) return condition.any.flatMap((child: any) => this.collectOperators(child));
+    if (condition.not) return this.collectOperators(condition.not);
+    return typeof condition.operator === 'string' ? [condition.operator] : [];
   }
 
   /**
@@ -225,11 +369,14 @@ export class DataDrivenCorruptionDetector {
    * - Standard Edition: 4 exports, 5 imports, 4 flows (additional to starter)  
    * - Premium Edition: 9 exports, 11 imports, 7 flows (additional to standard)
    * - Shopify Markets Edition: 2 imports (additional to premium)
+   * - Editions are resolved through inheritsFrom (see config/edition-inheritance.ts)
    * 
    * Detection Logic:
    * - Expected count = store count × required resources per edition
    * - Missing Resources: Actual count < expected count
    * - Duplicate Resources: Actual count > expected count
+   * - When the edition lists required externalIds, each must appear once per store,
+   *   so a duplicate and a missing adaptor that cancel out in the count are still caught
    */
   private identifyDuplicateResources(
     integration: any, 
@@ -244,15 +391,15 @@ export class DataDrivenCorruptionDetector {
     const actualCount = actualResources.length;
     
     // Get edition requirements
-    const requirements = config.editionRequirements[edition];
+    // Effective requirements, with inheritsFrom chains resolved
+    const requirements = resolveEdition(edition, config.editionRequirements);
     if (!requirements) {
       console.warn(`⚠️  Unknown edition: ${edition} for integration ${integration.id}`);
       return false;
     }
     
     // Calculate expected count based on edition and store count
-    const perStoreKey = `${resourceType}PerStore` as keyof typeof requirements;
-    const expectedPerStore = requirements[perStoreKey] as number;
+    const expectedPerStore = requirements.perStore[resourceType].value;
     const expectedCount = storeCount * expectedPerStore;
     
     // Apply tolerance (exact match required if tolerance = 0)
@@ -265,6 +412,12 @@ export class DataDrivenCorruptionDetector {
       console.log(`🔍 ${status} ${resourceType}: ${integration.id} (${edition}) - Expected: ${expectedCount}, Actual: ${actualCount}, Diff: ${actualCount - expectedCount}`);
       return true;
     }
+
+    const diff = diffResourcesPerStore(integration, resourceType, config.editionRequirements);
+    if (diff && (diff.missing.length > 0 || diff.duplicated.length > 0)) {
+      console.log(`🔍 MISMATCHED ${resourceType}: ${integration.id} (${edition}) - Missing: ${diff.missing.map(item => item.externalId).join(', ') || 'none'}; Duplicated: ${diff.duplicated.map(item => item.externalId).join(', ') || 'none'}`);
+      return true;
+    }
     
     return false;
   }
@@ -322,6 +475,93 @@ export class DataDrivenCorruptionDetector {
     }
   }
 
+  /**
+   * detectDanglingReferences() - Identifies references between resources that do not resolve
+   *
+   * Detection Logic:
+   * - Orphaned connections: no import, export or settings connection field uses the connection
+   * - Dangling connection references: an import/export connectionId matches no connection
+   * - Unresolved flow references: none of a flow's import/export IDs match a known resource
+   *   (only for flows whose source records these IDs)
+   */
+  private detectDanglingReferences(
+    integration: any,
+    config: any,
+    check: 'orphanedConnections' | 'danglingReferences' | 'unresolvedFlows'
+  ): boolean {
+    try {
+      const rules: ReferenceIntegrityRules = config.referenceIntegrityRules || {};
+      const enabled = {
+        orphanedConnections: rules.detectOrphanedConnections,
+        danglingReferences: rules.detectDanglingConnectionReferences,
+        unresolvedFlows: rules.detectUnresolvedFlowReferences
+      }[check];
+      if (enabled === false) return false;
+
+      const found = analyzeReferences(integration, rules)[check];
+      if (found.length > 0) {
+        console.log(`🔍 DANGLING REFERENCES: ${integration.id} has ${found.length} ${check}`);
+      }
+      return found.length > 0;
+    } catch (error) {
+      console.error(`Error in detectDanglingReferences:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * validateStores() - Validates resources store by store using settings.storemap
+   *
+   * Detection Logic:
+   * - Imports/exports map to the store whose storemap entry holds their connectionId; flows follow their imports/exports
+   * - Store resource gaps: a store-scoped adaptor one store has and another store lacks
+   * - Store count mismatch: storeCount (NUMSTORES) differs from settings.storemap.length
+   */
+  private validateStores(integration: any, config: any, check: 'gaps' | 'storeCountMismatch'): boolean {
+    try {
+      const rules: StoreValidationRules = config.storeValidationRules || {};
+      const enabled = check === 'gaps' ? rules.detectStoreResourceGaps : rules.detectStoreCountMismatch;
+      if (enabled === false) return false;
+
+      const analysis = analyzeStores(integration, rules);
+      if (check === 'gaps') {
+        analysis.gaps.slice(0, 5).forEach(gap => console.log(`🔍 STORE GAP: ${integration.id} ${gap.message}`));
+        return analysis.gaps.length > 0;
+      }
+
+      if (analysis.storeCountMismatch) {
+        console.log(`🔍 STORE COUNT MISMATCH: ${integration.id} has storeCount ${analysis.storeCount} but ${analysis.storemapLength ?? 'no'} storemap entries`);
+      }
+      return analysis.storeCountMismatch;
+    } catch (error) {
+      console.error(`Error in validateStores:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * validateSettingsSchema() - Validates integration settings against the product version's settings JSON Schema
+   *
+   * Detection Logic:
+   * - Runs settings through ajv with the schema referenced by settingsValidation.schemaPath
+   * - Each violation (missing key, wrong type, invalid value, unexpected key) becomes its own event
+   */
+  private validateSettingsSchema(integration: any, config: any, settingsValidator?: SettingsSchemaValidator): boolean {
+    try {
+      if (!settingsValidator) return false;
+
+      const rules: SettingsValidationRules = config.settingsValidation || {};
+      const violations = settingsValidator.validate(integration.settings || {}, rules.maxViolations);
+      if (violations.length > 0) {
+        console.log(`🔍 SETTINGS SCHEMA: ${integration.id} has ${violations.length} violations: ${violations.slice(0, 3).map(violation => violation.message).join('; ')}${violations.length > 3 ? '...' : ''}`);
+      }
+      return violations.length > 0;
+    } catch (error) {
+      console.error(`Error in validateSettingsSchema:`, error);
+      return false;
+    }
+  }
+
   /**
    * validateIAEditionAndLicense() - Ensures integration edition matches license edition and validates license validity
    * 
@@ -472,63 +712,46 @@ export class DataDrivenCorruptionDetector {
     }
   }
 
-  /**
-   * Get complete resource list for an edition (with inheritance)
-   */
-  private getCompleteResourceList(edition: string, resourceType: 'imports' | 'exports' | 'flows', editionRequirements: any): string[] {
-    const requirements = editionRequirements[edition];
-    if (!requirements) return [];
-    
-    let completeList: string[] = [];
-    
-    // If this edition inherits from another, get parent resources first
-    if (requirements.inheritsFrom) {
-      completeList = this.getCompleteResourceList(requirements.inheritsFrom, resourceType, editionRequirements);
-    }
-    
-    // Add base required resources if available
-    const requiredKey = `required${resourceType.charAt(0).toUpperCase() + resourceType.slice(1)}`;
-    if (requirements[requiredKey]) {
-      completeList.push(...requirements[requiredKey]);
-    }
-    
-    // Add additional resources if available
-    const additionalKey = `additional${resourceType.charAt(0).toUpperCase() + resourceType.slice(1)}`;
-    if (requirements[additionalKey]) {
-      completeList.push(...requirements[additionalKey]);
-    }
-    
-    return [...new Set(completeList)]; // Remove duplicates
-  }
-
   /**
    * Detect corruption using data-driven business logic
    */
   async detectCorruption(
     integration: IntegrationSnapshot,
-    _manifest: any // Manifest now used for reference only
+    _manifest: any, // Manifest now used for reference only
+    options: DetectionOptions = {}
   ): Promise<{
     integrationId: string;
     email: string;
+    tier?: string;
     corruptionEvents: CorruptionEvent[];
     overallSeverity: 'low' | 'medium' | 'high' | 'critical';
     businessAnalysis: any;
+    riskScore: number;
+    riskFactors: RiskScore['factors'];
+    configApplied?: AppliedConfiguration;
+    rulesApplied: string[];
   }> {
     if (!this.rulesLoaded || !this.businessConfig) {
       throw new Error('System not initialized. Call initialize() first.');
     }
 
+    const context = await this.getDetectionContext(integration);
+    if (!context) {
+      return this.unsupportedVersionResult(integration, options);
+    }
+    const config = context.config;
+
     const facts = {
       integration: this.prepareIntegrationFacts(integration),
-      businessConfig: this.businessConfig,
+      businessConfig: config,
       timestamp: new Date().toISOString()
     };
 
-    const { events } = await this.engine.run(facts);
+    const { events, results } = await context.engine.run(facts);
     
     const corruptionEvents: CorruptionEvent[] = events
       .filter(event => event.type === 'corruption-detected')
-      .map(event => ({
+      .map((event): CorruptionEvent => ({
         type: event.type,
         params: {
           corruptionType: event.params?.['corruptionType'] || 'unknown',
@@ -536,50 +759,222 @@ export class DataDrivenCorruptionDetector {
           severity: event.params?.['severity'] || 'medium',
           priority: event.params?.['priority'] || 5,
           fixAction: event.params?.['fixAction'] || 'manual-intervention',
-          rollbackable: event.params?.['rollbackable'] || true,
-          details: this.generateCorruptionDetails(event, integration)
+          rollbackable: event.params?.['rollbackable'] ?? true,
+          details: this.generateCorruptionDetails(event, integration, config)
         },
         metadata: {
           detectedAt: new Date().toISOString(),
           ruleId: event.params?.['ruleName'] || 'data-driven-rule',
-          businessLogic: this.getBusinessLogicForCorruption(event.params?.['corruptionType'])
+          businessLogic: this.getBusinessLogicForCorruption(event.params?.['corruptionType']),
+          ...(options.explain && {
+            explanation: this.explainEvent(event.params?.['ruleName'], results, facts.integration, context)
+          })
         }
-      }));
+      }))
+      .flatMap(event => event.params.corruptionType === 'settings-schema-violation'
+        ? this.splitSettingsViolations(event, integration, context)
+        : [event]);
+    this.dropSchemaReportedProperties(corruptionEvents);
+
+    const risk = calculateRiskScore(integration, corruptionEvents, resolveRiskScoringModel(config.riskScoring));
+
+    return {
+      integrationId: integration.id,
+      email: integration.email,
+      ...(integration.tier && { tier: integration.tier }),
+      corruptionEvents,
+      overallSeverity: this.calculateOverallSeverity(corruptionEvents),
+      businessAnalysis: this.generateBusinessAnalysis(integration, corruptionEvents),
+      riskScore: risk.score,
+      riskFactors: risk.factors,
+      configApplied: context.applied,
+      rulesApplied: context.ruleNames.map(name => `${context.applied.product}@${context.applied.version}:${name}`)
+    };
+  }
+
+  /**
+   * One event per settings schema violation, with its JSON pointer path and schema default
+   */
+  private splitSettingsViolations(
+    event: CorruptionEvent,
+    integration: IntegrationSnapshot,
+    context: DetectionContext
+  ): CorruptionEvent[] {
+    const rules: SettingsValidationRules = context.config.settingsValidation || {};
+    const violations = context.settingsValidator?.validate(integration.settings || {}, rules.maxViolations) || [];
+
+    return violations.map(violation => ({
+      ...event,
+      params: {
+        ...event.params,
+        severity: rules.severityByViolationType?.[violation.violationType] || event.params.severity,
+        details: {
+          ...violation,
+          settingsSchema: rules.schemaPath,
+          detectionFunction: 'validateSettingsSchema()'
+        }
+      },
+      ...(event.metadata && { metadata: { ...event.metadata } })
+    }));
+  }
+
+  /**
+   * A settings key the schema also requires is reported by both missing-properties and a
+   * settings-schema-violation at the same path. The schema violation is kept (it carries the schema
+   * default), so each key is scored and remediated once; a missing-properties event left with no
+   * properties is removed.
+   */
+  private dropSchemaReportedProperties(events: CorruptionEvent[]): void {
+    const schemaPaths = new Set(events
+      .filter(event => event.params.corruptionType === 'settings-schema-violation' && event.params.details?.path !== undefined)
+      .map(event => pointerToSettingsPath(event.params.details.path)));
+    if (schemaPaths.size === 0) return;
+
+    for (let i = events.length - 1; i >= 0; i--) {
+      const details = events[i].params.details;
+      if (events[i].params.corruptionType !== 'missing-properties' || !Array.isArray(details?.missingProperties)) continue;
+
+      const remaining = details.missingProperties.filter((prop: string) => !schemaPaths.has(prop));
+      if (remaining.length === details.missingProperties.length) continue;
+      if (remaining.length === 0) {
+        events.splice(i, 1);
+        continue;
+      }
+      const observedValues: Record<string, any> = Object.fromEntries(
+        Object.entries(details.observedValues || {}).filter(([prop]) => remaining.includes(prop))
+      );
+      events[i] = { ...events[i], params: { ...events[i].params, details: { ...details, ...this.summarizeMissingProperties(remaining, observedValues) } } };
+    }
+  }
+
+  /**
+   * Explanation trace of the rule that raised an event
+   */
+  private explainEvent(
+    ruleName: string,
+    results: RuleResult[],
+    integrationFacts: any,
+    context: DetectionContext
+  ): DetectionTrace | undefined {
+    const ruleResult = results.find(result => result.name === ruleName);
+    if (!ruleResult) return undefined;
+
+    return explainRuleResult(ruleResult, integrationFacts, context.config, {
+      ...context.applied,
+      configPath: context.configPath
+    });
+  }
+
+  /**
+   * Flag an integration whose version no product configuration applies to; its rules are not run
+   */
+  private unsupportedVersionResult(integration: IntegrationSnapshot, options: DetectionOptions): any {
+    console.log(`🔍 UNSUPPORTED VERSION: ${integration.id} v${integration.version} matches no ${this.currentProduct} configuration`);
+
+    const corruptionEvents: CorruptionEvent[] = [{
+      type: 'corruption-detected',
+      params: {
+        corruptionType: 'unsupported-version',
+        resourceType: 'integration',
+        severity: 'medium',
+        priority: 5,
+        fixAction: 'manual-review',
+        rollbackable: false,
+        details: {
+          integrationVersion: integration.version,
+          product: this.currentProduct,
+          availableConfigurations: this.versionCandidates.map(candidate => ({
+            version: candidate.version,
+            appliesToVersions: candidate.versionRange
+          }))
+        }
+      },
+      metadata: {
+        detectedAt: new Date().toISOString(),
+        ruleId: 'version-selection',
+        businessLogic: this.getBusinessLogicForCorruption('unsupported-version'),
+        ...(options.explain && { explanation: this.explainUnsupportedVersion(integration) })
+      }
+    }];
+    const risk = calculateRiskScore(integration, corruptionEvents, resolveRiskScoringModel(this.businessConfig?.riskScoring));
 
     return {
       integrationId: integration.id,
       email: integration.email,
+      ...(integration.tier && { tier: integration.tier }),
       corruptionEvents,
       overallSeverity: this.calculateOverallSeverity(corruptionEvents),
-      businessAnalysis: this.generateBusinessAnalysis(integration, corruptionEvents)
+      businessAnalysis: this.generateBusinessAnalysis(integration, corruptionEvents),
+      riskScore: risk.score,
+      riskFactors: risk.factors,
+      rulesApplied: []
+    };
+  }
+
+  /**
+   * Explanation of an unsupported-version event: the version compared with every configuration's range
+   */
+  private explainUnsupportedVersion(integration: IntegrationSnapshot): DetectionTrace {
+    const configSource: ConfigSource = {
+      product: this.currentProduct,
+      version: this.currentVersion,
+      configPath: this.configManager.getConfigurationPath(this.currentProduct, this.currentVersion) ?? null
+    };
+
+    return {
+      ruleId: 'version-selection',
+      corruptionType: 'unsupported-version',
+      conditions: [{
+        fact: 'integration',
+        path: 'version',
+        operator: 'matchesNoAppliesToVersions',
+        value: this.versionCandidates.map(candidate => candidate.versionRange || candidate.version),
+        observed: integration.version,
+        result: true
+      }],
+      thresholds: {
+        matchesNoAppliesToVersions: Object.fromEntries(
+          this.versionCandidates.map(candidate => [candidate.configPath, candidate.versionRange || candidate.version])
+        )
+      },
+      configSource
     };
   }
 
   /**
    * Generate detailed corruption analysis with business context
    */
-  private generateCorruptionDetails(event: any, integration: IntegrationSnapshot): any {
+  private generateCorruptionDetails(event: any, integration: IntegrationSnapshot, config: ProductVersionConfig): any {
     const type = event.params?.['corruptionType'];
     
     switch (type) {
       case 'incorrect-import-count':
       case 'incorrect-export-count': 
       case 'incorrect-flow-count':
-        return this.generateResourceCountDetails(type, integration);
+        return this.generateResourceCountDetails(type, integration, config);
       
       case 'license-edition-mismatch':
         return {
           licenseEdition: integration.licenseEdition,
           connectorEdition: integration.settings?.connectorEdition,
-          validEditions: this.businessConfig?.licenseValidation.validEditions
+          validEditions: config.licenseValidation.validEditions
         };
       
       case 'missing-properties':
-        return this.generateMissingPropertiesDetails(integration);
+        return this.generateMissingPropertiesDetails(integration, config);
       
       case 'offline-connections':
-        return this.generateOfflineConnectionDetails(integration);
+        return this.generateOfflineConnectionDetails(integration, config);
         
+      case 'orphaned-connections':
+      case 'dangling-connection-references':
+      case 'unresolved-flow-references':
+        return this.generateReferenceDetails(type, integration, config);
+
+      case 'store-resource-gaps':
+      case 'storemap-mismatch':
+        return this.generateStoreDetails(type, integration, config);
+
       case 'stuck-in-update-process':
         return {
           updateInProgress: integration.updateInProgress,
@@ -596,16 +991,15 @@ export class DataDrivenCorruptionDetector {
    * Generate resource count details with business context
    * Enhanced to properly identify Missing vs Duplicate resources
    */
-  private generateResourceCountDetails(type: string, integration: IntegrationSnapshot): any {
+  private generateResourceCountDetails(type: string, integration: IntegrationSnapshot, config: ProductVersionConfig): any {
     const edition = integration.licenseEdition?.toLowerCase().trim();
-    const requirements = this.businessConfig?.editionRequirements[edition];
+    const requirements = resolveEdition(edition, config.editionRequirements || {});
     
     if (!requirements) return {};
     
     const resourceType = type.replace('incorrect-', '').replace('-count', '');
-    const perStoreKey = `${resourceType}sPerStore` as keyof typeof requirements;
-    const expectedPerStore = requirements[perStoreKey];
-    const expected = integration.storeCount * (expectedPerStore as number);
+    const expectedPerStore = requirements.perStore[`${resourceType}s` as 'imports' | 'exports' | 'flows'].value;
+    const expected = integration.storeCount * expectedPerStore;
     
     let actual = 0;
     let actualResources: any[] = [];
@@ -625,10 +1019,14 @@ export class DataDrivenCorruptionDetector {
     }
     
     const difference = actual - expected;
-    const status = actual > expected ? 'DUPLICATE_RESOURCES' : actual < expected ? 'MISSING_RESOURCES' : 'EXACT_MATCH';
+    const diff = diffResourcesPerStore(integration, `${resourceType}s` as 'imports' | 'exports' | 'flows', config.editionRequirements || {});
+    const mismatched = !!diff && (diff.missing.length > 0 || diff.duplicated.length > 0);
+    const status = actual > expected ? 'DUPLICATE_RESOURCES'
+      : actual < expected ? 'MISSING_RESOURCES'
+      : mismatched ? 'MISMATCHED_RESOURCES' : 'EXACT_MATCH';
     
     // Get edition breakdown for context
-    const editionBreakdown = this.getEditionResourceBreakdown(edition);
+    const editionBreakdown = this.getEditionResourceBreakdown(requirements);
     
     return {
       edition,
@@ -647,53 +1045,59 @@ export class DataDrivenCorruptionDetector {
         name: r.name || r.externalId,
         type: r.type
       })),
-      remediationNeeded: difference !== 0 ? (difference > 0 ? `Remove ${difference} excess ${resourceType}s` : `Add ${Math.abs(difference)} missing ${resourceType}s`) : 'No action needed'
+      // Name-level diff against the edition's required lists, when it has them
+      ...(diff && {
+        missingResources: diff.missing,
+        duplicateResources: diff.duplicated,
+        unexpectedResources: diff.unexpected
+      }),
+      remediationNeeded: diff && mismatched
+        ? `Remove ${diff.duplicated.reduce((sum, item) => sum + item.excessResourceIds.length, 0)} duplicate and add ${diff.missing.reduce((sum, item) => sum + item.missingCount, 0)} missing ${resourceType}s`
+        : difference !== 0 ? (difference > 0 ? `Remove ${difference} excess ${resourceType}s` : `Add ${Math.abs(difference)} missing ${resourceType}s`) : 'No action needed'
     };
   }
 
   /**
-   * Get edition resource breakdown for context
+   * Get edition resource breakdown for context, from the resolved inheritance chain
    */
-  private getEditionResourceBreakdown(edition: string): any {
-    const editionMap: Record<string, any> = {
-      'starter': { exports: 19, imports: 16, flows: 16, description: 'Baseline edition' },
-      'standard': { exports: 23, imports: 21, flows: 20, description: 'Starter + 4 exports, 5 imports, 4 flows' },
-      'premium': { exports: 32, imports: 32, flows: 27, description: 'Standard + 9 exports, 11 imports, 7 flows' },
-      'shopifymarkets': { exports: 32, imports: 34, flows: 27, description: 'Premium + 2 imports' },
-      'markets': { exports: 32, imports: 34, flows: 27, description: 'Alias for shopifymarkets' }
+  private getEditionResourceBreakdown(requirements: ResolvedEditionRequirements): any {
+    return {
+      imports: requirements.perStore.imports.value,
+      exports: requirements.perStore.exports.value,
+      flows: requirements.perStore.flows.value,
+      inheritanceChain: requirements.inheritanceChain,
+      description: requirements.description || `${requirements.edition} edition`
     };
-    
-    return editionMap[edition] || { description: 'Unknown edition' };
   }
 
   /**
-   * Generate missing properties details
+   * Generate missing properties details. observedValues records the empty value ('', 0, false or null)
+   * found at each present path, so the remediation can guard its replace; absent paths get an add.
    */
-  private generateMissingPropertiesDetails(integration: IntegrationSnapshot): any {
+  private generateMissingPropertiesDetails(integration: IntegrationSnapshot, config: ProductVersionConfig): any {
     const missing: string[] = [];
-    const config = this.businessConfig!;
-    
+    const observedValues: Record<string, any> = {};
+    const paths = [
+      ...config.requiredProperties.topLevel,
+      ...config.requiredProperties.settingsLevel.map((prop: string) => `settings.${prop}`),
+      ...config.requiredProperties.commonresources.map((prop: string) => `settings.commonresources.${prop}`)
+    ];
+
     // Check all required properties
-    for (const prop of config.requiredProperties.topLevel) {
-      if (!this.getNestedValue(integration, prop)) {
-        missing.push(prop);
-      }
-    }
-    
-    for (const prop of config.requiredProperties.settingsLevel) {
-      if (!this.getNestedValue(integration, `settings.${prop}`)) {
-        missing.push(`settings.${prop}`);
-      }
-    }
-    
-    for (const prop of config.requiredProperties.commonresources) {
-      if (!this.getNestedValue(integration, `settings.commonresources.${prop}`)) {
-        missing.push(`settings.commonresources.${prop}`);
-      }
+    for (const path of paths) {
+      const value = this.getNestedValue(integration, path);
+      if (value) continue;
+      missing.push(path);
+      if (value !== undefined) observedValues[path] = value;
     }
     
+    return this.summarizeMissingProperties(missing, observedValues);
+  }
+
+  private summarizeMissingProperties(missing: string[], observedValues: Record<string, any>): any {
     return {
       missingProperties: missing,
+      observedValues,
       totalMissing: missing.length,
       criticalMissing: missing.filter(prop => prop.includes('commonresources')),
       businessImpact: missing.length > 5 ? 'high' : missing.length > 2 ? 'medium' : 'low'
@@ -703,10 +1107,10 @@ export class DataDrivenCorruptionDetector {
   /**
    * Generate offline connection details
    */
-  private generateOfflineConnectionDetails(integration: IntegrationSnapshot): any {
+  private generateOfflineConnectionDetails(integration: IntegrationSnapshot, config: ProductVersionConfig): any {
     const connections = integration.connections || [];
     const offlineConnections = connections.filter(conn => 
-      this.businessConfig?.offlineConnectionRules.connectionOfflineValues.includes(conn.offline)
+      config.offlineConnectionRules?.connectionOfflineValues.includes(conn.offline)
     );
     
     const offlineConnectionIds = offlineConnections.map(conn => conn._id);
@@ -732,6 +1136,77 @@ export class DataDrivenCorruptionDetector {
     };
   }
 
+  /**
+   * Generate dangling reference details with every affected resource
+   */
+  private generateReferenceDetails(type: string, integration: IntegrationSnapshot, config: ProductVersionConfig): any {
+    const analysis = analyzeReferences(integration, config.referenceIntegrityRules || {});
+
+    switch (type) {
+      case 'orphaned-connections':
+        return {
+          orphanedConnections: analysis.orphanedConnections,
+          settingsConnectionIds: analysis.settingsConnectionIds,
+          totalAffectedResources: analysis.orphanedConnections.length,
+          businessImpact: 'Unused connections keep credentials alive and clutter the account'
+        };
+
+      case 'dangling-connection-references':
+        return {
+          danglingReferences: analysis.danglingReferences,
+          missingConnectionIds: [...new Set(analysis.danglingReferences.map(ref => ref.connectionId))],
+          knownConnectionIds: analysis.knownConnectionIds,
+          suggestedConnectionId: analysis.suggestedConnectionId,
+          affectedImports: analysis.danglingReferences.filter(ref => ref.resourceType === 'import').length,
+          affectedExports: analysis.danglingReferences.filter(ref => ref.resourceType === 'export').length,
+          totalAffectedResources: analysis.danglingReferences.length,
+          businessImpact: 'Imports/exports cannot run without their connection'
+        };
+
+      default:
+        return {
+          unresolvedFlows: analysis.unresolvedFlows,
+          totalAffectedResources: analysis.unresolvedFlows.length,
+          businessImpact: 'Flows with no resolvable import or export move no data'
+        };
+    }
+  }
+
+  /**
+   * Generate store-level details: the gaps of each store, or the storeCount vs storemap comparison
+   */
+  private generateStoreDetails(type: string, integration: IntegrationSnapshot, config: ProductVersionConfig): any {
+    const analysis = analyzeStores(integration, config.storeValidationRules || {});
+
+    if (type === 'storemap-mismatch') {
+      return {
+        storeCount: analysis.storeCount,
+        storemapLength: analysis.storemapLength,
+        difference: (analysis.storemapLength ?? 0) - analysis.storeCount,
+        stores: analysis.stores.map(store => ({ storeNumber: store.storeNumber, storeId: store.storeId, name: store.name })),
+        businessImpact: 'Per-store requirements are multiplied by a store count that does not match the configured stores'
+      };
+    }
+
+    return {
+      edition: integration.licenseEdition,
+      storeGaps: analysis.gaps,
+      gapsByStore: analysis.gaps.reduce((acc: Record<string, string[]>, gap) => {
+        (acc[gap.storeId] = acc[gap.storeId] || []).push(gap.message);
+        return acc;
+      }, {}),
+      stores: analysis.stores,
+      resourcesByStore: analysis.resourcesByStore,
+      unassignedResources: {
+        imports: analysis.unassigned.imports.length,
+        exports: analysis.unassigned.exports.length,
+        flows: analysis.unassigned.flows.length
+      },
+      totalAffectedResources: analysis.gaps.length,
+      businessImpact: 'Stores missing their own adaptors do not sync the affected records'
+    };
+  }
+
   /**
    * Generate business analysis
    */
@@ -757,11 +1232,14 @@ export class DataDrivenCorruptionDetector {
         }, {}),
         functionBreakdown: events.reduce((acc: any, event) => {
           const type = event.params.corruptionType;
-          if (type.includes('count')) acc.resourceCount = (acc.resourceCount || 0) + 1;
+          if (type.includes('store')) acc.stores = (acc.stores || 0) + 1;
+          else if (type.includes('count')) acc.resourceCount = (acc.resourceCount || 0) + 1;
           else if (type.includes('license')) acc.license = (acc.license || 0) + 1;
           else if (type.includes('properties')) acc.properties = (acc.properties || 0) + 1;
+          else if (type.includes('schema')) acc.settingsSchema = (acc.settingsSchema || 0) + 1;
           else if (type.includes('offline')) acc.offline = (acc.offline || 0) + 1;
           else if (type.includes('update')) acc.update = (acc.update || 0) + 1;
+          else if (type.includes('connection') || type.includes('reference')) acc.references = (acc.references || 0) + 1;
           return acc;
         }, {})
       },
@@ -777,15 +1255,16 @@ export class DataDrivenCorruptionDetector {
    */
   private assessBusinessImpact(events: CorruptionEvent[]): any {
     const impact = {
-      dataFlow: events.filter(e => e.params.corruptionType.includes('count')).length,
-      configuration: events.filter(e => e.params.corruptionType.includes('properties') || e.params.corruptionType.includes('license')).length,
+      dataFlow: events.filter(e => e.params.corruptionType.includes('count') || e.params.corruptionType.includes('store')).length,
+      configuration: events.filter(e => e.params.corruptionType.includes('properties') || e.params.corruptionType.includes('license') || e.params.corruptionType.includes('schema')).length,
+      references: events.filter(e => e.params.corruptionType.includes('reference') || e.params.corruptionType.includes('orphaned')).length,
       operations: events.filter(e => e.params.corruptionType.includes('offline') || e.params.corruptionType.includes('update')).length,
       overall: 'low'
     };
     
     if (impact.operations > 0) impact.overall = 'critical';
     else if (impact.dataFlow > 10) impact.overall = 'high';
-    else if (impact.configuration > 5) impact.overall = 'medium';
+    else if (impact.configuration > 5 || impact.references > 0) impact.overall = 'medium';
     
     return impact;
   }
@@ -797,8 +1276,10 @@ export class DataDrivenCorruptionDetector {
     const recommendations: string[] = [];
     
     const hasResourceIssues = events.some(e => e.params.corruptionType.includes('count'));
-    const hasConfigIssues = events.some(e => e.params.corruptionType.includes('properties'));
+    const hasConfigIssues = events.some(e => e.params.corruptionType.includes('properties') || e.params.corruptionType.includes('schema'));
     const hasOperationalIssues = events.some(e => e.params.corruptionType.includes('offline') || e.params.corruptionType.includes('update'));
+    const hasReferenceIssues = events.some(e => e.params.corruptionType.includes('reference') || e.params.corruptionType.includes('orphaned'));
+    const hasStoreIssues = events.some(e => e.params.corruptionType.includes('store'));
     
     if (hasOperationalIssues) {
       recommendations.push('IMMEDIATE: Address operational issues (offline connections, stuck updates)');
@@ -811,6 +1292,14 @@ export class DataDrivenCorruptionDetector {
     if (hasConfigIssues) {
       recommendations.push('ONGOING: Fix configuration properties and license mismatches');
     }
+
+    if (hasReferenceIssues) {
+      recommendations.push('PLANNED: Relink dangling resource references and review orphaned connections');
+    }
+
+    if (hasStoreIssues) {
+      recommendations.push('PLANNED: Create the adaptors individual stores are missing and align storeCount with settings.storemap');
+    }
     
     return recommendations;
   }
@@ -843,6 +1332,41 @@ export class DataDrivenCorruptionDetector {
           modifiable: 'Business users can modify edition requirements'
         };
       
+      case 'settings-schema-violation':
+        return {
+          source: 'config/schemas/settings/<product>/<version>-settings-schema.json',
+          section: 'settingsValidation',
+          logic: 'settings must validate against the JSON Schema referenced by settingsValidation.schemaPath; schema defaults fill missing or invalid values',
+          modifiable: 'Business users can edit the settings schema, its defaults and severityByViolationType'
+        };
+
+      case 'unsupported-version':
+        return {
+          source: 'config/products/<product>/<version>-business-rules.json',
+          section: 'appliesToVersions',
+          logic: 'integration.version satisfies the semver range of exactly the configurations that apply; the highest applies',
+          modifiable: 'Business users can widen a range or add a configuration for the version'
+        };
+
+      case 'store-resource-gaps':
+      case 'storemap-mismatch':
+        return {
+          source: 'config/business-rules.json',
+          section: 'storeValidationRules',
+          logic: 'imports/exports → storemap entry by connectionId, every store needs each store-scoped adaptor; storeCount = storemap.length',
+          modifiable: 'Business users can toggle checks and list the storemap connection fields'
+        };
+
+      case 'orphaned-connections':
+      case 'dangling-connection-references':
+      case 'unresolved-flow-references':
+        return {
+          source: 'config/business-rules.json',
+          section: 'referenceIntegrityRules',
+          logic: 'imports/exports → connections._id, flows → imports/exports._id',
+          modifiable: 'Business users can toggle checks and list settings connection fields'
+        };
+
       default:
         return {
           source: 'config/business-rules.json',
@@ -4,8 +4,29 @@
  */
 
 import * as fs from 'fs/promises';
+import * as path from 'path';
 import { CorruptionEvent } from './data-driven-corruption-detector';
 import { ExecutionAction } from '../planner/execution-planner';
+import { pointerToSettingsPath } from './settings-schema';
+import {
+  DuplicateSelection,
+  DuplicateSelectionStrategy,
+  resolveDuplicateStrategies,
+  selectDuplicates,
+  selectDuplicatesByName
+} from './duplicate-selection';
+import {
+  ActionDependencyGraph,
+  applyDependencies,
+  buildDependencyGraph,
+  limitActionsByDependencyClosure,
+  sortActionsByDependencies,
+  TruncatedAction,
+  validateDependencyRules
+} from './action-dependencies';
+import { ConflictReport, resolveActionConflicts, validateConflictRules } from './action-conflicts';
+import { buildJsonPatch } from './json-patch';
+import { renderResourceTemplate, ResourceTemplateLibrary, ResourceTemplateSet } from '../config/resource-templates';
 
 export interface RemediationConfig {
   actionTemplates: Record<string, any>;
@@ -22,11 +43,24 @@ export interface RemediationContext {
   operatorId?: string;
   dryRun: boolean;
   maxOpsPerIntegration: number;
+  integration?: any; // Snapshot the events were detected on; duplicate copies are chosen from its resources
+  product?: string; // Configuration applied to the integration; selects config/templates/<product>/<version>/
+  version?: string;
+}
+
+/** Violation the engine has no safe fix for; reported in the plan instead of an action */
+export interface ManualReviewItem {
+  integrationId: string;
+  corruptionType: string;
+  path: string;
+  violationType?: string;
+  reason: string;
 }
 
 export class DataDrivenRemediationEngine {
   private remediationConfig: RemediationConfig | null = null;
   private businessConfig: any = null;
+  private templateLibrary: ResourceTemplateLibrary | null = null;
   private actionIdCounter = 0;
 
   constructor() {}
@@ -36,15 +70,23 @@ export class DataDrivenRemediationEngine {
    */
   async initialize(
     remediationConfigPath: string = './config/remediation-logic.json',
-    businessConfigPath: string = './config/business-rules.json'
+    businessConfigPath: string = './config/business-rules.json',
+    templatesDir: string = path.join(path.dirname(remediationConfigPath), 'templates')
   ): Promise<void> {
     // Load remediation configuration
     const remediationContent = await fs.readFile(remediationConfigPath, 'utf-8');
     this.remediationConfig = JSON.parse(remediationContent);
+    this.validateExecutionStrategy();
     
     // Load business configuration
     const businessContent = await fs.readFile(businessConfigPath, 'utf-8');
     this.businessConfig = JSON.parse(businessContent);
+
+    // Resource templates load per product version on first use
+    this.templateLibrary = new ResourceTemplateLibrary(
+      templatesDir,
+      path.join(path.dirname(remediationConfigPath), 'schemas', 'resource-template-schema.json')
+    );
     
     console.log(`✅ Loaded data-driven remediation configuration`);
   }
@@ -67,16 +109,35 @@ export class DataDrivenRemediationEngine {
 
     const actions: ExecutionAction[] = [];
     const actionAnalysis: any[] = [];
+    const manualReview: ManualReviewItem[] = [];
+    const templates = context.product && context.version
+      ? await this.templateLibrary?.loadTemplateSet(context.product, context.version)
+      : undefined;
 
     // Process each corruption event using configuration
     for (const corruptionEvent of corruptionEvents) {
-      const eventActions = this.generateActionsForEvent(corruptionEvent, context);
+      const eventActions = this.generateActionsForEvent(corruptionEvent, context, templates);
       actions.push(...eventActions.actions);
       actionAnalysis.push(eventActions.analysis);
+      manualReview.push(...eventActions.manualReview);
+    }
+
+    // Merge compatible patches to the same target and settle contradictory actions by precedence,
+    // over the full action set so the action limits cannot hide a conflict
+    const conflictAnalysis = resolveActionConflicts(actions, this.remediationConfig.executionStrategy?.conflictResolution);
+    for (const conflict of conflictAnalysis.report.blocking) {
+      console.warn(`⚠️  ${context.integrationId}: conflicting actions ${conflict.actionIds.join(', ')} on ${conflict.target}: ${conflict.message}; review manually`);
     }
 
-    // Apply business rules for optimization and prioritization
-    const optimizedActions = this.optimizeActions(actions, context);
+    // Dependency rules that put actions in a cycle reject the plan
+    const dependencies = this.remediationConfig.executionStrategy?.dependencies;
+    const prioritizedActions = this.prioritizeActions(conflictAnalysis.actions);
+    const limited = this.applyActionLimits(prioritizedActions, buildDependencyGraph(prioritizedActions, dependencies), context);
+
+    // Prerequisites run first
+    const dependencyGraph = buildDependencyGraph(limited.actions, dependencies);
+    applyDependencies(limited.actions, dependencyGraph);
+    const optimizedActions = sortActionsByDependencies(limited.actions, dependencyGraph);
 
     return {
       integrationId: context.integrationId,
@@ -86,7 +147,7 @@ export class DataDrivenRemediationEngine {
         corruptionAnalysis: actionAnalysis,
         remediationStrategy: this.generateRemediationStrategy(corruptionEvents, context),
         businessImpact: this.assessActionImpact(optimizedActions),
-        executionPlan: this.generateExecutionPlan(optimizedActions, context)
+        executionPlan: this.generateExecutionPlan(optimizedActions, context, dependencyGraph, conflictAnalysis.report, limited.truncated, manualReview)
       }
     };
   }
@@ -96,25 +157,28 @@ export class DataDrivenRemediationEngine {
    */
   private generateActionsForEvent(
     event: CorruptionEvent,
-    context: RemediationContext
-  ): { actions: ExecutionAction[]; analysis: any } {
+    context: RemediationContext,
+    templates?: ResourceTemplateSet
+  ): { actions: ExecutionAction[]; analysis: any; manualReview: ManualReviewItem[] } {
     const corruptionType = event.params.corruptionType;
     const template = this.getActionTemplate(corruptionType);
     
     if (!template) {
       return {
         actions: [],
-        analysis: { error: `No template found for ${corruptionType}` }
+        analysis: { error: `No template found for ${corruptionType}` },
+        manualReview: []
       };
     }
 
     const actions: ExecutionAction[] = [];
+    const manualReview: ManualReviewItem[] = [];
     
     switch (corruptionType) {
       case 'incorrect-import-count':
       case 'incorrect-export-count':
       case 'incorrect-flow-count':
-        actions.push(...this.generateResourceCountActions(event, template, context));
+        actions.push(...this.generateResourceCountActions(event, template, context, templates));
         break;
         
       case 'license-edition-mismatch':
@@ -130,10 +194,39 @@ export class DataDrivenRemediationEngine {
         break;
         
       case 'stuck-in-update-process':
-        actions.push(this.generateUpdateFlagAction(event, template, context));
+        actions.push(...this.generateUpdateFlagAction(event, template, context));
+        break;
+
+      case 'orphaned-connections':
+        actions.push(...this.generateOrphanedConnectionActions(event, template, context));
+        break;
+
+      case 'dangling-connection-references':
+        actions.push(...this.generateRelinkActions(event, template, context));
+        break;
+
+      case 'unresolved-flow-references':
+        actions.push(...this.generateFlowDisableActions(event, template, context));
+        break;
+
+      case 'store-resource-gaps':
+        actions.push(...this.generateStoreResourceActions(event, template, context, templates));
+        break;
+
+      case 'storemap-mismatch':
+        actions.push(...this.generateStoreCountActions(event, template, context));
+        break;
+
+      case 'settings-schema-violation':
+        actions.push(...this.generateSettingsSchemaActions(event, template, context, manualReview));
         break;
     }
 
+    // Precedence and dependency rules select actions by the corruption they fix
+    for (const action of actions) {
+      action.metadata.corruptionType = corruptionType;
+    }
+
     return {
       actions,
       analysis: {
@@ -141,7 +234,8 @@ export class DataDrivenRemediationEngine {
         template: template,
         actionsGenerated: actions.length,
         businessReasoning: this.getBusinessReasoning(corruptionType)
-      }
+      },
+      manualReview
     };
   }
 
@@ -152,11 +246,17 @@ export class DataDrivenRemediationEngine {
   private generateResourceCountActions(
     event: CorruptionEvent,
     template: any,
-    context: RemediationContext
+    context: RemediationContext,
+    templates?: ResourceTemplateSet
   ): ExecutionAction[] {
     const resourceType = event.params.resourceType;
     const details = event.params.details;
     
+    // Name-level diff names the exact adaptors, so target those instead of counting
+    if (details?.missingResources?.length > 0 || details?.duplicateResources?.length > 0) {
+      return this.generateNamedResourceActions(event, template, context, templates);
+    }
+
     if (!details || details.difference === 0) return [];
     
     const actions: ExecutionAction[] = [];
@@ -166,104 +266,246 @@ export class DataDrivenRemediationEngine {
     
     if (isDuplicate) {
       // DUPLICATE RESOURCES: Actual count > expected count
-      // Generate multiple delete actions for excess resources
+      // Delete real copies of duplicated adaptors, chosen by the tooMany strategy, up to the excess
       const excessCount = Math.abs(difference);
-      const deleteRule = template.rules.tooMany;
+      if (!context.integration) {
+        console.warn(`⚠️  ${context.integrationId}: ${excessCount} excess ${resourceType}s but no snapshot to choose copies from; review manually`);
+        return [];
+      }
+
+      const strategies = resolveDuplicateStrategies(template.rules.tooMany.strategy);
+      let remaining = excessCount;
+      for (const selection of selectDuplicatesByName(context.integration, resourceType, strategies)) {
+        const remove = selection.remove.slice(0, remaining);
+        remaining -= remove.length;
+        actions.push(...this.generateDuplicateDeleteActions(event, template, context, selection.externalId, { ...selection, remove }, strategies));
+      }
+      if (remaining > 0) {
+        console.warn(`⚠️  ${context.integrationId}: ${remaining} excess ${resourceType}s are not duplicate copies; review manually`);
+      }
+    } else if (isMissing) {
+      // MISSING RESOURCES: Actual count < expected count  
+      // Generate multiple create actions for missing resources
+      const missingCount = Math.abs(difference);
+      const createRule = template.rules.tooFew;
       
-      for (let i = 0; i < excessCount; i++) {
+      for (let i = 0; i < missingCount; i++) {
         actions.push({
           id: this.generateActionId(),
-          type: 'delete',
+          type: 'create',
           target: {
             integrationId: context.integrationId,
             resourceType: resourceType as any,
-            resourceId: `excess-${resourceType}-${Date.now()}-${i}`
+            resourceId: `missing-${resourceType}-${Date.now()}-${i}`
           },
           payload: {
             before: { count: details.actualCount },
             after: { count: details.expectedTotal },
             diff: {
               resourceIndex: i,
-              removalStrategy: deleteRule.strategy || 'remove-oldest',
-              issueType: 'DUPLICATE_RESOURCES'
+              ...this.getCreationPayload(resourceType, details.edition, undefined, context),
+              issueType: 'MISSING_RESOURCES'
             }
           },
           metadata: {
-            reason: `[DUPLICATE] ${deleteRule.reason || 'Remove excess {resourceType}'}`
+            reason: `[MISSING] ${createRule.reason || 'Add missing {resourceType}'}`
               .replace('{resourceType}', resourceType)
               .replace('{edition}', details.edition)
-              .replace('{excessCount}', excessCount.toString()),
+              .replace('{missingCount}', missingCount.toString()),
             priority: event.params.priority,
             dependencies: [],
             retryable: true,
             rollbackable: true,
             detectionFunction: 'identifyDuplicateResources()',
-            issueType: 'DUPLICATE_RESOURCES'
-          } as any
+            issueType: 'MISSING_RESOURCES'
+          }
         });
       }
-    } else if (isMissing) {
-      // MISSING RESOURCES: Actual count < expected count  
-      // Generate multiple create actions for missing resources
-      const missingCount = Math.abs(difference);
-      const createRule = template.rules.tooFew;
-      
-      for (let i = 0; i < missingCount; i++) {
+    }
+    
+    return actions;
+  }
+
+  /**
+   * Generate deletes for the duplicate copies and creates for the missing adaptors found by the
+   * name-level diff; deletes target the real resource IDs, creates the missing externalId
+   */
+  private generateNamedResourceActions(
+    event: CorruptionEvent,
+    template: any,
+    context: RemediationContext,
+    templates?: ResourceTemplateSet
+  ): ExecutionAction[] {
+    const resourceType = event.params.resourceType;
+    const details = event.params.details;
+    const deleteRule = template.rules.tooMany;
+    const createRule = template.rules.tooFew;
+    const actions: ExecutionAction[] = [];
+
+    const strategies = resolveDuplicateStrategies(deleteRule.strategy);
+    for (const duplicate of details.duplicateResources || []) {
+      // Without the snapshot, fall back to the copies the detector listed beyond one per store
+      const selection: DuplicateSelection = context.integration
+        ? selectDuplicates(context.integration, resourceType, duplicate.resourceIds, duplicate.expected, strategies)
+        : {
+            keep: duplicate.resourceIds.filter((id: string) => !duplicate.excessResourceIds.includes(id)),
+            remove: duplicate.excessResourceIds,
+            flowReferenced: []
+          };
+      actions.push(...this.generateDuplicateDeleteActions(event, template, context, duplicate.externalId, selection, strategies));
+    }
+
+    const storemap: any[] = context.integration?.settings?.storemap || [];
+    for (const missing of details.missingResources || []) {
+      for (let i = 0; i < missing.missingCount; i++) {
+        // A copy maps to a store only when there is one store or every store lacks the adaptor
+        const store = storemap.length === 1 ? storemap[0] : missing.actual === 0 ? storemap[i] : undefined;
         actions.push({
           id: this.generateActionId(),
           type: 'create',
           target: {
             integrationId: context.integrationId,
             resourceType: resourceType as any,
-            resourceId: `missing-${resourceType}-${Date.now()}-${i}`
+            resourceId: missing.externalId
           },
           payload: {
-            before: { count: details.actualCount },
-            after: { count: details.expectedTotal },
+            before: { externalId: missing.externalId, count: missing.actual },
+            after: { count: missing.expected },
             diff: {
+              externalId: missing.externalId,
               resourceIndex: i,
-              creationTemplate: this.getResourceCreationTemplate(resourceType, details.edition),
+              ...this.getCreationPayload(resourceType, details.edition, missing.externalId, context, templates, store),
               issueType: 'MISSING_RESOURCES'
             }
           },
           metadata: {
-            reason: `[MISSING] ${createRule.reason || 'Add missing {resourceType}'}`
+            reason: `[MISSING] ${createRule.reason || 'Add missing {resourceType}'} (${missing.externalId})`
               .replace('{resourceType}', resourceType)
               .replace('{edition}', details.edition)
-              .replace('{missingCount}', missingCount.toString()),
+              .replace('{missingCount}', missing.missingCount.toString()),
             priority: event.params.priority,
             dependencies: [],
             retryable: true,
             rollbackable: true,
             detectionFunction: 'identifyDuplicateResources()',
             issueType: 'MISSING_RESOURCES'
-          } as any
+          }
         });
       }
     }
-    
+
     return actions;
   }
 
+  /**
+   * Deletes for the copies a duplicate selection removes; copies a flow still references are left for manual review
+   */
+  private generateDuplicateDeleteActions(
+    event: CorruptionEvent,
+    template: any,
+    context: RemediationContext,
+    externalId: string,
+    selection: DuplicateSelection,
+    strategies: DuplicateSelectionStrategy[]
+  ): ExecutionAction[] {
+    const resourceType = event.params.resourceType;
+    const deleteRule = template.rules.tooMany;
+    const actualCount = selection.keep.length + selection.remove.length + selection.flowReferenced.length;
+
+    for (const referenced of selection.flowReferenced) {
+      console.warn(`⚠️  ${context.integrationId}: not deleting duplicate ${resourceType} ${referenced.resourceId} (${externalId}), flow ${referenced.flowIds.join(', ')} still references it; review manually`);
+    }
+
+    return selection.remove.map((resourceId, i) => ({
+      id: this.generateActionId(),
+      type: 'delete',
+      target: {
+        integrationId: context.integrationId,
+        resourceType: resourceType as any,
+        resourceId
+      },
+      payload: {
+        before: { _id: resourceId, externalId, count: actualCount },
+        after: { count: selection.keep.length },
+        diff: {
+          externalId,
+          resourceIndex: i,
+          keptResourceIds: selection.keep,
+          removalStrategy: strategies.join(', '),
+          issueType: 'DUPLICATE_RESOURCES'
+        }
+      },
+      metadata: {
+        reason: `[DUPLICATE] ${deleteRule.reason || 'Remove excess {resourceType}'} (${externalId})`
+          .replace('{resourceType}', resourceType)
+          .replace('{edition}', event.params.details?.edition)
+          .replace('{excessCount}', (selection.remove.length + selection.flowReferenced.length).toString()),
+        priority: event.params.priority,
+        dependencies: [],
+        retryable: true,
+        rollbackable: true,
+        detectionFunction: 'identifyDuplicateResources()',
+        issueType: 'DUPLICATE_RESOURCES'
+      }
+    }));
+  }
+
+  /**
+   * Creation fields of a create action: the library template rendered for the integration and store when the
+   * product version has one for the resource, otherwise the generic stub, which is never ready to apply
+   */
+  private getCreationPayload(
+    resourceType: string,
+    edition: string,
+    externalId: string | undefined,
+    context: RemediationContext,
+    templates?: ResourceTemplateSet,
+    store?: any
+  ): Record<string, any> {
+    const rendered = templates && externalId
+      ? renderResourceTemplate(templates, resourceType, externalId, {
+          integration: context.integration || { id: context.integrationId },
+          store,
+          edition
+        })
+      : undefined;
+
+    if (!rendered?.payload) {
+      return { creationTemplate: this.getResourceCreationTemplate(resourceType, edition, externalId), readyToApply: false };
+    }
+
+    if (rendered.errors.length > 0) {
+      console.warn(`⚠️  ${context.integrationId}: ${resourceType} ${externalId} template is not ready to apply (${rendered.errors.join('; ')}); review manually`);
+    }
+
+    return {
+      creationTemplate: rendered.payload,
+      readyToApply: rendered.errors.length === 0,
+      templateSource: rendered.templateSource,
+      ...(rendered.errors.length > 0 && { templateErrors: rendered.errors })
+    };
+  }
+
   /**
    * Get resource creation template based on edition requirements
    */
-  private getResourceCreationTemplate(resourceType: string, edition: string): any {
+  private getResourceCreationTemplate(resourceType: string, edition: string, externalId?: string): any {
+    const generatedId = externalId || `generated_${resourceType}_${edition}_${Date.now()}`;
     const templates: Record<string, any> = {
       'import': {
-        externalId: `generated_${resourceType}_${edition}_${Date.now()}`,
+        externalId: generatedId,
         name: `Generated ${resourceType} for ${edition} edition`,
         type: 'import',
         enabled: true
       },
       'export': {
-        externalId: `generated_${resourceType}_${edition}_${Date.now()}`,
+        externalId: generatedId,
         name: `Generated ${resourceType} for ${edition} edition`, 
         type: 'export',
         enabled: true
       },
       'flow': {
-        name: `generated_${resourceType}_${edition}_${Date.now()}`,
+        name: generatedId,
         type: 'flow',
         enabled: true
       }
@@ -291,11 +533,7 @@ export class DataDrivenRemediationEngine {
       payload: {
         before: event.params.details?.connectorEdition,
         after: event.params.details?.licenseEdition,
-        diff: {
-          op: 'replace',
-          path: template.targetPath,
-          value: event.params.details?.licenseEdition
-        }
+        patch: buildJsonPatch(template.targetPath, event.params.details?.connectorEdition, event.params.details?.licenseEdition)
       },
       metadata: {
         reason: template.reason
@@ -305,7 +543,7 @@ export class DataDrivenRemediationEngine {
         dependencies: [],
         retryable: true,
         rollbackable: true
-      } as any
+      }
     };
   }
 
@@ -318,10 +556,13 @@ export class DataDrivenRemediationEngine {
     context: RemediationContext
   ): ExecutionAction[] {
     const missingProps = event.params.details?.missingProperties || [];
+    const observedValues: Record<string, any> = event.params.details?.observedValues || {};
     const actions: ExecutionAction[] = [];
     
     for (const prop of missingProps) {
-      const defaultValue = template.defaultValues[prop] || null;
+      const defaultValue = template.defaultValues[prop] ?? null;
+      // A present but empty property is replaced under a test guard of its value; an absent one is added
+      const before = prop in observedValues ? observedValues[prop] : undefined;
       
       actions.push({
         id: this.generateActionId(),
@@ -332,13 +573,9 @@ export class DataDrivenRemediationEngine {
           path: prop
         },
         payload: {
-          before: undefined,
+          before,
           after: defaultValue,
-          diff: {
-            op: 'add',
-            path: prop,
-            value: defaultValue
-          }
+          patch: buildJsonPatch(prop, before, defaultValue)
         },
         metadata: {
           reason: template.reason.replace('{propertyPath}', prop),
@@ -346,7 +583,7 @@ export class DataDrivenRemediationEngine {
           dependencies: [],
           retryable: true,
           rollbackable: true
-        } as any
+        }
       });
     }
     
@@ -385,7 +622,7 @@ export class DataDrivenRemediationEngine {
           dependencies: [],
           retryable: true,
           rollbackable: false
-        } as any
+        }
       });
     }
     
@@ -393,14 +630,303 @@ export class DataDrivenRemediationEngine {
   }
 
   /**
-   * Generate update flag clearing action
+   * Generate deletions for connections nothing uses
+   */
+  private generateOrphanedConnectionActions(
+    event: CorruptionEvent,
+    template: any,
+    context: RemediationContext
+  ): ExecutionAction[] {
+    const orphanedConnections = event.params.details?.orphanedConnections || [];
+
+    return orphanedConnections
+      // An online connection may be in use outside this snapshot; only offline ones are removed by default
+      .filter((connection: any) => !template.skipOnline || connection.offline)
+      .map((connection: any): ExecutionAction => ({
+        id: this.generateActionId(),
+        type: 'delete',
+        target: {
+          integrationId: context.integrationId,
+          resourceType: 'connection',
+          resourceId: connection.connectionId
+        },
+        payload: {
+          before: connection
+        },
+        metadata: {
+          reason: template.reason
+            .replace('{connectionId}', connection.connectionId)
+            .replace('{connectionName}', connection.name),
+          priority: event.params.priority,
+          dependencies: [],
+          retryable: false,
+          rollbackable: true
+        }
+      }));
+  }
+
+  /**
+   * Generate patches relinking resources from a missing connection to the suggested one
+   */
+  private generateRelinkActions(
+    event: CorruptionEvent,
+    template: any,
+    context: RemediationContext
+  ): ExecutionAction[] {
+    const danglingReferences = event.params.details?.danglingReferences || [];
+    const suggestedConnectionId = event.params.details?.suggestedConnectionId;
+
+    if (!suggestedConnectionId) {
+      danglingReferences.forEach((reference: any) => console.warn(`⚠️  ${template.manualReason
+        .replace('{resourceType}', reference.resourceType)
+        .replace('{resourceId}', reference.resourceId)
+        .replace('{oldValue}', reference.connectionId)}`));
+      return [];
+    }
+
+    return danglingReferences.map((reference: any): ExecutionAction => ({
+      id: this.generateActionId(),
+      type: 'patch',
+      target: {
+        integrationId: context.integrationId,
+        resourceType: reference.resourceType,
+        resourceId: reference.resourceId,
+        path: template.targetPath
+      },
+      payload: {
+        before: reference.connectionId,
+        after: suggestedConnectionId,
+        patch: buildJsonPatch(template.targetPath, reference.connectionId, suggestedConnectionId)
+      },
+      metadata: {
+        reason: template.reason
+          .replace('{resourceType}', reference.resourceType)
+          .replace('{resourceId}', reference.resourceId)
+          .replace('{oldValue}', reference.connectionId)
+          .replace('{newValue}', suggestedConnectionId),
+        priority: event.params.priority,
+        dependencies: [],
+        retryable: true,
+        rollbackable: true
+      }
+    }));
+  }
+
+  /**
+   * Generate patches disabling flows whose references resolve to nothing
+   */
+  private generateFlowDisableActions(
+    event: CorruptionEvent,
+    template: any,
+    context: RemediationContext
+  ): ExecutionAction[] {
+    const unresolvedFlows = event.params.details?.unresolvedFlows || [];
+    if (unresolvedFlows.length > 0 && !context.integration) {
+      console.warn(`⚠️  ${context.integrationId}: ${unresolvedFlows.length} flows with unresolved references but no snapshot to read ${template.targetPath} from; review manually`);
+      return [];
+    }
+
+    return unresolvedFlows.map((flow: any): ExecutionAction => {
+      const flowSnapshot = (context.integration.flows || []).find((candidate: any) => candidate._id === flow.flowId);
+      const observed = this.getObservedValue(flowSnapshot, template.targetPath);
+      return {
+        id: this.generateActionId(),
+        type: 'patch',
+        target: {
+          integrationId: context.integrationId,
+          resourceType: 'flow',
+          resourceId: flow.flowId,
+          path: template.targetPath
+        },
+        payload: {
+          before: observed,
+          after: template.value,
+          patch: buildJsonPatch(template.targetPath, observed, template.value)
+        },
+        metadata: {
+          reason: template.reason
+            .replace('{flowId}', flow.flowId)
+            .replace('{referenceCount}', String(flow.unresolvedIds.length)),
+          priority: event.params.priority,
+          dependencies: [],
+          retryable: true,
+          rollbackable: true
+        }
+      };
+    });
+  }
+
+  /**
+   * Generate creates for the adaptors each store is missing, tagged with the store they belong to
+   */
+  private generateStoreResourceActions(
+    event: CorruptionEvent,
+    template: any,
+    context: RemediationContext,
+    templates?: ResourceTemplateSet
+  ): ExecutionAction[] {
+    const details = event.params.details;
+    const storemap: any[] = context.integration?.settings?.storemap || [];
+
+    return (details?.storeGaps || []).map((gap: any): ExecutionAction => {
+      const resourceType = gap.resourceType.slice(0, -1);
+      return {
+        id: this.generateActionId(),
+        type: 'create',
+        target: {
+          integrationId: context.integrationId,
+          resourceType,
+          resourceId: gap.externalId
+        },
+        payload: {
+          before: null,
+          after: { storeId: gap.storeId },
+          diff: {
+            externalId: gap.externalId,
+            storeId: gap.storeId,
+            storeNumber: gap.storeNumber,
+            ...this.getCreationPayload(resourceType, details.edition, gap.externalId, context, templates, storemap[gap.storeNumber - 1]),
+            issueType: 'STORE_RESOURCE_GAP'
+          }
+        },
+        metadata: {
+          reason: template.reason
+            .replace('{externalId}', gap.externalId)
+            .replace('{resourceType}', resourceType)
+            .replace('{storeNumber}', String(gap.storeNumber))
+            .replace('{storeName}', gap.storeName),
+          priority: event.params.priority,
+          dependencies: [],
+          retryable: true,
+          rollbackable: true,
+          issueType: 'STORE_RESOURCE_GAP'
+        }
+      };
+    });
+  }
+
+  /**
+   * Generate the storeCount patch; without storemap entries there is nothing to align to
+   */
+  private generateStoreCountActions(
+    event: CorruptionEvent,
+    template: any,
+    context: RemediationContext
+  ): ExecutionAction[] {
+    const details = event.params.details;
+    if (!details?.storemapLength) {
+      console.warn(`⚠️  ${context.integrationId}: storeCount ${details?.storeCount} cannot be aligned with an empty storemap; review manually`);
+      return [];
+    }
+    if (!context.integration) {
+      console.warn(`⚠️  ${context.integrationId}: storeCount ${details.storeCount} differs from the storemap but no snapshot to read ${template.targetPath} from; review manually`);
+      return [];
+    }
+    const observed = this.getObservedValue(context.integration, template.targetPath);
+
+    return [{
+      id: this.generateActionId(),
+      type: 'patch',
+      target: {
+        integrationId: context.integrationId,
+        resourceType: 'setting',
+        path: template.targetPath
+      },
+      payload: {
+        before: observed,
+        after: details.storemapLength,
+        patch: buildJsonPatch(template.targetPath, observed, details.storemapLength)
+      },
+      metadata: {
+        reason: template.reason
+          .replace('{oldValue}', String(observed))
+          .replace('{newValue}', String(details.storemapLength)),
+        priority: event.params.priority,
+        dependencies: [],
+        retryable: true,
+        rollbackable: true
+      }
+    }];
+  }
+
+  /**
+   * Generate a settings patch from the schema default at the violation's JSON pointer;
+   * violations with no safe value are added to the manual review list instead
+   */
+  private generateSettingsSchemaActions(
+    event: CorruptionEvent,
+    template: any,
+    context: RemediationContext,
+    manualReview: ManualReviewItem[]
+  ): ExecutionAction[] {
+    const violation = event.params.details;
+    let op: 'add' | 'replace' | 'remove';
+    if (violation?.violationType === 'missing' && violation.hasDefault) {
+      op = 'add';
+    } else if ((violation?.violationType === 'wrong-type' || violation?.violationType === 'invalid-value') && violation.hasDefault) {
+      op = 'replace';
+    } else if (violation?.violationType === 'unexpected-key' && template.removeUnexpectedKeys) {
+      op = 'remove';
+    } else {
+      const reason = violation?.violationType === 'unexpected-key'
+        ? 'unexpected key and removeUnexpectedKeys is off'
+        : 'no schema default';
+      console.warn(`⚠️  ${context.integrationId}: settings schema violation at ${violation?.path} left for manual review: ${reason}`);
+      manualReview.push({
+        integrationId: context.integrationId,
+        corruptionType: event.params.corruptionType,
+        path: violation?.path,
+        violationType: violation?.violationType,
+        reason
+      });
+      return [];
+    }
+
+    const targetPath = pointerToSettingsPath(violation.path);
+    const after = op === 'remove' ? undefined : violation.default;
+
+    return [{
+      id: this.generateActionId(),
+      type: 'patch',
+      target: {
+        integrationId: context.integrationId,
+        resourceType: 'setting',
+        path: targetPath
+      },
+      payload: {
+        before: violation.actual,
+        after,
+        patch: buildJsonPatch(targetPath, violation.actual, after)
+      },
+      metadata: {
+        reason: template.reason
+          .replace('{path}', targetPath)
+          .replace('{violationType}', violation.violationType)
+          .replace('{oldValue}', JSON.stringify(violation.actual) ?? 'undefined')
+          .replace('{newValue}', JSON.stringify(after) ?? 'undefined'),
+        priority: event.params.priority,
+        dependencies: [],
+        retryable: true,
+        rollbackable: true
+      }
+    }];
+  }
+
+  /**
+   * Generate update flag clearing action, guarded on the flag value the snapshot holds
    */
   private generateUpdateFlagAction(
     event: CorruptionEvent,
     template: any,
     context: RemediationContext
-  ): ExecutionAction {
-    return {
+  ): ExecutionAction[] {
+    if (!context.integration) {
+      console.warn(`⚠️  ${context.integrationId}: stuck update flag but no snapshot to read ${template.targetPath} from; review manually`);
+      return [];
+    }
+    const observed = this.getObservedValue(context.integration, template.targetPath);
+
+    return [{
       id: this.generateActionId(),
       type: 'clearUpdateFlag',
       target: {
@@ -409,8 +935,9 @@ export class DataDrivenRemediationEngine {
         path: template.targetPath
       },
       payload: {
-        before: true,
-        after: template.value
+        before: observed,
+        after: template.value,
+        patch: buildJsonPatch(template.targetPath, observed, template.value)
       },
       metadata: {
         reason: template.reason,
@@ -418,8 +945,19 @@ export class DataDrivenRemediationEngine {
         dependencies: [],
         retryable: true,
         rollbackable: true
-      } as any
-    };
+      }
+    }];
+  }
+
+  /**
+   * Value at a target path of a snapshot resource, as a patch guard tests it; undefined when absent
+   */
+  private getObservedValue(resource: any, targetPath: string): any {
+    return targetPath
+      .replace(/\[(\w+)\]/g, '.$1')
+      .split('.')
+      .filter(Boolean)
+      .reduce((current, key) => current?.[key], resource);
   }
 
   /**
@@ -428,7 +966,9 @@ export class DataDrivenRemediationEngine {
   private getActionTemplate(corruptionType: string): any {
     const templates = this.remediationConfig?.actionTemplates;
     
-    if (corruptionType.includes('count')) {
+    if (corruptionType.includes('store')) {
+      return templates?.[corruptionType.includes('gaps') ? 'storeResourceGaps' : 'storemapMismatch'];
+    } else if (corruptionType.includes('count')) {
       return templates?.['resourceCountAdjustment'];
     } else if (corruptionType.includes('license')) {
       return templates?.['licenseEditionMismatch'];
@@ -438,39 +978,47 @@ export class DataDrivenRemediationEngine {
       return templates?.['offlineConnections'];
     } else if (corruptionType.includes('update')) {
       return templates?.['stuckUpdateProcess'];
+    } else if (corruptionType.includes('orphaned')) {
+      return templates?.['orphanedConnections'];
+    } else if (corruptionType.includes('dangling')) {
+      return templates?.['danglingConnectionReferences'];
+    } else if (corruptionType.includes('flow-references')) {
+      return templates?.['unresolvedFlowReferences'];
+    } else if (corruptionType.includes('schema')) {
+      return templates?.['settingsSchemaViolation'];
     }
     
     return null;
   }
 
   /**
-   * Optimize actions using business rules
+   * Highest priority first when priority execution is enabled
    */
-  private optimizeActions(actions: ExecutionAction[], context: RemediationContext): ExecutionAction[] {
-    const strategy = this.remediationConfig?.executionStrategy;
-    
-    // Apply max actions limit
-    let optimized = actions.slice(0, context.maxOpsPerIntegration);
-    
-    // Apply priority-based sorting if enabled
-    if (strategy?.priorityExecution?.enabled) {
-      optimized = optimized.sort((a, b) => b.metadata.priority - a.metadata.priority);
-    }
-    
-    // Apply safety controls
-    const safetyControls = strategy?.safetyControls;
-    if (safetyControls?.maxDestructiveActions) {
-      const destructiveActions = optimized.filter(a => a.type === 'delete').length;
-      if (destructiveActions > safetyControls.maxDestructiveActions) {
-        console.warn(`⚠️  Too many destructive actions (${destructiveActions}), limiting to ${safetyControls.maxDestructiveActions}`);
-        // Keep only non-destructive actions and limited destructive ones
-        const nonDestructive = optimized.filter(a => a.type !== 'delete');
-        const destructive = optimized.filter(a => a.type === 'delete').slice(0, safetyControls.maxDestructiveActions);
-        optimized = [...nonDestructive, ...destructive];
-      }
+  private prioritizeActions(actions: ExecutionAction[]): ExecutionAction[] {
+    if (!this.remediationConfig?.executionStrategy?.priorityExecution?.enabled) return actions;
+    return [...actions].sort((a, b) => b.metadata.priority - a.metadata.priority);
+  }
+
+  /**
+   * Apply the per-integration action limit and the destructive action cap. Actions are cut with
+   * everything that depends on them, and each cut is recorded for the execution plan.
+   */
+  private applyActionLimits(
+    actions: ExecutionAction[],
+    graph: ActionDependencyGraph,
+    context: RemediationContext
+  ): { actions: ExecutionAction[]; truncated: TruncatedAction[] } {
+    const safetyControls = this.remediationConfig?.executionStrategy?.safetyControls;
+    const limited = limitActionsByDependencyClosure(actions, graph, {
+      maxActions: context.maxOpsPerIntegration,
+      maxDestructiveActions: safetyControls?.maxDestructiveActions || undefined
+    });
+
+    if (limited.truncated.length > 0) {
+      console.warn(`⚠️  ${context.integrationId}: ${limited.truncated.length} actions cut by the limits of ${context.maxOpsPerIntegration} actions and ${safetyControls?.maxDestructiveActions || 'unlimited'} deletes; see executionPlan.truncated`);
     }
-    
-    return optimized;
+
+    return limited;
   }
 
   /**
@@ -580,7 +1128,14 @@ export class DataDrivenRemediationEngine {
   /**
    * Generate execution plan using business rules
    */
-  private generateExecutionPlan(actions: ExecutionAction[], context: RemediationContext): any {
+  private generateExecutionPlan(
+    actions: ExecutionAction[],
+    context: RemediationContext,
+    dependencyGraph: ActionDependencyGraph,
+    conflicts: ConflictReport,
+    truncated: TruncatedAction[],
+    manualReview: ManualReviewItem[]
+  ): any {
     const strategy = this.remediationConfig?.executionStrategy;
     
     return {
@@ -589,22 +1144,47 @@ export class DataDrivenRemediationEngine {
       priorityExecution: strategy?.priorityExecution?.enabled,
       estimatedTime: `${Math.round(actions.length * 2 / 60)} minutes`,
       confirmationRequired: actions.length > (strategy?.safetyControls?.requireConfirmationAbove || 50),
-      rollbackAvailable: actions.every(a => a.metadata.rollbackable)
+      rollbackAvailable: actions.every(a => a.metadata.rollbackable),
+      dependencyGraph,
+      conflicts,
+      blocked: conflicts.blocking.length > 0,
+      truncated, // Actions the action limits cut, with the reason
+      manualReview // Violations left unfixed because no safe value is known
     };
   }
 
+  /**
+   * Reject dependency rules that are malformed or make action kinds wait on each other in a loop,
+   * and malformed conflict precedence rules
+   */
+  private validateExecutionStrategy(): void {
+    const errors = validateDependencyRules(this.remediationConfig?.executionStrategy?.dependencies);
+    if (errors.length > 0) {
+      throw new Error(`Invalid remediation dependency rules: ${errors.join('; ')}`);
+    }
+
+    const conflictErrors = validateConflictRules(this.remediationConfig?.executionStrategy?.conflictResolution);
+    if (conflictErrors.length > 0) {
+      throw new Error(`Invalid remediation conflict rules: ${conflictErrors.join('; ')}`);
+    }
+  }
+
   /**
    * Get business reasoning for corruption type
    */
   private getBusinessReasoning(corruptionType: string): string {
     const businessMapping = this.remediationConfig?.businessImpactMapping;
     
-    if (corruptionType.includes('count')) {
+    if (corruptionType.includes('store')) {
+      return businessMapping?.['storeIssues']?.description || 'Stores miss adaptors or disagree with the store count';
+    } else if (corruptionType.includes('count')) {
       return businessMapping?.['resourceCountIssues']?.description || 'Resource counts affect integration functionality';
-    } else if (corruptionType.includes('license') || corruptionType.includes('properties')) {
+    } else if (corruptionType.includes('license') || corruptionType.includes('properties') || corruptionType.includes('schema')) {
       return businessMapping?.['configurationIssues']?.description || 'Configuration issues affect integration behavior';
     } else if (corruptionType.includes('offline') || corruptionType.includes('update')) {
       return businessMapping?.['operationalIssues']?.description || 'Operational issues block integration operations';
+    } else if (corruptionType.includes('reference') || corruptionType.includes('orphaned')) {
+      return businessMapping?.['referenceIssues']?.description || 'Dangling references break data flow';
     }
     
     return 'Business impact assessment needed';
@@ -638,6 +1218,7 @@ export class DataDrivenRemediationEngine {
     if (remediationConfigPath) {
       const content = await fs.readFile(remediationConfigPath, 'utf-8');
       this.remediationConfig = JSON.parse(content);
+      this.validateExecutionStrategy();
     }
     
     if (businessConfigPath) {
@@ -0,0 +1,247 @@
+/**
+ * Detection Trace
+ * Explains why a rule fired: each condition's operator and the fact values it saw,
+ * the configuration thresholds applied, and the configuration file the rule came from.
+ */
+
+import { RuleResult } from 'json-rules-engine';
+import { resolveEdition } from '../config/edition-inheritance';
+import {
+  countWhere,
+  diffRequiredResources,
+  RESOURCE_COLLECTIONS,
+  RequiredResourceType,
+  selectJsonPath
+} from './generic-operators';
+import { analyzeReferences } from './reference-integrity';
+import { diffResourcesPerStore } from './resource-diff';
+import { analyzeStores } from './store-validation';
+
+export interface ConditionTrace {
+  fact: string;
+  path?: string;
+  operator: string;
+  value?: any; // Operator parameters from the rule
+  observed: any; // The fact values the operator saw
+  result?: boolean; // Undefined when the engine short-circuited the condition
+}
+
+export interface ConfigSource {
+  product: string;
+  version: string;
+  versionRange?: string;
+  configPath: string | null; // Null for the legacy config/business-rules.json fallback
+}
+
+export interface DetectionTrace {
+  ruleId: string;
+  corruptionType: string;
+  conditions: ConditionTrace[];
+  thresholds: Record<string, any>; // Configuration values applied, by operator
+  configSource: ConfigSource;
+}
+
+const COUNT_OPERATORS: Record<string, RequiredResourceType> = {
+  hasIncorrectImportCount: 'imports',
+  hasIncorrectExportCount: 'exports',
+  hasIncorrectFlowCount: 'flows'
+};
+
+const REFERENCE_OPERATORS: Record<string, 'orphanedConnections' | 'danglingReferences' | 'unresolvedFlows'> = {
+  hasOrphanedConnections: 'orphanedConnections',
+  hasDanglingConnectionReferences: 'danglingReferences',
+  hasUnresolvedFlowReferences: 'unresolvedFlows'
+};
+
+/**
+ * Trace of a rule the engine fired, from its evaluated conditions
+ */
+export function explainRuleResult(
+  ruleResult: RuleResult,
+  integration: any,
+  config: any,
+  configSource: ConfigSource
+): DetectionTrace {
+  const leaves = collectConditions(ruleResult.conditions);
+  const thresholds: Record<string, any> = {};
+
+  const conditions = leaves.map(leaf => {
+    const threshold = thresholdsForOperator(leaf.operator, integration, config, leaf.value);
+    if (threshold !== undefined) thresholds[leaf.operator] = threshold;
+
+    return {
+      fact: leaf.fact,
+      ...(leaf.path && { path: leaf.path }),
+      operator: leaf.operator,
+      ...(leaf.value !== undefined && { value: leaf.value }),
+      observed: observeFactValue(leaf.operator, leaf.factResult, leaf.value, config),
+      ...(typeof leaf.result === 'boolean' && { result: leaf.result })
+    };
+  });
+
+  return {
+    ruleId: ruleResult.name,
+    corruptionType: ruleResult.event?.params?.['corruptionType'] || 'unknown',
+    conditions,
+    thresholds,
+    configSource
+  };
+}
+
+/**
+ * Leaf conditions of a (nested all/any/not) evaluated condition, with the fact value the engine resolved
+ */
+export function collectConditions(condition: any): any[] {
+  if (!condition || typeof condition !== 'object') return [];
+  if (Array.isArray(condition.all)) return condition.all.flatMap(collectConditions);
+  if (Array.isArray(condition.any)) return condition.any.flatMap(collectConditions);
+  if (condition.not) return collectConditions(condition.not);
+  return typeof condition.operator === 'string' ? [condition] : [];
+}
+
+/**
+ * The parts of a fact value an operator reads; whole integrations are never copied into a trace
+ */
+export function observeFactValue(operator: string, factValue: any, value: any, config: any): any {
+  const integration = factValue;
+
+  if (COUNT_OPERATORS[operator]) {
+    const resourceType = COUNT_OPERATORS[operator];
+    const diff = diffResourcesPerStore(integration, resourceType, config.editionRequirements || {});
+    return {
+      licenseEdition: integration?.licenseEdition,
+      storeCount: integration?.storeCount,
+      actualCount: (integration?.[resourceType] || []).length,
+      ...(diff && {
+        missingExternalIds: diff.missing.map(item => item.externalId),
+        duplicatedExternalIds: diff.duplicated.map(item => item.externalId)
+      })
+    };
+  }
+
+  if (REFERENCE_OPERATORS[operator]) {
+    return analyzeReferences(integration, config.referenceIntegrityRules || {})[REFERENCE_OPERATORS[operator]];
+  }
+
+  switch (operator) {
+    case 'hasLicenseEditionMismatch':
+      return {
+        licenseEdition: integration?.licenseEdition,
+        connectorEdition: integration?.settings?.connectorEdition,
+        settingsSize: JSON.stringify(integration?.settings || {}).length
+      };
+
+    case 'hasMissingProperties':
+      return {
+        topLevelProperties: Object.keys(integration || {}),
+        settingsProperties: Object.keys(integration?.settings || {}),
+        commonresourcesProperties: Object.keys(integration?.settings?.commonresources || {})
+      };
+
+    case 'hasOfflineConnections': {
+      const offlineIds = (integration?.connections || [])
+        .filter((conn: any) => conn.offline === true || conn.offline === 'true' || conn.offline === '1')
+        .map((conn: any) => conn._id);
+      const onOffline = (resources: any[] = []) =>
+        resources.filter(resource => offlineIds.includes(resource.connectionId)).map(resource => resource._id);
+      return {
+        offlineConnectionIds: offlineIds,
+        importsOnOfflineConnections: onOffline(integration?.imports),
+        exportsOnOfflineConnections: onOffline(integration?.exports)
+      };
+    }
+
+    case 'inUpdateProcess': {
+      const updateField = config.updateProcessRules?.updateInProgressField || 'updateInProgress';
+      const csvField = config.updateProcessRules?.csvFieldName || 'UPDATEINPROGRESS';
+      return { [updateField]: integration?.[updateField], [csvField]: integration?.[csvField] };
+    }
+
+    case 'hasSettingsSchemaViolations':
+      return { settingsProperties: Object.keys(integration?.settings || {}) }; // Violations are the events themselves
+
+    case 'hasStoreResourceGaps':
+      return analyzeStores(integration, config.storeValidationRules || {}).gaps.map(gap => gap.message);
+
+    case 'hasStoreCountMismatch': {
+      const analysis = analyzeStores(integration, config.storeValidationRules || {});
+      return { storeCount: analysis.storeCount, storemapLength: analysis.storemapLength };
+    }
+
+    case 'jsonPathExists':
+    case 'jsonPathEquals':
+      return { selected: selectJsonPath(typeof value === 'string' ? value : value?.path, factValue) };
+
+    case 'countWhere':
+      return { count: countWhere(integration, value) };
+
+    case 'externalIdMatches': {
+      const pattern = new RegExp(value.pattern, value.flags);
+      return {
+        matchingExternalIds: (value.collections || RESOURCE_COLLECTIONS).flatMap((collection: string) =>
+          (integration?.[collection] || [])
+            .map((resource: any) => resource.externalId)
+            .filter((externalId: any) => externalId && pattern.test(externalId))
+        )
+      };
+    }
+
+    case 'missingRequiredResources':
+    case 'unexpectedResources': {
+      const { missing, unexpected } = diffRequiredResources(integration, value, config.editionRequirements || {});
+      return operator === 'missingRequiredResources' ? { missing } : { unexpected };
+    }
+
+    default:
+      return summarizeValue(factValue);
+  }
+}
+
+/**
+ * Configuration values an operator compared the facts against
+ */
+export function thresholdsForOperator(operator: string, integration: any, config: any, value?: any): any {
+  if (COUNT_OPERATORS[operator]) {
+    const resourceType = COUNT_OPERATORS[operator];
+    const edition = integration?.licenseEdition?.toLowerCase().trim();
+    const requirements = resolveEdition(edition, config.editionRequirements || {});
+    const storeCount = integration?.storeCount || 1;
+    return {
+      edition,
+      ...(requirements && {
+        inheritanceChain: requirements.inheritanceChain,
+        expectedPerStore: requirements.perStore[resourceType].value,
+        expectedCount: storeCount * requirements.perStore[resourceType].value,
+        requiredExternalIds: requirements.required[resourceType]
+      }),
+      resourceCountTolerance: config.tolerances?.resourceCountTolerance || 0
+    };
+  }
+
+  if (REFERENCE_OPERATORS[operator]) return config.referenceIntegrityRules || {};
+
+  switch (operator) {
+    case 'hasLicenseEditionMismatch': return config.licenseValidation;
+    case 'hasMissingProperties': return config.requiredProperties;
+    case 'hasOfflineConnections': return config.offlineConnectionRules;
+    case 'inUpdateProcess': return config.updateProcessRules;
+    case 'hasSettingsSchemaViolations': return config.settingsValidation;
+    case 'hasStoreResourceGaps':
+    case 'hasStoreCountMismatch':
+      return config.storeValidationRules || {};
+    case 'missingRequiredResources':
+    case 'unexpectedResources':
+      return { required: diffRequiredResources(integration, value, config.editionRequirements || {}).required };
+    default:
+      return undefined; // Generic operators carry their thresholds in the condition value
+  }
+}
+
+/**
+ * Primitives as they are; objects and arrays by shape
+ */
+function summarizeValue(value: any): any {
+  if (Array.isArray(value)) return { length: value.length };
+  if (value !== null && typeof value === 'object') return { keys: Object.keys(value) };
+  return value;
+}
@@ -0,0 +1,156 @@
+/**
+ * Duplicate Selection
+ * Chooses which copies of a duplicated import/export/flow to keep, using the configured tooMany
+ * strategies against the integration snapshot (timestamps, connections, flow references).
+ * Copies a flow still references are never selected for deletion.
+ */
+
+import { resourceKey } from './resource-diff';
+
+export type DuplicateSelectionStrategy = 'keep-most-recent' | 'keep-oldest' | 'keep-connected' | 'keep-referenced-by-flow';
+
+export const DUPLICATE_SELECTION_STRATEGIES: DuplicateSelectionStrategy[] = [
+  'keep-most-recent',
+  'keep-oldest',
+  'keep-connected',
+  'keep-referenced-by-flow'
+];
+
+// Older configurations name the copies to remove rather than the ones to keep
+const STRATEGY_ALIASES: Record<string, DuplicateSelectionStrategy> = {
+  'remove-oldest': 'keep-most-recent',
+  'remove-newest': 'keep-oldest'
+};
+
+export interface FlowReferencedResource {
+  resourceId: string;
+  flowIds: string[];
+}
+
+export interface DuplicateSelection {
+  keep: string[]; // Resource IDs kept, most preferred first
+  remove: string[]; // Resource IDs to delete
+  flowReferenced: FlowReferencedResource[]; // Excess copies left in place because a flow still runs them
+}
+
+const COLLECTIONS: Record<string, 'imports' | 'exports' | 'flows'> = {
+  import: 'imports',
+  export: 'exports',
+  flow: 'flows'
+};
+
+/**
+ * The configured strategy (a name or an ordered list of names, later ones break ties) as strategies
+ */
+export function resolveDuplicateStrategies(configured: string | string[] | undefined): DuplicateSelectionStrategy[] {
+  const names = configured === undefined ? ['keep-most-recent'] : Array.isArray(configured) ? configured : [configured];
+  return names.map(name => {
+    const strategy = STRATEGY_ALIASES[name] || name;
+    if (!DUPLICATE_SELECTION_STRATEGIES.includes(strategy as DuplicateSelectionStrategy)) {
+      throw new Error(`Unknown duplicate selection strategy '${name}' (expected one of: ${DUPLICATE_SELECTION_STRATEGIES.join(', ')})`);
+    }
+    return strategy as DuplicateSelectionStrategy;
+  });
+}
+
+/**
+ * Flows referencing each import/export, by resource ID
+ */
+export function getFlowReferences(integration: any): Map<string, string[]> {
+  const references = new Map<string, string[]>();
+  for (const flow of integration?.flows || []) {
+    for (const resourceId of [...(flow.importIds || []), ...(flow.exportIds || [])]) {
+      references.set(resourceId, [...(references.get(resourceId) || []), flow._id]);
+    }
+  }
+  return references;
+}
+
+/**
+ * lastModified, else createdAt, in milliseconds; undefined when the snapshot records neither
+ */
+export function resourceTimestamp(resource: any): number | undefined {
+  const time = Date.parse(resource?.lastModified || resource?.createdAt || '');
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Keep the keepCount most preferred copies and delete the rest, except copies a flow references
+ */
+export function selectDuplicates(
+  integration: any,
+  resourceType: string,
+  resourceIds: string[],
+  keepCount: number,
+  strategies: DuplicateSelectionStrategy[]
+): DuplicateSelection {
+  const collection: any[] = integration?.[COLLECTIONS[resourceType] || resourceType] || [];
+  const resources = resourceIds.map(resourceId => collection.find(resource => resource._id === resourceId) || { _id: resourceId });
+  const flowReferences = getFlowReferences(integration);
+  const liveConnections = new Set(
+    (integration?.connections || [])
+      .filter((conn: any) => !(conn.offline === true || conn.offline === 'true' || conn.offline === '1'))
+      .map((conn: any) => conn._id)
+  );
+
+  const preference = (strategy: DuplicateSelectionStrategy) => (a: any, b: any): number => {
+    switch (strategy) {
+      case 'keep-most-recent':
+      case 'keep-oldest': {
+        const timeA = resourceTimestamp(a);
+        const timeB = resourceTimestamp(b);
+        if (timeA === undefined || timeB === undefined) return (timeA === undefined ? 1 : 0) - (timeB === undefined ? 1 : 0);
+        return strategy === 'keep-most-recent' ? timeB - timeA : timeA - timeB;
+      }
+      case 'keep-connected':
+        return Number(liveConnections.has(b.connectionId)) - Number(liveConnections.has(a.connectionId));
+      case 'keep-referenced-by-flow':
+        return Number(flowReferences.has(b._id)) - Number(flowReferences.has(a._id));
+    }
+  };
+
+  // Ties fall back to snapshot order, so the first copies are kept
+  const ranked = resources
+    .map((resource, index) => ({ resource, index }))
+    .sort((a, b) => {
+      for (const strategy of strategies) {
+        const order = preference(strategy)(a.resource, b.resource);
+        if (order !== 0) return order;
+      }
+      return a.index - b.index;
+    })
+    .map(({ resource }) => resource);
+
+  const excess = ranked.slice(keepCount);
+  return {
+    keep: ranked.slice(0, keepCount).map(resource => resource._id),
+    remove: excess.filter(resource => !flowReferences.has(resource._id)).map(resource => resource._id),
+    flowReferenced: excess
+      .filter(resource => flowReferences.has(resource._id))
+      .map(resource => ({ resourceId: resource._id, flowIds: flowReferences.get(resource._id)! }))
+  };
+}
+
+/**
+ * Copies beyond one per store of every resource name in a collection, when no required list names them
+ */
+export function selectDuplicatesByName(
+  integration: any,
+  resourceType: string,
+  strategies: DuplicateSelectionStrategy[]
+): Array<DuplicateSelection & { externalId: string }> {
+  const storeCount = integration?.storeCount || 1;
+  const byKey = new Map<string, string[]>();
+  for (const resource of integration?.[COLLECTIONS[resourceType] || resourceType] || []) {
+    const key = resourceKey(resource);
+    if (!key || !resource._id) continue;
+    byKey.set(key, [...(byKey.get(key) || []), resource._id]);
+  }
+
+  return [...byKey.entries()]
+    .filter(([, resourceIds]) => resourceIds.length > storeCount)
+    .map(([externalId, resourceIds]) => ({
+      externalId,
+      ...selectDuplicates(integration, resourceType, resourceIds, storeCount, strategies)
+    }));
+}
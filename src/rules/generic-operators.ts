@@ -0,0 +1,222 @@
+/**
+ * Generic Rule Operators
+ * Config-usable operators and facts so new corruption types can be written entirely in JSON.
+ * The operator parameters come from the condition's `value`.
+ */
+
+import { Almanac, Engine } from 'json-rules-engine';
+import { JSONPath } from 'jsonpath-plus';
+import { resolveEdition } from '../config/edition-inheritance';
+
+export type ResourceCollection = 'imports' | 'exports' | 'flows' | 'connections';
+export type RequiredResourceType = 'imports' | 'exports' | 'flows';
+
+export const RESOURCE_COLLECTIONS: ResourceCollection[] = ['imports', 'exports', 'flows', 'connections'];
+
+export type PredicateOperator =
+  | 'equal' | 'notEqual' | 'in' | 'notIn'
+  | 'exists' | 'missing'
+  | 'matches' | 'notMatches'
+  | 'inCollection' | 'notInCollection';
+
+/**
+ * A check on one field of a resource. For inCollection/notInCollection the value is
+ * "<collection>.<field>", e.g. "connections._id".
+ */
+export interface ResourcePredicate {
+  field: string;
+  operator: PredicateOperator;
+  value?: any;
+}
+
+export interface JsonPathCheck {
+  path: string;
+  equals?: any;
+}
+
+export interface CountWhereCheck {
+  collection: ResourceCollection;
+  where?: ResourcePredicate | ResourcePredicate[];
+  greaterThan?: number;
+  lessThan?: number;
+  equal?: number;
+}
+
+export interface ExternalIdPatternCheck {
+  pattern: string;
+  flags?: string;
+  collections?: ResourceCollection[];
+}
+
+export interface RequiredResourcesCheck {
+  resourceType: RequiredResourceType;
+  edition?: string;
+}
+
+export const GENERIC_OPERATORS = [
+  'jsonPathExists',
+  'jsonPathEquals',
+  'countWhere',
+  'externalIdMatches',
+  'missingRequiredResources',
+  'unexpectedResources'
+];
+
+/**
+ * Values selected by a JSONPath expression, ignoring null and undefined matches
+ */
+export function selectJsonPath(path: string, json: any): any[] {
+  if (json === null || json === undefined || typeof json !== 'object') return [];
+  const matches = JSONPath({ path, json, wrap: true }) as any[];
+  return matches.filter(match => match !== null && match !== undefined);
+}
+
+/**
+ * Whether a resource satisfies a predicate; nested fields use dot notation
+ */
+export function matchesPredicate(resource: any, predicate: ResourcePredicate, integration: any): boolean {
+  const actual = predicate.field.split('.').reduce((current, key) => current?.[key], resource);
+  const present = actual !== undefined && actual !== null && actual !== '';
+
+  switch (predicate.operator) {
+    case 'equal': return actual === predicate.value;
+    case 'notEqual': return actual !== predicate.value;
+    case 'in': return Array.isArray(predicate.value) && predicate.value.includes(actual);
+    case 'notIn': return Array.isArray(predicate.value) && !predicate.value.includes(actual);
+    case 'exists': return present;
+    case 'missing': return !present;
+    case 'matches': return present && new RegExp(predicate.value).test(String(actual));
+    case 'notMatches': return present && !new RegExp(predicate.value).test(String(actual));
+    case 'inCollection':
+    case 'notInCollection': {
+      // A missing reference is not a dangling one; use 'missing' for that
+      if (!present) return false;
+      const found = collectionValues(integration, predicate.value).has(actual);
+      return predicate.operator === 'inCollection' ? found : !found;
+    }
+    default:
+      throw new Error(`Unknown predicate operator: ${predicate.operator}`);
+  }
+}
+
+/**
+ * Number of resources in a collection that satisfy every predicate
+ */
+export function countWhere(integration: any, check: CountWhereCheck): number {
+  const predicates = check.where ? ([] as ResourcePredicate[]).concat(check.where) : [];
+  const resources: any[] = integration?.[check.collection] || [];
+  return resources.filter(resource =>
+    predicates.every(predicate => matchesPredicate(resource, predicate, integration))
+  ).length;
+}
+
+/**
+ * Resources required by an edition, including everything inherited through inheritsFrom
+ */
+export function getRequiredResources(
+  edition: string,
+  resourceType: RequiredResourceType,
+  editionRequirements: Record<string, any>
+): string[] {
+  return resolveEdition(edition, editionRequirements)?.required[resourceType] || [];
+}
+
+/**
+ * Required names with no matching resource, and resource names no edition list asks for.
+ * A resource is identified by its externalId, falling back to its name.
+ */
+export function diffRequiredResources(
+  integration: any,
+  check: RequiredResourcesCheck,
+  editionRequirements: Record<string, any>
+): { required: string[]; missing: string[]; unexpected: string[] } {
+  const edition = (check.edition || integration?.licenseEdition || '').toLowerCase().trim();
+  const required = getRequiredResources(edition, check.resourceType, editionRequirements);
+  const actual = new Set<string>(
+    (integration?.[check.resourceType] || []).map((resource: any) => resource.externalId || resource.name).filter(Boolean)
+  );
+  const requiredSet = new Set(required);
+
+  return {
+    required,
+    missing: required.filter(name => !actual.has(name)),
+    // Without a required list every resource would look unexpected
+    unexpected: required.length === 0 ? [] : [...actual].filter(name => !requiredSet.has(name))
+  };
+}
+
+/**
+ * Register the generic operators and the settings/requiredResources facts on an engine; returns the operator names
+ */
+export function registerGenericOperators(engine: Engine, editionRequirements: Record<string, any>): string[] {
+  const operators: string[] = [];
+  const addOperator = <T>(name: string, evaluate: (factValue: any, jsonValue: T) => boolean) => {
+    engine.addOperator(name, evaluate);
+    operators.push(name);
+  };
+
+  // Settings exist when the path selects at least one non-null value
+  addOperator('jsonPathExists', (factValue: any, check: string | JsonPathCheck) => {
+    const path = typeof check === 'string' ? check : check.path;
+    return selectJsonPath(path, factValue).length > 0;
+  });
+
+  // Every selected value must equal the expected value (and something must be selected)
+  addOperator('jsonPathEquals', (factValue: any, check: JsonPathCheck) => {
+    const matches = selectJsonPath(check.path, factValue);
+    return matches.length > 0 && matches.every(match => JSON.stringify(match) === JSON.stringify(check.equals));
+  });
+
+  addOperator('countWhere', (integration: any, check: CountWhereCheck) => {
+    const count = countWhere(integration, check);
+    if (check.equal !== undefined) return count === check.equal;
+    if (check.greaterThan === undefined && check.lessThan === undefined) return count > 0;
+    return (check.greaterThan === undefined || count > check.greaterThan)
+      && (check.lessThan === undefined || count < check.lessThan);
+  });
+
+  addOperator('externalIdMatches', (integration: any, check: ExternalIdPatternCheck) => {
+    const pattern = new RegExp(check.pattern, check.flags);
+    return (check.collections || RESOURCE_COLLECTIONS).some(collection =>
+      (integration?.[collection] || []).some((resource: any) => resource.externalId && pattern.test(resource.externalId))
+    );
+  });
+
+  addOperator('missingRequiredResources', (integration: any, check: RequiredResourcesCheck) =>
+    diffRequiredResources(integration, check, editionRequirements).missing.length > 0
+  );
+
+  addOperator('unexpectedResources', (integration: any, check: RequiredResourcesCheck) =>
+    diffRequiredResources(integration, check, editionRequirements).unexpected.length > 0
+  );
+
+  engine.addFact('settings', async (_params: any, almanac: Almanac) => {
+    const integration = await almanac.factValue<any>('integration');
+    return integration?.settings || {};
+  });
+
+  engine.addFact('requiredResources', async (_params: any, almanac: Almanac) => {
+    const integration = await almanac.factValue<any>('integration');
+    const edition = (integration?.licenseEdition || '').toLowerCase().trim();
+    return {
+      imports: getRequiredResources(edition, 'imports', editionRequirements),
+      exports: getRequiredResources(edition, 'exports', editionRequirements),
+      flows: getRequiredResources(edition, 'flows', editionRequirements)
+    };
+  });
+
+  return operators;
+}
+
+/**
+ * Values of one field across a collection, from a "<collection>.<field>" reference
+ */
+function collectionValues(integration: any, reference: string): Set<any> {
+  const [collection, ...fieldPath] = String(reference).split('.');
+  if (!RESOURCE_COLLECTIONS.includes(collection as ResourceCollection) || fieldPath.length === 0) {
+    throw new Error(`Invalid collection reference '${reference}' (expected <collection>.<field>)`);
+  }
+  return new Set((integration?.[collection] || []).map((resource: any) =>
+    fieldPath.reduce((current, key) => current?.[key], resource)
+  ));
+}
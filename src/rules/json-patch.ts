@@ -0,0 +1,158 @@
+/**
+ * JSON Patch
+ * RFC 6902 operations for settings and property remediations. Every overwrite or removal is preceded by a
+ * `test` of the value it replaces, so a patch only applies to the state it was planned against and its
+ * inverse can be computed exactly from the operations alone.
+ */
+
+import { escapePointer } from './settings-schema';
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'test' | 'move' | 'copy';
+  path: string; // JSON pointer, e.g. /settings/connectorEdition
+  value?: any;
+  from?: string; // move and copy only
+}
+
+/**
+ * JSON pointer of a remediation target path; settings.sections[0].mode becomes /settings/sections/0/mode
+ */
+export function toJsonPointer(targetPath: string): string {
+  if (targetPath.startsWith('/')) return targetPath;
+  const segments = targetPath.replace(/\[(\w+)\]/g, '.$1').split('.').filter(Boolean);
+  return segments.map(segment => `/${escapePointer(segment)}`).join('');
+}
+
+/**
+ * Guarded patch turning `before` into `after` at a target path; undefined means the member is absent.
+ * RFC 6902 cannot test for absence, so adding a missing member is the one unguarded operation.
+ */
+export function buildJsonPatch(targetPath: string, before: any, after: any): JsonPatchOperation[] {
+  const path = toJsonPointer(targetPath);
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined) return [{ op: 'add', path, value: after }];
+
+  const guard: JsonPatchOperation = { op: 'test', path, value: before };
+  return after === undefined ? [guard, { op: 'remove', path }] : [guard, { op: 'replace', path, value: after }];
+}
+
+/**
+ * Exact inverse of a patch: each operation is undone in reverse order, using the value its `test` guard
+ * recorded. Throws when an operation overwrites or removes a value no guard recorded.
+ */
+export function invertJsonPatch(operations: JsonPatchOperation[]): JsonPatchOperation[] {
+  const guards = new Map<string, any>();
+  const inverses: JsonPatchOperation[][] = [];
+
+  for (const operation of operations) {
+    const { op, path } = operation;
+    if (op === 'test') {
+      guards.set(path, operation.value);
+      continue;
+    }
+
+    const guarded = guards.has(path);
+    const previous = guards.get(path);
+    if (op === 'add' && guarded) {
+      inverses.push([{ op: 'test', path, value: operation.value }, { op: 'replace', path, value: previous }]);
+    } else if (op === 'add') {
+      if (path.endsWith('/-')) {
+        throw new Error(`Cannot invert JSON Patch add at ${path}: appended array index is unknown`);
+      }
+      inverses.push([{ op: 'test', path, value: operation.value }, { op: 'remove', path }]);
+    } else if ((op === 'remove' || op === 'replace') && guarded) {
+      inverses.push(op === 'remove'
+        ? [{ op: 'add', path, value: previous }]
+        : [{ op: 'test', path, value: operation.value }, { op: 'replace', path, value: previous }]);
+    } else if (op === 'remove' || op === 'replace') {
+      throw new Error(`Cannot invert JSON Patch ${op} at ${path}: no test guard records the previous value`);
+    } else {
+      throw new Error(`Cannot invert JSON Patch ${op} at ${path}`);
+    }
+
+    // Values recorded at, above or below the changed member no longer describe the document
+    for (const guardPath of [...guards.keys()]) {
+      if (guardPath === path || guardPath.startsWith(`${path}/`) || path.startsWith(`${guardPath}/`)) guards.delete(guardPath);
+    }
+  }
+
+  return inverses.reverse().flat();
+}
+
+/**
+ * Apply a patch to a copy of the document; throws when a test fails or a path does not resolve
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  let result: any = JSON.parse(JSON.stringify(document ?? null));
+
+  for (const operation of operations) {
+    const segments = parsePointer(operation.path);
+    if (segments.length === 0) {
+      if (operation.op === 'test') {
+        if (!deepEqual(result, operation.value)) throw new Error(`JSON Patch test failed at ${operation.path || '/'}`);
+      } else if (operation.op === 'add' || operation.op === 'replace') {
+        result = clone(operation.value);
+      } else {
+        throw new Error(`Cannot ${operation.op} the whole document`);
+      }
+      continue;
+    }
+
+    const key = segments[segments.length - 1];
+    const parent = segments.slice(0, -1).reduce((current, segment) => {
+      if (current === null || typeof current !== 'object' || !(segment in current)) {
+        throw new Error(`JSON Patch path ${operation.path} does not exist`);
+      }
+      return current[segment];
+    }, result);
+    if (parent === null || typeof parent !== 'object') {
+      throw new Error(`JSON Patch path ${operation.path} does not exist`);
+    }
+    const exists = Array.isArray(parent) ? Number(key) < parent.length : key in parent;
+
+    switch (operation.op) {
+      case 'test':
+        if (!exists || !deepEqual(parent[key], operation.value)) throw new Error(`JSON Patch test failed at ${operation.path}`);
+        break;
+      case 'add':
+        if (Array.isArray(parent)) {
+          parent.splice(key === '-' ? parent.length : Number(key), 0, clone(operation.value));
+        } else {
+          parent[key] = clone(operation.value);
+        }
+        break;
+      case 'replace':
+      case 'remove':
+        if (!exists) throw new Error(`JSON Patch path ${operation.path} does not exist`);
+        if (operation.op === 'replace') {
+          parent[key] = clone(operation.value);
+        } else if (Array.isArray(parent)) {
+          parent.splice(Number(key), 1);
+        } else {
+          delete parent[key];
+        }
+        break;
+      default:
+        throw new Error(`Unsupported JSON Patch operation ${operation.op} at ${operation.path}`);
+    }
+  }
+
+  return result;
+}
+
+function parsePointer(pointer: string): string[] {
+  if (!pointer) return [];
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function clone(value: any): any {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+// Structural equality as RFC 6902 `test` defines it; object key order does not matter
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => key in b && deepEqual(a[key], b[key]));
+}
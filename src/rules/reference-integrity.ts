@@ -0,0 +1,120 @@
+/**
+ * Reference Integrity Analysis
+ * Cross-checks the references between imports/exports, flows and connections of one integration:
+ * connections nothing uses, resources pointing at connections that do not exist,
+ * and flows whose import/export references resolve to nothing.
+ */
+
+export interface ReferenceIntegrityRules {
+  detectOrphanedConnections?: boolean;
+  detectDanglingConnectionReferences?: boolean;
+  detectUnresolvedFlowReferences?: boolean;
+  settingsConnectionFields?: string[]; // Paths under settings that hold connection IDs; those connections count as used
+}
+
+export interface OrphanedConnection {
+  connectionId: string;
+  name: string;
+  offline: boolean;
+}
+
+export interface DanglingConnectionReference {
+  resourceType: 'import' | 'export';
+  resourceId: string;
+  name: string;
+  externalId: string;
+  connectionId: string;
+}
+
+export interface UnresolvedFlowReference {
+  flowId: string;
+  name: string;
+  importIds: string[];
+  exportIds: string[];
+  unresolvedIds: string[];
+}
+
+export interface ReferenceAnalysis {
+  knownConnectionIds: string[];
+  settingsConnectionIds: string[];
+  orphanedConnections: OrphanedConnection[];
+  danglingReferences: DanglingConnectionReference[];
+  unresolvedFlows: UnresolvedFlowReference[];
+  suggestedConnectionId?: string; // Existing connection a dangling resource could be relinked to
+}
+
+/**
+ * Analyse the references of one integration
+ */
+export function analyzeReferences(integration: any, rules: ReferenceIntegrityRules = {}): ReferenceAnalysis {
+  const connections: any[] = integration?.connections || [];
+  const imports: any[] = integration?.imports || [];
+  const exports: any[] = integration?.exports || [];
+  const knownConnectionIds = connections.map(conn => conn._id).filter(Boolean);
+  const known = new Set(knownConnectionIds);
+
+  const settingsConnectionIds = (rules.settingsConnectionFields || [])
+    .map(field => field.split('.').reduce((current: any, key) => current?.[key], integration?.settings))
+    .filter((value): value is string => typeof value === 'string' && value !== '');
+
+  const used = new Set<string>([
+    ...imports.map(imp => imp.connectionId),
+    ...exports.map(exp => exp.connectionId),
+    ...settingsConnectionIds
+  ].filter(Boolean));
+
+  const orphanedConnections = connections
+    .filter(conn => conn._id && !used.has(conn._id))
+    .map(conn => ({
+      connectionId: conn._id,
+      name: conn.name,
+      offline: conn.offline === true || conn.offline === 'true'
+    }));
+
+  // A resource without a connectionId is a missing property, not a dangling reference
+  const danglingReferences: DanglingConnectionReference[] = [
+    ...imports.map(imp => ({ resource: imp, resourceType: 'import' as const })),
+    ...exports.map(exp => ({ resource: exp, resourceType: 'export' as const }))
+  ]
+    .filter(({ resource }) => resource.connectionId && !known.has(resource.connectionId))
+    .map(({ resource, resourceType }) => ({
+      resourceType,
+      resourceId: resource._id,
+      name: resource.name,
+      externalId: resource.externalId,
+      connectionId: resource.connectionId
+    }));
+
+  const resourceIds = new Set([...imports, ...exports].map(resource => resource._id).filter(Boolean));
+  const unresolvedFlows: UnresolvedFlowReference[] = [];
+  for (const flow of integration?.flows || []) {
+    // Flows exported without their references cannot be checked
+    if (!Array.isArray(flow.importIds) && !Array.isArray(flow.exportIds)) continue;
+
+    const importIds: string[] = flow.importIds || [];
+    const exportIds: string[] = flow.exportIds || [];
+    const references = [...exportIds, ...importIds];
+    if (!references.some(id => resourceIds.has(id))) {
+      unresolvedFlows.push({ flowId: flow._id, name: flow.name, importIds, exportIds, unresolvedIds: references });
+    }
+  }
+
+  return {
+    knownConnectionIds,
+    settingsConnectionIds,
+    orphanedConnections,
+    danglingReferences,
+    unresolvedFlows,
+    suggestedConnectionId: suggestConnection(connections, settingsConnectionIds)
+  };
+}
+
+/**
+ * The connection the settings point at, or the only connection of the integration
+ */
+function suggestConnection(connections: any[], settingsConnectionIds: string[]): string | undefined {
+  const existing = new Set(connections.map(conn => conn._id));
+  const fromSettings = settingsConnectionIds.find(id => existing.has(id));
+  if (fromSettings) return fromSettings;
+  return connections.length === 1 ? connections[0]._id : undefined;
+}
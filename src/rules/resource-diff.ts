@@ -0,0 +1,90 @@
+/**
+ * Required Resource Diff
+ * Compares the imports/exports/flows of an integration with its edition's required lists by name:
+ * every required adaptor should appear once per store.
+ */
+
+import { getRequiredResources, RequiredResourceType } from './generic-operators';
+
+export interface MissingResource {
+  externalId: string;
+  expected: number;
+  actual: number;
+  missingCount: number;
+}
+
+export interface DuplicatedResource {
+  externalId: string;
+  expected: number;
+  actual: number;
+  resourceIds: string[];
+  excessResourceIds: string[]; // Copies beyond one per store, in snapshot order
+}
+
+export interface UnexpectedResource {
+  externalId: string;
+  resourceIds: string[];
+}
+
+export interface RequiredResourceDiff {
+  resourceType: RequiredResourceType;
+  edition: string;
+  storeCount: number;
+  required: string[];
+  missing: MissingResource[];
+  duplicated: DuplicatedResource[];
+  unexpected: UnexpectedResource[];
+}
+
+/**
+ * Name of a resource as used in the required lists (flows carry it as name)
+ */
+export function resourceKey(resource: any): string {
+  return resource?.externalId || resource?.name || '';
+}
+
+/**
+ * Diff resources against the edition's required lists, or undefined when the edition lists none
+ */
+export function diffResourcesPerStore(
+  integration: any,
+  resourceType: RequiredResourceType,
+  editionRequirements: Record<string, any>
+): RequiredResourceDiff | undefined {
+  const edition = (integration?.licenseEdition || '').toLowerCase().trim();
+  const required = getRequiredResources(edition, resourceType, editionRequirements);
+  if (required.length === 0) return undefined;
+
+  const storeCount = integration?.storeCount || 1;
+  const byKey = new Map<string, string[]>();
+  for (const resource of integration?.[resourceType] || []) {
+    const key = resourceKey(resource);
+    if (!key) continue;
+    byKey.set(key, [...(byKey.get(key) || []), resource._id]);
+  }
+
+  const requiredSet = new Set(required);
+  const missing: MissingResource[] = [];
+  const duplicated: DuplicatedResource[] = [];
+
+  for (const externalId of required) {
+    const resourceIds = byKey.get(externalId) || [];
+    if (resourceIds.length < storeCount) {
+      missing.push({ externalId, expected: storeCount, actual: resourceIds.length, missingCount: storeCount - resourceIds.length });
+    } else if (resourceIds.length > storeCount) {
+      duplicated.push({
+        externalId,
+        expected: storeCount,
+        actual: resourceIds.length,
+        resourceIds,
+        excessResourceIds: resourceIds.slice(storeCount)
+      });
+    }
+  }
+
+  const unexpected = [...byKey.entries()]
+    .filter(([externalId]) => !requiredSet.has(externalId))
+    .map(([externalId, resourceIds]) => ({ externalId, resourceIds }));
+
+  return { resourceType, edition, storeCount, required, missing, duplicated, unexpected };
+}
@@ -0,0 +1,136 @@
+/**
+ * Risk Scoring
+ * Weighted 0-100 risk score of an integration from its corruption events, using the riskScoring
+ * model of the business rules: event severity, affected resources, edition tier, store count,
+ * and offline connections that still have active exports.
+ */
+
+export interface RiskScoringModel {
+  severityWeights: Record<'low' | 'medium' | 'high' | 'critical', number>;
+  affectedResourceWeight: number; // Points per affected resource of an event
+  maxAffectedResourcesPerEvent: number; // Cap so one huge event does not dominate the score
+  editionMultipliers: Record<string, number>; // Unlisted editions count as 1
+  storeCountWeight: number; // Multiplier added per store beyond the first
+  maxStoreMultiplier: number;
+  offlineActiveExportsPoints: number; // Added once when an offline connection still has exports
+  saturationPoints: number; // Raw points that score 63% of maxScore; the score approaches maxScore without clamping
+  maxScore: number;
+}
+
+export interface RiskScore {
+  score: number;
+  factors: {
+    severityPoints: number;
+    affectedResources: number;
+    affectedResourcePoints: number;
+    editionMultiplier: number;
+    storeMultiplier: number;
+    offlineActiveExports: number; // Exports on offline connections
+    offlineActiveExportsPoints: number;
+    rawPoints: number; // Weighted points before normalisation
+  };
+}
+
+export const DEFAULT_RISK_SCORING: RiskScoringModel = {
+  severityWeights: { low: 2, medium: 5, high: 10, critical: 20 },
+  affectedResourceWeight: 0.5,
+  maxAffectedResourcesPerEvent: 20,
+  editionMultipliers: { starter: 1, standard: 1.1, premium: 1.25, shopifymarkets: 1.4 },
+  storeCountWeight: 0.1,
+  maxStoreMultiplier: 2,
+  offlineActiveExportsPoints: 15,
+  saturationPoints: 100,
+  maxScore: 100
+};
+
+/**
+ * The scoring model of a business configuration, with defaults for anything it leaves out
+ */
+export function resolveRiskScoringModel(configured?: Partial<RiskScoringModel>): RiskScoringModel {
+  return {
+    ...DEFAULT_RISK_SCORING,
+    ...configured,
+    severityWeights: { ...DEFAULT_RISK_SCORING.severityWeights, ...configured?.severityWeights },
+    editionMultipliers: { ...DEFAULT_RISK_SCORING.editionMultipliers, ...configured?.editionMultipliers }
+  };
+}
+
+/**
+ * Resources an event affects, from its details
+ */
+export function countAffectedResources(event: any): number {
+  const details = event?.params?.details || {};
+  if (typeof details.totalAffectedResources === 'number') return details.totalAffectedResources;
+  if (typeof details.totalMissing === 'number') return details.totalMissing;
+  if (Array.isArray(details.missingResources) || Array.isArray(details.duplicateResources)) {
+    const missing = (details.missingResources || []).reduce((sum: number, item: any) => sum + (item.missingCount || 1), 0);
+    const duplicated = (details.duplicateResources || []).reduce((sum: number, item: any) => sum + (item.excessResourceIds?.length || 1), 0);
+    if (missing + duplicated > 0) return missing + duplicated;
+  }
+  if (typeof details.difference === 'number' && details.difference !== 0) return Math.abs(details.difference);
+  return 1;
+}
+
+/**
+ * Exports whose connection is marked offline
+ */
+export function countOfflineActiveExports(integration: any): number {
+  const offlineIds = new Set(
+    (integration?.connections || [])
+      .filter((conn: any) => conn.offline === true || conn.offline === 'true' || conn.offline === '1')
+      .map((conn: any) => conn._id)
+  );
+  return (integration?.exports || []).filter((exp: any) => exp.connectionId && offlineIds.has(exp.connectionId)).length;
+}
+
+/**
+ * Raw points = (severity points + affected resource points) × edition multiplier × store multiplier
+ * + offline-with-active-exports points. The score is maxScore × (1 − e^(−raw / saturationPoints)):
+ * it grows with every point and approaches maxScore, so heavily corrupted integrations still rank
+ * apart instead of all clamping to the maximum. A clean integration scores 0.
+ */
+export function calculateRiskScore(integration: any, events: any[], model: RiskScoringModel = DEFAULT_RISK_SCORING): RiskScore {
+  const edition = (integration?.licenseEdition || '').toLowerCase().trim();
+  const storeCount = Math.max(Number(integration?.storeCount) || 1, 1);
+
+  const severityPoints = events.reduce(
+    (sum, event) => sum + (model.severityWeights[event.params?.severity as keyof RiskScoringModel['severityWeights']] || 0),
+    0
+  );
+  const affectedResources = events.reduce(
+    (sum, event) => sum + Math.min(countAffectedResources(event), model.maxAffectedResourcesPerEvent),
+    0
+  );
+  const affectedResourcePoints = affectedResources * model.affectedResourceWeight;
+  const editionMultiplier = model.editionMultipliers[edition] ?? 1;
+  const storeMultiplier = Math.min(1 + (storeCount - 1) * model.storeCountWeight, model.maxStoreMultiplier);
+  const offlineActiveExports = events.length > 0 ? countOfflineActiveExports(integration) : 0;
+  const offlineActiveExportsPoints = offlineActiveExports > 0 ? model.offlineActiveExportsPoints : 0;
+
+  const raw = (severityPoints + affectedResourcePoints) * editionMultiplier * storeMultiplier + offlineActiveExportsPoints;
+  const score = model.maxScore * (1 - Math.exp(-raw / model.saturationPoints));
+
+  return {
+    score: Math.round(score * 10) / 10,
+    factors: {
+      severityPoints,
+      affectedResources,
+      affectedResourcePoints,
+      editionMultiplier,
+      storeMultiplier: Math.round(storeMultiplier * 100) / 100,
+      offlineActiveExports,
+      offlineActiveExportsPoints,
+      rawPoints: Math.round(raw * 10) / 10
+    }
+  };
+}
+
+/**
+ * Integrations ordered by risk score, highest first (ties by event count)
+ */
+export function rankByRiskScore<T extends { riskScore: number; corruptionEvents?: any[] }>(results: T[], limit?: number): T[] {
+  const ranked = [...results].sort((a, b) =>
+    b.riskScore - a.riskScore || (b.corruptionEvents?.length || 0) - (a.corruptionEvents?.length || 0)
+  );
+  return limit === undefined ? ranked : ranked.slice(0, limit);
+}
@@ -0,0 +1,134 @@
+/**
+ * Settings Schema Validation
+ * Validates integration settings against the JSON Schema a product/version configuration references
+ * (settingsValidation.schemaPath) and reports every violation with its JSON pointer and schema default.
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+
+export interface SettingsValidationRules {
+  enabled?: boolean;
+  schemaPath?: string; // Relative to the configuration directory
+  maxViolations?: number; // Per integration (default: 50)
+  severityByViolationType?: Partial<Record<SettingsViolationType, 'low' | 'medium' | 'high' | 'critical'>>;
+}
+
+export type SettingsViolationType = 'missing' | 'wrong-type' | 'invalid-value' | 'unexpected-key' | 'invalid-structure';
+
+export interface SettingsSchemaViolation {
+  violationType: SettingsViolationType;
+  keyword: string; // ajv keyword, e.g. required, type, enum
+  path: string; // JSON pointer into settings, e.g. /commonresources/netsuiteConnectionId
+  schemaPath: string; // JSON pointer into the schema of the failing keyword
+  message: string;
+  actual?: any; // Undefined for missing values
+  hasDefault: boolean;
+  default?: any; // The schema default at path, when it declares one
+}
+
+const VIOLATION_TYPES: Record<string, SettingsViolationType> = {
+  required: 'missing',
+  type: 'wrong-type',
+  additionalProperties: 'unexpected-key',
+  anyOf: 'invalid-structure',
+  oneOf: 'invalid-structure',
+  allOf: 'invalid-structure',
+  not: 'invalid-structure',
+  if: 'invalid-structure'
+};
+
+const DEFAULT_MAX_VIOLATIONS = 50;
+
+export class SettingsSchemaValidator {
+  private validateSettings: ValidateFunction;
+  private lastSettings: any = undefined;
+  private lastViolations: SettingsSchemaViolation[] = [];
+
+  constructor(private schema: any) {
+    this.validateSettings = new Ajv({ allErrors: true }).compile(schema);
+  }
+
+  /**
+   * Violations of a settings object; the detection operator and the event details share one validation run
+   */
+  validate(settings: any, maxViolations: number = DEFAULT_MAX_VIOLATIONS): SettingsSchemaViolation[] {
+    if (settings !== this.lastSettings || this.lastSettings === undefined) {
+      this.lastViolations = this.validateSettings(settings)
+        ? []
+        : (this.validateSettings.errors || []).map(error => this.toViolation(error, settings));
+      this.lastSettings = settings;
+    }
+    return this.lastViolations.slice(0, maxViolations);
+  }
+
+  private toViolation(error: ErrorObject, settings: any): SettingsSchemaViolation {
+    const schemaPointer = error.schemaPath.replace(/^#/, '');
+    // The keyword's own schema is the parent of the failing keyword, e.g. /properties/general for /properties/general/type
+    const parentSchemaPointer = schemaPointer.split('/').slice(0, -1).join('/');
+
+    let path = error.instancePath;
+    let valueSchemaPointer = parentSchemaPointer;
+    if (error.keyword === 'required') {
+      const property = (error.params as any).missingProperty;
+      path = `${error.instancePath}/${escapePointer(property)}`;
+      valueSchemaPointer = `${parentSchemaPointer}/properties/${escapePointer(property)}`;
+    } else if (error.keyword === 'additionalProperties') {
+      path = `${error.instancePath}/${escapePointer((error.params as any).additionalProperty)}`;
+      valueSchemaPointer = '';
+    }
+
+    const valueSchema = valueSchemaPointer ? this.resolveSchema(valueSchemaPointer) : undefined;
+    const hasDefault = valueSchema !== undefined && valueSchema !== null && 'default' in valueSchema;
+    const actual = error.keyword === 'required' ? undefined : getAtPointer(settings, path);
+
+    return {
+      violationType: VIOLATION_TYPES[error.keyword] || 'invalid-value',
+      keyword: error.keyword,
+      path: path || '/',
+      schemaPath: schemaPointer,
+      message: `${error.instancePath || '/'} ${error.message}`, // ajv words the message relative to the failing object
+      ...(actual !== undefined && { actual }),
+      hasDefault,
+      ...(hasDefault && { default: JSON.parse(JSON.stringify(valueSchema.default)) })
+    };
+  }
+
+  /**
+   * Sub-schema at a JSON pointer, following local $refs
+   */
+  private resolveSchema(pointer: string): any {
+    let node = getAtPointer(this.schema, pointer);
+    for (let depth = 0; node?.$ref && typeof node.$ref === 'string' && node.$ref.startsWith('#') && depth < 10; depth++) {
+      node = getAtPointer(this.schema, node.$ref.slice(1));
+    }
+    return node;
+  }
+}
+
+/**
+ * Value at a JSON pointer ("" and "/" are the whole document, as violation paths report the root)
+ */
+export function getAtPointer(document: any, pointer: string): any {
+  if (!pointer || pointer === '/') return document;
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(unescapePointer)
+    .reduce((current, key) => current?.[key], document);
+}
+
+/**
+ * Dot path of a settings JSON pointer, as used by the remediation target paths
+ */
+export function pointerToSettingsPath(pointer: string): string {
+  const segments = pointer.split('/').slice(1).filter(segment => segment !== '').map(unescapePointer);
+  return ['settings', ...segments].join('.');
+}
+
+export function escapePointer(segment: string): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
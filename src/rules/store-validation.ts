@@ -0,0 +1,168 @@
+/**
+ * Store-Aware Validation
+ * Maps each import, export and flow to its store from settings.storemap and reports store-level gaps,
+ * e.g. "store 2 is missing its inventory export", plus storeCount (NUMSTORES) vs storemap length mismatches.
+ */
+
+import { RequiredResourceType } from './generic-operators';
+import { resourceKey } from './resource-diff';
+
+export interface StoreValidationRules {
+  detectStoreResourceGaps?: boolean;
+  detectStoreCountMismatch?: boolean;
+  storeIdField?: string; // Storemap entry field identifying the store (default: storeId)
+  storeNameField?: string; // Storemap entry field naming the store (default: name)
+  storeConnectionFields?: string[]; // Storemap entry fields holding the store's own connection IDs
+  ignoreEmptyStoremap?: boolean; // An empty or absent storemap is a missing property, not a mismatch (default: true)
+}
+
+export interface StoreEntry {
+  storeNumber: number; // 1-based position in the storemap
+  storeId: string;
+  name: string;
+  connectionIds: string[];
+}
+
+export type StoreResources = Record<RequiredResourceType, string[]>; // Resource _ids per type
+
+export interface StoreResourceGap {
+  storeNumber: number;
+  storeId: string;
+  storeName: string;
+  resourceType: RequiredResourceType;
+  externalId: string;
+  message: string;
+}
+
+export interface StoreAnalysis {
+  storeCount: number;
+  storemapLength?: number; // Undefined when settings.storemap is not an array
+  storeCountMismatch: boolean;
+  stores: StoreEntry[];
+  resourcesByStore: Record<string, StoreResources>;
+  unassigned: StoreResources; // Shared resources, or resources whose connection maps to no store
+  gaps: StoreResourceGap[];
+}
+
+const RESOURCE_TYPES: RequiredResourceType[] = ['imports', 'exports', 'flows'];
+
+const singular = (resourceType: RequiredResourceType): string => resourceType.slice(0, -1);
+
+/**
+ * Analyse an integration store by store.
+ * A name is store-scoped when at least one copy maps to a store; every store must then have its own copy.
+ * Names no store owns (shared resources) are left to the edition count and required-list checks.
+ */
+export function analyzeStores(integration: any, rules: StoreValidationRules = {}): StoreAnalysis {
+  const storemap = integration?.settings?.storemap;
+  const storeCount = Number(integration?.storeCount) || 0;
+  const storemapLength = Array.isArray(storemap) ? storemap.length : undefined;
+  const ignoreEmpty = rules.ignoreEmptyStoremap !== false;
+  const storeCountMismatch = storemapLength === undefined
+    ? !ignoreEmpty
+    : storemapLength !== storeCount && !(ignoreEmpty && storemapLength === 0);
+
+  const stores = (Array.isArray(storemap) ? storemap : []).map((entry: any, i: number) =>
+    toStoreEntry(entry, i, rules)
+  );
+  // A connection several stores share (e.g. one ERP account) says nothing about which store a resource serves
+  const storeByConnection = new Map<string, StoreEntry>();
+  const sharedConnections = new Set<string>();
+  stores.forEach(store => store.connectionIds.forEach(id => {
+    if (storeByConnection.has(id) && storeByConnection.get(id) !== store) sharedConnections.add(id);
+    storeByConnection.set(id, store);
+  }));
+  sharedConnections.forEach(id => storeByConnection.delete(id));
+
+  const resourcesByStore: Record<string, StoreResources> = {};
+  stores.forEach(store => { resourcesByStore[store.storeId] = emptyStoreResources(); });
+  const unassigned = emptyStoreResources();
+  const storeOfResource = new Map<string, StoreEntry>();
+
+  for (const resourceType of ['imports', 'exports'] as RequiredResourceType[]) {
+    for (const resource of integration?.[resourceType] || []) {
+      const store = storeByConnection.get(resource.connectionId);
+      if (store) {
+        resourcesByStore[store.storeId][resourceType].push(resource._id);
+        storeOfResource.set(resource._id, store);
+      } else {
+        unassigned[resourceType].push(resource._id);
+      }
+    }
+  }
+
+  // A flow belongs to every store its imports/exports belong to
+  for (const flow of integration?.flows || []) {
+    const flowStores = new Set<StoreEntry>(
+      [...(flow.importIds || []), ...(flow.exportIds || [])]
+        .map((id: string) => storeOfResource.get(id))
+        .filter((store: StoreEntry | undefined): store is StoreEntry => !!store)
+    );
+    if (flowStores.size === 0) {
+      unassigned.flows.push(flow._id);
+    }
+    flowStores.forEach(store => resourcesByStore[store.storeId].flows.push(flow._id));
+  }
+
+  const gaps = findGaps(integration, stores, resourcesByStore);
+
+  return { storeCount, storemapLength, storeCountMismatch, stores, resourcesByStore, unassigned, gaps };
+}
+
+/**
+ * Store-scoped names each store lacks
+ */
+function findGaps(
+  integration: any,
+  stores: StoreEntry[],
+  resourcesByStore: Record<string, StoreResources>
+): StoreResourceGap[] {
+  const gaps: StoreResourceGap[] = [];
+
+  for (const resourceType of RESOURCE_TYPES) {
+    const keyById = new Map<string, string>(
+      (integration?.[resourceType] || []).map((resource: any) => [resource._id, resourceKey(resource)])
+    );
+    const namesByStore = new Map<string, Set<string>>(stores.map(store => [
+      store.storeId,
+      new Set(resourcesByStore[store.storeId][resourceType].map(id => keyById.get(id) || '').filter(Boolean))
+    ]));
+
+    const storeScoped = new Set<string>();
+    namesByStore.forEach(names => names.forEach(name => storeScoped.add(name)));
+
+    for (const store of stores) {
+      const present = namesByStore.get(store.storeId)!;
+      for (const externalId of storeScoped) {
+        if (present.has(externalId)) continue;
+        gaps.push({
+          storeNumber: store.storeNumber,
+          storeId: store.storeId,
+          storeName: store.name,
+          resourceType,
+          externalId,
+          message: `store ${store.storeNumber} (${store.name}) is missing its ${externalId} ${singular(resourceType)}`
+        });
+      }
+    }
+  }
+
+  return gaps;
+}
+
+function toStoreEntry(entry: any, i: number, rules: StoreValidationRules): StoreEntry {
+  const storeId = entry?.[rules.storeIdField || 'storeId'];
+  const name = entry?.[rules.storeNameField || 'name'];
+  return {
+    storeNumber: i + 1,
+    storeId: storeId !== undefined && storeId !== null && storeId !== '' ? String(storeId) : `store-${i + 1}`,
+    name: name ? String(name) : `Store ${i + 1}`,
+    connectionIds: (rules.storeConnectionFields || [])
+      .map(field => field.split('.').reduce((current: any, key) => current?.[key], entry))
+      .filter((value): value is string => typeof value === 'string' && value !== '')
+  };
+}
+
+function emptyStoreResources(): StoreResources {
+  return { imports: [], exports: [], flows: [] };
+}
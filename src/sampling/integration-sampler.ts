@@ -0,0 +1,419 @@
+/**
+ * Integration Sampling
+ * Seeded random, stratified and top-N-by-settings-size subsets of a snapshot stream. The selection
+ * is recorded so a run can be reproduced, and sampled corruption rates are extrapolated to the population.
+ */
+
+import { IntegrationSnapshot } from '../types';
+import { profileSettings } from '../csv/settings-profile';
+
+export type SamplingMode = 'random' | 'stratified' | 'top-settings-size';
+export type StratifyField = 'edition' | 'version' | 'storeCount';
+
+export const SAMPLING_MODES: SamplingMode[] = ['random', 'stratified', 'top-settings-size'];
+export const STRATIFY_FIELDS: StratifyField[] = ['edition', 'version', 'storeCount'];
+
+export interface SamplingOptions {
+  mode: SamplingMode;
+  size: number;
+  seed?: number; // Generated (and recorded) when omitted
+  stratifyBy?: StratifyField; // Stratified mode only, defaults to edition
+}
+
+export interface SampleStratum {
+  key: string;
+  population: number;
+  sampled: number;
+}
+
+export interface SampleRecord {
+  mode: SamplingMode;
+  size: number;
+  seed?: number;
+  stratifyBy?: StratifyField;
+  populationSize: number;
+  sampleSize: number;
+  strata: SampleStratum[];
+  integrationIds: string[];
+  selectedAt: string;
+}
+
+export interface ProportionEstimate {
+  sampleCount: number;
+  rate: number;
+  lower: number;
+  upper: number;
+  estimatedCount: number;
+  estimatedCountLower: number;
+  estimatedCountUpper: number;
+}
+
+export interface SampleEstimates {
+  confidence: number;
+  populationSize: number;
+  sampleSize: number;
+  excludedCount: number; // Sampled integrations without an outcome (quarantined or failed detection), left out of the rates
+  corruptionRate: ProportionEstimate;
+  byCorruptionType: Record<string, ProportionEstimate>;
+}
+
+interface Candidate {
+  integration: IntegrationSnapshot;
+  index: number; // Position in the stream, so the sample keeps input order
+  sizeBytes?: number;
+}
+
+interface StratumOutcome {
+  recorded: number;
+  corrupted: number;
+  byType: Map<string, number>;
+}
+
+const CONFIDENCE = 0.95;
+const Z_95 = 1.959964;
+const ALL_STRATUM = 'all';
+
+/**
+ * Build sampling options from CLI flags or an API body; no mode means no sampling
+ */
+export function createSamplingOptions(input: {
+  mode?: string;
+  size?: string | number;
+  seed?: string | number;
+  stratifyBy?: string;
+} = {}): SamplingOptions | undefined {
+  if (!input.mode) {
+    return undefined;
+  }
+
+  const mode = input.mode as SamplingMode;
+  if (!SAMPLING_MODES.includes(mode)) {
+    throw new Error(`Unknown sampling mode: ${input.mode} (expected ${SAMPLING_MODES.join(', ')})`);
+  }
+
+  const size = Number(input.size ?? 100);
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`Sample size must be a positive integer, got ${input.size}`);
+  }
+
+  const seed = input.seed !== undefined && input.seed !== '' ? Number(input.seed) : undefined;
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    throw new Error(`Sample seed must be an integer, got ${input.seed}`);
+  }
+
+  const stratifyBy = (input.stratifyBy || 'edition') as StratifyField;
+  if (mode === 'stratified' && !STRATIFY_FIELDS.includes(stratifyBy)) {
+    throw new Error(`Unknown stratification field: ${input.stratifyBy} (expected ${STRATIFY_FIELDS.join(', ')})`);
+  }
+
+  return { mode, size, seed, stratifyBy: mode === 'stratified' ? stratifyBy : undefined };
+}
+
+/**
+ * Selects a sample while snapshots stream past, holding at most `size` snapshots per stratum
+ * (reservoir sampling), and tallies corruption outcomes of the sampled integrations
+ */
+export class IntegrationSampler {
+  readonly seed?: number;
+  private readonly random: () => number;
+  private seen = 0;
+  private reservoirs = new Map<string, { population: number; items: Candidate[] }>();
+  private largest: Candidate[] = [];
+  private selected?: Candidate[];
+  private strata: SampleStratum[] = [];
+  private outcomes = new Map<string, StratumOutcome>();
+
+  constructor(private readonly options: SamplingOptions) {
+    if (options.mode !== 'top-settings-size') {
+      this.seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+    }
+    this.random = createRandom(this.seed ?? 0);
+  }
+
+  add(integration: IntegrationSnapshot): void {
+    if (this.selected) {
+      throw new Error('Cannot add integrations after the sample was drawn');
+    }
+    const candidate: Candidate = { integration, index: this.seen++ };
+
+    if (this.options.mode === 'top-settings-size') {
+      candidate.sizeBytes = (integration.settingsProfile || profileSettings(integration.settings)).sizeBytes;
+      this.largest.push(candidate);
+      if (this.largest.length > this.options.size * 2) {
+        this.trimLargest();
+      }
+      return;
+    }
+
+    const key = this.stratumOf(integration);
+    let reservoir = this.reservoirs.get(key);
+    if (!reservoir) {
+      reservoir = { population: 0, items: [] };
+      this.reservoirs.set(key, reservoir);
+    }
+    reservoir.population++;
+
+    if (reservoir.items.length < this.options.size) {
+      reservoir.items.push(candidate);
+    } else {
+      const slot = Math.floor(this.random() * reservoir.population);
+      if (slot < this.options.size) {
+        reservoir.items[slot] = candidate;
+      }
+    }
+  }
+
+  /**
+   * Consume a batch stream and yield the drawn sample in batches
+   */
+  async *select(batches: AsyncIterable<IntegrationSnapshot[]>, batchSize: number = 100): AsyncGenerator<IntegrationSnapshot[]> {
+    for await (const batch of batches) {
+      batch.forEach(integration => this.add(integration));
+    }
+
+    const sample = this.getSample();
+    console.log(`🎲 Sampled ${sample.length} of ${this.seen} integrations (${this.describe()})`);
+    for (let start = 0; start < sample.length; start += batchSize) {
+      yield sample.slice(start, start + batchSize);
+    }
+  }
+
+  getSample(): IntegrationSnapshot[] {
+    if (!this.selected) {
+      this.selected = this.draw();
+    }
+    return this.selected.map(candidate => candidate.integration);
+  }
+
+  /**
+   * Stratum an integration belongs to ("all" unless sampling is stratified)
+   */
+  stratumOf(integration: IntegrationSnapshot): string {
+    switch (this.options.mode === 'stratified' ? this.options.stratifyBy || 'edition' : undefined) {
+      case 'edition':
+        return integration.licenseEdition || 'unknown';
+      case 'version':
+        return integration.version || 'unknown';
+      case 'storeCount':
+        return integration.storeCount !== undefined && integration.storeCount !== null ? String(integration.storeCount) : 'unknown';
+      default:
+        return ALL_STRATUM;
+    }
+  }
+
+  /**
+   * Tally the corruption types detected on a sampled integration
+   */
+  recordOutcome(integration: IntegrationSnapshot, corruptionTypes: string[]): void {
+    const key = this.stratumOf(integration);
+    const outcome = this.outcomes.get(key) || { recorded: 0, corrupted: 0, byType: new Map<string, number>() };
+    this.outcomes.set(key, outcome);
+    outcome.recorded++;
+
+    if (corruptionTypes.length > 0) {
+      outcome.corrupted++;
+    }
+    for (const type of new Set(corruptionTypes)) {
+      outcome.byType.set(type, (outcome.byType.get(type) || 0) + 1);
+    }
+  }
+
+  getRecord(): SampleRecord {
+    const sample = this.getSample();
+    return {
+      mode: this.options.mode,
+      size: this.options.size,
+      seed: this.seed,
+      stratifyBy: this.options.stratifyBy,
+      populationSize: this.seen,
+      sampleSize: sample.length,
+      strata: this.strata.map(stratum => ({ ...stratum })),
+      integrationIds: sample.map(integration => integration.id),
+      selectedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Extrapolate the recorded outcomes to the population; top-N is not a probability sample, so it has none.
+   * Only sampled integrations with a recorded outcome count as sampled, so ones that were quarantined or
+   * failed detection do not count as clean.
+   */
+  getEstimates(): SampleEstimates | undefined {
+    if (this.options.mode === 'top-settings-size') {
+      return undefined;
+    }
+    this.getSample();
+    const strata = this.strata.map(stratum => ({ ...stratum, sampled: Math.min(stratum.sampled, this.outcomes.get(stratum.key)?.recorded || 0) }));
+    const recorded = strata.reduce((sum, stratum) => sum + stratum.sampled, 0);
+
+    const count = (select: (outcome: StratumOutcome) => number) => {
+      const hits: Record<string, number> = {};
+      for (const [key, outcome] of this.outcomes) {
+        hits[key] = select(outcome);
+      }
+      return hits;
+    };
+    const types = new Set(Array.from(this.outcomes.values()).flatMap(outcome => Array.from(outcome.byType.keys())));
+
+    const byCorruptionType: Record<string, ProportionEstimate> = {};
+    for (const type of Array.from(types).sort()) {
+      byCorruptionType[type] = estimateProportion(strata, count(outcome => outcome.byType.get(type) || 0));
+    }
+
+    return {
+      confidence: CONFIDENCE,
+      populationSize: this.seen,
+      sampleSize: this.selected!.length,
+      excludedCount: this.selected!.length - recorded,
+      corruptionRate: estimateProportion(strata, count(outcome => outcome.corrupted)),
+      byCorruptionType
+    };
+  }
+
+  describe(): string {
+    switch (this.options.mode) {
+      case 'top-settings-size':
+        return `top ${this.options.size} by settings size`;
+      case 'stratified':
+        return `stratified by ${this.options.stratifyBy || 'edition'}, seed ${this.seed}`;
+      default:
+        return `random, seed ${this.seed}`;
+    }
+  }
+
+  private draw(): Candidate[] {
+    if (this.options.mode === 'top-settings-size') {
+      this.trimLargest();
+      const selected = this.largest.slice(0, this.options.size);
+      this.strata = [{ key: ALL_STRATUM, population: this.seen, sampled: selected.length }];
+      return selected;
+    }
+
+    const allocation = this.allocate();
+    const selected: Candidate[] = [];
+    this.strata = [];
+
+    for (const [key, reservoir] of Array.from(this.reservoirs.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      const take = allocation.get(key) || 0;
+      // A reservoir is a uniform subset of its stratum, so a uniform subset of it is too
+      const items = [...reservoir.items];
+      for (let i = 0; i < take; i++) {
+        const j = i + Math.floor(this.random() * (items.length - i));
+        [items[i], items[j]] = [items[j], items[i]];
+      }
+      selected.push(...items.slice(0, take));
+      this.strata.push({ key, population: reservoir.population, sampled: take });
+    }
+
+    return selected.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Sample size per stratum: proportional to the population (largest remainder), then one
+   * integration moved to every stratum left empty, from the largest allocations, when the size allows it
+   */
+  private allocate(): Map<string, number> {
+    const allocation = new Map<string, number>();
+    const entries = Array.from(this.reservoirs.entries());
+    if (this.seen <= this.options.size) {
+      entries.forEach(([key, reservoir]) => allocation.set(key, reservoir.population));
+      return allocation;
+    }
+
+    const quotas = entries.map(([key, reservoir]) => {
+      const quota = (this.options.size * reservoir.population) / this.seen;
+      return { key, whole: Math.floor(quota), fraction: quota - Math.floor(quota) };
+    });
+    let leftover = this.options.size - quotas.reduce((sum, quota) => sum + quota.whole, 0);
+    quotas.sort((a, b) => b.fraction - a.fraction || a.key.localeCompare(b.key));
+    for (const quota of quotas) {
+      const extra = leftover > 0 ? 1 : 0;
+      leftover -= extra;
+      allocation.set(quota.key, quota.whole + extra);
+    }
+
+    if (this.options.size >= entries.length) {
+      for (const [key] of entries) {
+        if (allocation.get(key) === 0) {
+          const [donor] = Array.from(allocation.entries()).sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+          allocation.set(donor[0], donor[1] - 1);
+          allocation.set(key, 1);
+        }
+      }
+    }
+
+    return allocation;
+  }
+
+  private trimLargest(): void {
+    this.largest.sort((a, b) => b.sizeBytes! - a.sizeBytes! || a.index - b.index);
+    this.largest.length = Math.min(this.largest.length, this.options.size);
+  }
+}
+
+/**
+ * Population proportion from a (stratified) sample with a 95% Wilson score interval
+ * Strata are weighted by population; the interval uses the effective sample size, which
+ * accounts for stratification and the finite population correction (a census has no width).
+ * Strata without a sampled integration are left out of the rate.
+ */
+export function estimateProportion(strata: SampleStratum[], hits: Record<string, number>): ProportionEstimate {
+  const sampledStrata = strata.filter(stratum => stratum.sampled > 0);
+  const population = sampledStrata.reduce((sum, stratum) => sum + stratum.population, 0);
+  const totalPopulation = strata.reduce((sum, stratum) => sum + stratum.population, 0);
+  const sampleCount = sampledStrata.reduce((sum, stratum) => sum + (hits[stratum.key] || 0), 0);
+
+  if (population === 0) {
+    return { sampleCount: 0, rate: 0, lower: 0, upper: 0, estimatedCount: 0, estimatedCountLower: 0, estimatedCountUpper: 0 };
+  }
+
+  let rate = 0;
+  let variance = 0;
+  let pooledEffectiveSize = 0;
+  for (const stratum of sampledStrata) {
+    const weight = stratum.population / population;
+    const stratumRate = (hits[stratum.key] || 0) / stratum.sampled;
+    const fpc = stratum.population > 1 ? (stratum.population - stratum.sampled) / (stratum.population - 1) : 0;
+
+    rate += weight * stratumRate;
+    variance += (weight ** 2) * (stratumRate * (1 - stratumRate) / stratum.sampled) * fpc;
+    pooledEffectiveSize += fpc > 0 ? stratum.sampled / fpc : Infinity;
+  }
+
+  // With no within-stratum variance (all-or-nothing strata) fall back to the pooled sample size
+  const effectiveSize = variance > 0 ? (rate * (1 - rate)) / variance : pooledEffectiveSize;
+  const zSquared = Z_95 ** 2;
+  const denominator = 1 + zSquared / effectiveSize;
+  const centre = (rate + zSquared / (2 * effectiveSize)) / denominator;
+  const margin = (Z_95 / denominator) * Math.sqrt(rate * (1 - rate) / effectiveSize + zSquared / (4 * effectiveSize ** 2));
+  const lower = Math.max(0, centre - margin);
+  const upper = Math.min(1, centre + margin);
+
+  return {
+    sampleCount,
+    rate: round(rate),
+    lower: round(lower),
+    upper: round(upper),
+    estimatedCount: Math.round(rate * totalPopulation),
+    estimatedCountLower: Math.floor(lower * totalPopulation),
+    estimatedCountUpper: Math.ceil(upper * totalPopulation)
+  };
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so a seed reproduces the same sample
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
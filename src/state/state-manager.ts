@@ -8,6 +8,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { Database } from 'sqlite3';
 import { open } from 'sqlite';
+import { HeaderFingerprintStore, TierHeaderFingerprint } from '../csv/schema-drift';
 
 export interface ProcessedIntegration {
   integrationId: string;
@@ -30,7 +31,7 @@ export interface StateQuery {
   limit?: number;
 }
 
-export class StateManager {
+export class StateManager implements HeaderFingerprintStore {
   private dbPath: string;
   private db: any = null;
   private initialized = false;
@@ -328,6 +329,42 @@ export class StateManager {
     return summary;
   }
 
+  /**
+   * Get the stored CSV header fingerprint of a tier
+   */
+  async getHeaderFingerprint(tier: string): Promise<TierHeaderFingerprint | undefined> {
+    await this.ensureInitialized();
+
+    const rows = await this.db.all(`
+      SELECT file, columns, hash, recordedAt
+      FROM csv_header_fingerprints
+      WHERE tier = ?
+      ORDER BY file
+    `, [tier]);
+
+    if (rows.length === 0) return undefined;
+
+    return {
+      tier,
+      files: rows.map((row: any) => ({ file: row.file, columns: JSON.parse(row.columns), hash: row.hash })),
+      recordedAt: rows.reduce((latest: string, row: any) => row.recordedAt > latest ? row.recordedAt : latest, '')
+    };
+  }
+
+  /**
+   * Record the CSV header fingerprint of a tier
+   */
+  async saveHeaderFingerprint(fingerprint: TierHeaderFingerprint): Promise<void> {
+    await this.ensureInitialized();
+
+    for (const file of fingerprint.files) {
+      await this.db.run(`
+        INSERT OR REPLACE INTO csv_header_fingerprints (tier, file, columns, hash, recordedAt)
+        VALUES (?, ?, ?, ?, ?)
+      `, [fingerprint.tier, file.file, JSON.stringify(file.columns), file.hash, fingerprint.recordedAt]);
+    }
+  }
+
   /**
    * Create database tables
    */
@@ -352,6 +389,15 @@ export class StateManager {
       CREATE INDEX IF NOT EXISTS idx_operator ON processed_integrations(operatorId);
       CREATE INDEX IF NOT EXISTS idx_session ON processed_integrations(sessionId);
       CREATE INDEX IF NOT EXISTS idx_status ON processed_integrations(processingStatus);
+
+      CREATE TABLE IF NOT EXISTS csv_header_fingerprints (
+        tier TEXT NOT NULL,
+        file TEXT NOT NULL,
+        columns TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        recordedAt TEXT NOT NULL,
+        PRIMARY KEY (tier, file)
+      );
     `);
   }
 
@@ -13,6 +13,16 @@ export interface IntegrationSnapshot {
   exports: ExportResource[];
   flows: FlowResource[];
   connections: ConnectionResource[];
+  settingsProfile?: SettingsProfile; // Raw settings blob as ingested
+  tier?: string; // Tier the snapshot was read from (multi-tier runs)
+  quarantined?: boolean; // Row failed data-quality checks; profiled and reported, never audited or remediated
+}
+
+export interface SettingsProfile {
+  sizeBytes: number;
+  depth: number;
+  keyCount: number;
+  parseStatus: 'parsed' | 'missing' | 'invalid_json' | 'not_object';
 }
 
 export interface Settings {
@@ -26,6 +36,8 @@ export interface ImportResource {
   _id: string;
   name: string;
   type: string;
+  createdAt?: string; // ISO timestamps, when the source records them
+  lastModified?: string;
 }
 
 export interface ExportResource {
@@ -34,12 +46,18 @@ export interface ExportResource {
   _id: string;
   name: string;
   type: string;
+  createdAt?: string;
+  lastModified?: string;
 }
 
 export interface FlowResource {
   _id: string;
   name: string;
   type: string;
+  importIds?: string[]; // Imports the flow runs, when the source records them
+  exportIds?: string[]; // Exports the flow runs, when the source records them
+  createdAt?: string;
+  lastModified?: string;
 }
 
 export interface ConnectionResource {
@@ -110,6 +128,7 @@ export interface RuleBasedAuditResult {
   edition: string;
   corruptionEvents: any[];
   overallSeverity: 'low' | 'medium' | 'high' | 'critical';
+  riskScore: number; // Weighted 0-100 score from the business rules' riskScoring model
   fixable: boolean;
   estimatedFixTime: number;
   rulesApplied: string[];
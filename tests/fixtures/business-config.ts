@@ -2,6 +2,126 @@
  * Test fixtures for business configuration
  */
 
+export const testDetectionRules = [
+  {
+    name: 'incorrect-import-count',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasIncorrectImportCount', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'incorrect-import-count', resourceType: 'import', severity: 'medium', priority: 5, fixAction: 'adjust-import-count' }
+    }
+  },
+  {
+    name: 'incorrect-export-count',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasIncorrectExportCount', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'incorrect-export-count', resourceType: 'export', severity: 'medium', priority: 5, fixAction: 'adjust-export-count' }
+    }
+  },
+  {
+    name: 'incorrect-flow-count',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasIncorrectFlowCount', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'incorrect-flow-count', resourceType: 'flow', severity: 'medium', priority: 5, fixAction: 'adjust-flow-count' }
+    }
+  },
+  {
+    name: 'license-edition-mismatch',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasLicenseEditionMismatch', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'license-edition-mismatch', resourceType: 'setting', severity: 'medium', priority: 4, fixAction: 'fix-license-mismatch' }
+    }
+  },
+  {
+    name: 'missing-properties',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasMissingProperties', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'missing-properties', resourceType: 'setting', severity: 'high', priority: 7, fixAction: 'add-missing-properties' }
+    }
+  },
+  {
+    name: 'offline-connections',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasOfflineConnections', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'offline-connections', resourceType: 'connection', severity: 'high', priority: 6, fixAction: 'reconnect-connections' }
+    }
+  },
+  {
+    name: 'stuck-in-update-process',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'inUpdateProcess', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'stuck-in-update-process', resourceType: 'setting', severity: 'high', priority: 3, fixAction: 'clear-update-flag' }
+    }
+  },
+  {
+    name: 'orphaned-connections',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasOrphanedConnections', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'orphaned-connections', resourceType: 'connection', severity: 'low', priority: 8, fixAction: 'remove-orphaned-connections' }
+    }
+  },
+  {
+    name: 'dangling-connection-references',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasDanglingConnectionReferences', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'dangling-connection-references', resourceType: 'connection', severity: 'high', priority: 2, fixAction: 'relink-connections' }
+    }
+  },
+  {
+    name: 'unresolved-flow-references',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasUnresolvedFlowReferences', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'unresolved-flow-references', resourceType: 'flow', severity: 'medium', priority: 4, fixAction: 'disable-flows' }
+    }
+  },
+  {
+    name: 'store-resource-gaps',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasStoreResourceGaps', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'store-resource-gaps', resourceType: 'store', severity: 'high', priority: 3, fixAction: 'create-store-resources' }
+    }
+  },
+  {
+    name: 'storemap-mismatch',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasStoreCountMismatch', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'storemap-mismatch', resourceType: 'setting', severity: 'medium', priority: 4, fixAction: 'align-store-count' }
+    }
+  },
+  {
+    name: 'settings-schema-violation',
+    enabled: true,
+    conditions: { all: [{ fact: 'integration', operator: 'hasSettingsSchemaViolations', value: true }] },
+    event: {
+      type: 'corruption-detected',
+      params: { corruptionType: 'settings-schema-violation', resourceType: 'setting', severity: 'medium', priority: 3, fixAction: 'apply-schema-defaults' }
+    }
+  }
+];
+
 export const testBusinessConfig = {
   product: 'shopify-netsuite',
   version: '1.51.0',
@@ -91,6 +211,20 @@ export const testBusinessConfig = {
     severity: 'high'
   },
 
+  referenceIntegrityRules: {
+    detectOrphanedConnections: true,
+    detectDanglingConnectionReferences: true,
+    detectUnresolvedFlowReferences: true,
+    settingsConnectionFields: ['commonresources.netsuiteConnectionId']
+  },
+
+  storeValidationRules: {
+    detectStoreResourceGaps: true,
+    detectStoreCountMismatch: true,
+    storeConnectionFields: ['shopifyConnectionId'],
+    ignoreEmptyStoremap: true
+  },
+
   updateProcessRules: {
     updateInProgressField: 'updateInProgress',
     updateInProgressValues: [true, 'true', '1', 1],
@@ -102,6 +236,8 @@ export const testBusinessConfig = {
     resourceCountTolerance: 0
   },
 
+  detectionRules: testDetectionRules,
+
   metadata: {
     businessOwner: 'Test Team',
     technicalOwner: 'Test Development Team',
@@ -163,6 +299,37 @@ export const testRemediationConfig = {
       reason: 'Clear stuck update flag',
       priority: 3,
       rollbackable: true
+    },
+
+    orphanedConnections: {
+      skipOnline: true,
+      reason: 'Remove orphaned connection {connectionId} ({connectionName})'
+    },
+
+    danglingConnectionReferences: {
+      targetPath: 'connectionId',
+      reason: 'Relink {resourceType} {resourceId} from {oldValue} to {newValue}',
+      manualReason: 'Relink {resourceType} {resourceId} from {oldValue} manually'
+    },
+
+    unresolvedFlowReferences: {
+      targetPath: 'disabled',
+      value: true,
+      reason: 'Disable flow {flowId} ({referenceCount} unresolved references)'
+    },
+
+    storeResourceGaps: {
+      reason: 'Create {externalId} {resourceType} for store {storeNumber} ({storeName})'
+    },
+
+    storemapMismatch: {
+      targetPath: 'storeCount',
+      reason: 'Update storeCount {oldValue} → {newValue}'
+    },
+
+    settingsSchemaViolation: {
+      removeUnexpectedKeys: false,
+      reason: 'Apply schema default at {path} ({violationType}): {oldValue} → {newValue}'
     }
   },
 
@@ -180,6 +347,54 @@ export const testRemediationConfig = {
       maxDestructiveActions: 20,
       requireConfirmationAbove: 50,
       allowConcurrentExecution: false
+    },
+    dependencies: {
+      enabled: true,
+      rules: [
+        {
+          name: 'flows-after-adaptors',
+          action: { type: 'create', resourceType: 'flow' },
+          after: [{ type: 'create', resourceType: ['import', 'export'] }],
+          join: [{ action: 'payload.diff.storeId', after: 'payload.diff.storeId' }]
+        },
+        {
+          name: 'adaptors-after-reconnect',
+          action: { type: 'create', resourceType: ['import', 'export'] },
+          after: [{ type: 'reconnect', resourceType: 'connection' }],
+          join: [{ action: 'payload.diff.creationTemplate.connectionId', after: 'target.resourceId' }]
+        },
+        {
+          name: 'relinks-after-reconnect',
+          action: { type: 'patch', resourceType: ['import', 'export'] },
+          after: [{ type: 'reconnect', resourceType: 'connection' }],
+          join: [{ action: 'payload.after', after: 'target.resourceId' }]
+        }
+      ]
+    },
+    conflictResolution: {
+      enabled: true,
+      precedence: [
+        {
+          name: 'license-edition-over-defaults',
+          prefer: { corruptionType: 'license-edition-mismatch' },
+          over: { corruptionType: ['missing-properties', 'settings-schema-violation'] }
+        },
+        {
+          name: 'schema-defaults-over-property-defaults',
+          prefer: { corruptionType: 'settings-schema-violation' },
+          over: { corruptionType: 'missing-properties' }
+        },
+        {
+          name: 'reconnect-over-orphan-delete',
+          prefer: { type: 'reconnect' },
+          over: { type: 'delete', resourceType: 'connection' }
+        },
+        {
+          name: 'duplicate-delete-over-relink',
+          prefer: { type: 'delete', resourceType: ['import', 'export'] },
+          over: { type: 'patch', resourceType: ['import', 'export'] }
+        }
+      ]
     }
   },
 
@@ -3,6 +3,12 @@
  */
 
 import { IntegrationSnapshot } from '../../src/types';
+import { getRequiredResources } from '../../src/rules/generic-operators';
+import { testBusinessConfig } from './business-config';
+
+// Valid fixtures name their first resources after the edition's required lists
+const requiredName = (edition: string, resourceType: 'imports' | 'exports' | 'flows', i: number): string | undefined =>
+  getRequiredResources(edition, resourceType, testBusinessConfig.editionRequirements)[i];
 
 export const validIntegrationSnapshot: IntegrationSnapshot = {
   id: 'test-integration-001',
@@ -182,18 +188,19 @@ export const validStarterIntegration: IntegrationSnapshot = {
   storeCount: 1,
   settings: {
     ...validIntegrationSnapshot.settings,
-    connectorEdition: 'starter'
+    connectorEdition: 'starter',
+    storemap: [{ storeId: 'store1', name: 'Store 1' }]
   },
   // Correct counts for starter edition: 16 imports, 19 exports, 16 flows
   imports: Array.from({ length: 16 }, (_, i) => ({
-    externalId: `starter-import-${i + 1}`,
+    externalId: requiredName('starter', 'imports', i) ?? `starter-import-${i + 1}`,
     connectionId: 'conn-1',
     _id: `starter-imp-${i + 1}`,
     name: `Starter Import ${i + 1}`,
     type: 'import' as const
   })),
   exports: Array.from({ length: 19 }, (_, i) => ({
-    externalId: `starter-export-${i + 1}`,
+    externalId: requiredName('starter', 'exports', i) ?? `starter-export-${i + 1}`,
     connectionId: 'conn-1',
     _id: `starter-exp-${i + 1}`,
     name: `Starter Export ${i + 1}`,
@@ -201,7 +208,7 @@ export const validStarterIntegration: IntegrationSnapshot = {
   })),
   flows: Array.from({ length: 16 }, (_, i) => ({
     _id: `starter-flow-${i + 1}`,
-    name: `Starter Flow ${i + 1}`,
+    name: requiredName('starter', 'flows', i) ?? `Starter Flow ${i + 1}`,
     type: 'flow' as const
   }))
 };
@@ -213,18 +220,19 @@ export const validShopifyMarketsIntegration: IntegrationSnapshot = {
   storeCount: 1,
   settings: {
     ...validIntegrationSnapshot.settings,
-    connectorEdition: 'shopifymarkets'
+    connectorEdition: 'shopifymarkets',
+    storemap: [{ storeId: 'store1', name: 'Store 1' }]
   },
   // Correct counts for shopify markets edition: 34 imports, 32 exports, 27 flows
   imports: Array.from({ length: 34 }, (_, i) => ({
-    externalId: `markets-import-${i + 1}`,
+    externalId: requiredName('shopifymarkets', 'imports', i) ?? `markets-import-${i + 1}`,
     connectionId: 'conn-1',
     _id: `markets-imp-${i + 1}`,
     name: `Markets Import ${i + 1}`,
     type: 'import' as const
   })),
   exports: Array.from({ length: 32 }, (_, i) => ({
-    externalId: `markets-export-${i + 1}`,
+    externalId: requiredName('shopifymarkets', 'exports', i) ?? `markets-export-${i + 1}`,
     connectionId: 'conn-1',
     _id: `markets-exp-${i + 1}`,
     name: `Markets Export ${i + 1}`,
@@ -232,7 +240,7 @@ export const validShopifyMarketsIntegration: IntegrationSnapshot = {
   })),
   flows: Array.from({ length: 27 }, (_, i) => ({
     _id: `markets-flow-${i + 1}`,
-    name: `Markets Flow ${i + 1}`,
+    name: requiredName('shopifymarkets', 'flows', i) ?? `Markets Flow ${i + 1}`,
     type: 'flow' as const
   }))
 };
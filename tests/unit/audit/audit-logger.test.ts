@@ -552,6 +552,39 @@ describe('AuditLogger', () => {
       expect(rollbackActions).toHaveLength(2);
       expect(rollbackActions.every(a => a.metadata.rollbackable === false)).toBe(true);
     });
+
+    it('should roll back JSON Patch actions with their exact inverse', async () => {
+      const patchEntry = (id: string, timestamp: string, patch: any[]) => ({
+        id,
+        timestamp,
+        operatorId: 'test-operator',
+        sessionId: 'test-session',
+        integrationId: 'integration-rollback',
+        action: { type: 'patch', target: { resourceType: 'setting', path: 'settings.general' }, patch },
+        execution: { planId: 'plan-rollback', actionId: id, status: 'success' },
+        rollback: { available: true }
+      });
+      jest.spyOn(auditLogger, 'queryLogs').mockResolvedValue([
+        patchEntry('added-property', '2025-01-01T12:05:00.000Z', [{ op: 'add', path: '/settings/general', value: { timezone: 'UTC' } }]),
+        patchEntry('unguarded', '2025-01-01T12:06:00.000Z', [{ op: 'replace', path: '/settings/connectorEdition', value: 'premium' }])
+      ] as any);
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const rollbackActions = await auditLogger.generateRollbackActions(
+        'integration-rollback',
+        '2025-01-01T12:04:00.000Z',
+        '2025-01-01T12:07:00.000Z'
+      );
+
+      expect(rollbackActions).toHaveLength(1);
+      expect(rollbackActions[0].type).toBe('patch');
+      expect(rollbackActions[0].payload.patch).toEqual([
+        { op: 'test', path: '/settings/general', value: { timezone: 'UTC' } },
+        { op: 'remove', path: '/settings/general' }
+      ]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('cannot roll back unguarded'));
+      warn.mockRestore();
+    });
   });
 
   describe('audit statistics', () => {
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for business rules configuration loading and schema validation
+ */
+
+import { ConfigurationManager } from '../../../src/config/configuration-manager';
+import { testBusinessConfig } from '../../fixtures/business-config';
+import * as path from 'path';
+
+describe('ConfigurationManager', () => {
+  const configManager = new ConfigurationManager(path.join(__dirname, '../../../config'));
+
+  it('should validate every configuration file in the repository', async () => {
+    const results = await configManager.validateAllConfigurations();
+
+    expect(results.length).toBeGreaterThan(0);
+    results.forEach(result => expect(result).toEqual(expect.objectContaining({ valid: true, errors: [] })));
+  });
+
+  it('should load detection rules with the product configuration', async () => {
+    const config = await configManager.loadConfiguration('shopify-netsuite', '1.51.0');
+
+    expect(config.detectionRules!.map(rule => rule.name)).toEqual(testBusinessConfig.detectionRules!.map(rule => rule.name));
+  });
+
+  it('should report schema violations in detection rules', async () => {
+    const [rule] = testBusinessConfig.detectionRules!;
+    const errors = await configManager.validateAgainstSchema({
+      ...testBusinessConfig,
+      detectionRules: [{ ...rule, event: { ...rule.event, params: { ...rule.event.params, severity: 'urgent' } } }]
+    });
+
+    expect(errors).toEqual([expect.stringContaining('/detectionRules/0/event/params/severity')]);
+  });
+});
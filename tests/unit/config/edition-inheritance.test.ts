@@ -0,0 +1,44 @@
+/**
+ * Unit tests for edition inheritance resolution
+ */
+
+import { resolveEditionRequirements } from '../../../src/config/edition-inheritance';
+import { testBusinessConfig } from '../../fixtures/business-config';
+
+describe('resolveEditionRequirements', () => {
+  it('should resolve the full chain of an inheriting edition', () => {
+    const resolved = resolveEditionRequirements(testBusinessConfig.editionRequirements);
+    const markets = resolved['shopifymarkets'];
+
+    expect(markets.inheritanceChain).toEqual(['shopifymarkets', 'premium', 'standard', 'starter']);
+    expect(markets.perStore.imports).toEqual({ value: 34, declaredBy: 'shopifymarkets' });
+    expect(markets.required.imports).toEqual(expect.arrayContaining(resolved['premium'].required.imports));
+    expect(markets.nameSources.imports[resolved['starter'].required.imports[0]]).toBe('starter');
+  });
+
+  it('should derive counts that an inheriting edition leaves out', () => {
+    const resolved = resolveEditionRequirements({
+      standard: { importsPerStore: 2, exportsPerStore: 1, flowsPerStore: 1, requiredImports: ['orders', 'customers'] },
+      premium: { inheritsFrom: 'standard', flowsPerStore: 3, additionalImports: ['refunds', 'orders'] }
+    });
+
+    expect(resolved['premium'].perStore.imports).toEqual({ value: 3, inheritedFrom: 'standard', added: 1 });
+    expect(resolved['premium'].perStore.flows).toEqual({ value: 3, declaredBy: 'premium' });
+    expect(resolved['premium'].required.imports).toEqual(['orders', 'customers', 'refunds']);
+    expect(resolved['premium'].nameSources.imports).toEqual({ orders: 'standard', customers: 'standard', refunds: 'premium' });
+  });
+
+  it('should reject inheritance cycles', () => {
+    expect(() => resolveEditionRequirements({
+      description: 'Cyclic editions',
+      standard: { inheritsFrom: 'premium' },
+      premium: { inheritsFrom: 'standard' }
+    })).toThrow('Edition inheritance cycle: standard → premium → standard');
+  });
+
+  it('should reject unknown parent editions', () => {
+    expect(() => resolveEditionRequirements({
+      premium: { inheritsFrom: 'enterprise' }
+    })).toThrow("Edition 'premium' inherits from unknown edition 'enterprise'");
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the versioned resource template library
+ */
+
+import {
+  renderResourceTemplate,
+  ResourceTemplateLibrary,
+  ResourceTemplateSet,
+  substituteVariables
+} from '../../../src/config/resource-templates';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const configDir = path.join(__dirname, '../../../config');
+
+const integration = {
+  id: 'int-001',
+  settings: {
+    commonresources: { netsuiteConnectionId: 'conn-ns', nsUtilImportAdaptorId: 'imp-util', nsUtilImportAdaptorApiIdentifier: 'api-util' },
+    storemap: [{ storeId: 'store-1', name: 'Main', shopifyConnectionId: 'conn-shop-1' }]
+  }
+};
+
+describe('ResourceTemplateLibrary', () => {
+  const library = new ResourceTemplateLibrary(
+    path.join(configDir, 'templates'),
+    path.join(configDir, 'schemas', 'resource-template-schema.json')
+  );
+
+  it('should render a ready-to-apply import from the repository templates', async () => {
+    const set = (await library.loadTemplateSet('shopify-netsuite', '1.51.0'))!;
+    const rendered = renderResourceTemplate(set, 'import', 'shopify_netsuite_order_import_adaptor', {
+      integration,
+      store: integration.settings.storemap[0]
+    });
+
+    expect(rendered.errors).toEqual([]);
+    expect(rendered.payload).toEqual(expect.objectContaining({
+      externalId: 'shopify_netsuite_order_import_adaptor',
+      type: 'import',
+      _integrationId: 'int-001',
+      storeId: 'store-1',
+      connectionId: 'conn-ns',
+      nsUtil: { adaptorId: 'imp-util', apiIdentifier: 'api-util' }
+    }));
+    expect(rendered.templateSource).toMatch(/shopify-netsuite\/1\.51\.0\/imports\.json#shopify_netsuite_order_import_adaptor$/);
+  });
+
+  it('should have a template for every adaptor an edition requires', async () => {
+    for (const set of await library.listTemplateSets()) {
+      const [product, version] = set.split('@');
+      const templates = (await library.loadTemplateSet(product, version))!;
+      const rules = JSON.parse(fs.readFileSync(path.join(configDir, 'products', product, `${version}-business-rules.json`), 'utf-8'));
+
+      for (const requirements of Object.values<any>(rules.editionRequirements).filter(value => typeof value === 'object')) {
+        for (const [type, key] of [['import', 'Imports'], ['export', 'Exports'], ['flow', 'Flows']] as const) {
+          for (const externalId of [...(requirements[`required${key}`] || []), ...(requirements[`additional${key}`] || [])]) {
+            expect(`${set} ${type} ${externalId}: ${!!templates.files[type]?.resources[externalId]}`).toBe(`${set} ${type} ${externalId}: true`);
+          }
+        }
+      }
+    }
+  });
+
+  it('should return undefined for product versions without templates', async () => {
+    expect(await library.loadTemplateSet('shopify-netsuite', '0.1.0')).toBeUndefined();
+  });
+});
+
+describe('renderResourceTemplate', () => {
+  const set: ResourceTemplateSet = {
+    product: 'shopify-netsuite',
+    version: '1.51.0',
+    directory: 'templates',
+    variables: {
+      integrationId: 'integration.id',
+      storeId: ['store.storeId', 'store.id'],
+      shopifyConnectionId: ['store.shopifyConnectionId', 'settings.general.shopifyConnectionId']
+    },
+    files: {
+      export: {
+        defaults: { type: 'export', _integrationId: '{{integrationId}}', storeId: '{{storeId?}}', options: { batchSize: 100, retries: 3 } },
+        resources: { orders_export: { name: 'Orders', connectionId: '{{shopifyConnectionId}}', options: { batchSize: 50 } } }
+      }
+    },
+    validators: {}
+  };
+
+  it('should merge defaults with the resource entry and drop unresolved optional variables', () => {
+    const rendered = renderResourceTemplate(set, 'export', 'orders_export', {
+      integration: { id: 'int-001', settings: { general: { shopifyConnectionId: 'conn-shop' } } }
+    });
+
+    expect(rendered.errors).toEqual([]);
+    expect(rendered.payload).toEqual({
+      type: 'export',
+      _integrationId: 'int-001',
+      options: { batchSize: 50, retries: 3 },
+      name: 'Orders',
+      connectionId: 'conn-shop',
+      externalId: 'orders_export'
+    });
+  });
+
+  it('should report unresolved required variables', () => {
+    const rendered = renderResourceTemplate(set, 'export', 'orders_export', { integration: { id: 'int-001' } });
+
+    expect(rendered.payload.connectionId).toBe('{{shopifyConnectionId}}');
+    expect(rendered.errors).toEqual(['unresolved template variable {{shopifyConnectionId}}']);
+  });
+
+  it('should return no payload for resources without a template', () => {
+    expect(renderResourceTemplate(set, 'import', 'orders_export', { integration })).toEqual({ errors: [] });
+  });
+});
+
+describe('substituteVariables', () => {
+  it('should keep the type of whole-string placeholders and interpolate embedded ones', () => {
+    const unresolved = new Set<string>();
+    const result = substituteVariables(
+      { count: '{{count}}', label: 'Store {{name}} ({{region?}})', ids: ['{{count}}', '{{missing?}}'] },
+      { count: 3, name: 'Main' },
+      unresolved
+    );
+
+    expect(result).toEqual({ count: 3, label: 'Store Main ()', ids: [3] });
+    expect([...unresolved]).toEqual([]);
+  });
+});
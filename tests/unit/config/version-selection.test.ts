@@ -0,0 +1,54 @@
+/**
+ * Unit tests for version-based configuration selection
+ */
+
+import {
+  normalizeVersion,
+  selectConfigurationForVersion,
+  validateVersionRanges,
+  VersionCandidate
+} from '../../../src/config/version-selection';
+
+const candidates: VersionCandidate[] = [
+  { product: 'shopify-netsuite', version: '1.51.0', versionRange: '>=1.51.0 <2.0.0', configPath: '1.51.0-business-rules.json' },
+  { product: 'shopify-netsuite', version: '1.60.0', versionRange: '>=1.60.0 <2.0.0', configPath: '1.60.0-business-rules.json' },
+  { product: 'shopify-netsuite', version: '2.0.0', versionRange: '>=2.0.0 <3.0.0', configPath: '2.0.0-business-rules.json' }
+];
+
+describe('selectConfigurationForVersion', () => {
+  it('should select the configuration whose range matches', () => {
+    expect(selectConfigurationForVersion(candidates, '1.52.3')?.version).toBe('1.51.0');
+    expect(selectConfigurationForVersion(candidates, '2.4.0')?.version).toBe('2.0.0');
+  });
+
+  it('should prefer the highest configuration version among overlapping ranges', () => {
+    expect(selectConfigurationForVersion(candidates, '1.61.0')?.version).toBe('1.60.0');
+  });
+
+  it('should fall back to the exact version for configurations without a range', () => {
+    const unranged = [{ product: 'shopify-hubspot', version: '2.0.0', configPath: '2.0.0-business-rules.json' }];
+
+    expect(selectConfigurationForVersion(unranged, 'v2.0')?.version).toBe('2.0.0');
+    expect(selectConfigurationForVersion(unranged, '2.0.1')).toBeUndefined();
+  });
+
+  it('should return undefined when no configuration applies', () => {
+    expect(selectConfigurationForVersion(candidates, '0.9.0')).toBeUndefined();
+    expect(selectConfigurationForVersion(candidates, '')).toBeUndefined();
+  });
+});
+
+describe('normalizeVersion', () => {
+  it('should normalise partial and prefixed versions', () => {
+    expect(normalizeVersion('1.51')).toBe('1.51.0');
+    expect(normalizeVersion('v2.0.3')).toBe('2.0.3');
+    expect(normalizeVersion(undefined)).toBeUndefined();
+  });
+});
+
+describe('validateVersionRanges', () => {
+  it('should report invalid ranges', () => {
+    expect(validateVersionRanges([...candidates, { ...candidates[0], versionRange: 'not a range!' }]))
+      .toEqual(["shopify-netsuite v1.51.0: invalid appliesToVersions range 'not a range!'"]);
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { CSVProcessor } from '../../../src/csv/csv-processor';
+import { writeQuarantineFiles } from '../../../src/csv/data-quality';
 import { csvTestData } from '../../fixtures/csv-data';
 import { testUtils } from '../../setup';
 import * as fs from 'fs/promises';
@@ -169,6 +170,48 @@ describe('CSVProcessor', () => {
     });
   });
 
+  describe('streaming ingestion', () => {
+    it('should stream integrations in batches of batchSize', async () => {
+      const tierDir = path.join(testDir, 'tier1');
+      await fs.mkdir(tierDir, { recursive: true });
+
+      await testUtils.createTestFile(path.join(tierDir, 'integrations.csv'), csvTestData.sample.integrations);
+      await testUtils.createTestFile(path.join(tierDir, 'imports.csv'), csvTestData.sample.imports);
+      await testUtils.createTestFile(path.join(tierDir, 'exports.csv'), csvTestData.sample.exports);
+      await testUtils.createTestFile(path.join(tierDir, 'flows.csv'), csvTestData.sample.flows);
+      await testUtils.createTestFile(path.join(tierDir, 'connections.csv'), csvTestData.sample.connections);
+
+      const batchSizes: number[] = [];
+      const ids: string[] = [];
+
+      for await (const batch of processor.streamIntegrations({ inputDirectory: testDir, tier: 'tier1', batchSize: 2 })) {
+        batchSizes.push(batch.length);
+        ids.push(...batch.map(integration => integration.id));
+      }
+
+      expect(batchSizes).toEqual([2, 1]);
+      expect(ids).toEqual(['test-001', 'test-002', 'test-003']);
+    });
+
+    it('should join resources to integrations through the integration index', async () => {
+      const tierDir = path.join(testDir, 'tier1');
+      await fs.mkdir(tierDir, { recursive: true });
+
+      await testUtils.createTestFile(path.join(tierDir, 'integrations.csv'), csvTestData.sample.integrations);
+      await testUtils.createTestFile(path.join(tierDir, 'imports.csv'), csvTestData.sample.imports);
+      await testUtils.createTestFile(path.join(tierDir, 'exports.csv'), csvTestData.sample.exports);
+      await testUtils.createTestFile(path.join(tierDir, 'flows.csv'), csvTestData.sample.flows);
+      await testUtils.createTestFile(path.join(tierDir, 'connections.csv'), csvTestData.sample.connections);
+
+      const result = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'tier1', batchSize: 1 });
+      const byId = Object.fromEntries(result.integrations.map(integration => [integration.id, integration]));
+
+      expect(byId['test-002'].imports.map(imp => imp._id)).toEqual(['imp-003']);
+      expect(byId['test-003'].imports.map(imp => imp._id)).toEqual(['imp-004', 'imp-005']);
+      expect(byId['test-003'].connections.map(conn => conn.offline)).toEqual([false, true]);
+    });
+  });
+
   describe('CSV validation', () => {
     it('should validate CSV headers correctly', async () => {
       const tierDir = path.join(testDir, 'tier1');
@@ -214,6 +257,124 @@ describe('CSVProcessor', () => {
     });
   });
 
+  describe('column-mapping profiles', () => {
+    it('should validate headers against the chosen profile', async () => {
+      const tierDir = path.join(testDir, 'tier1');
+      await fs.mkdir(tierDir, { recursive: true });
+
+      // camelCase export satisfies the default profile but not the uppercase-only tier1 profile
+      await testUtils.createTestFile(
+        path.join(tierDir, 'integrations.csv'),
+        'id,email,version,storeCount,licenseEdition\nint-1,a@example.com,1.0.0,2,premium'
+      );
+      await testUtils.createTestFile(path.join(tierDir, 'imports.csv'), csvTestData.sample.imports);
+      await testUtils.createTestFile(path.join(tierDir, 'exports.csv'), csvTestData.sample.exports);
+      await testUtils.createTestFile(path.join(tierDir, 'flows.csv'), csvTestData.sample.flows);
+      await testUtils.createTestFile(path.join(tierDir, 'connections.csv'), csvTestData.sample.connections);
+
+      const defaultValidation = await processor.validateCSVHeaders({ inputDirectory: testDir, tier: 'tier1' });
+      const tier1Validation = await processor.validateCSVHeaders({ inputDirectory: testDir, tier: 'tier1', csvProfile: 'tier1' });
+
+      expect(defaultValidation.valid).toBe(true);
+      expect(tier1Validation.valid).toBe(false);
+      expect(tier1Validation.issues[0]).toBe('integrations.csv: Missing columns: _ID, EMAIL, VERSION, NUMSTORES, LICENSEEDITION');
+    });
+
+    it('should apply profile type coercions and defaults', async () => {
+      const tierDir = path.join(testDir, 'tier1');
+      await fs.mkdir(tierDir, { recursive: true });
+
+      await testUtils.createTestFile(
+        path.join(tierDir, 'integrations.csv'),
+        'id,email,version,storeCount,licenseEdition\nint-1,a@example.com,1.0.0,3,premium\nint-2,,,not-a-number,'
+      );
+
+      const result = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'tier1' });
+      const [first, second] = result.integrations;
+
+      expect(first.storeCount).toBe(3);
+      expect(first.licenseEdition).toBe('premium');
+      expect(second.storeCount).toBe(1);
+      expect(second.email).toBe('unknown@example.com');
+      expect(second.licenseEdition).toBe('standard');
+      expect(second.updateInProgress).toBe(false);
+    });
+
+    it('should report an unknown profile as a processing error', async () => {
+      const tierDir = path.join(testDir, 'tier1');
+      await fs.mkdir(tierDir, { recursive: true });
+      await testUtils.createTestFile(path.join(tierDir, 'integrations.csv'), csvTestData.sample.integrations);
+
+      const result = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'tier1', csvProfile: 'does-not-exist' });
+
+      expect(result.integrations).toHaveLength(0);
+      expect(result.result.errors[0]).toContain("CSV profile 'does-not-exist' could not be loaded");
+    });
+
+    it('should refuse profile names that leave the profiles directory', async () => {
+      const tierDir = path.join(testDir, 'tier1');
+      await fs.mkdir(tierDir, { recursive: true });
+      await testUtils.createTestFile(path.join(tierDir, 'integrations.csv'), csvTestData.sample.integrations);
+
+      const result = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'tier1', csvProfile: '../../package' });
+
+      expect(result.integrations).toHaveLength(0);
+      expect(result.result.errors[0]).toContain("Invalid CSV profile name '../../package'");
+    });
+  });
+
+  describe('data-quality report', () => {
+    it('should report substituted values and quarantine untrusted rows', async () => {
+      const integrationsCSV = `"_ID","EMAIL","_USERID","VERSION","NUMSTORES","LICENSEEDITION","UPDATEINPROGRESS","SETTINGS"
+"test-good","user1@example.com","user-001","1.51.0","2","premium","false","{""connectorEdition"":""premium""}"
+"test-nan","user2@example.com","user-002","1.51.0","many","starter","false","{""connectorEdition"":""starter""}"
+"test-bad-json","user3@example.com","user-003","1.51.0","1","standard","false","not-json"`;
+      const importsCSV = `"INTEGRATIONID","EXTERNALID","IMPORTID","IMPORTCONNECTIONID"
+"test-good","customer-import","imp-001","conn-001"
+"ghost-integration","orphan-import","imp-002","conn-002"`;
+
+      const tierDir = path.join(testDir, 'tier1');
+      await fs.mkdir(tierDir, { recursive: true });
+
+      await testUtils.createTestFile(path.join(tierDir, 'integrations.csv'), integrationsCSV);
+      await testUtils.createTestFile(path.join(tierDir, 'imports.csv'), importsCSV);
+
+      const result = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'tier1' });
+      const report = result.result.dataQuality!;
+
+      expect(result.integrations.find(integration => integration.id === 'test-nan')!.storeCount).toBe(1);
+      expect(result.integrations.filter(integration => integration.quarantined).map(integration => integration.id)).toEqual(['test-bad-json']);
+      expect(report.issues).toEqual(expect.arrayContaining([
+        expect.objectContaining({ file: 'integrations.csv', row: 2, column: 'NUMSTORES', issueType: 'invalid_type', value: 'many', valueUsed: 1, quarantined: false }),
+        expect.objectContaining({ file: 'integrations.csv', row: 3, column: 'SETTINGS', issueType: 'invalid_json', value: 'not-json', quarantined: true }),
+        expect.objectContaining({ file: 'imports.csv', row: 2, column: 'INTEGRATIONID', issueType: 'orphan_row', value: 'ghost-integration', quarantined: true })
+      ]));
+      expect(report.totalRows).toBe(5);
+      expect(report.rowsWithIssues).toBe(3);
+      expect(report.rowsQuarantined).toBe(2);
+      expect(report.qualityScore).toBe(50);
+    });
+
+    it('should write quarantined rows to one CSV per source file', async () => {
+      const tierDir = path.join(testDir, 'tier1');
+      await fs.mkdir(tierDir, { recursive: true });
+
+      await testUtils.createTestFile(path.join(tierDir, 'integrations.csv'), csvTestData.sample.integrations);
+      await testUtils.createTestFile(
+        path.join(tierDir, 'flows.csv'),
+        `"INTEGRATIONID","EXTERNALID","FLOWID"\n"","unowned-flow","flow-009"`
+      );
+
+      const result = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'tier1' });
+      const quarantineDir = path.join(testDir, 'quarantine');
+      const written = await writeQuarantineFiles(result.result.dataQuality!, quarantineDir);
+
+      expect(written).toEqual([path.join(quarantineDir, 'flows.csv')]);
+      const content = await fs.readFile(written[0], 'utf-8');
+      expect(content).toBe('__row,__reasons,INTEGRATIONID,EXTERNALID,FLOWID\n1,missing_value: INTEGRATIONID,,unowned-flow,flow-009\n');
+    });
+  });
+
   describe('data transformation', () => {
     it('should transform CSV data to integration snapshots correctly', async () => {
       const tierDir = path.join(testDir, 'tier1');
@@ -338,6 +499,8 @@ describe('CSVProcessor', () => {
       // Should fall back to default settings structure
       expect(integration.settings).toBeDefined();
       expect(integration.settings.connectorEdition).toBe('starter');
+      // ...but is marked so detection and remediation skip it
+      expect(integration.quarantined).toBe(true);
     });
   });
 
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for CSV header fingerprints and schema drift
+ */
+
+import { CSVProcessor } from '../../../src/csv/csv-processor';
+import { saveHeaderFingerprints } from '../../../src/csv/schema-drift';
+import { StateManager } from '../../../src/state/state-manager';
+import { csvTestData } from '../../fixtures/csv-data';
+import { testUtils } from '../../setup';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+describe('CSV schema drift', () => {
+  let processor: CSVProcessor;
+  let stateManager: StateManager;
+  let testDir: string;
+
+  beforeEach(async () => {
+    processor = new CSVProcessor();
+    testDir = await testUtils.createTestDir('schema-drift-test');
+    await fs.rm(path.join(testDir, 'tier1'), { recursive: true, force: true });
+    await fs.rm(path.join(testDir, 'state.db'), { force: true });
+    stateManager = new StateManager(path.join(testDir, 'state.db'));
+  });
+
+  afterEach(async () => {
+    await stateManager.close();
+  });
+
+  async function writeDrop(connections: string, flows: string = csvTestData.sample.flows): Promise<void> {
+    const tierDir = path.join(testDir, 'tier1');
+    await testUtils.createTestFile(path.join(tierDir, 'integrations.csv'), csvTestData.sample.integrations);
+    await testUtils.createTestFile(path.join(tierDir, 'imports.csv'), csvTestData.sample.imports);
+    await testUtils.createTestFile(path.join(tierDir, 'exports.csv'), csvTestData.sample.exports);
+    await testUtils.createTestFile(path.join(tierDir, 'flows.csv'), flows);
+    await testUtils.createTestFile(path.join(tierDir, 'connections.csv'), connections);
+  }
+
+  const options = () => ({ inputDirectory: testDir, tier: 'tier1', csvProfile: 'tier1', fingerprintStore: stateManager });
+
+  it('should record the first drop and report no drift when headers are unchanged', async () => {
+    await writeDrop(csvTestData.sample.connections);
+
+    const first = await processor.processCSVFiles(options());
+    const second = await processor.processCSVFiles(options());
+
+    expect(first.result.schemaDrift).toEqual(expect.objectContaining({ hasBaseline: false, blocking: false, entries: [] }));
+    expect(second.result.schemaDrift).toEqual(expect.objectContaining({ hasBaseline: true, blocking: false, entries: [] }));
+    expect((await stateManager.getHeaderFingerprint('tier1'))!.files.map(file => file.file)).toHaveLength(5);
+  });
+
+  it('should report renamed, removed and added columns against the previous drop', async () => {
+    await writeDrop(csvTestData.sample.connections);
+    await processor.processCSVFiles(options());
+
+    await writeDrop(
+      csvTestData.sample.connections.replace('"CONNECTIONOFFLINE"', '"OFFLINE"'),
+      csvTestData.sample.flows.replace('"FLOWID"', '"FLOWID","NOTES"').replace('"EXTERNALID",', '')
+    );
+    const { result } = await processor.processCSVFiles(options());
+
+    expect(result.schemaDrift!.blocking).toBe(true);
+    expect(result.schemaDrift!.entries).toEqual([
+      expect.objectContaining({ file: 'flows.csv', change: 'removed', column: 'EXTERNALID', field: 'name', severity: 'blocking' }),
+      expect.objectContaining({ file: 'flows.csv', change: 'added', column: 'NOTES', severity: 'warning' }),
+      expect.objectContaining({
+        file: 'connections.csv', change: 'renamed', column: 'CONNECTIONOFFLINE', renamedTo: 'OFFLINE', field: 'offline', severity: 'blocking'
+      })
+    ]);
+    expect(result.errors).toContain(
+      'Schema drift: connections.csv: Column CONNECTIONOFFLINE renamed to OFFLINE, which the CSV profile does not map to offline'
+    );
+    expect(result.warnings).toContain('Schema drift: flows.csv: Column NOTES added');
+  });
+
+  it('should keep the baseline after blocking drift so the next drop reports it again', async () => {
+    await writeDrop(csvTestData.sample.connections);
+    await processor.processCSVFiles(options());
+
+    await writeDrop(csvTestData.sample.connections.replace('"CONNECTIONOFFLINE"', '"OFFLINE"'));
+    const first = await processor.processCSVFiles(options());
+    const second = await processor.processCSVFiles(options());
+
+    expect(first.result.schemaDrift!.blocking).toBe(true);
+    expect(first.result.headerFingerprints).toBeUndefined();
+    expect(second.result.schemaDrift!.entries).toEqual(first.result.schemaDrift!.entries);
+  });
+
+  it('should leave the baseline to the caller until the run succeeds', async () => {
+    await writeDrop(csvTestData.sample.connections);
+    const result = processor.createProcessingResult();
+
+    for await (const batch of processor.streamIntegrations(options(), result)) {
+      expect(batch.length).toBeGreaterThan(0);
+    }
+
+    expect(await stateManager.getHeaderFingerprint('tier1')).toBeUndefined();
+    await saveHeaderFingerprints(stateManager, result.headerFingerprints);
+    expect((await stateManager.getHeaderFingerprint('tier1'))!.files).toHaveLength(5);
+  });
+
+  it('should only warn when a renamed column is still mapped by the profile', async () => {
+    await writeDrop(csvTestData.sample.connections);
+    await processor.processCSVFiles({ ...options(), csvProfile: 'default' });
+
+    await writeDrop(csvTestData.sample.connections.replace('"CONNECTIONOFFLINE"', '"offline"'));
+    const drift = await processor.checkSchemaDrift({ ...options(), csvProfile: 'default' }, stateManager);
+
+    expect(drift.blocking).toBe(false);
+    expect(drift.entries).toEqual([
+      expect.objectContaining({ change: 'renamed', column: 'CONNECTIONOFFLINE', renamedTo: 'offline', severity: 'warning' })
+    ]);
+    expect((await stateManager.getHeaderFingerprint('tier1'))!.files.find(file => file.file === 'connections.csv')!.columns)
+      .toContain('CONNECTIONOFFLINE');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for settings size and shape profiling
+ */
+
+import { profileSettings, SettingsProfileAggregator } from '../../../src/csv/settings-profile';
+import { CSVProcessor } from '../../../src/csv/csv-processor';
+import { csvTestData } from '../../fixtures/csv-data';
+import { testUtils } from '../../setup';
+import * as path from 'path';
+
+describe('Settings profiling', () => {
+  it('should measure size, depth, key count and parse status of raw settings', () => {
+    const raw = '{"general":{"a":1,"b":[{"c":true}]},"storemap":[],"connectorEdition":"premium"}';
+
+    expect(profileSettings(raw)).toEqual({ sizeBytes: Buffer.byteLength(raw), depth: 4, keyCount: 6, parseStatus: 'parsed' });
+    expect(profileSettings('{"name":"café"}').sizeBytes).toBe(16);
+    expect(profileSettings('')).toEqual({ sizeBytes: 0, depth: 0, keyCount: 0, parseStatus: 'missing' });
+    expect(profileSettings('{broken')).toEqual({ sizeBytes: 7, depth: 0, keyCount: 0, parseStatus: 'invalid_json' });
+    expect(profileSettings('[1,2]').parseStatus).toBe('not_object');
+    expect(profileSettings({ general: {} })).toEqual({ sizeBytes: 14, depth: 2, keyCount: 1, parseStatus: 'parsed' });
+  });
+
+  it('should record the settings profile on snapshots during CSV ingestion', async () => {
+    const testDir = await testUtils.createTestDir('settings-profile-test');
+    const tierDir = path.join(testDir, 'tier1');
+    await testUtils.createTestFile(
+      path.join(tierDir, 'integrations.csv'),
+      `${csvTestData.sample.integrations}\n"test-004","user4@example.com","user-004","1.51.0","1","premium","false","{not json"`
+    );
+
+    const { integrations } = await new CSVProcessor().processCSVFiles({ inputDirectory: testDir, tier: 'tier1' });
+
+    expect(integrations[0].settingsProfile).toEqual(expect.objectContaining({ depth: 2, keyCount: 6, parseStatus: 'parsed' }));
+    expect(integrations[3].settingsProfile).toEqual({ sizeBytes: 9, depth: 0, keyCount: 0, parseStatus: 'invalid_json' });
+  });
+
+  it('should summarise the distribution across a tier', () => {
+    const aggregator = new SettingsProfileAggregator(2000);
+    const sizes = [100, 200, 300, 5000];
+    sizes.forEach((sizeBytes, index) => aggregator.add({
+      id: `int-${index}`,
+      settings: index === 3 ? { connectorEdition: 'starter' } : { connectorEdition: 'premium', general: {} },
+      settingsProfile: { sizeBytes, depth: index + 1, keyCount: 2, parseStatus: index === 3 ? 'invalid_json' : 'parsed' }
+    } as any));
+
+    const report = aggregator.getReport();
+
+    expect(report.totalIntegrations).toBe(4);
+    expect(report.parseStatus).toEqual({ parsed: 3, missing: 0, invalid_json: 1, not_object: 0 });
+    expect(report.sizeBytes).toEqual({ min: 100, max: 5000, mean: 1400, p50: 200, p90: 5000, p95: 5000, p99: 5000 });
+    expect(report.sizeHistogram.slice(0, 2)).toEqual([{ bucket: '< 1KB', count: 3 }, { bucket: '1KB - 10KB', count: 1 }]);
+    expect(report.overSizeLimit).toBe(1);
+    expect(report.largest[0]).toEqual({ integrationId: 'int-3', sizeBytes: 5000 });
+    expect(report.topLevelKeys).toEqual([
+      { key: 'connectorEdition', count: 3, percent: 100 },
+      { key: 'general', count: 3, percent: 100 }
+    ]);
+  });
+});
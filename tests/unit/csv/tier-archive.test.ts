@@ -0,0 +1,176 @@
+/**
+ * Unit tests for gzipped CSV files and zipped tier archives
+ */
+
+import { CSVProcessor } from '../../../src/csv/csv-processor';
+import { removeLooseCSVFiles, resolveTierDirectory, UNPACKED_DIRECTORY } from '../../../src/csv/tier-archive';
+import { detectSourceType } from '../../../src/input/source-factory';
+import { csvTestData } from '../../fixtures/csv-data';
+import { testUtils } from '../../setup';
+import { gzipSync } from 'zlib';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const CSV_FILES: Record<string, string> = {
+  'integrations.csv': csvTestData.sample.integrations,
+  'imports.csv': csvTestData.sample.imports,
+  'exports.csv': csvTestData.sample.exports,
+  'flows.csv': csvTestData.sample.flows,
+  'connections.csv': csvTestData.sample.connections
+};
+
+/**
+ * Build an uncompressed (stored) zip archive
+ */
+function buildZip(entries: Record<string, Buffer>): Buffer {
+  const crcTable = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+  });
+  const crc32 = (data: Buffer) => {
+    let crc = 0xffffffff;
+    for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+  };
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, data] of Object.entries(entries)) {
+    const fileName = Buffer.from(name);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    localParts.push(local, fileName, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, fileName);
+
+    offset += local.length + fileName.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+describe('Tier archives', () => {
+  let processor: CSVProcessor;
+  let testDir: string;
+
+  beforeEach(async () => {
+    processor = new CSVProcessor();
+    testDir = await testUtils.createTestDir('tier-archive-test');
+  });
+
+  async function writePlainTier(tier: string): Promise<void> {
+    for (const [fileName, content] of Object.entries(CSV_FILES)) {
+      await testUtils.createTestFile(path.join(testDir, tier, fileName), content);
+    }
+  }
+
+  it('should read gzipped CSV files like plain ones', async () => {
+    await writePlainTier('plain-tier');
+    const gzipDir = path.join(testDir, 'gzip-tier');
+    await fs.rm(gzipDir, { recursive: true, force: true });
+    await fs.mkdir(gzipDir, { recursive: true });
+    for (const [fileName, content] of Object.entries(CSV_FILES)) {
+      if (fileName === 'connections.csv') {
+        await fs.writeFile(path.join(gzipDir, fileName), content);
+      } else {
+        await fs.writeFile(path.join(gzipDir, `${fileName}.gz`), gzipSync(content));
+      }
+    }
+
+    const plain = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'plain-tier' });
+    const gzipped = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'gzip-tier', validateHeaders: true });
+
+    expect(gzipped.result.warnings).toEqual([]);
+    expect(gzipped.integrations).toEqual(plain.integrations);
+    expect(await detectSourceType(gzipDir)).toBe('csv');
+  });
+
+  it('should unpack a single zip archive once and read the tier from it', async () => {
+    await writePlainTier('plain-tier');
+    const zipDir = path.join(testDir, 'zip-tier');
+    await fs.rm(zipDir, { recursive: true, force: true });
+    await fs.mkdir(zipDir, { recursive: true });
+    const entries: Record<string, Buffer> = { 'export/README.txt': Buffer.from('ignored') };
+    for (const [fileName, content] of Object.entries(CSV_FILES)) {
+      entries[fileName === 'flows.csv' ? 'export/flows.csv.gz' : `export/${fileName}`] =
+        fileName === 'flows.csv' ? gzipSync(content) : Buffer.from(content);
+    }
+    await fs.writeFile(path.join(zipDir, 'tier-export.zip'), buildZip(entries));
+
+    expect(await detectSourceType(zipDir)).toBe('csv');
+
+    const plain = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'plain-tier' });
+    const zipped = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'zip-tier' });
+
+    expect(zipped.result.warnings).toEqual([]);
+    expect(zipped.integrations).toEqual(plain.integrations);
+
+    const unpackedDir = path.join(zipDir, UNPACKED_DIRECTORY, 'tier-export');
+    expect((await fs.readdir(unpackedDir)).sort()).toEqual([
+      '.archive.json', 'connections.csv', 'exports.csv', 'flows.csv.gz', 'imports.csv', 'integrations.csv'
+    ]);
+
+    const { mtimeMs } = await fs.stat(path.join(unpackedDir, 'integrations.csv'));
+    expect(await resolveTierDirectory(zipDir, Object.keys(CSV_FILES))).toBe(unpackedDir);
+    expect((await fs.stat(path.join(unpackedDir, 'integrations.csv'))).mtimeMs).toBe(mtimeMs);
+  });
+
+  it('should warn that loose CSV files hide an archive until they are removed', async () => {
+    const zipDir = path.join(testDir, 'mixed-tier');
+    await writePlainTier('mixed-tier');
+    await fs.writeFile(path.join(zipDir, 'imports.csv.gz'), gzipSync(CSV_FILES['imports.csv']!));
+    const entries: Record<string, Buffer> = {};
+    for (const [fileName, content] of Object.entries(CSV_FILES)) {
+      entries[fileName] = Buffer.from(content);
+    }
+    await fs.writeFile(path.join(zipDir, 'tier-export.zip'), buildZip(entries));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await resolveTierDirectory(zipDir, Object.keys(CSV_FILES))).toBe(zipDir);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('ignoring tier-export.zip'));
+
+    expect((await removeLooseCSVFiles(zipDir, Object.keys(CSV_FILES))).sort()).toEqual([
+      'connections.csv', 'exports.csv', 'flows.csv', 'imports.csv', 'imports.csv.gz', 'integrations.csv'
+    ]);
+    expect(await resolveTierDirectory(zipDir, Object.keys(CSV_FILES))).toBe(path.join(zipDir, UNPACKED_DIRECTORY, 'tier-export'));
+    warn.mockRestore();
+  });
+
+  it('should reject a tier with more than one archive', async () => {
+    const zipDir = path.join(testDir, 'two-zip-tier');
+    await testUtils.createTestFile(path.join(zipDir, 'a.zip'), '');
+    await testUtils.createTestFile(path.join(zipDir, 'b.zip'), '');
+
+    const output = await processor.processCSVFiles({ inputDirectory: testDir, tier: 'two-zip-tier' });
+
+    expect(output.integrations).toHaveLength(0);
+    expect(output.result.errors[0]).toContain('Expected at most one .zip archive');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for reading several tiers in one run
+ */
+
+import { createSnapshotSource } from '../../../src/input/source-factory';
+import { resolveTiers, isMultiTier } from '../../../src/input/multi-tier-snapshot-source';
+import { csvTestData } from '../../fixtures/csv-data';
+import { testUtils } from '../../setup';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+describe('Multi-tier snapshot source', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await testUtils.createTestDir('multi-tier-test');
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(testDir, { recursive: true });
+
+    const tier1 = path.join(testDir, 'tier1');
+    await testUtils.createTestFile(path.join(tier1, 'integrations.csv'), csvTestData.sample.integrations);
+    await testUtils.createTestFile(path.join(tier1, 'imports.csv'), csvTestData.sample.imports);
+    await testUtils.createTestFile(path.join(tier1, 'exports.csv'), csvTestData.sample.exports);
+    await testUtils.createTestFile(path.join(tier1, 'flows.csv'), csvTestData.sample.flows);
+    await testUtils.createTestFile(path.join(tier1, 'connections.csv'), csvTestData.sample.connections);
+    await testUtils.createTestFile(
+      path.join(testDir, 'tier2', 'snapshots.jsonl'),
+      ['{"id":"test-002","email":"moved@example.com"}', '{"id":"tier2-001"}', '{ broken'].join('\n')
+    );
+  });
+
+  it('should expand "all" and comma-separated tier lists', async () => {
+    await fs.mkdir(path.join(testDir, '.unpacked'), { recursive: true });
+
+    expect(await resolveTiers('all', testDir)).toEqual(['tier1', 'tier2']);
+    expect(await resolveTiers('tier2, tier1,tier2', testDir)).toEqual(['tier2', 'tier1']);
+    expect(isMultiTier('tier1')).toBe(false);
+    expect(isMultiTier('tier1,tier2')).toBe(true);
+    expect(isMultiTier('all')).toBe(true);
+    await expect(resolveTiers('all', path.join(testDir, 'missing'))).rejects.toThrow('Cannot list tiers');
+  });
+
+  it('should tag snapshots with their tier and report cross-tier duplicates', async () => {
+    const source = await createSnapshotSource({ inputDirectory: testDir, tier: 'all' });
+    const { integrations, result } = await source.loadAll();
+
+    expect(source.type).toBe('multi-tier');
+    expect(integrations.map(integration => [integration.id, integration.tier])).toEqual([
+      ['test-001', 'tier1'],
+      ['test-002', 'tier1'],
+      ['test-003', 'tier1'],
+      ['tier2-001', 'tier2']
+    ]);
+    expect(integrations[1].email).toBe('user2@example.com');
+    expect(result.crossTierDuplicates).toEqual([{ integrationId: 'test-002', tiers: ['tier1', 'tier2'], keptTier: 'tier1' }]);
+    expect(result.tiers!['tier1']).toEqual(expect.objectContaining({ sourceType: 'csv', integrations: 3, duplicatesSkipped: 0 }));
+    expect(result.tiers!['tier2']).toEqual(expect.objectContaining({ sourceType: 'jsonl', integrations: 1, duplicatesSkipped: 1, errors: 1 }));
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatch(/^\[tier2\] /);
+    expect(result.dataQuality!.quarantinedRows.map(row => row.file)).toEqual(['tier2/snapshots.jsonl']);
+  });
+
+  it('should not combine an explicit source path with several tiers', async () => {
+    await expect(createSnapshotSource({ inputDirectory: testDir, tier: 'tier1,tier2', path: path.join(testDir, 'tier1') }))
+      .rejects.toThrow('A source path cannot be combined with several tiers');
+  });
+});
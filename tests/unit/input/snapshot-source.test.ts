@@ -0,0 +1,101 @@
+/**
+ * Unit tests for snapshot sources and source selection
+ */
+
+import { createSnapshotSource, detectSourceType } from '../../../src/input/source-factory';
+import { CSVProcessor } from '../../../src/csv/csv-processor';
+import { csvTestData } from '../../fixtures/csv-data';
+import { testUtils } from '../../setup';
+import { Database } from 'sqlite3';
+import { open } from 'sqlite';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+describe('Snapshot sources', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await testUtils.createTestDir('snapshot-source-test');
+  });
+
+  async function writeCSVTier(tierDir: string): Promise<void> {
+    await fs.mkdir(tierDir, { recursive: true });
+    await testUtils.createTestFile(path.join(tierDir, 'integrations.csv'), csvTestData.sample.integrations);
+    await testUtils.createTestFile(path.join(tierDir, 'imports.csv'), csvTestData.sample.imports);
+    await testUtils.createTestFile(path.join(tierDir, 'exports.csv'), csvTestData.sample.exports);
+    await testUtils.createTestFile(path.join(tierDir, 'flows.csv'), csvTestData.sample.flows);
+    await testUtils.createTestFile(path.join(tierDir, 'connections.csv'), csvTestData.sample.connections);
+  }
+
+  it('should detect the source type from the files in the tier directory', async () => {
+    await writeCSVTier(path.join(testDir, 'csv-tier'));
+    await testUtils.createTestFile(path.join(testDir, 'jsonl-tier', 'snapshots.jsonl'), '{"id":"int-1"}');
+    await testUtils.createTestFile(path.join(testDir, 'sqlite-tier', 'extract.sqlite'), '');
+    await testUtils.createTestFile(path.join(testDir, 'json-tier', 'int-1.json'), '{"id":"int-1"}');
+
+    expect(await detectSourceType(path.join(testDir, 'csv-tier'))).toBe('csv');
+    expect(await detectSourceType(path.join(testDir, 'jsonl-tier'))).toBe('jsonl');
+    expect(await detectSourceType(path.join(testDir, 'sqlite-tier'))).toBe('sqlite');
+    expect(await detectSourceType(path.join(testDir, 'json-tier'))).toBe('json-directory');
+    expect(await detectSourceType(path.join(testDir, 'missing-tier'))).toBe('csv');
+  });
+
+  it('should read SQLite tables through the CSV column-mapping profile', async () => {
+    await writeCSVTier(path.join(testDir, 'csv-tier'));
+    const csvOutput = await new CSVProcessor().processCSVFiles({ inputDirectory: testDir, tier: 'csv-tier' });
+
+    const databasePath = path.join(testDir, 'warehouse.db');
+    const db = await open({ filename: databasePath, driver: Database });
+    await db.exec(`
+      CREATE TABLE integrations (_ID TEXT, EMAIL TEXT, _USERID TEXT, VERSION TEXT, NUMSTORES INTEGER, LICENSEEDITION TEXT, UPDATEINPROGRESS TEXT, SETTINGS TEXT);
+      CREATE TABLE imports (INTEGRATIONID TEXT, EXTERNALID TEXT, IMPORTID TEXT, IMPORTCONNECTIONID TEXT);
+    `);
+    for (const integration of csvOutput.integrations) {
+      await db.run(
+        'INSERT INTO integrations VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [integration.id, integration.email, integration.userId, integration.version, integration.storeCount,
+          integration.licenseEdition, String(integration.updateInProgress), JSON.stringify(integration.settings)]
+      );
+      for (const imp of integration.imports) {
+        await db.run('INSERT INTO imports VALUES (?, ?, ?, ?)', [integration.id, imp.externalId, imp._id, imp.connectionId]);
+      }
+    }
+    await db.close();
+
+    const source = await createSnapshotSource({ type: 'sqlite', inputDirectory: testDir, tier: 'unused', path: databasePath });
+    const { integrations, result } = await source.loadAll();
+
+    expect(source.type).toBe('sqlite');
+    expect(result.errors).toHaveLength(0);
+    expect(result.warnings).toEqual(['Missing table: exports', 'Missing table: flows', 'Missing table: connections']);
+    expect(integrations.map(({ exports, flows, connections, ...rest }) => rest))
+      .toEqual(csvOutput.integrations.map(({ exports, flows, connections, ...rest }) => rest));
+  });
+
+  it('should read one snapshot per JSON file from a directory', async () => {
+    const tierDir = path.join(testDir, 'tier1');
+    await testUtils.createTestFile(
+      path.join(tierDir, 'int-1.json'),
+      JSON.stringify({ id: 'int-1', email: 'a@example.com', storeCount: 2, flows: [{ _id: 'flow-1', name: 'order-sync' }] })
+    );
+    await testUtils.createTestFile(path.join(tierDir, 'int-2.json'), '{ broken');
+
+    const source = await createSnapshotSource({ inputDirectory: testDir, tier: 'tier1', batchSize: 1 });
+    const { integrations, result } = await source.loadAll();
+
+    expect(source.type).toBe('json-directory');
+    expect(integrations).toHaveLength(1);
+    expect(integrations[0]).toEqual(expect.objectContaining({
+      id: 'int-1',
+      storeCount: 2,
+      flows: [{ _id: 'flow-1', name: 'order-sync', type: 'flow' }]
+    }));
+    expect(result.errors[0]).toContain('int-2.json');
+    expect(result.dataQuality!.quarantinedRows.map(row => row.file)).toEqual(['int-2.json']);
+  });
+
+  it('should reject unknown source types', async () => {
+    await expect(createSnapshotSource({ type: 'parquet' as any, inputDirectory: testDir, tier: 'tier1' }))
+      .rejects.toThrow('Unknown snapshot source type: parquet');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for JSONLProcessor
+ */
+
+import { JSONLProcessor } from '../../../src/jsonl/jsonl-processor';
+import { CSVProcessor } from '../../../src/csv/csv-processor';
+import { selectDuplicates } from '../../../src/rules/duplicate-selection';
+import { csvTestData } from '../../fixtures/csv-data';
+import { testUtils } from '../../setup';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+describe('JSONLProcessor', () => {
+  let processor: JSONLProcessor;
+  let testDir: string;
+
+  beforeEach(async () => {
+    processor = new JSONLProcessor();
+    testDir = await testUtils.createTestDir('jsonl-processor-test');
+  });
+
+  async function writeCSVTier(tierDir: string): Promise<void> {
+    await fs.mkdir(tierDir, { recursive: true });
+    await testUtils.createTestFile(path.join(tierDir, 'integrations.csv'), csvTestData.sample.integrations);
+    await testUtils.createTestFile(path.join(tierDir, 'imports.csv'), csvTestData.sample.imports);
+    await testUtils.createTestFile(path.join(tierDir, 'exports.csv'), csvTestData.sample.exports);
+    await testUtils.createTestFile(path.join(tierDir, 'flows.csv'), csvTestData.sample.flows);
+    await testUtils.createTestFile(path.join(tierDir, 'connections.csv'), csvTestData.sample.connections);
+  }
+
+  it('should produce the same snapshots as the CSV processor', async () => {
+    await writeCSVTier(path.join(testDir, 'csv-tier'));
+    const csvOutput = await new CSVProcessor().processCSVFiles({ inputDirectory: testDir, tier: 'csv-tier' });
+
+    const jsonlDir = path.join(testDir, 'jsonl-tier');
+    await fs.mkdir(jsonlDir, { recursive: true });
+    await testUtils.createTestFile(
+      path.join(jsonlDir, 'integrations.jsonl'),
+      csvOutput.integrations.map(integration => JSON.stringify(integration)).join('\n')
+    );
+
+    const jsonlOutput = await processor.processJSONLFiles({ inputDirectory: testDir, tier: 'jsonl-tier' });
+
+    expect(jsonlOutput.result.errorCount).toBe(0);
+    expect(jsonlOutput.integrations).toEqual(csvOutput.integrations);
+  });
+
+  it('should report unparseable lines and continue', async () => {
+    const tierDir = path.join(testDir, 'tier1');
+    await fs.mkdir(tierDir, { recursive: true });
+    await testUtils.createTestFile(
+      path.join(tierDir, 'snapshots.ndjson'),
+      '{"id":"int-1","email":"a@example.com","imports":[{"_id":"imp-1","externalId":"customer-import"}]}\n{not json\n\n{"email":"no-id@example.com"}'
+    );
+
+    const output = await processor.processJSONLFiles({ inputDirectory: testDir, tier: 'tier1' });
+
+    expect(output.integrations).toHaveLength(1);
+    expect(output.integrations[0].imports[0]).toEqual({
+      externalId: 'customer-import',
+      connectionId: '',
+      _id: 'imp-1',
+      name: 'customer-import',
+      type: 'import'
+    });
+    expect(output.result.errorCount).toBe(2);
+    expect(output.result.dataQuality!.rowsQuarantined).toBe(2);
+    expect(output.result.dataQuality!.issues.map(issue => issue.row)).toEqual([2, 4]);
+  });
+
+  it('should mark rows with unparseable settings as quarantined', async () => {
+    const tierDir = path.join(testDir, 'tier1');
+    await fs.mkdir(tierDir, { recursive: true });
+    await testUtils.createTestFile(
+      path.join(tierDir, 'snapshots.jsonl'),
+      '{"id":"int-1","settings":{"connectorEdition":"premium"}}\n{"id":"int-2","settings":"not-json"}'
+    );
+
+    const output = await processor.processJSONLFiles({ inputDirectory: testDir, tier: 'tier1' });
+
+    expect(output.integrations.map(integration => [integration.id, integration.quarantined])).toEqual([
+      ['int-1', undefined],
+      ['int-2', true]
+    ]);
+    expect(output.integrations[1].settingsProfile!.parseStatus).toBe('invalid_json');
+  });
+
+  it('should read resource timestamps so the timestamp duplicate strategies can choose copies', async () => {
+    const tierDir = path.join(testDir, 'tier1');
+    await fs.mkdir(tierDir, { recursive: true });
+    await testUtils.createTestFile(path.join(tierDir, 'snapshots.jsonl'), JSON.stringify({
+      id: 'int-1',
+      imports: [
+        { _id: 'imp-1', externalId: 'orders_import', createdAt: '2023-01-01T00:00:00Z' },
+        { _id: 'imp-2', externalId: 'orders_import', createdAt: '2023-06-01T00:00:00Z', lastModified: '2025-01-01T00:00:00Z' },
+        { _id: 'imp-3', externalId: 'orders_import', createdAt: '2024-01-01T00:00:00Z' }
+      ],
+      flows: [{ _id: 'flow-1', lastModified: '2024-02-01T00:00:00Z' }]
+    }));
+
+    const [integration] = (await processor.processJSONLFiles({ inputDirectory: testDir, tier: 'tier1' })).integrations;
+    const copies = ['imp-1', 'imp-2', 'imp-3'];
+
+    expect(integration.imports[1]).toEqual(expect.objectContaining({ createdAt: '2023-06-01T00:00:00Z', lastModified: '2025-01-01T00:00:00Z' }));
+    expect(integration.flows[0].lastModified).toBe('2024-02-01T00:00:00Z');
+    expect(selectDuplicates(integration, 'import', copies, 1, ['keep-most-recent']).keep).toEqual(['imp-2']);
+    expect(selectDuplicates(integration, 'import', copies, 1, ['keep-oldest']).keep).toEqual(['imp-1']);
+  });
+});
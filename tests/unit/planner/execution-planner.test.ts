@@ -0,0 +1,76 @@
+/**
+ * Unit tests for ExecutionPlanner settings and maintenance patches
+ */
+
+import { ExecutionPlanner } from '../../../src/planner/execution-planner';
+import { applyJsonPatch, invertJsonPatch } from '../../../src/rules/json-patch';
+import { AuditResult, IntegrationSnapshot } from '../../../src/types';
+
+const integration = {
+  id: 'int-001',
+  email: 'user@example.com',
+  version: '1.51.0',
+  storeCount: 1,
+  licenseEdition: 'starter',
+  updateInProgress: true,
+  settings: { commonresources: { netsuiteConnectionId: null } },
+  imports: [],
+  exports: [],
+  flows: [],
+  connections: []
+} as unknown as IntegrationSnapshot;
+
+const auditResult = (issues: Partial<AuditResult['issues']>): AuditResult => ({
+  integrationId: 'int-001',
+  email: 'user@example.com',
+  version: '1.51.0',
+  edition: 'starter',
+  fixable: true,
+  issues: {
+    importsCheck: { missing: [], duplicate: [] },
+    exportsCheck: { missing: [], duplicate: [] },
+    flowsCheck: { missing: [], duplicate: [] },
+    connectionsCheck: { missing: [], duplicate: [] },
+    offlineConnections: [],
+    missingSettings: [],
+    updateInProgress: false,
+    ...issues
+  },
+  severity: 'medium',
+  estimatedFixTime: 1000
+} as AuditResult);
+
+describe('ExecutionPlanner', () => {
+  let planner: ExecutionPlanner;
+
+  beforeEach(() => {
+    planner = new ExecutionPlanner();
+  });
+
+  it('should guard a setting present in the snapshot and undo its patch exactly', () => {
+    const plan = planner.createExecutionPlan(integration, auditResult({
+      missingSettings: [{ section: 'settings.commonresources', keys: ['netsuiteConnectionId'] }]
+    }));
+    const [action] = plan.actions;
+
+    expect(action.payload.before).toBeNull();
+    expect(action.payload.patch).toEqual([
+      { op: 'test', path: '/settings/commonresources/netsuiteConnectionId', value: null },
+      { op: 'replace', path: '/settings/commonresources/netsuiteConnectionId', value: true }
+    ]);
+    const patched = applyJsonPatch(integration, action.payload.patch!);
+    expect(applyJsonPatch(patched, invertJsonPatch(action.payload.patch!))).toEqual(integration);
+  });
+
+  it('should clear the top-level update flag the snapshot holds', () => {
+    const plan = planner.createExecutionPlan(integration, auditResult({ updateInProgress: true }));
+    const [action] = plan.actions;
+
+    expect(action.type).toBe('clearUpdateFlag');
+    expect(action.payload.patch).toEqual([
+      { op: 'test', path: '/updateInProgress', value: true },
+      { op: 'replace', path: '/updateInProgress', value: false }
+    ]);
+    expect(applyJsonPatch(integration, action.payload.patch!).updateInProgress).toBe(false);
+  });
+});
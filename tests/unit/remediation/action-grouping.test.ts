@@ -0,0 +1,63 @@
+/**
+ * Unit tests for filing remediation actions by corruption type
+ */
+
+import {
+  getCorruptionTypeFromAction,
+  getHumanReadableFileName,
+  getHumanReadableTypeName,
+  groupActionsByType
+} from '../../../src/remediation/action-grouping';
+
+const action = (id: string, reason: string, corruptionType?: string) => ({
+  id,
+  type: 'patch',
+  target: { integrationId: 'int-001', resourceType: 'setting' },
+  payload: {},
+  metadata: { reason, priority: 5, dependencies: [], retryable: true, rollbackable: true, corruptionType }
+});
+
+describe('groupActionsByType', () => {
+  it('should file actions under the corruption type the engine recorded, whatever their reason says', () => {
+    const grouped = groupActionsByType([
+      {
+        integrationId: 'int-001',
+        actions: [
+          action('orphan', 'Remove orphaned connection: conn-9 (Old FTP) is not used by any import, export or setting', 'orphaned-connections'),
+          action('relink', 'Relink import imp-1 from missing connection conn-8 to conn-1', 'dangling-connection-references'),
+          action('disable', 'Disable flow flow-1: none of its 2 import/export references resolve', 'unresolved-flow-references'),
+          action('store-count', 'Update storeCount to match settings.storemap: 1 → 2', 'storemap-mismatch'),
+          action('store-gap', 'Create orders_import import for store 2 (Outlet)', 'store-resource-gaps'),
+          action('schema', 'Apply settings schema default at settings.sections.0.mode (invalid-value): "paused" → "active"', 'settings-schema-violation')
+        ]
+      },
+      { integrationId: 'int-002', actions: [action('schema-2', 'Apply settings schema default at settings.general (missing): undefined → {}', 'settings-schema-violation')] }
+    ]);
+
+    expect(Object.fromEntries(Object.entries(grouped).map(([type, actions]) => [type, actions.map(entry => entry.action.id)]))).toEqual({
+      'orphaned-connections': ['orphan'],
+      'dangling-connection-references': ['relink'],
+      'unresolved-flow-references': ['disable'],
+      'storemap-mismatch': ['store-count'],
+      'store-resource-gaps': ['store-gap'],
+      'settings-schema-violation': ['schema', 'schema-2']
+    });
+    expect(grouped['settings-schema-violation']!.map(entry => entry.integrationId)).toEqual(['int-001', 'int-002']);
+  });
+
+  it('should fall back to the reason for actions without a corruption type', () => {
+    expect(getCorruptionTypeFromAction(action('flag', 'Clear stuck update process flag'))).toBe('stuck-in-update-process');
+    expect(getCorruptionTypeFromAction(action('other', 'Something else'))).toBeNull();
+    expect(Object.keys(groupActionsByType([{ integrationId: 'int-001', actions: [action('other', 'Something else')] }]))).toEqual(['unknown']);
+  });
+});
+
+describe('human-readable names', () => {
+  it('should name the per-type files and headings of every corruption type', () => {
+    expect(getHumanReadableFileName('settings-schema-violation')).toBe('settings-schema-violations');
+    expect(getHumanReadableFileName('orphaned-connections')).toBe('orphaned-connections');
+    expect(getHumanReadableTypeName('storemap-mismatch')).toBe('Store Map Mismatches');
+    expect(getHumanReadableTypeName('unresolved-flow-references')).toBe('Unresolved Flow References');
+    expect(getHumanReadableFileName('brand-new-type')).toBe('brand_new_type_issues');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for remediation action conflict analysis
+ */
+
+import {
+  ConflictResolutionRules,
+  normalizePath,
+  resolveActionConflicts,
+  validateConflictRules
+} from '../../../src/rules/action-conflicts';
+import { buildJsonPatch } from '../../../src/rules/json-patch';
+import { ExecutionAction } from '../../../src/planner/execution-planner';
+
+const action = (
+  id: string,
+  type: ExecutionAction['type'],
+  resourceType: string,
+  target: { resourceId?: string; path?: string } = {},
+  payload: any = {},
+  corruptionType?: string
+): ExecutionAction => ({
+  id,
+  type,
+  target: { integrationId: 'int-001', resourceType: resourceType as any, ...target },
+  payload,
+  metadata: { reason: `fix ${id}`, priority: 5, dependencies: [], retryable: true, rollbackable: true, corruptionType }
+});
+
+const patch = (id: string, path: string, value: any, corruptionType?: string, before?: any) =>
+  action(id, 'patch', 'setting', { resourceId: 'int-001', path }, { before, after: value, patch: buildJsonPatch(path, before, value) }, corruptionType);
+
+const rules: ConflictResolutionRules = {
+  enabled: true,
+  precedence: [
+    {
+      name: 'license-edition-over-defaults',
+      prefer: { corruptionType: 'license-edition-mismatch' },
+      over: { corruptionType: 'missing-properties' }
+    },
+    {
+      name: 'reconnect-over-orphan-delete',
+      prefer: { type: 'reconnect' },
+      over: { type: 'delete', resourceType: 'connection' }
+    }
+  ]
+};
+
+describe('resolveActionConflicts', () => {
+  it('should merge nested writes into the outer patch, keeping every test guard', () => {
+    const { actions, report } = resolveActionConflicts([
+      patch('general', 'settings.general', { timezone: 'UTC' }, undefined, {}),
+      patch('other', 'settings.storemap', []),
+      patch('mode', 'settings.general.mode', 'live', undefined, 'test')
+    ], rules);
+
+    expect(actions.map(a => a.id)).toEqual(['general', 'other']);
+    expect(actions[0].payload.after).toEqual({ timezone: 'UTC', mode: 'live' });
+    expect(actions[0].payload.patch).toEqual([
+      { op: 'test', path: '/settings/general', value: {} },
+      { op: 'test', path: '/settings/general/mode', value: 'test' },
+      { op: 'replace', path: '/settings/general', value: { timezone: 'UTC', mode: 'live' } }
+    ]);
+    expect(actions[0].metadata.mergedActionIds).toEqual(['general', 'mode']);
+    expect(actions[0].metadata.reason).toBe('fix general; fix mode');
+    expect(report.merged).toEqual([{ actionId: 'general', target: 'setting:int-001:settings.general', mergedActionIds: ['general', 'mode'] }]);
+    expect(report.blocking).toEqual([]);
+  });
+
+  it('should fold identical writes to the same path', () => {
+    const { actions, report } = resolveActionConflicts([
+      patch('a', 'settings.sections[0].mode', 'live'),
+      patch('b', 'settings.sections.0.mode', 'live')
+    ], rules);
+
+    expect(actions.map(a => a.id)).toEqual(['a']);
+    expect(report.merged[0].mergedActionIds).toEqual(['a', 'b']);
+  });
+
+  it('should drop the action a precedence rule ranks lower', () => {
+    const { actions, report } = resolveActionConflicts([
+      patch('defaults', 'settings', null, 'missing-properties'),
+      patch('edition', 'settings.connectorEdition', 'premium', 'license-edition-mismatch')
+    ], rules);
+
+    expect(actions.map(a => a.id)).toEqual(['edition']);
+    expect(report.resolved).toEqual([expect.objectContaining({
+      kind: 'nested-path',
+      rule: 'license-edition-over-defaults',
+      keptActionId: 'edition',
+      droppedActionId: 'defaults'
+    })]);
+    expect(report.blocking).toEqual([]);
+  });
+
+  it('should report incompatible writes no rule settles as blocking and keep both', () => {
+    const { actions, report } = resolveActionConflicts([
+      patch('a', 'settings.connectorEdition', 'premium'),
+      patch('b', 'settings.connectorEdition', 'starter')
+    ], rules);
+
+    expect(actions.map(a => a.id)).toEqual(['a', 'b']);
+    expect(report.blocking).toEqual([{
+      kind: 'same-path',
+      target: 'setting:int-001:settings.connectorEdition',
+      actionIds: ['a', 'b'],
+      message: 'a sets "premium" at settings.connectorEdition but b sets "starter" at settings.connectorEdition'
+    }]);
+  });
+
+  it('should flag deleting a copy of an adaptor another action creates', () => {
+    const { report } = resolveActionConflicts([
+      action('delete-dup', 'delete', 'import', { resourceId: 'imp-2' }, { diff: { externalId: 'orders_import' } }),
+      action('create-orders', 'create', 'import', {}, { diff: { externalId: 'orders_import' } }),
+      action('create-store', 'create', 'import', {}, { diff: { externalId: 'orders_import', storeId: 's2' } })
+    ], rules);
+
+    expect(report.blocking).toEqual([expect.objectContaining({ kind: 'create-delete', actionIds: ['delete-dup', 'create-orders'] })]);
+  });
+
+  it('should settle deleting a connection another action reconnects by precedence', () => {
+    const { actions, report } = resolveActionConflicts([
+      action('delete-conn', 'delete', 'connection', { resourceId: 'conn-1' }),
+      action('reconnect-conn', 'reconnect', 'connection', { resourceId: 'conn-1' })
+    ], rules);
+
+    expect(actions.map(a => a.id)).toEqual(['reconnect-conn']);
+    expect(report.resolved).toEqual([expect.objectContaining({ kind: 'modify-delete', rule: 'reconnect-over-orphan-delete' })]);
+  });
+
+  it('should leave actions untouched when disabled', () => {
+    const input = [patch('a', 'settings.connectorEdition', 'premium'), patch('b', 'settings.connectorEdition', 'starter')];
+    const { actions, report } = resolveActionConflicts(input, { ...rules, enabled: false });
+
+    expect(actions).toBe(input);
+    expect(report).toEqual({ merged: [], resolved: [], blocking: [] });
+  });
+});
+
+describe('normalizePath', () => {
+  it('should read array indexes as path segments', () => {
+    expect(normalizePath('settings.sections[0].mode')).toEqual(['settings', 'sections', '0', 'mode']);
+  });
+});
+
+describe('validateConflictRules', () => {
+  it('should report malformed precedence rules', () => {
+    expect(validateConflictRules(rules)).toEqual([]);
+    expect(validateConflictRules({ precedence: [{ prefer: { type: 'reconnect' } } as any] }))
+      .toEqual(['precedence[0]: missing name', 'precedence[0]: missing over selector']);
+  });
+});
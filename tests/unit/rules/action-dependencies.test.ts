@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the remediation action dependency graph
+ */
+
+import {
+  applyDependencies,
+  buildDependencyGraph,
+  DependencyRules,
+  limitActionsByDependencyClosure,
+  sortActionsByDependencies,
+  validateDependencyRules
+} from '../../../src/rules/action-dependencies';
+import { ExecutionAction } from '../../../src/planner/execution-planner';
+
+const action = (id: string, type: ExecutionAction['type'], resourceType: string, payload: any = {}): ExecutionAction => ({
+  id,
+  type,
+  target: { integrationId: 'int-001', resourceType: resourceType as any, resourceId: id },
+  payload,
+  metadata: { reason: '', priority: 5, dependencies: [], retryable: true, rollbackable: true }
+});
+
+const dependencies: DependencyRules = {
+  enabled: true,
+  rules: [
+    {
+      name: 'flows-after-adaptors',
+      action: { type: 'create', resourceType: 'flow' },
+      after: [{ type: 'create', resourceType: ['import', 'export'] }],
+      join: [{ action: 'payload.diff.storeId', after: 'payload.diff.storeId' }]
+    },
+    {
+      name: 'adaptors-after-reconnect',
+      action: { type: 'create', resourceType: ['import', 'export'] },
+      after: { type: 'reconnect', resourceType: 'connection' },
+      join: [{ action: 'payload.diff.creationTemplate.connectionId', after: 'target.resourceId' }]
+    }
+  ]
+};
+
+describe('buildDependencyGraph', () => {
+  const actions = [
+    action('flow-s1', 'create', 'flow', { diff: { storeId: 's1' } }),
+    action('import-s1', 'create', 'import', { diff: { storeId: 's1', creationTemplate: { connectionId: 'conn-ns' } } }),
+    action('export-s2', 'create', 'export', { diff: { storeId: 's2', creationTemplate: { connectionId: 'conn-shop' } } }),
+    action('conn-ns', 'reconnect', 'connection'),
+    action('patch-edition', 'patch', 'setting')
+  ];
+
+  it('should link actions by the rules, joined on shared values', () => {
+    const graph = buildDependencyGraph(actions, dependencies);
+
+    expect(graph.edges).toEqual([
+      { from: 'import-s1', to: 'flow-s1', rule: 'flows-after-adaptors' },
+      { from: 'conn-ns', to: 'import-s1', rule: 'adaptors-after-reconnect' }
+    ]);
+  });
+
+  it('should order prerequisites first and group independent actions into levels', () => {
+    const graph = buildDependencyGraph(actions, dependencies);
+
+    expect(graph.nodes).toEqual(['export-s2', 'conn-ns', 'import-s1', 'flow-s1', 'patch-edition']);
+    expect(graph.levels).toEqual([['export-s2', 'conn-ns', 'patch-edition'], ['import-s1'], ['flow-s1']]);
+    expect(sortActionsByDependencies(actions, graph).map(a => a.id)).toEqual(graph.nodes);
+  });
+
+  it('should depend conservatively when a join value is missing', () => {
+    const graph = buildDependencyGraph([action('flow', 'create', 'flow'), ...actions.slice(1, 3)], dependencies);
+
+    expect(graph.edges.filter(edge => edge.to === 'flow').map(edge => edge.from)).toEqual(['import-s1', 'export-s2']);
+  });
+
+  it('should keep explicit dependencies and write the graph back to the actions', () => {
+    const explicit = [action('a', 'patch', 'setting'), { ...action('b', 'patch', 'setting'), metadata: { ...action('b', 'patch', 'setting').metadata, dependencies: ['a'] } }];
+    const graph = buildDependencyGraph(explicit, { enabled: false, rules: dependencies.rules });
+    applyDependencies(explicit, graph);
+
+    expect(graph.edges).toEqual([{ from: 'a', to: 'b', rule: 'explicit' }]);
+    expect(explicit.map(a => a.metadata.dependencies)).toEqual([[], ['a']]);
+  });
+
+  it('should reject actions in a dependency cycle', () => {
+    const rules: DependencyRules = {
+      rules: [{ name: 'flows-after-flows', action: { type: 'create', resourceType: 'flow' }, after: { type: 'create', resourceType: 'flow' } }]
+    };
+
+    expect(() => buildDependencyGraph([action('f1', 'create', 'flow'), action('f2', 'create', 'flow')], rules))
+      .toThrow('Remediation actions have a dependency cycle: f1 → f2 → f1');
+  });
+});
+
+describe('limitActionsByDependencyClosure', () => {
+  const actions = [
+    action('flow-s1', 'create', 'flow', { diff: { storeId: 's1' } }),
+    action('import-s1', 'create', 'import', { diff: { storeId: 's1', creationTemplate: { connectionId: 'conn-ns' } } }),
+    action('export-s2', 'create', 'export', { diff: { storeId: 's2', creationTemplate: { connectionId: 'conn-shop' } } }),
+    action('conn-ns', 'reconnect', 'connection'),
+    action('patch-edition', 'patch', 'setting')
+  ];
+  const graph = buildDependencyGraph(actions, dependencies);
+
+  it('should keep an action together with the prerequisites it needs, in graph order', () => {
+    const limited = limitActionsByDependencyClosure(actions, graph, { maxActions: 3 });
+
+    expect(limited.actions.map(a => a.id)).toEqual(['conn-ns', 'import-s1', 'flow-s1']);
+    expect(limited.truncated.map(a => [a.actionId, a.reason])).toEqual([
+      ['export-s2', 'max-actions'],
+      ['patch-edition', 'max-actions']
+    ]);
+  });
+
+  it('should cut an action whose closure does not fit without splitting it', () => {
+    const limited = limitActionsByDependencyClosure(actions, graph, { maxActions: 2 });
+
+    expect(limited.actions.map(a => a.id)).toEqual(['conn-ns', 'import-s1']);
+    expect(limited.truncated[0]).toEqual({ actionId: 'flow-s1', type: 'create', target: actions[0].target, reason: 'max-actions' });
+  });
+
+  it('should cut the dependents of a destructive action the cap removes', () => {
+    const deleteFirst = [
+      action('delete-dup', 'delete', 'import'),
+      { ...action('relink', 'patch', 'setting'), metadata: { ...action('relink', 'patch', 'setting').metadata, dependencies: ['delete-dup'] } },
+      action('patch-edition', 'patch', 'setting')
+    ];
+    const limited = limitActionsByDependencyClosure(deleteFirst, buildDependencyGraph(deleteFirst, undefined), { maxActions: 10, maxDestructiveActions: 0 });
+
+    expect(limited.actions.map(a => a.id)).toEqual(['patch-edition']);
+    expect(limited.truncated.map(a => [a.actionId, a.reason, a.prerequisiteId])).toEqual([
+      ['delete-dup', 'max-destructive-actions', undefined],
+      ['relink', 'prerequisite-truncated', 'delete-dup']
+    ]);
+  });
+});
+
+describe('validateDependencyRules', () => {
+  it('should accept acyclic rules', () => {
+    expect(validateDependencyRules(dependencies)).toEqual([]);
+    expect(validateDependencyRules(undefined)).toEqual([]);
+  });
+
+  it('should reject rules whose action kinds wait on each other', () => {
+    const errors = validateDependencyRules({
+      rules: [
+        ...dependencies.rules!,
+        { name: 'reconnect-after-flows', action: { type: 'reconnect' }, after: { type: 'create', resourceType: 'flow' } }
+      ]
+    });
+
+    expect(errors).toEqual([expect.stringContaining('dependency rules form a cycle: create:flow → create:import → reconnect:connection')]);
+  });
+
+  it('should report malformed rules', () => {
+    expect(validateDependencyRules({ rules: [{ action: { type: 'create' }, after: [] } as any] }))
+      .toEqual(['rules[0]: missing name', 'rules[0]: missing after selectors']);
+  });
+});
@@ -5,8 +5,9 @@
 import { DataDrivenCorruptionDetector } from '../../../src/rules/data-driven-corruption-detector';
 import { ConfigurationManager } from '../../../src/config/configuration-manager';
 import { integrationSnapshots } from '../../fixtures/integration-snapshots';
-import { testBusinessConfig } from '../../fixtures/business-config';
+import { testBusinessConfig, testDetectionRules } from '../../fixtures/business-config';
 import { MockFileSystem } from '../../mocks/file-system';
+import { rankByRiskScore } from '../../../src/rules/risk-scoring';
 
 // Mock the configuration manager
 jest.mock('../../../src/config/configuration-manager');
@@ -163,6 +164,33 @@ describe('DataDrivenCorruptionDetector', () => {
       expect(propertiesEvent!.params.details.missingProperties.length).toBeGreaterThan(0);
     });
 
+    it('should flag empty required properties and carry the value found at each present one', async () => {
+      const valid = integrationSnapshots.valid;
+      const result = await detector.detectCorruption({
+        ...valid,
+        settings: {
+          ...valid.settings,
+          storemap: null,
+          commonresources: { netsuiteConnectionId: '', nsUtilImportAdaptorApiIdentifier: 0, nsUtilImportAdaptorId: false }
+        }
+      }, {});
+
+      const propertiesEvent = result.corruptionEvents.find(e => e.params.corruptionType === 'missing-properties');
+
+      expect(propertiesEvent!.params.details.missingProperties).toEqual([
+        'settings.storemap',
+        'settings.commonresources.netsuiteConnectionId',
+        'settings.commonresources.nsUtilImportAdaptorApiIdentifier',
+        'settings.commonresources.nsUtilImportAdaptorId'
+      ]);
+      expect(propertiesEvent!.params.details.observedValues).toEqual({
+        'settings.storemap': null,
+        'settings.commonresources.netsuiteConnectionId': '',
+        'settings.commonresources.nsUtilImportAdaptorApiIdentifier': 0,
+        'settings.commonresources.nsUtilImportAdaptorId': false
+      });
+    });
+
     it('should detect stuck update process', async () => {
       const result = await detector.detectCorruption(integrationSnapshots.stuckInUpdate, {});
       
@@ -223,6 +251,20 @@ describe('DataDrivenCorruptionDetector', () => {
       expect(resourceCountEvents).toHaveLength(0);
     });
 
+    it('should name missing and duplicated adaptors even when the count matches', async () => {
+      const imports = integrationSnapshots.validStarter.imports.map(imp =>
+        imp.externalId === 'orders' ? { ...imp, externalId: 'customers' } : imp);
+      const result = await detector.detectCorruption({ ...integrationSnapshots.validStarter, imports }, {});
+      const event = result.corruptionEvents.find(e => e.params.corruptionType === 'incorrect-import-count')!;
+
+      expect(event.params.details).toEqual(expect.objectContaining({
+        difference: 0,
+        status: 'MISMATCHED_RESOURCES',
+        missingResources: [{ externalId: 'orders', expected: 1, actual: 0, missingCount: 1 }],
+        duplicateResources: [{ externalId: 'customers', expected: 1, actual: 2, resourceIds: ['starter-imp-1', 'starter-imp-2'], excessResourceIds: ['starter-imp-2'] }]
+      }));
+    });
+
     it('should handle unknown edition gracefully', async () => {
       const unknownEditionIntegration = {
         ...integrationSnapshots.valid,
@@ -307,6 +349,357 @@ describe('DataDrivenCorruptionDetector', () => {
     });
   });
 
+  describe('configured detection rules', () => {
+    it('should only load enabled rules, with severities taken from configuration', async () => {
+      const detectionRules = testDetectionRules.map(rule => {
+        if (rule.name === 'missing-properties') return { ...rule, enabled: false };
+        if (rule.name === 'stuck-in-update-process') return { ...rule, event: { ...rule.event, params: { ...rule.event.params, severity: 'critical' } } };
+        return rule;
+      });
+      mockConfigManager.loadConfiguration.mockResolvedValueOnce({ ...testBusinessConfig, detectionRules } as any);
+      await detector.initialize('shopify-netsuite', '1.51.0');
+
+      const result = await detector.detectCorruption(integrationSnapshots.multipleIssues, {});
+      const types = result.corruptionEvents.map(event => event.params.corruptionType);
+
+      expect(types).not.toContain('missing-properties');
+      expect(types).toContain('stuck-in-update-process');
+      expect(result.corruptionEvents.filter(event => event.params.corruptionType === 'stuck-in-update-process')).toHaveLength(1);
+      expect(result.corruptionEvents.find(event => event.params.corruptionType === 'stuck-in-update-process')!.params.severity).toBe('critical');
+    });
+
+    it('should report the configured rule name as the rule id', async () => {
+      const result = await detector.detectCorruption(integrationSnapshots.stuckInUpdate, {});
+
+      expect(result.corruptionEvents.find(event => event.params.corruptionType === 'stuck-in-update-process')!.metadata!.ruleId)
+        .toBe('stuck-in-update-process');
+    });
+
+    it('should reject rules that use an unknown operator', async () => {
+      const detectionRules = [{ ...testDetectionRules[0], conditions: { any: [{ fact: 'integration', operator: 'hasTypo', value: true }] } }];
+      mockConfigManager.loadConfiguration.mockResolvedValueOnce({ ...testBusinessConfig, detectionRules } as any);
+
+      await expect(detector.initialize('shopify-netsuite', '1.51.0'))
+        .rejects.toThrow("Detection rule 'incorrect-import-count' uses unknown operator 'hasTypo'");
+    });
+
+    it('should accept built-in and decorated operators but reject unknown decorators', async () => {
+      const conditions = { all: [{ fact: 'integration', path: '$.storeCount', operator: 'not:equal', value: 0 }, { fact: 'integration', operator: 'countWhere', value: { collection: 'flows' } }] };
+      mockConfigManager.loadConfiguration.mockResolvedValueOnce({ ...testBusinessConfig, detectionRules: [{ ...testDetectionRules[0], conditions }] } as any);
+      await expect(detector.initialize('shopify-netsuite', '1.51.0')).resolves.toBeUndefined();
+
+      const typo = { any: [{ fact: 'integration', path: '$.storeCount', operator: 'nope:equal', value: 0 }] };
+      mockConfigManager.loadConfiguration.mockResolvedValueOnce({ ...testBusinessConfig, detectionRules: [{ ...testDetectionRules[0], conditions: typo }] } as any);
+      await expect(detector.initialize('shopify-netsuite', '1.51.0'))
+        .rejects.toThrow("Detection rule 'incorrect-import-count' uses unknown operator 'nope:equal'");
+    });
+  });
+
+  describe('dangling references', () => {
+    const withReferences = {
+      ...integrationSnapshots.valid,
+      settings: { ...integrationSnapshots.valid.settings, commonresources: { netsuiteConnectionId: 'conn-settings' } },
+      imports: [
+        { externalId: 'import-1', connectionId: 'conn-1', _id: 'imp-1', name: 'Import 1', type: 'import' },
+        { externalId: 'import-2', connectionId: 'conn-gone', _id: 'imp-2', name: 'Import 2', type: 'import' }
+      ],
+      exports: [{ externalId: 'export-1', connectionId: 'conn-1', _id: 'exp-1', name: 'Export 1', type: 'export' }],
+      flows: [
+        { _id: 'flow-1', name: 'Flow 1', type: 'flow', exportIds: ['exp-1'], importIds: ['imp-1'] },
+        { _id: 'flow-2', name: 'Flow 2', type: 'flow', exportIds: ['exp-gone'], importIds: [] },
+        { _id: 'flow-3', name: 'Flow 3', type: 'flow' }
+      ],
+      connections: [
+        { _id: 'conn-1', name: 'Connection 1', type: 'connection', offline: false },
+        { _id: 'conn-settings', name: 'Settings connection', type: 'connection', offline: false },
+        { _id: 'conn-unused', name: 'Unused', type: 'connection', offline: true }
+      ]
+    } as any;
+
+    it('should report orphaned connections, dangling connection IDs and unresolved flows with affected resources', async () => {
+      const result = await detector.detectCorruption(withReferences, {});
+      const details = (type: string) => result.corruptionEvents.find(event => event.params.corruptionType === type)!.params.details;
+
+      expect(details('orphaned-connections').orphanedConnections).toEqual([{ connectionId: 'conn-unused', name: 'Unused', offline: true }]);
+      expect(details('dangling-connection-references')).toEqual(expect.objectContaining({
+        danglingReferences: [{ resourceType: 'import', resourceId: 'imp-2', name: 'Import 2', externalId: 'import-2', connectionId: 'conn-gone' }],
+        missingConnectionIds: ['conn-gone'],
+        suggestedConnectionId: 'conn-settings'
+      }));
+      expect(details('unresolved-flow-references').unresolvedFlows.map((flow: any) => flow.flowId)).toEqual(['flow-2']);
+    });
+
+    it('should skip checks disabled in referenceIntegrityRules', async () => {
+      mockConfigManager.loadConfiguration.mockResolvedValueOnce({
+        ...testBusinessConfig,
+        referenceIntegrityRules: { ...testBusinessConfig.referenceIntegrityRules, detectOrphanedConnections: false }
+      } as any);
+      await detector.initialize('shopify-netsuite', '1.51.0');
+
+      const result = await detector.detectCorruption(withReferences, {});
+      const types = result.corruptionEvents.map(event => event.params.corruptionType);
+
+      expect(types).not.toContain('orphaned-connections');
+      expect(types).toContain('dangling-connection-references');
+    });
+  });
+
+  describe('store-aware validation', () => {
+    const withStores = {
+      ...integrationSnapshots.valid,
+      storeCount: 2,
+      settings: {
+        ...integrationSnapshots.valid.settings,
+        storemap: [
+          { storeId: 'store1', name: 'US Store', shopifyConnectionId: 'shop-1', netsuiteConnectionId: 'ns-1' },
+          { storeId: 'store2', name: 'EU Store', shopifyConnectionId: 'shop-2', netsuiteConnectionId: 'ns-1' }
+        ]
+      },
+      imports: [
+        { externalId: 'inventory_import', connectionId: 'shop-1', _id: 'imp-1', name: 'Inventory 1', type: 'import' },
+        { externalId: 'inventory_import', connectionId: 'shop-2', _id: 'imp-2', name: 'Inventory 2', type: 'import' },
+        { externalId: 'netsuite_import', connectionId: 'ns-1', _id: 'imp-3', name: 'NetSuite', type: 'import' }
+      ],
+      exports: [{ externalId: 'inventory_export', connectionId: 'shop-1', _id: 'exp-1', name: 'Inventory export', type: 'export' }],
+      flows: [{ _id: 'flow-1', name: 'inventory_flow', type: 'flow', exportIds: ['exp-1'], importIds: ['imp-1'] }],
+      connections: [
+        { _id: 'shop-1', name: 'US Shopify', type: 'connection', offline: false },
+        { _id: 'shop-2', name: 'EU Shopify', type: 'connection', offline: false },
+        { _id: 'ns-1', name: 'NetSuite', type: 'connection', offline: false }
+      ]
+    } as any;
+
+    it('should report the adaptors each store is missing', async () => {
+      const result = await detector.detectCorruption(withStores, {});
+      const gapsEvent = result.corruptionEvents.find(event => event.params.corruptionType === 'store-resource-gaps')!;
+
+      expect(gapsEvent.params.details.storeGaps.map((gap: any) => gap.message)).toEqual([
+        'store 2 (EU Store) is missing its inventory_export export',
+        'store 2 (EU Store) is missing its inventory_flow flow'
+      ]);
+      expect(gapsEvent.params.details.resourcesByStore.store1).toEqual({ imports: ['imp-1'], exports: ['exp-1'], flows: ['flow-1'] });
+      // The NetSuite connection is shared by both stores, so its import belongs to neither
+      expect(gapsEvent.params.details.unassignedResources.imports).toBe(1);
+      expect(result.corruptionEvents.map(event => event.params.corruptionType)).not.toContain('storemap-mismatch');
+    });
+
+    it('should flag a storeCount that differs from the storemap as its own corruption type', async () => {
+      const result = await detector.detectCorruption({ ...withStores, storeCount: 3 }, {});
+      const mismatch = result.corruptionEvents.find(event => event.params.corruptionType === 'storemap-mismatch')!;
+
+      expect(mismatch.params.details).toEqual(expect.objectContaining({ storeCount: 3, storemapLength: 2, difference: -1 }));
+      expect(mismatch.metadata.businessLogic.section).toBe('storeValidationRules');
+    });
+  });
+
+  describe('version-aware detection', () => {
+    beforeEach(async () => {
+      mockConfigManager.getVersionCandidates.mockReturnValue([
+        { product: 'shopify-netsuite', version: '1.51.0', versionRange: '>=1.51.0 <2.0.0', configPath: '1.51.0-business-rules.json' },
+        { product: 'shopify-netsuite', version: '2.0.0', versionRange: '>=2.0.0 <3.0.0', configPath: '2.0.0-business-rules.json' }
+      ]);
+      await detector.initialize('shopify-netsuite', '1.51.0');
+      mockConfigManager.loadConfiguration.mockClear();
+    });
+
+    it('should apply the configuration matching the integration version', async () => {
+      const result = await detector.detectCorruption({ ...integrationSnapshots.valid, version: '2.1.0' }, {});
+
+      expect(result.configApplied).toEqual({ product: 'shopify-netsuite', version: '2.0.0', versionRange: '>=2.0.0 <3.0.0' });
+      expect(result.rulesApplied.length).toBeGreaterThan(0);
+      result.rulesApplied.forEach(rule => expect(rule).toMatch(/^shopify-netsuite@2\.0\.0:/));
+      expect(mockConfigManager.loadConfiguration).toHaveBeenCalledWith('shopify-netsuite', '2.0.0');
+    });
+
+    it('should build one engine per configuration', async () => {
+      await detector.detectCorruption({ ...integrationSnapshots.valid, version: '2.0.0' }, {});
+      await detector.detectCorruption({ ...integrationSnapshots.valid, version: '2.3.1' }, {});
+      const legacy = await detector.detectCorruption(integrationSnapshots.valid, {});
+
+      expect(mockConfigManager.loadConfiguration).toHaveBeenCalledTimes(1);
+      expect(legacy.configApplied?.version).toBe('1.51.0');
+    });
+
+    it('should flag integrations whose version matches no configuration', async () => {
+      const result = await detector.detectCorruption({ ...integrationSnapshots.valid, version: '0.9.0' }, {});
+
+      expect(result.corruptionEvents).toHaveLength(1);
+      expect(result.corruptionEvents[0].params.corruptionType).toBe('unsupported-version');
+      expect(result.corruptionEvents[0].params.details.availableConfigurations).toHaveLength(2);
+      expect(result.rulesApplied).toEqual([]);
+      expect(result.configApplied).toBeUndefined();
+    });
+  });
+
+  describe('explainability', () => {
+    it('should not attach explanations unless asked', async () => {
+      const result = await detector.detectCorruption(integrationSnapshots.missingResources, {});
+
+      result.corruptionEvents.forEach(event => expect(event.metadata?.explanation).toBeUndefined());
+    });
+
+    it('should explain the operator, observed facts, thresholds and config source of each event', async () => {
+      mockConfigManager.getConfigurationPath.mockReturnValue('config/products/shopify-netsuite/1.51.0-business-rules.json');
+      await detector.initialize('shopify-netsuite', '1.51.0');
+
+      const result = await detector.detectCorruption(integrationSnapshots.missingResources, {}, { explain: true });
+      const importEvent = result.corruptionEvents.find(e => e.params.corruptionType === 'incorrect-import-count');
+      const trace = importEvent?.metadata?.explanation;
+
+      expect(trace?.ruleId).toBe('incorrect-import-count');
+      expect(trace?.conditions).toEqual([expect.objectContaining({
+        fact: 'integration',
+        operator: 'hasIncorrectImportCount',
+        result: true,
+        observed: expect.objectContaining({
+          licenseEdition: 'premium',
+          storeCount: 2,
+          actualCount: integrationSnapshots.missingResources.imports.length
+        })
+      })]);
+      expect(trace?.thresholds['hasIncorrectImportCount']).toEqual(expect.objectContaining({
+        edition: 'premium',
+        expectedCount: 2 * testBusinessConfig.editionRequirements.premium.importsPerStore,
+        resourceCountTolerance: testBusinessConfig.tolerances.resourceCountTolerance
+      }));
+      expect(trace?.configSource).toEqual({
+        product: 'shopify-netsuite',
+        version: '1.51.0',
+        configPath: 'config/products/shopify-netsuite/1.51.0-business-rules.json'
+      });
+    });
+
+    it('should never copy the whole integration into a trace', async () => {
+      const result = await detector.detectCorruption(integrationSnapshots.multipleIssues, {}, { explain: true });
+
+      expect(result.corruptionEvents.length).toBeGreaterThan(0);
+      result.corruptionEvents.forEach(event => {
+        event.metadata?.explanation?.conditions.forEach(condition => {
+          expect(condition.observed?.settings).toBeUndefined();
+          expect(condition.observed?.imports).toBeUndefined();
+        });
+      });
+    });
+  });
+
+  describe('risk scoring', () => {
+    it('should score integrations with the configured risk model', async () => {
+      const premium = await detector.detectCorruption(integrationSnapshots.missingResources, {});
+
+      expect(premium.riskScore).toBeGreaterThan(0);
+      expect(premium.riskScore).toBeLessThanOrEqual(100);
+      expect(premium.riskFactors.editionMultiplier).toBe(1.25);
+      expect(premium.riskFactors.severityPoints).toBeGreaterThan(0);
+    });
+
+    it('should rank heavily corrupted integrations apart instead of clamping them to the maximum', async () => {
+      const offline = await detector.detectCorruption(integrationSnapshots.offlineConnections, {});
+      const multiple = await detector.detectCorruption(integrationSnapshots.multipleIssues, {});
+
+      expect(multiple.riskFactors.rawPoints).toBeGreaterThan(offline.riskFactors.rawPoints);
+      expect(multiple.riskScore).toBeGreaterThan(offline.riskScore);
+      expect(multiple.riskScore).toBeLessThan(100);
+      expect(rankByRiskScore([offline, multiple]).map(result => result.integrationId)).toEqual([
+        integrationSnapshots.multipleIssues.id,
+        integrationSnapshots.offlineConnections.id
+      ]);
+    });
+
+    it('should count exports still running on offline connections', async () => {
+      const offline = integrationSnapshots.offlineConnections;
+      const result = await detector.detectCorruption(offline, {});
+      const offlineIds = offline.connections.filter(conn => conn.offline).map(conn => conn._id);
+
+      expect(result.riskFactors.offlineActiveExports).toBe(
+        offline.exports.filter(exp => exp.connectionId && offlineIds.includes(exp.connectionId)).length
+      );
+    });
+  });
+
+  describe('settings schema validation', () => {
+    const settingsSchema = {
+      type: 'object',
+      required: ['connectorEdition', 'general'],
+      properties: {
+        connectorEdition: { type: 'string' },
+        general: { type: 'object', default: {} },
+        storemap: { type: 'array', default: [] }
+      }
+    };
+    const settingsValidation = {
+      enabled: true,
+      schemaPath: 'schemas/settings/shopify-netsuite/1.51.0-settings-schema.json',
+      severityByViolationType: { missing: 'high' }
+    };
+
+    beforeEach(async () => {
+      mockConfigManager.loadConfiguration.mockResolvedValueOnce({ ...testBusinessConfig, settingsValidation } as any);
+      mockConfigManager.loadSettingsSchema.mockResolvedValueOnce(settingsSchema);
+      await detector.initialize('shopify-netsuite', '1.51.0');
+    });
+
+    it('should report each schema violation as an event with its JSON pointer', async () => {
+      const integration = {
+        ...integrationSnapshots.valid,
+        settings: { connectorEdition: integrationSnapshots.valid.settings.connectorEdition, storemap: 'none' }
+      };
+      const result = await detector.detectCorruption(integration, {});
+      const violations = result.corruptionEvents.filter(event => event.params.corruptionType === 'settings-schema-violation');
+
+      expect(violations.map(event => event.params.details.path)).toEqual(expect.arrayContaining(['/general', '/storemap']));
+      expect(violations).toHaveLength(2);
+
+      const missing = violations.find(event => event.params.details.path === '/general')!;
+      expect(missing.params.severity).toBe('high');
+      expect(missing.params.details).toEqual(expect.objectContaining({ violationType: 'missing', hasDefault: true, default: {} }));
+
+      const wrongType = violations.find(event => event.params.details.path === '/storemap')!;
+      expect(wrongType.params.severity).toBe('medium');
+      expect(wrongType.params.details).toEqual(expect.objectContaining({ violationType: 'wrong-type', actual: 'none', default: [] }));
+    });
+
+    it('should report a settings key missing from both lists once, as the schema violation', async () => {
+      const integration = {
+        ...integrationSnapshots.valid,
+        settings: { ...integrationSnapshots.valid.settings, general: undefined, storemap: null }
+      };
+      const result = await detector.detectCorruption(integration, {});
+      const missingProperties = result.corruptionEvents.find(event => event.params.corruptionType === 'missing-properties');
+      const schemaPaths = result.corruptionEvents
+        .filter(event => event.params.corruptionType === 'settings-schema-violation')
+        .map(event => event.params.details.path);
+
+      expect(schemaPaths).toEqual(expect.arrayContaining(['/general', '/storemap']));
+      expect(missingProperties).toBeUndefined();
+      expect(result.riskFactors.severityPoints).toBe(result.corruptionEvents.reduce(
+        (sum, event) => sum + (({ low: 2, medium: 5, high: 10, critical: 20 } as any)[event.params.severity] || 0), 0
+      ));
+    });
+
+    it('should keep missing properties the schema does not cover', async () => {
+      const integration = {
+        ...integrationSnapshots.valid,
+        settings: { ...integrationSnapshots.valid.settings, general: undefined, commonresources: {} }
+      };
+      const result = await detector.detectCorruption(integration, {});
+      const missingProperties = result.corruptionEvents.find(event => event.params.corruptionType === 'missing-properties')!;
+
+      expect(missingProperties.params.details.missingProperties).not.toContain('settings.general');
+      expect(missingProperties.params.details.missingProperties).toContain('settings.commonresources.netsuiteConnectionId');
+      expect(missingProperties.params.details.totalMissing).toBe(missingProperties.params.details.missingProperties.length);
+    });
+
+    it('should not report settings that match the schema', async () => {
+      const integration = {
+        ...integrationSnapshots.valid,
+        settings: { ...integrationSnapshots.valid.settings, general: {} }
+      };
+      const result = await detector.detectCorruption(integration, {});
+
+      expect(result.corruptionEvents.map(event => event.params.corruptionType)).not.toContain('settings-schema-violation');
+    });
+  });
+
   describe('metadata and logging', () => {
     it('should include metadata in corruption events', async () => {
       const result = await detector.detectCorruption(integrationSnapshots.multipleIssues, {});
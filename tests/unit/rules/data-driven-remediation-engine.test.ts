@@ -12,6 +12,18 @@ import * as fs from 'fs/promises';
 jest.mock('fs/promises');
 const mockedFs = fs as jest.Mocked<typeof fs>;
 
+// Snapshot with `copies` copies of one resource on top of `distinct` single ones
+const snapshotWithDuplicates = (collection: 'imports' | 'exports', distinct: number, copies: number, storeCount = 1) => ({
+  id: 'test-integration-001',
+  storeCount,
+  [collection]: [
+    ...Array.from({ length: distinct }, (_, i) => ({ _id: `res-${i}`, externalId: `resource_${i}` })),
+    ...Array.from({ length: copies }, (_, i) => ({ _id: `copy-${i}`, externalId: 'duplicated_resource' }))
+  ],
+  flows: [],
+  connections: []
+});
+
 describe('DataDrivenRemediationEngine', () => {
   let engine: DataDrivenRemediationEngine;
   let mockFs: MockFileSystem;
@@ -68,6 +80,26 @@ describe('DataDrivenRemediationEngine', () => {
       await expect(newEngine.initialize()).rejects.toThrow('Config file not found');
     });
 
+    it('should reject dependency rules that form a cycle', async () => {
+      const cyclic = {
+        ...testRemediationConfig,
+        executionStrategy: {
+          ...testRemediationConfig.executionStrategy,
+          dependencies: {
+            rules: [
+              { name: 'imports-after-flows', action: { type: 'create', resourceType: 'import' }, after: { type: 'create', resourceType: 'flow' } },
+              { name: 'flows-after-imports', action: { type: 'create', resourceType: 'flow' }, after: { type: 'create', resourceType: 'import' } }
+            ]
+          }
+        }
+      };
+      mockedFs.readFile.mockImplementation(async (path: any) => JSON.stringify(path.includes('remediation-logic.json') ? cyclic : testBusinessConfig));
+
+      await expect(new DataDrivenRemediationEngine().initialize()).rejects.toThrow(
+        'Invalid remediation dependency rules: dependency rules form a cycle: create:import → create:flow → create:import'
+      );
+    });
+
     it('should get configuration objects', () => {
       const remediationConfig = engine.getRemediationConfig();
       const businessConfig = engine.getBusinessConfig();
@@ -137,9 +169,13 @@ describe('DataDrivenRemediationEngine', () => {
         }
       ];
 
-      const result = await engine.generateActions(corruptionEvents, mockContext);
+      const integration = snapshotWithDuplicates('exports', 18, 7);
+      const result = await engine.generateActions(corruptionEvents, { ...mockContext, integration });
+      const withoutSnapshot = await engine.generateActions(corruptionEvents, mockContext);
 
       expect(result.actions).toHaveLength(6); // One action per excess resource
+      expect(result.actions.map(action => action.target.resourceId)).toEqual(['copy-1', 'copy-2', 'copy-3', 'copy-4', 'copy-5', 'copy-6']);
+      expect(withoutSnapshot.actions).toEqual([]); // No made-up IDs
       
       result.actions.forEach(action => {
         expect(action.type).toBe('delete');
@@ -149,6 +185,77 @@ describe('DataDrivenRemediationEngine', () => {
       });
     });
 
+    it('should target real resource IDs when the adaptors are named', async () => {
+      const corruptionEvents: CorruptionEvent[] = [
+        {
+          type: 'corruption-detected',
+          params: {
+            corruptionType: 'incorrect-import-count',
+            resourceType: 'import',
+            severity: 'medium',
+            priority: 5,
+            fixAction: 'adjust-import-count',
+            rollbackable: true,
+            details: {
+              edition: 'starter',
+              difference: 0,
+              missingResources: [{ externalId: 'orders', expected: 2, actual: 0, missingCount: 2 }],
+              duplicateResources: [{ externalId: 'customers', expected: 2, actual: 3, resourceIds: ['imp-1', 'imp-2', 'imp-3'], excessResourceIds: ['imp-3'] }]
+            }
+          }
+        }
+      ];
+
+      const result = await engine.generateActions(corruptionEvents, mockContext);
+      const deletes = result.actions.filter(action => action.type === 'delete');
+      const creates = result.actions.filter(action => action.type === 'create');
+
+      expect(deletes.map(action => action.target.resourceId)).toEqual(['imp-3']);
+      expect(deletes[0].payload.diff.keptResourceIds).toEqual(['imp-1', 'imp-2']);
+      expect(creates.map(action => action.target.resourceId)).toEqual(['orders', 'orders']);
+      expect(creates[0].payload.diff.creationTemplate.externalId).toBe('orders');
+      result.actions.forEach(action => expect(action.target.resourceId).not.toMatch(/^(excess|missing)-/));
+    });
+
+    it('should choose duplicate copies from the snapshot and never delete one a flow references', async () => {
+      const duplicateEvent: CorruptionEvent = {
+        type: 'corruption-detected',
+        params: {
+          corruptionType: 'incorrect-import-count',
+          resourceType: 'import',
+          severity: 'medium',
+          priority: 5,
+          fixAction: 'adjust-import-count',
+          rollbackable: true,
+          details: {
+            edition: 'starter',
+            difference: 0,
+            duplicateResources: [{ externalId: 'customers', expected: 1, actual: 3, resourceIds: ['imp-1', 'imp-2', 'imp-3'], excessResourceIds: ['imp-2', 'imp-3'] }]
+          }
+        }
+      };
+      const integration = {
+        id: 'test-integration-001',
+        storeCount: 1,
+        imports: [
+          { _id: 'imp-1', externalId: 'customers', lastModified: '2024-01-01T00:00:00Z' },
+          { _id: 'imp-2', externalId: 'customers', lastModified: '2025-06-01T00:00:00Z' },
+          { _id: 'imp-3', externalId: 'customers', lastModified: '2023-01-01T00:00:00Z' }
+        ],
+        flows: [{ _id: 'flow-1', name: 'Customers', importIds: ['imp-1'] }],
+        connections: []
+      };
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await engine.generateActions([duplicateEvent], { ...mockContext, integration });
+
+      // keep-most-recent (remove-oldest) keeps imp-2; imp-1 is older but flow-1 still runs it
+      expect(result.actions.map(action => action.target.resourceId)).toEqual(['imp-3']);
+      expect(result.actions[0].payload.diff.keptResourceIds).toEqual(['imp-2']);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('not deleting duplicate import imp-1 (customers), flow flow-1 still references it'));
+      warn.mockRestore();
+    });
+
     it('should generate license patch action', async () => {
       const corruptionEvents: CorruptionEvent[] = [
         {
@@ -177,6 +284,10 @@ describe('DataDrivenRemediationEngine', () => {
       expect(action.target.resourceType).toBe('setting');
       expect(action.payload.before).toBe('standard');
       expect(action.payload.after).toBe('premium');
+      expect(action.payload.patch).toEqual([
+        { op: 'test', path: '/settings/connectorEdition', value: 'standard' },
+        { op: 'replace', path: '/settings/connectorEdition', value: 'premium' }
+      ]);
       expect(action.metadata.rollbackable).toBe(true);
     });
 
@@ -194,8 +305,13 @@ describe('DataDrivenRemediationEngine', () => {
             details: {
               missingProperties: [
                 'settings.commonresources.netsuiteConnectionId',
-                'settings.commonresources.nsUtilImportAdaptorApiIdentifier'
-              ]
+                'settings.commonresources.nsUtilImportAdaptorApiIdentifier',
+                'settings.commonresources.nsUtilImportAdaptorId'
+              ],
+              observedValues: {
+                'settings.commonresources.nsUtilImportAdaptorApiIdentifier': null,
+                'settings.commonresources.nsUtilImportAdaptorId': ''
+              }
             }
           }
         }
@@ -203,14 +319,30 @@ describe('DataDrivenRemediationEngine', () => {
 
       const result = await engine.generateActions(corruptionEvents, mockContext);
 
-      expect(result.actions).toHaveLength(2);
+      expect(result.actions).toHaveLength(3);
       
       result.actions.forEach(action => {
         expect(action.type).toBe('patch');
         expect(action.target.resourceType).toBe('setting');
-        expect(action.payload.diff.op).toBe('add');
         expect(action.metadata.rollbackable).toBe(true);
       });
+
+      // Absent members are added; present empty ones are replaced under a guard of the observed value
+      const [absent, nulled, emptied] = ['netsuiteConnectionId', 'nsUtilImportAdaptorApiIdentifier', 'nsUtilImportAdaptorId']
+        .map(prop => result.actions.find(action => action.target.path === `settings.commonresources.${prop}`)!);
+      expect(absent.payload.patch).toEqual([
+        { op: 'add', path: '/settings/commonresources/netsuiteConnectionId', value: absent.payload.after }
+      ]);
+      expect(nulled.payload.before).toBeNull();
+      expect(nulled.payload.patch).toEqual([
+        { op: 'test', path: '/settings/commonresources/nsUtilImportAdaptorApiIdentifier', value: null },
+        { op: 'replace', path: '/settings/commonresources/nsUtilImportAdaptorApiIdentifier', value: nulled.payload.after }
+      ]);
+      expect(emptied.payload.before).toBe('');
+      expect(emptied.payload.patch).toEqual([
+        { op: 'test', path: '/settings/commonresources/nsUtilImportAdaptorId', value: '' },
+        { op: 'replace', path: '/settings/commonresources/nsUtilImportAdaptorId', value: emptied.payload.after }
+      ]);
     });
 
     it('should generate connection reconnection actions', async () => {
@@ -263,15 +395,162 @@ describe('DataDrivenRemediationEngine', () => {
         }
       ];
 
-      const result = await engine.generateActions(corruptionEvents, mockContext);
+      // The raw CSV value is what the guard must test, not the boolean it was read as
+      const result = await engine.generateActions(corruptionEvents, { ...mockContext, integration: { id: 'test-integration-001', updateInProgress: 'true' } });
+      const withoutSnapshot = await engine.generateActions(corruptionEvents, mockContext);
 
       expect(result.actions).toHaveLength(1);
       
       const action = result.actions[0];
       expect(action.type).toBe('clearUpdateFlag');
       expect(action.target.resourceType).toBe('setting');
-      expect(action.payload.before).toBe(true);
+      expect(action.payload.before).toBe('true');
+      expect(action.payload.patch).toEqual([
+        { op: 'test', path: '/updateInProgress', value: 'true' },
+        { op: 'replace', path: '/updateInProgress', value: false }
+      ]);
       expect(action.metadata.rollbackable).toBe(true);
+      expect(withoutSnapshot.actions).toEqual([]);
+    });
+
+    it('should generate actions for dangling references from the event details', async () => {
+      const event = (corruptionType: string, details: any): CorruptionEvent => ({
+        type: 'corruption-detected',
+        params: { corruptionType, resourceType: 'connection', severity: 'high', priority: 2, fixAction: 'relink-connections', rollbackable: true, details }
+      });
+      const danglingReferences = [{ resourceType: 'import', resourceId: 'imp-2', name: 'Import 2', externalId: 'import-2', connectionId: 'conn-gone' }];
+
+      const result = await engine.generateActions([
+        event('dangling-connection-references', { danglingReferences, suggestedConnectionId: 'conn-1' }),
+        event('orphaned-connections', { orphanedConnections: [
+          { connectionId: 'conn-3', name: 'Unused offline', offline: true },
+          { connectionId: 'conn-4', name: 'Unused online', offline: false }
+        ] }),
+        event('unresolved-flow-references', { unresolvedFlows: [{ flowId: 'flow-9', name: 'Flow 9', importIds: ['imp-x'], exportIds: [], unresolvedIds: ['imp-x'] }] })
+      ], { ...mockContext, integration: { id: 'test-integration-001', flows: [{ _id: 'flow-9', disabled: 'false' }] } });
+      const manual = await engine.generateActions([event('dangling-connection-references', { danglingReferences })], mockContext);
+
+      expect(result.actions.map(action => [action.type, action.target.resourceType, action.target.resourceId, action.payload.after])).toEqual(
+        expect.arrayContaining([
+          ['patch', 'import', 'imp-2', 'conn-1'],
+          ['delete', 'connection', 'conn-3', undefined],
+          ['patch', 'flow', 'flow-9', true]
+        ])
+      );
+      expect(result.actions).toHaveLength(3);
+      expect(result.actions.find(action => action.target.resourceId === 'imp-2')!.metadata.reason).toBe('Relink import imp-2 from conn-gone to conn-1');
+      expect(result.actions.find(action => action.target.resourceId === 'flow-9')!.payload.patch).toEqual([
+        { op: 'test', path: '/disabled', value: 'false' },
+        { op: 'replace', path: '/disabled', value: true }
+      ]);
+      expect(manual.actions).toEqual([]);
+    });
+
+    it('should create missing adaptors per store and align storeCount with the storemap', async () => {
+      const event = (corruptionType: string, details: any): CorruptionEvent => ({
+        type: 'corruption-detected',
+        params: { corruptionType, resourceType: 'store', severity: 'high', priority: 3, fixAction: 'create-store-resources', rollbackable: true, details }
+      });
+      const storeGaps = [{ storeNumber: 2, storeId: 'store2', storeName: 'Store 2', resourceType: 'exports', externalId: 'inventory_export', message: '' }];
+
+      const result = await engine.generateActions([
+        event('store-resource-gaps', { edition: 'premium', storeGaps }),
+        event('storemap-mismatch', { storeCount: 3, storemapLength: 2 })
+      ], { ...mockContext, integration: { id: 'test-integration-001', storeCount: '3' } });
+      const emptyStoremap = await engine.generateActions([event('storemap-mismatch', { storeCount: 2, storemapLength: 0 })], mockContext);
+
+      expect(result.actions.map(action => [action.type, action.target.resourceType, action.target.resourceId ?? action.target.path, action.payload.after])).toEqual([
+        ['create', 'export', 'inventory_export', { storeId: 'store2' }],
+        ['patch', 'setting', 'storeCount', 2]
+      ]);
+      expect(result.actions[0].metadata.reason).toBe('Create inventory_export export for store 2 (Store 2)');
+      expect(result.actions[1].payload.patch[0]).toEqual({ op: 'test', path: '/storeCount', value: '3' });
+      expect(emptyStoremap.actions).toEqual([]);
+    });
+
+    it('should fill store creates from the product version template library', async () => {
+      const realFs = jest.requireActual('fs');
+      const exportsTemplate = {
+        defaults: { type: 'export', _integrationId: '{{integrationId}}', storeId: '{{storeId?}}', adaptorType: 'HTTPExport' },
+        resources: {
+          inventory_export: { name: 'Inventory Export', connectionId: '{{shopifyConnectionId}}' },
+          orders_export: { name: 'Orders Export', connectionId: '{{missingConnectionId}}' }
+        }
+      };
+      mockedFs.readdir.mockResolvedValue(['exports.json', 'variables.json'] as any);
+      mockedFs.readFile.mockImplementation(async (path: any) => {
+        if (path.endsWith('resource-template-schema.json')) {
+          return realFs.readFileSync(`${__dirname}/../../../config/schemas/resource-template-schema.json`, 'utf-8');
+        }
+        if (path.endsWith('variables.json')) {
+          return JSON.stringify({ variables: { integrationId: 'integration.id', storeId: 'store.storeId', shopifyConnectionId: 'store.shopifyConnectionId' } });
+        }
+        if (path.endsWith('exports.json')) return JSON.stringify(exportsTemplate);
+        throw new Error(`File not found: ${path}`);
+      });
+
+      const storeGaps = ['inventory_export', 'orders_export', 'unknown_export'].map(externalId => (
+        { storeNumber: 2, storeId: 'store2', storeName: 'Store 2', resourceType: 'exports', externalId, message: '' }
+      ));
+      const result = await engine.generateActions([{
+        type: 'corruption-detected',
+        params: { corruptionType: 'store-resource-gaps', resourceType: 'store', severity: 'high', priority: 3, fixAction: 'create-store-resources', rollbackable: true, details: { edition: 'premium', storeGaps } }
+      }], {
+        ...mockContext,
+        product: 'shopify-netsuite',
+        version: '1.51.0',
+        integration: { id: 'test-integration-001', settings: { storemap: [{ storeId: 'store1' }, { storeId: 'store2', shopifyConnectionId: 'conn-shop-2' }] } }
+      });
+      const [inventory, orders, unknown] = result.actions.map(action => action.payload.diff);
+
+      expect(mockedFs.readdir).toHaveBeenCalledWith('config/templates/shopify-netsuite/1.51.0');
+      expect(inventory).toEqual(expect.objectContaining({
+        readyToApply: true,
+        templateSource: 'config/templates/shopify-netsuite/1.51.0/exports.json#inventory_export',
+        creationTemplate: {
+          type: 'export',
+          _integrationId: 'test-integration-001',
+          storeId: 'store2',
+          adaptorType: 'HTTPExport',
+          name: 'Inventory Export',
+          connectionId: 'conn-shop-2',
+          externalId: 'inventory_export'
+        }
+      }));
+      expect(orders).toEqual(expect.objectContaining({ readyToApply: false, templateErrors: ['unresolved template variable {{missingConnectionId}}'] }));
+      expect(unknown).toEqual(expect.objectContaining({ readyToApply: false, creationTemplate: expect.objectContaining({ externalId: 'unknown_export', enabled: true }) }));
+    });
+
+    it('should patch settings schema violations from the schema default', async () => {
+      const event = (details: any): CorruptionEvent => ({
+        type: 'corruption-detected',
+        params: { corruptionType: 'settings-schema-violation', resourceType: 'setting', severity: 'medium', priority: 3, fixAction: 'apply-schema-defaults', rollbackable: true, details }
+      });
+
+      const result = await engine.generateActions([
+        event({ violationType: 'missing', path: '/general', hasDefault: true, default: {} }),
+        event({ violationType: 'invalid-value', path: '/sections/0/mode', actual: 'paused', hasDefault: true, default: 'active' }),
+        event({ violationType: 'invalid-value', path: '/connectorEdition', actual: 'gold', hasDefault: false }),
+        event({ violationType: 'unexpected-key', path: '/legacyFlag', actual: true, hasDefault: false })
+      ], mockContext);
+
+      expect(result.actions.map(action => [action.target.path, action.payload.patch])).toEqual(
+        expect.arrayContaining([
+          ['settings.general', [{ op: 'add', path: '/settings/general', value: {} }]],
+          ['settings.sections.0.mode', [
+            { op: 'test', path: '/settings/sections/0/mode', value: 'paused' },
+            { op: 'replace', path: '/settings/sections/0/mode', value: 'active' }
+          ]]
+        ])
+      );
+      expect(result.actions).toHaveLength(2);
+      expect(result.actions.find(action => action.target.path === 'settings.sections.0.mode')!.metadata.reason)
+        .toBe('Apply schema default at settings.sections.0.mode (invalid-value): "paused" → "active"');
+      expect(result.businessAnalysis.executionPlan.manualReview).toEqual([
+        { integrationId: 'test-integration-001', corruptionType: 'settings-schema-violation', path: '/connectorEdition', violationType: 'invalid-value', reason: 'no schema default' },
+        { integrationId: 'test-integration-001', corruptionType: 'settings-schema-violation', path: '/legacyFlag', violationType: 'unexpected-key', reason: 'unexpected key and removeUnexpectedKeys is off' }
+      ]);
+      expect(result.businessAnalysis.executionPlan.blocked).toBe(false);
     });
   });
 
@@ -297,8 +576,13 @@ describe('DataDrivenRemediationEngine', () => {
 
       const limitedContext = { ...mockContext, maxOpsPerIntegration: 20 };
       const result = await engine.generateActions(corruptionEvents, limitedContext);
+      const unlimited = await engine.generateActions(corruptionEvents, mockContext);
+      const truncated = result.businessAnalysis.executionPlan.truncated;
 
       expect(result.actions.length).toBeLessThanOrEqual(20);
+      expect(result.actions.length + truncated.length).toBe(unlimited.actions.length);
+      expect(truncated.every((cut: any) => cut.reason === 'max-actions')).toBe(true);
+      expect(unlimited.businessAnalysis.executionPlan.truncated).toEqual([]);
     });
 
     it('should prioritize actions correctly', async () => {
@@ -328,7 +612,7 @@ describe('DataDrivenRemediationEngine', () => {
         }
       ];
 
-      const result = await engine.generateActions(corruptionEvents, mockContext);
+      const result = await engine.generateActions(corruptionEvents, { ...mockContext, integration: { id: 'test-integration-001', updateInProgress: true } });
 
       // Higher priority actions should come first
       expect(result.actions[0].metadata.priority).toBeGreaterThanOrEqual(result.actions[1].metadata.priority);
@@ -336,7 +620,7 @@ describe('DataDrivenRemediationEngine', () => {
 
     it('should apply safety controls for destructive actions', async () => {
       // Create many delete actions
-      const corruptionEvents: CorruptionEvent[] = Array.from({ length: 30 }, () => ({
+      const corruptionEvents: CorruptionEvent[] = [{
         type: 'corruption-detected',
         params: {
           corruptionType: 'incorrect-import-count',
@@ -347,22 +631,97 @@ describe('DataDrivenRemediationEngine', () => {
           rollbackable: true,
           details: {
             edition: 'starter',
-            difference: 1,
+            difference: 30,
             status: 'DUPLICATE_RESOURCES'
           }
         }
-      }));
+      }];
 
-      const result = await engine.generateActions(corruptionEvents, mockContext);
+      const integration = snapshotWithDuplicates('imports', 0, 31);
+      const result = await engine.generateActions(corruptionEvents, { ...mockContext, integration });
 
       const destructiveActions = result.actions.filter(a => a.type === 'delete');
       
       // Should be limited by safety controls (maxDestructiveActions: 20)
+      expect(destructiveActions.length).toBeGreaterThan(0);
       expect(destructiveActions.length).toBeLessThanOrEqual(20);
+      expect(result.businessAnalysis.executionPlan.truncated).toEqual(
+        Array(30 - destructiveActions.length).fill(expect.objectContaining({ type: 'delete', reason: 'max-destructive-actions' }))
+      );
     });
   });
 
   describe('business analysis', () => {
+    it('should order actions by their dependencies and expose the graph in the execution plan', async () => {
+      const event = (corruptionType: string, priority: number, details: any): CorruptionEvent => ({
+        type: 'corruption-detected',
+        params: { corruptionType, resourceType: 'connection', severity: 'high', priority, fixAction: 'fix', rollbackable: true, details }
+      });
+
+      const result = await engine.generateActions([
+        event('dangling-connection-references', 9, {
+          danglingReferences: [{ resourceType: 'import', resourceId: 'imp-2', name: 'Import 2', externalId: 'import-2', connectionId: 'conn-gone' }],
+          suggestedConnectionId: 'conn-1'
+        }),
+        event('offline-connections', 6, { offlineConnections: [{ id: 'conn-1' }, { id: 'conn-2' }] })
+      ], mockContext);
+      const [reconnect1, relink, reconnect2] = result.actions;
+
+      // The higher-priority relink runs as soon as its connection is back
+      expect(result.actions.map(action => [action.type, action.target.resourceId])).toEqual([
+        ['reconnect', 'conn-1'],
+        ['patch', 'imp-2'],
+        ['reconnect', 'conn-2']
+      ]);
+      expect(relink.metadata.dependencies).toEqual([reconnect1.id]);
+      expect(result.businessAnalysis.executionPlan.dependencyGraph).toEqual({
+        nodes: [reconnect1.id, relink.id, reconnect2.id],
+        edges: [{ from: reconnect1.id, to: relink.id, rule: 'relinks-after-reconnect' }],
+        levels: [[reconnect1.id, reconnect2.id], [relink.id]]
+      });
+    });
+
+    it('should settle conflicting patches by precedence and block the plan on the rest', async () => {
+      const event = (corruptionType: string, details: any): CorruptionEvent => ({
+        type: 'corruption-detected',
+        params: { corruptionType, resourceType: 'setting', severity: 'medium', priority: 4, fixAction: 'fix', rollbackable: true, details }
+      });
+      const license = event('license-edition-mismatch', { licenseEdition: 'premium', connectorEdition: 'standard' });
+      const defaults = event('missing-properties', { missingProperties: ['settings.connectorEdition'] });
+
+      const settled = await engine.generateActions([defaults, license], mockContext);
+
+      expect(settled.actions).toHaveLength(1);
+      expect(settled.actions[0].payload.after).toBe('premium');
+      expect(settled.businessAnalysis.executionPlan.blocked).toBe(false);
+      expect(settled.businessAnalysis.executionPlan.conflicts.resolved).toEqual([
+        expect.objectContaining({ kind: 'same-path', rule: 'license-edition-over-defaults', keptActionId: settled.actions[0].id })
+      ]);
+
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const blocked = await engine.generateActions([
+        license,
+        event('license-edition-mismatch', { licenseEdition: 'starter', connectorEdition: 'standard' })
+      ], mockContext);
+
+      expect(blocked.actions).toHaveLength(2);
+      expect(blocked.businessAnalysis.executionPlan.blocked).toBe(true);
+      expect(blocked.businessAnalysis.executionPlan.conflicts.blocking).toEqual([
+        expect.objectContaining({ kind: 'same-path', target: 'setting::settings.connectorEdition' })
+      ]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('review manually'));
+
+      // The action limit runs after conflict analysis, so cutting one side does not hide the conflict
+      const capped = await engine.generateActions([
+        license,
+        event('license-edition-mismatch', { licenseEdition: 'starter', connectorEdition: 'standard' })
+      ], { ...mockContext, maxOpsPerIntegration: 1 });
+
+      expect(capped.actions).toHaveLength(1);
+      expect(capped.businessAnalysis.executionPlan.blocked).toBe(true);
+      warn.mockRestore();
+    });
+
     it('should provide comprehensive business analysis', async () => {
       const corruptionEvents: CorruptionEvent[] = [
         {
@@ -492,7 +851,7 @@ describe('DataDrivenRemediationEngine', () => {
 
     it('should calculate risk level appropriately', async () => {
       // High-risk scenario with many destructive actions
-      const highRiskEvents: CorruptionEvent[] = Array.from({ length: 15 }, () => ({
+      const highRiskEvents: CorruptionEvent[] = [{
         type: 'corruption-detected',
         params: {
           corruptionType: 'incorrect-import-count',
@@ -501,11 +860,12 @@ describe('DataDrivenRemediationEngine', () => {
           priority: 5,
           fixAction: 'adjust-import-count',
           rollbackable: true,
-          details: { difference: 1, status: 'DUPLICATE_RESOURCES' }
+          details: { difference: 15, status: 'DUPLICATE_RESOURCES' }
         }
-      }));
+      }];
 
-      const result = await engine.generateActions(highRiskEvents, mockContext);
+      const integration = snapshotWithDuplicates('imports', 0, 16);
+      const result = await engine.generateActions(highRiskEvents, { ...mockContext, integration });
 
       expect(result.summary.riskLevel).toBeOneOf(['medium', 'high', 'critical']);
     });
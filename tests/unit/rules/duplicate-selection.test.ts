@@ -0,0 +1,99 @@
+/**
+ * Unit tests for duplicate copy selection
+ */
+
+import {
+  getFlowReferences,
+  resolveDuplicateStrategies,
+  selectDuplicates,
+  selectDuplicatesByName
+} from '../../../src/rules/duplicate-selection';
+
+const integration = {
+  id: 'int-001',
+  storeCount: 1,
+  exports: [
+    { _id: 'exp-1', externalId: 'orders_export', connectionId: 'conn-offline', createdAt: '2023-01-01T00:00:00Z' },
+    { _id: 'exp-2', externalId: 'orders_export', connectionId: 'conn-live', createdAt: '2024-01-01T00:00:00Z' },
+    { _id: 'exp-3', externalId: 'orders_export', connectionId: 'conn-live', lastModified: '2025-01-01T00:00:00Z' },
+    { _id: 'exp-4', externalId: 'customers_export', connectionId: 'conn-live' }
+  ],
+  flows: [{ _id: 'flow-1', name: 'Orders', exportIds: ['exp-1'], importIds: [] }],
+  connections: [
+    { _id: 'conn-offline', offline: true },
+    { _id: 'conn-live', offline: false }
+  ]
+};
+
+const orderCopies = ['exp-1', 'exp-2', 'exp-3'];
+
+describe('selectDuplicates', () => {
+  it('should keep the most recent copy by lastModified, then createdAt', () => {
+    const selection = selectDuplicates(integration, 'export', orderCopies, 1, ['keep-most-recent']);
+
+    expect(selection.keep).toEqual(['exp-3']);
+    expect(selection.remove).toEqual(['exp-2']);
+  });
+
+  it('should keep the oldest copy', () => {
+    const selection = selectDuplicates(integration, 'export', orderCopies, 1, ['keep-oldest']);
+
+    expect(selection.keep).toEqual(['exp-1']);
+    expect(selection.remove).toEqual(['exp-2', 'exp-3']);
+  });
+
+  it('should keep copies on live connections, breaking ties with the next strategy', () => {
+    const selection = selectDuplicates(integration, 'export', orderCopies, 1, ['keep-connected', 'keep-oldest']);
+
+    expect(selection.keep).toEqual(['exp-2']);
+  });
+
+  it('should keep the copy a flow references', () => {
+    const selection = selectDuplicates(integration, 'export', orderCopies, 1, ['keep-referenced-by-flow']);
+
+    expect(selection.keep).toEqual(['exp-1']);
+    expect(selection.flowReferenced).toEqual([]);
+  });
+
+  it('should never select a copy a flow references for deletion', () => {
+    const selection = selectDuplicates(integration, 'export', orderCopies, 1, ['keep-most-recent']);
+
+    expect(selection.remove).not.toContain('exp-1');
+    expect(selection.flowReferenced).toEqual([{ resourceId: 'exp-1', flowIds: ['flow-1'] }]);
+  });
+
+  it('should fall back to snapshot order without timestamps', () => {
+    const selection = selectDuplicates({ exports: [{ _id: 'a' }, { _id: 'b' }, { _id: 'c' }] }, 'export', ['a', 'b', 'c'], 2, ['keep-most-recent']);
+
+    expect(selection.keep).toEqual(['a', 'b']);
+    expect(selection.remove).toEqual(['c']);
+  });
+});
+
+describe('selectDuplicatesByName', () => {
+  it('should select copies beyond one per store for each duplicated name', () => {
+    const selections = selectDuplicatesByName(integration, 'export', ['keep-most-recent']);
+
+    expect(selections).toHaveLength(1);
+    expect(selections[0]).toEqual(expect.objectContaining({ externalId: 'orders_export', keep: ['exp-3'], remove: ['exp-2'] }));
+  });
+});
+
+describe('resolveDuplicateStrategies', () => {
+  it('should accept a strategy, a list, and legacy remove-* names', () => {
+    expect(resolveDuplicateStrategies('keep-oldest')).toEqual(['keep-oldest']);
+    expect(resolveDuplicateStrategies(['keep-connected', 'keep-most-recent'])).toEqual(['keep-connected', 'keep-most-recent']);
+    expect(resolveDuplicateStrategies('remove-oldest')).toEqual(['keep-most-recent']);
+    expect(resolveDuplicateStrategies(undefined)).toEqual(['keep-most-recent']);
+  });
+
+  it('should reject unknown strategies', () => {
+    expect(() => resolveDuplicateStrategies('keep-random')).toThrow("Unknown duplicate selection strategy 'keep-random'");
+  });
+});
+
+describe('getFlowReferences', () => {
+  it('should map each import/export to the flows referencing it', () => {
+    expect(getFlowReferences(integration)).toEqual(new Map([['exp-1', ['flow-1']]]));
+  });
+});
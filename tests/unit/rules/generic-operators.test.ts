@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the generic, config-usable rule operators
+ */
+
+import { Engine, Rule } from 'json-rules-engine';
+import {
+  countWhere,
+  diffRequiredResources,
+  getRequiredResources,
+  registerGenericOperators,
+  selectJsonPath
+} from '../../../src/rules/generic-operators';
+
+const editionRequirements = {
+  starter: { importsPerStore: 2, exportsPerStore: 0, flowsPerStore: 0, requiredImports: ['customer_import', 'order_import'] },
+  premium: { importsPerStore: 3, exportsPerStore: 0, flowsPerStore: 0, inheritsFrom: 'starter', additionalImports: ['refund_import'] }
+};
+
+const integration = {
+  id: 'int-001',
+  licenseEdition: 'premium',
+  settings: {
+    connectorEdition: 'premium',
+    commonresources: { netsuiteConnectionId: 'conn-1' },
+    sections: [{ id: 'orders', mode: 'settings' }, { id: 'refunds', mode: 'settings' }]
+  },
+  imports: [
+    { _id: 'imp-1', externalId: 'customer_import', connectionId: 'conn-1', name: 'Customer' },
+    { _id: 'imp-2', externalId: 'order_import', connectionId: 'conn-9', name: 'Order' },
+    { _id: 'imp-3', externalId: 'legacy_import', name: 'Legacy' }
+  ],
+  exports: [],
+  flows: [],
+  connections: [{ _id: 'conn-1', name: 'NetSuite', type: 'netsuite' }]
+};
+
+describe('Generic rule operators', () => {
+  it('should select JSONPath values and ignore null matches', () => {
+    expect(selectJsonPath('$.commonresources.netsuiteConnectionId', integration.settings)).toEqual(['conn-1']);
+    expect(selectJsonPath('$.sections[*].mode', integration.settings)).toEqual(['settings', 'settings']);
+    expect(selectJsonPath('$.commonresources.nsUtilImportAdaptorId', integration.settings)).toEqual([]);
+    expect(selectJsonPath('$.anything', null)).toEqual([]);
+  });
+
+  it('should count resources by predicate, including references into other collections', () => {
+    expect(countWhere(integration, { collection: 'imports' })).toBe(3);
+    expect(countWhere(integration, {
+      collection: 'imports',
+      where: { field: 'connectionId', operator: 'notInCollection', value: 'connections._id' }
+    })).toBe(1);
+    expect(countWhere(integration, {
+      collection: 'imports',
+      where: [{ field: 'connectionId', operator: 'missing' }, { field: 'externalId', operator: 'matches', value: '^legacy_' }]
+    })).toBe(1);
+    expect(() => countWhere(integration, {
+      collection: 'imports',
+      where: { field: 'connectionId', operator: 'inCollection', value: 'stores.id' }
+    })).toThrow("Invalid collection reference 'stores.id'");
+  });
+
+  it('should diff resources against inherited edition requirements', () => {
+    expect(getRequiredResources('premium', 'imports', editionRequirements)).toEqual(['customer_import', 'order_import', 'refund_import']);
+    expect(diffRequiredResources(integration, { resourceType: 'imports' }, editionRequirements)).toEqual({
+      required: ['customer_import', 'order_import', 'refund_import'],
+      missing: ['refund_import'],
+      unexpected: ['legacy_import']
+    });
+    expect(diffRequiredResources(integration, { resourceType: 'exports' }, editionRequirements).unexpected).toEqual([]);
+  });
+
+  it('should let a corruption rule be written entirely in JSON', async () => {
+    const engine = new Engine();
+    registerGenericOperators(engine, editionRequirements);
+    engine.addRule(new Rule({
+      name: 'import-with-dangling-connection',
+      conditions: {
+        all: [
+          { fact: 'settings', operator: 'jsonPathEquals', value: { path: '$.connectorEdition', equals: 'premium' } },
+          { fact: 'settings', operator: 'jsonPathExists', value: '$.commonresources.netsuiteConnectionId' },
+          {
+            fact: 'integration',
+            operator: 'countWhere',
+            value: { collection: 'imports', where: { field: 'connectionId', operator: 'notInCollection', value: 'connections._id' }, greaterThan: 0 }
+          },
+          { fact: 'integration', operator: 'externalIdMatches', value: { pattern: '^LEGACY_', flags: 'i', collections: ['imports'] } },
+          { fact: 'integration', operator: 'missingRequiredResources', value: { resourceType: 'imports' } },
+          { fact: 'requiredResources', path: '$.imports.length', operator: 'equal', value: 3 }
+        ]
+      },
+      event: { type: 'corruption-detected', params: { corruptionType: 'dangling-connection-reference' } }
+    }));
+
+    const { events } = await engine.run({ integration });
+    const healthy = await engine.run({ integration: { ...integration, imports: integration.imports.slice(0, 1) } });
+
+    expect(events.map(event => event.params!['corruptionType'])).toEqual(['dangling-connection-reference']);
+    expect(healthy.events).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for guarded JSON Patch operations and their inverses
+ */
+
+import {
+  applyJsonPatch,
+  buildJsonPatch,
+  invertJsonPatch,
+  JsonPatchOperation,
+  toJsonPointer
+} from '../../../src/rules/json-patch';
+
+const integration = {
+  updateInProgress: true,
+  settings: {
+    connectorEdition: 'standard',
+    sections: [{ mode: 'paused' }, { mode: 'active' }],
+    legacyFlag: true
+  }
+};
+
+describe('toJsonPointer', () => {
+  it('should turn target paths into JSON pointers', () => {
+    expect(toJsonPointer('settings.sections[0].mode')).toBe('/settings/sections/0/mode');
+    expect(toJsonPointer('settings.a/b.c~d')).toBe('/settings/a~1b/c~0d');
+    expect(toJsonPointer('/settings/connectorEdition')).toBe('/settings/connectorEdition');
+  });
+});
+
+describe('buildJsonPatch', () => {
+  it('should guard replacements and removals with a test of the previous value', () => {
+    expect(buildJsonPatch('settings.connectorEdition', 'standard', 'premium')).toEqual([
+      { op: 'test', path: '/settings/connectorEdition', value: 'standard' },
+      { op: 'replace', path: '/settings/connectorEdition', value: 'premium' }
+    ]);
+    expect(buildJsonPatch('settings.legacyFlag', true, undefined)).toEqual([
+      { op: 'test', path: '/settings/legacyFlag', value: true },
+      { op: 'remove', path: '/settings/legacyFlag' }
+    ]);
+  });
+
+  it('should add missing members without a guard', () => {
+    expect(buildJsonPatch('settings.general', undefined, {})).toEqual([{ op: 'add', path: '/settings/general', value: {} }]);
+    expect(buildJsonPatch('settings.general', undefined, undefined)).toEqual([]);
+  });
+});
+
+describe('invertJsonPatch', () => {
+  const patch: JsonPatchOperation[] = [
+    ...buildJsonPatch('settings.connectorEdition', 'standard', 'premium'),
+    ...buildJsonPatch('settings.sections[0].mode', 'paused', 'active'),
+    ...buildJsonPatch('settings.legacyFlag', true, undefined),
+    ...buildJsonPatch('settings.general', undefined, { timezone: 'UTC' }),
+    ...buildJsonPatch('updateInProgress', true, false)
+  ];
+
+  it('should undo each operation in reverse order', () => {
+    expect(invertJsonPatch(patch)).toEqual([
+      { op: 'test', path: '/updateInProgress', value: false },
+      { op: 'replace', path: '/updateInProgress', value: true },
+      { op: 'test', path: '/settings/general', value: { timezone: 'UTC' } },
+      { op: 'remove', path: '/settings/general' },
+      { op: 'add', path: '/settings/legacyFlag', value: true },
+      { op: 'test', path: '/settings/sections/0/mode', value: 'active' },
+      { op: 'replace', path: '/settings/sections/0/mode', value: 'paused' },
+      { op: 'test', path: '/settings/connectorEdition', value: 'premium' },
+      { op: 'replace', path: '/settings/connectorEdition', value: 'standard' }
+    ]);
+  });
+
+  it('should restore the original document exactly', () => {
+    const patched = applyJsonPatch(integration, patch);
+
+    expect(patched.settings.connectorEdition).toBe('premium');
+    expect(applyJsonPatch(patched, invertJsonPatch(patch))).toEqual(integration);
+    expect(invertJsonPatch(invertJsonPatch(patch))).toEqual(patch);
+  });
+
+  it('should refuse overwrites no test guard records', () => {
+    expect(() => invertJsonPatch([{ op: 'replace', path: '/settings/connectorEdition', value: 'premium' }]))
+      .toThrow('Cannot invert JSON Patch replace at /settings/connectorEdition: no test guard records the previous value');
+    expect(() => invertJsonPatch([{ op: 'add', path: '/settings/sections/-', value: {} }]))
+      .toThrow('appended array index is unknown');
+  });
+});
+
+describe('applyJsonPatch', () => {
+  it('should reject a patch whose test guard no longer holds and leave the document untouched', () => {
+    const patch = buildJsonPatch('settings.connectorEdition', 'starter', 'premium');
+
+    expect(() => applyJsonPatch(integration, patch)).toThrow('JSON Patch test failed at /settings/connectorEdition');
+    expect(integration.settings.connectorEdition).toBe('standard');
+  });
+
+  it('should insert into and remove from arrays by index', () => {
+    const added = applyJsonPatch(integration, [{ op: 'add', path: '/settings/sections/1', value: { mode: 'new' } }]);
+
+    expect(added.settings.sections.map(section => section.mode)).toEqual(['paused', 'new', 'active']);
+    expect(applyJsonPatch(added, [{ op: 'remove', path: '/settings/sections/1' }])).toEqual(integration);
+  });
+});
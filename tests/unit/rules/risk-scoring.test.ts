@@ -0,0 +1,93 @@
+/**
+ * Unit tests for weighted risk scoring
+ */
+
+import {
+  calculateRiskScore,
+  countAffectedResources,
+  DEFAULT_RISK_SCORING,
+  rankByRiskScore,
+  resolveRiskScoringModel
+} from '../../../src/rules/risk-scoring';
+
+const event = (severity: string, details: any = {}) => ({ params: { severity, details } });
+
+const integration = {
+  id: 'int-001',
+  licenseEdition: 'premium',
+  storeCount: 3,
+  connections: [{ _id: 'conn-1', offline: true }, { _id: 'conn-2', offline: false }],
+  exports: [{ _id: 'exp-1', connectionId: 'conn-1' }, { _id: 'exp-2', connectionId: 'conn-2' }]
+};
+
+describe('calculateRiskScore', () => {
+  it('should score a clean integration 0', () => {
+    expect(calculateRiskScore(integration, []).score).toBe(0);
+  });
+
+  it('should weight severity and affected resources by edition and store count', () => {
+    const model = resolveRiskScoringModel({ offlineActiveExportsPoints: 0 });
+    const risk = calculateRiskScore(integration, [event('high', { totalAffectedResources: 4 }), event('low')], model);
+
+    // (10 + 2 + (4 + 1) × 0.5) × 1.25 premium × 1.2 for 3 stores = 21.75 points; 100 × (1 − e^−0.2175)
+    expect(risk.factors).toEqual(expect.objectContaining({
+      severityPoints: 12,
+      affectedResources: 5,
+      editionMultiplier: 1.25,
+      storeMultiplier: 1.2,
+      rawPoints: 21.8
+    }));
+    expect(risk.score).toBe(19.5);
+  });
+
+  it('should add points for an offline connection with active exports', () => {
+    const risk = calculateRiskScore(integration, [event('medium')]);
+
+    expect(risk.factors.offlineActiveExports).toBe(1);
+    expect(risk.factors.offlineActiveExportsPoints).toBe(DEFAULT_RISK_SCORING.offlineActiveExportsPoints);
+  });
+
+  it('should approach maxScore without clamping heavy integrations together', () => {
+    const events = Array.from({ length: 10 }, () => event('critical', { totalAffectedResources: 100 }));
+    const heavy = calculateRiskScore(integration, events).score;
+    const heavier = calculateRiskScore(integration, [...events, event('critical')]).score;
+
+    expect(heavy).toBe(99);
+    expect(heavier).toBeGreaterThan(heavy);
+    expect(heavier).toBeLessThan(DEFAULT_RISK_SCORING.maxScore);
+  });
+
+  it('should use the configured model over the defaults', () => {
+    // 50 critical × 2 premium + 0.5 affected resource × 2 premium = 101 points; 100 × (1 − e^−1.01)
+    const model = resolveRiskScoringModel({ severityWeights: { critical: 50 } as any, editionMultipliers: { premium: 2 } });
+
+    expect(model.severityWeights.low).toBe(DEFAULT_RISK_SCORING.severityWeights.low);
+    expect(calculateRiskScore({ licenseEdition: 'premium' }, [event('critical')], model).score).toBe(63.6);
+    expect(calculateRiskScore({ licenseEdition: 'premium' }, [event('critical')], { ...model, saturationPoints: 200 }).score).toBe(39.6);
+  });
+});
+
+describe('countAffectedResources', () => {
+  it('should read the affected resource count from event details', () => {
+    expect(countAffectedResources(event('high', { totalMissing: 3 }))).toBe(3);
+    expect(countAffectedResources(event('medium', { difference: -6 }))).toBe(6);
+    expect(countAffectedResources(event('medium', {
+      difference: 0,
+      missingResources: [{ externalId: 'orders', missingCount: 1 }],
+      duplicateResources: [{ externalId: 'refunds', excessResourceIds: ['imp-7', 'imp-8'] }]
+    }))).toBe(3);
+    expect(countAffectedResources(event('low'))).toBe(1);
+  });
+});
+
+describe('rankByRiskScore', () => {
+  it('should order integrations by score, then by event count', () => {
+    const ranked = rankByRiskScore([
+      { integrationId: 'a', riskScore: 10, corruptionEvents: [1] },
+      { integrationId: 'b', riskScore: 40, corruptionEvents: [1] },
+      { integrationId: 'c', riskScore: 10, corruptionEvents: [1, 2] }
+    ], 2);
+
+    expect(ranked.map(result => result.integrationId)).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for settings JSON Schema validation
+ */
+
+import {
+  escapePointer,
+  getAtPointer,
+  pointerToSettingsPath,
+  SettingsSchemaValidator
+} from '../../../src/rules/settings-schema';
+
+const schema = {
+  type: 'object',
+  required: ['connectorEdition', 'commonresources', 'sections'],
+  additionalProperties: false,
+  properties: {
+    connectorEdition: { type: 'string', enum: ['starter', 'premium'] },
+    commonresources: {
+      type: 'object',
+      default: {},
+      required: ['netsuiteConnectionId'],
+      properties: { netsuiteConnectionId: { $ref: '#/definitions/resourceId' } }
+    },
+    sections: { type: 'array', default: [], items: { $ref: '#/definitions/section' } }
+  },
+  definitions: {
+    resourceId: { type: 'string', minLength: 1 },
+    section: {
+      type: 'object',
+      required: ['id', 'mode'],
+      properties: {
+        id: { type: 'string' },
+        mode: { type: 'string', enum: ['active', 'inactive'], default: 'active' }
+      }
+    }
+  }
+};
+
+describe('SettingsSchemaValidator', () => {
+  const validator = new SettingsSchemaValidator(schema);
+
+  it('should report no violations for valid settings', () => {
+    const settings = {
+      connectorEdition: 'premium',
+      commonresources: { netsuiteConnectionId: 'conn-1' },
+      sections: [{ id: 's1', mode: 'active' }]
+    };
+
+    expect(validator.validate(settings)).toEqual([]);
+  });
+
+  it('should report a missing property with its pointer and schema default', () => {
+    const violations = validator.validate({ connectorEdition: 'starter', sections: [] });
+
+    expect(violations).toEqual([expect.objectContaining({
+      violationType: 'missing',
+      keyword: 'required',
+      path: '/commonresources',
+      hasDefault: true,
+      default: {}
+    })]);
+    expect(violations[0]).not.toHaveProperty('actual');
+  });
+
+  it('should type wrong types, invalid values and unexpected keys', () => {
+    const violations = validator.validate({
+      connectorEdition: 'gold',
+      commonresources: { netsuiteConnectionId: '' },
+      sections: 'none',
+      legacyFlag: true
+    });
+
+    expect(violations.map(v => [v.violationType, v.path])).toEqual(expect.arrayContaining([
+      ['invalid-value', '/connectorEdition'],
+      ['invalid-value', '/commonresources/netsuiteConnectionId'],
+      ['wrong-type', '/sections'],
+      ['unexpected-key', '/legacyFlag']
+    ]));
+
+    const sections = violations.find(v => v.path === '/sections')!;
+    expect(sections).toEqual(expect.objectContaining({ actual: 'none', hasDefault: true, default: [] }));
+
+    const edition = violations.find(v => v.path === '/connectorEdition')!;
+    expect(edition).toEqual(expect.objectContaining({ actual: 'gold', hasDefault: false }));
+  });
+
+  it('should resolve defaults through $ref for array items', () => {
+    const violations = validator.validate({
+      connectorEdition: 'starter',
+      commonresources: { netsuiteConnectionId: 'conn-1' },
+      sections: [{ id: 's1' }, { id: 's2', mode: 'paused' }]
+    });
+
+    expect(violations).toEqual([
+      expect.objectContaining({ violationType: 'missing', path: '/sections/0/mode', hasDefault: true, default: 'active' }),
+      expect.objectContaining({ violationType: 'invalid-value', path: '/sections/1/mode', actual: 'paused', default: 'active' })
+    ]);
+  });
+
+  it('should cap violations at maxViolations', () => {
+    expect(validator.validate({ a: 1, b: 2, c: 3 }, 2)).toHaveLength(2);
+  });
+});
+
+describe('JSON pointers', () => {
+  it('should read values at a pointer, with "/" as the whole document', () => {
+    const document = { a: { 'b/c': [10, 20] } };
+
+    expect(getAtPointer(document, '/a/b~1c/1')).toBe(20);
+    expect(getAtPointer(document, '/')).toBe(document);
+    expect(getAtPointer(document, '/missing/key')).toBeUndefined();
+  });
+
+  it('should convert settings pointers to remediation dot paths', () => {
+    expect(pointerToSettingsPath('/commonresources/netsuiteConnectionId')).toBe('settings.commonresources.netsuiteConnectionId');
+    expect(pointerToSettingsPath('/sections/0/mode')).toBe('settings.sections.0.mode');
+    expect(escapePointer('a/b~c')).toBe('a~1b~0c');
+  });
+});
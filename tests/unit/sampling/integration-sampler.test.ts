@@ -0,0 +1,128 @@
+/**
+ * Unit tests for integration sampling and population estimates
+ */
+
+import { IntegrationSampler, createSamplingOptions, estimateProportion } from '../../../src/sampling/integration-sampler';
+import { IntegrationSnapshot } from '../../../src/types';
+
+function createIntegrations(count: number): IntegrationSnapshot[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `int-${String(i).padStart(4, '0')}`,
+    licenseEdition: i % 10 === 0 ? 'premium' : 'starter',
+    version: '1.51.0',
+    storeCount: 1 + (i % 3),
+    settings: {},
+    settingsProfile: { sizeBytes: (i * 37) % 1000, depth: 1, keyCount: 1, parseStatus: 'parsed' }
+  }) as any);
+}
+
+async function* inBatches(integrations: IntegrationSnapshot[]): AsyncGenerator<IntegrationSnapshot[]> {
+  for (let start = 0; start < integrations.length; start += 64) {
+    yield integrations.slice(start, start + 64);
+  }
+}
+
+async function drain(sampler: IntegrationSampler, integrations: IntegrationSnapshot[]): Promise<string[]> {
+  const ids: string[] = [];
+  for await (const batch of sampler.select(inBatches(integrations), 25)) {
+    ids.push(...batch.map(integration => integration.id));
+  }
+  return ids;
+}
+
+describe('Integration sampling', () => {
+  const population = createIntegrations(1000);
+
+  it('should draw the same random sample for the same seed, in input order', async () => {
+    const first = await drain(new IntegrationSampler({ mode: 'random', size: 50, seed: 7 }), population);
+    const second = await drain(new IntegrationSampler({ mode: 'random', size: 50, seed: 7 }), population);
+    const other = await drain(new IntegrationSampler({ mode: 'random', size: 50, seed: 8 }), population);
+
+    expect(first).toHaveLength(50);
+    expect(new Set(first).size).toBe(50);
+    expect(first).toEqual(second);
+    expect(first).toEqual([...first].sort());
+    expect(other).not.toEqual(first);
+
+    const sampler = new IntegrationSampler({ mode: 'random', size: 50 });
+    await drain(sampler, population);
+    expect(sampler.getRecord()).toEqual(expect.objectContaining({
+      mode: 'random', seed: sampler.seed, populationSize: 1000, sampleSize: 50,
+      strata: [{ key: 'all', population: 1000, sampled: 50 }]
+    }));
+  });
+
+  it('should allocate stratified samples proportionally and estimate per stratum', async () => {
+    const sampler = new IntegrationSampler(createSamplingOptions({ mode: 'stratified', size: '40', seed: '3', stratifyBy: 'edition' })!);
+    const sample: IntegrationSnapshot[] = [];
+    for await (const batch of sampler.select(inBatches(population))) {
+      sample.push(...batch);
+    }
+
+    expect(sampler.getRecord().strata).toEqual([
+      { key: 'premium', population: 100, sampled: 4 },
+      { key: 'starter', population: 900, sampled: 36 }
+    ]);
+
+    // Every premium integration is corrupted, no starter one is
+    sample.forEach(integration =>
+      sampler.recordOutcome(integration, integration.licenseEdition === 'premium' ? ['missing-flows', 'missing-flows'] : []));
+    const estimates = sampler.getEstimates()!;
+
+    expect(estimates.corruptionRate).toEqual(expect.objectContaining({ sampleCount: 4, rate: 0.1, estimatedCount: 100 }));
+    expect(estimates.corruptionRate.lower).toBeLessThan(0.1);
+    expect(estimates.corruptionRate.upper).toBeGreaterThan(0.1);
+    expect(estimates.byCorruptionType['missing-flows'].sampleCount).toBe(4);
+  });
+
+  it('should leave sampled integrations without an outcome out of the estimates', async () => {
+    const sampler = new IntegrationSampler(createSamplingOptions({ mode: 'stratified', size: '40', seed: '3', stratifyBy: 'edition' })!);
+    const sample: IntegrationSnapshot[] = [];
+    for await (const batch of sampler.select(inBatches(population))) {
+      sample.push(...batch);
+    }
+
+    // Quarantined integrations are skipped by the audit, so no outcome is recorded for them
+    const quarantinedId = sample.find(integration => integration.licenseEdition === 'premium')!.id;
+    sample
+      .map(integration => integration.id === quarantinedId ? { ...integration, quarantined: true } : integration)
+      .filter(integration => !integration.quarantined)
+      .forEach(integration => sampler.recordOutcome(integration, integration.licenseEdition === 'premium' ? ['missing-flows'] : []));
+    const estimates = sampler.getEstimates()!;
+
+    expect(estimates.excludedCount).toBe(1);
+    expect(estimates.sampleSize).toBe(40);
+    expect(estimates.corruptionRate).toEqual(expect.objectContaining({ sampleCount: 3, rate: 0.1, estimatedCount: 100 }));
+  });
+
+  it('should take the largest settings blobs and not extrapolate them', async () => {
+    const sampler = new IntegrationSampler({ mode: 'top-settings-size', size: 3 });
+    const ids = await drain(sampler, population);
+
+    expect(ids.map(id => population.find(integration => integration.id === id)!.settingsProfile!.sizeBytes))
+      .toEqual([999, 998, 997]);
+    expect(sampler.seed).toBeUndefined();
+    expect(sampler.getEstimates()).toBeUndefined();
+  });
+
+  it('should compute Wilson intervals that narrow to nothing for a census', () => {
+    const sampled = estimateProportion([{ key: 'all', population: 10000, sampled: 100 }], { all: 10 });
+    expect(sampled).toEqual(expect.objectContaining({ sampleCount: 10, rate: 0.1, estimatedCount: 1000 }));
+    expect(sampled.lower).toBeCloseTo(0.0554, 3);
+    expect(sampled.upper).toBeCloseTo(0.1739, 3);
+
+    const none = estimateProportion([{ key: 'all', population: 10000, sampled: 100 }], {});
+    expect(none.lower).toBe(0);
+    expect(none.upper).toBeGreaterThan(0.03);
+
+    const census = estimateProportion([{ key: 'all', population: 50, sampled: 50 }], { all: 5 });
+    expect(census).toEqual(expect.objectContaining({ rate: 0.1, lower: 0.1, upper: 0.1, estimatedCountLower: 5, estimatedCountUpper: 5 }));
+  });
+
+  it('should reject invalid sampling options', () => {
+    expect(createSamplingOptions({})).toBeUndefined();
+    expect(() => createSamplingOptions({ mode: 'systematic' })).toThrow('Unknown sampling mode: systematic');
+    expect(() => createSamplingOptions({ mode: 'random', size: '0' })).toThrow('Sample size must be a positive integer');
+    expect(() => createSamplingOptions({ mode: 'stratified', stratifyBy: 'email' })).toThrow('Unknown stratification field: email');
+  });
+});